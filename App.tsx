@@ -1,14 +1,14 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+  AppState,
   FlatList,
   ListRenderItemInfo,
   Modal,
   Platform,
   Pressable,
   SafeAreaView,
-  SectionList,
-  SectionListData,
-  SectionListRenderItemInfo,
+  ScrollView,
+  Share,
   StyleSheet,
   Text,
   TextInput,
@@ -17,13 +17,131 @@ import {
 } from 'react-native';
 import { openDatabaseAsync, SQLiteDatabase } from 'expo-sqlite';
 import * as Notifications from 'expo-notifications';
-import Svg, { Circle, Defs, LinearGradient as SvgLinearGradient, Polyline, Stop } from 'react-native-svg';
 import {
-  computeMetrics,
-  computeSparklinePoints,
+  Candle,
+  CANDLE_INTERVAL_MS,
+  CandleInterval,
+  capSymbols,
+  createCandleAggregator,
   formatTimestamp,
-  isUsMarketOpen,
+  mergeCandleSeries,
+  mergeUpdates,
+  mergeUpdatesBySymbol,
+  normalizeSymbol,
 } from './utils/market';
+import {
+  classifyClose,
+  describeFeedStatus,
+  describeLastMessage,
+  FeedStatus,
+  FeedTrade,
+} from './utils/feedClient';
+import {
+  AlertCondition,
+  AlertConditionKind,
+  AlertDirection,
+  AlertMarketState,
+  AlertRepeatMode,
+  AlertRules,
+  AlertThreshold,
+  DEFAULT_ALERT_RULES,
+  DEFAULT_REPEAT_COOLDOWN_MINUTES,
+  MIN_REPEAT_COOLDOWN_MINUTES,
+  MoveDirection,
+  MovingAverageKind,
+  parseLocalDateTime,
+  stepAlert,
+  validateAlertCondition,
+  validateAlertRules,
+} from './utils/alerts';
+import { useFeedClient } from './hooks/useFeedClient';
+import { useNow } from './hooks/useNow';
+import { useIndicators } from './hooks/useIndicators';
+import PriceChart from './components/PriceChart';
+import AlertRow from './components/AlertRow';
+import AlertsScreen from './components/AlertsScreen';
+import HistoryScreen from './components/HistoryScreen';
+import FavoriteChips from './components/FavoriteChips';
+import SettingsScreen from './components/SettingsScreen';
+import SymbolSuggestions from './components/SymbolSuggestions';
+import TradeRow from './components/TradeRow';
+import { Backfiller, BackfillOutcome, createBackfiller } from './storage/backfill';
+import { collectBackup, restoreBackup } from './storage/backup';
+import { exportData, ExportRequest } from './storage/dataExport';
+import { describeImport, importTrades } from './storage/dataImport';
+import { createMemorySymbolRepository } from './storage/memoryRepositories';
+import { migrateDatabase } from './storage/migrations';
+import {
+  AlertRepository,
+  BackfillRepository,
+  FavoritesRepository,
+  SettingsRepository,
+  StoredTrade,
+  TradeRepository,
+} from './storage/repositories';
+import { applyRetention } from './storage/retention';
+import {
+  createSqliteAlertRepository,
+  createSqliteBackfillRepository,
+  createSqliteFavoritesRepository,
+  createSqliteSettingsRepository,
+  createSqliteSymbolRepository,
+  createSqliteTradeRepository,
+} from './storage/sqliteRepositories';
+import { createSymbolSearch, SymbolCheck, SymbolSearch } from './storage/symbolSearch';
+import { createTradeWriteQueue, TradeWriteQueue } from './storage/tradeWriteQueue';
+import { createGapTracker, TimeRange } from './utils/backfill';
+import { BackupFormatError, backupFileName, parseBackup, serializeBackup } from './utils/backup';
+import { calendarForSymbol } from './utils/exchangeCalendars';
+import { ExportFormatError } from './utils/exportFormat';
+import { addFavorite, DEFAULT_FAVORITES, moveItem, rememberRecent } from './utils/favorites';
+import { createFinnhubRestClient, Quote } from './utils/finnhubRest';
+import {
+  appendHistoryPage,
+  EMPTY_HISTORY_FILTER,
+  HistoryCursor,
+  HistoryFilter,
+  HistorySection,
+  HistorySummary,
+  HistoryTrade,
+  pruneHistorySections,
+} from './utils/history';
+import {
+  DEFAULT_RETENTION_SETTINGS,
+  parseRetentionSettings,
+  RetentionSettings,
+  SymbolStorage,
+} from './utils/retention';
+import {
+  createStreamingProvider,
+  credentialNames,
+  DEFAULT_PROVIDER_SETTINGS,
+  isStreamingProvider,
+  missingCredentials,
+  PROVIDER_OPTIONS,
+  ProviderCredentials,
+  parseProviderSettings,
+  ProviderKind,
+  ProviderSettings,
+  ReplaySettings,
+} from './utils/marketData';
+import { createReplayProvider, parseTradeRecording } from './utils/replayFeed';
+import {
+  computeSessionMetrics,
+  DEFAULT_METRICS_BASELINE,
+  describeSessionMetrics,
+  fiftyTwoWeekRange,
+  METRICS_BASELINE_OPTIONS,
+  MetricsBaseline,
+  metricsWindow,
+  parseMetricsBaseline,
+  PriceRange,
+  YEAR_RANGE_MS,
+} from './utils/sessionMetrics';
+import { describeSession, marketSession } from './utils/sessions';
+import { createSyntheticProvider } from './utils/syntheticFeed';
+import { createSilenceMonitor, SymbolInfo } from './utils/symbols';
+import { createTickBuffer, DEFAULT_UI_REFRESH_MS, parseUiRefreshMs, TickBuffer, UiRefreshMs } from './utils/tickBuffer';
 
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
@@ -43,60 +161,341 @@ type PriceUpdate = {
   symbol: string;
   price: number;
   timestamp: number;
+  volume: number;
 };
 
-type HistoryEntry = {
-  key: string;
-  symbol: string;
-  price: number;
-  timestamp: number;
-};
+// Cached and live trades share one key shape so a stored row and its live twin collapse into one entry.
+const toPriceUpdate = (trade: StoredTrade): PriceUpdate => ({
+  key: `${trade.symbol}-${trade.timestamp}-${trade.price}`,
+  symbol: trade.symbol,
+  price: trade.price,
+  timestamp: trade.timestamp,
+  volume: trade.volume,
+});
 
-type HistorySection = {
-  title: string;
-  data: HistoryEntry[];
+type HistoryPage = {
+  filter: HistoryFilter;
+  summaries: HistorySummary[];
+  cursor: HistoryCursor | null;
+  // No trades past the cursor pass the filter.
+  done: boolean;
+  loading: boolean;
 };
 
-type AlertThreshold = {
-  id: string;
-  symbol: string;
-  direction: 'above' | 'below';
-  price: number;
-  triggered: boolean;
+const historyEmptyMessage = (filter: HistoryFilter) =>
+  Object.values(filter).some(value => value !== null && value !== '')
+    ? 'No stored trades match these filters.'
+    : 'No cached history yet.';
+
+type AlertExpiryPreset = 'never' | 'hour' | 'today' | 'week' | 'custom';
+
+// Raw text fields behind the alert modal; parsed into an AlertCondition on save.
+type AlertDraft = {
+  kind: AlertConditionKind;
+  direction: AlertDirection;
+  moveDirection: MoveDirection;
+  average: MovingAverageKind;
+  price: string;
+  percent: string;
+  minutes: string;
+  period: string;
+  multiple: string;
+  repeat: AlertRepeatMode;
+  hysteresis: string;
+  cooldown: string;
+  expiry: AlertExpiryPreset;
+  expiryText: string;
 };
 
-const FINNHUB_TOKEN = (process.env.EXPO_PUBLIC_FINNHUB_TOKEN ?? '').trim();
+const ALERT_KIND_OPTIONS: Array<{ kind: AlertConditionKind; label: string }> = [
+  { kind: 'price', label: 'Level' },
+  { kind: 'cross', label: 'Cross' },
+  { kind: 'percentMove', label: '% move' },
+  { kind: 'maCross', label: 'MA cross' },
+  { kind: 'volumeSpike', label: 'Volume' },
+  { kind: 'noTrades', label: 'Quiet' },
+];
+
+const ALERT_EXPIRY_OPTIONS: Array<{ value: AlertExpiryPreset; label: string }> = [
+  { value: 'never', label: 'Never' },
+  { value: 'hour', label: '1h' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: '1w' },
+  { value: 'custom', label: 'Date' },
+];
+
+const CREDENTIALS: ProviderCredentials = {
+  finnhubToken: (process.env.EXPO_PUBLIC_FINNHUB_TOKEN ?? '').trim(),
+  alpacaKeyId: (process.env.EXPO_PUBLIC_ALPACA_KEY_ID ?? '').trim(),
+  alpacaSecret: (process.env.EXPO_PUBLIC_ALPACA_SECRET ?? '').trim(),
+  polygonApiKey: (process.env.EXPO_PUBLIC_POLYGON_API_KEY ?? '').trim(),
+};
+// Unset environment variables per provider, for the settings hints.
+const MISSING_CREDENTIALS = Object.fromEntries(
+  PROVIDER_OPTIONS.map(option => [option.value, missingCredentials(option.value, CREDENTIALS)])
+) as Record<ProviderKind, string[]>;
 const DEFAULT_SYMBOL = 'AAPL';
-const QUICK_SYMBOLS = ['AAPL', 'TSLA', 'BINANCE:BTCUSDT'];
+const FAVORITES_MAX_ITEMS = 12;
+const RECENT_MAX_ITEMS = 8;
+const SYMBOL_SUGGESTION_LIMIT = 6;
+// Finnhub allows 60 REST calls a minute; searching per keystroke would burn through that while typing.
+const SYMBOL_SEARCH_DEBOUNCE_MS = 300;
+// A subscription with no trade in this long is flagged as possibly mistyped or outside market hours.
+const SILENT_SYMBOL_TIMEOUT_MS = 2 * 60 * 1000;
+const SILENCE_CHECK_INTERVAL_MS = 10 * 1000;
 const MAX_ITEMS = 20;
-const DB_MAX_ITEMS = 60;
+// Trades fetched per page as the history list scrolls.
+const HISTORY_PAGE_SIZE = 100;
+// Trades are written in batches; the retention policy runs as a periodic prune rather than on every insert.
+const TRADE_FLUSH_INTERVAL_MS = 1000;
+const TRADE_PRUNE_INTERVAL_MS = 30 * 1000;
+const RETENTION_SETTINGS_KEY = 'retention';
+const UI_REFRESH_SETTING_KEY = 'uiRefreshMs';
+const PROVIDER_SETTING_KEY = 'marketData';
+const METRICS_SETTING_KEY = 'metricsBaseline';
+// Without a token the app starts on simulated data instead of an idle, failing feed.
+const DEFAULT_PROVIDER_KIND: ProviderKind = CREDENTIALS.finnhubToken ? 'finnhub' : 'synthetic';
+// Newest stored trades per symbol played back by the replay provider.
+const REPLAY_MAX_PER_SYMBOL = 2000;
 const ALERT_MAX_ITEMS = 20;
+// Finnhub's free tier caps a single socket at 50 concurrent symbol subscriptions.
+const WATCHLIST_MAX_ITEMS = 50;
 const DB_NAME = 'priceUpdates.db';
+// How often idle candles are closed by the wall clock when no new trade for their symbol arrives.
+const CANDLE_SWEEP_INTERVAL_MS = 1000;
+const CHART_INTERVALS: CandleInterval[] = ['1m', '5m', '1h'];
+const CHART_MAX_BARS = 500;
+// Alerts read 1-minute bars; keep enough for the longest average period and percent window.
+const ALERT_BAR_INTERVAL: CandleInterval = '1m';
+const ALERT_MAX_BARS = 240;
+const ALERT_IDLE_CHECK_MS = 15 * 1000;
+// Shorter outages are covered by bars the aggregator closes late; longer ones are fetched from Finnhub.
+const BACKFILL_MIN_GAP_MS = 60 * 1000;
+const ALERT_HISTORY_MAX_ITEMS = 50;
+const ALL_ALERTS_MAX_ITEMS = 500;
+const HOUR_MS = 60 * 60 * 1000;
+// Session metrics read 1-minute bars; the 52-week range reads hourly ones.
+const METRICS_BAR_INTERVAL: CandleInterval = '1m';
+const YEAR_RANGE_INTERVAL: CandleInterval = '1h';
+
+const didYouMean = (suggestions: SymbolInfo[]): string =>
+  suggestions.length ? ` Did you mean ${suggestions.map(info => info.symbol).join(', ')}?` : '';
+
+// The warning shown after subscribing to a symbol that could not be verified, or null when it was.
+const describeUnverified = (symbol: string, check: SymbolCheck | null): string | null => {
+  if (check?.status !== 'unverified') {
+    return null;
+  }
+  return `${symbol} could not be verified and may not stream.${didYouMean(check.suggestions)}`;
+};
+
+const draftFromPrice = (price: number | undefined): AlertDraft => ({
+  kind: 'price',
+  direction: 'above',
+  moveDirection: 'either',
+  average: 'sma',
+  price: price ? price.toFixed(2) : '',
+  percent: '3',
+  minutes: '15',
+  period: '20',
+  multiple: '3',
+  repeat: DEFAULT_ALERT_RULES.repeat,
+  hysteresis: String(DEFAULT_ALERT_RULES.hysteresisPercent),
+  cooldown: String(DEFAULT_ALERT_RULES.cooldownMinutes),
+  expiry: 'never',
+  expiryText: '',
+});
+
+const conditionFromDraft = (draft: AlertDraft): AlertCondition => {
+  switch (draft.kind) {
+    case 'price':
+    case 'cross':
+      return { kind: draft.kind, direction: draft.direction, price: Number(draft.price) };
+    case 'percentMove':
+      return {
+        kind: 'percentMove',
+        direction: draft.moveDirection,
+        percent: Number(draft.percent),
+        windowMinutes: Number(draft.minutes),
+      };
+    case 'maCross':
+      return { kind: 'maCross', direction: draft.direction, average: draft.average, period: Number(draft.period) };
+    case 'volumeSpike':
+      return { kind: 'volumeSpike', multiple: Number(draft.multiple), lookback: Number(draft.period) };
+    case 'noTrades':
+      return { kind: 'noTrades', minutes: Number(draft.minutes) };
+  }
+};
+
+// Everything the app reads from `app_settings`, on launch and again after a restore.
+const readSavedSettings = async (repo: SettingsRepository) => ({
+  retention: parseRetentionSettings(await repo.getSetting(RETENTION_SETTINGS_KEY)),
+  refreshMs: parseUiRefreshMs(await repo.getSetting(UI_REFRESH_SETTING_KEY)),
+  provider: parseProviderSettings(await repo.getSetting(PROVIDER_SETTING_KEY), DEFAULT_PROVIDER_KIND),
+  baseline: parseMetricsBaseline(await repo.getSetting(METRICS_SETTING_KEY)),
+});
+
+// Import sources are pasted file contents or an http(s) link to the file.
+const readTransferSource = async (source: string): Promise<string> => {
+  const trimmed = source.trim();
+  if (!/^https?:\/\/\S+$/i.test(trimmed)) {
+    return trimmed;
+  }
+  const response = await fetch(trimmed);
+  if (!response.ok) {
+    throw new Error(`Download failed with ${response.status}`);
+  }
+  return response.text();
+};
+
+// Returns null when the custom expiry text does not parse.
+const rulesFromDraft = (draft: AlertDraft, now: number): AlertRules | null => {
+  let expiresAt: number | null = null;
+  if (draft.expiry === 'hour') {
+    expiresAt = now + HOUR_MS;
+  } else if (draft.expiry === 'today') {
+    const endOfDay = new Date(now);
+    endOfDay.setHours(23, 59, 59, 999);
+    expiresAt = endOfDay.getTime();
+  } else if (draft.expiry === 'week') {
+    expiresAt = now + 7 * 24 * HOUR_MS;
+  } else if (draft.expiry === 'custom') {
+    expiresAt = parseLocalDateTime(draft.expiryText);
+    if (expiresAt === null) {
+      return null;
+    }
+  }
+  return {
+    repeat: draft.repeat,
+    hysteresisPercent: Number(draft.hysteresis),
+    cooldownMinutes: Number(draft.cooldown),
+    expiresAt,
+  };
+};
 
 export default function App(): JSX.Element {
   const [activeSymbol, setActiveSymbol] = useState(DEFAULT_SYMBOL);
   const [symbolInput, setSymbolInput] = useState(DEFAULT_SYMBOL);
-  const [updates, setUpdates] = useState<PriceUpdate[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'open' | 'closed' | 'error'>('connecting');
+  // Suggestions follow the input only while the user is typing, not when a selection fills it in.
+  const [symbolEditing, setSymbolEditing] = useState(false);
+  const [suggestions, setSuggestions] = useState<SymbolInfo[]>([]);
+  const [symbolWarning, setSymbolWarning] = useState<string | null>(null);
+  // Kept apart from `errorMessage`, which the next batch of trades clears.
+  const [symbolError, setSymbolError] = useState<string | null>(null);
+  // Subscribed symbols that have not delivered a trade since they were subscribed.
+  const [silentSymbols, setSilentSymbols] = useState<string[]>([]);
+  const [watchlist, setWatchlist] = useState<string[]>([DEFAULT_SYMBOL]);
+  const [favorites, setFavorites] = useState<string[]>(DEFAULT_FAVORITES);
+  const [recentSymbols, setRecentSymbols] = useState<string[]>([]);
+  const [buffers, setBuffers] = useState<Record<string, PriceUpdate[]>>({});
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [freshTimestamp, setFreshTimestamp] = useState<number | null>(null);
   const [isDbReady, setIsDbReady] = useState(false);
-  const [isUsMarketOpen, setIsUsMarketOpen] = useState<boolean | null>(null);
   const [historyVisible, setHistoryVisible] = useState(false);
   const [historySections, setHistorySections] = useState<HistorySection[]>([]);
+  const [historySummaries, setHistorySummaries] = useState<HistorySummary[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
+  const [historyLoadingMore, setHistoryLoadingMore] = useState(false);
   const [historyError, setHistoryError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+  const [transferBusy, setTransferBusy] = useState(false);
+  const [transferReport, setTransferReport] = useState<string[]>([]);
   const [alerts, setAlerts] = useState<AlertThreshold[]>([]);
+  // Symbols with at least one live alert; they stay subscribed even when not on the watchlist.
+  const [alertSymbols, setAlertSymbols] = useState<string[]>([]);
+  const [allAlerts, setAllAlerts] = useState<AlertThreshold[]>([]);
+  const [allAlertsVisible, setAllAlertsVisible] = useState(false);
+  const [allAlertsLoading, setAllAlertsLoading] = useState(false);
+  // Bumped after any alert write so every alert view reloads from SQLite.
+  const [alertsVersion, setAlertsVersion] = useState(0);
   const [alertModalVisible, setAlertModalVisible] = useState(false);
-  const [alertDirection, setAlertDirection] = useState<'above' | 'below'>('above');
-  const [alertPriceText, setAlertPriceText] = useState('');
+  const [alertDraft, setAlertDraft] = useState<AlertDraft>(() => draftFromPrice(undefined));
   const [alertError, setAlertError] = useState<string | null>(null);
   const [notificationAllowed, setNotificationAllowed] = useState(false);
-  const hasToken = FINNHUB_TOKEN.length > 0;
+  const [chartInterval, setChartInterval] = useState<CandleInterval>('1m');
+  const [storedCandles, setStoredCandles] = useState<Candle[]>([]);
+  // Stored 1-minute bars of the focused symbol's metrics window and the session before it.
+  const [metricBars, setMetricBars] = useState<Candle[]>([]);
+  const [yearRange, setYearRange] = useState<PriceRange | null>(null);
+  const [metricsBaseline, setMetricsBaseline] = useState<MetricsBaseline>(DEFAULT_METRICS_BASELINE);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [backfillNote, setBackfillNote] = useState<string | null>(null);
+  const [retentionSettings, setRetentionSettings] = useState<RetentionSettings>(DEFAULT_RETENTION_SETTINGS);
+  const [settingsVisible, setSettingsVisible] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<SymbolStorage[]>([]);
+  const [storageLoading, setStorageLoading] = useState(false);
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [uiRefreshMs, setUiRefreshMs] = useState<UiRefreshMs>(DEFAULT_UI_REFRESH_MS);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => ({
+    ...DEFAULT_PROVIDER_SETTINGS,
+    kind: DEFAULT_PROVIDER_KIND,
+  }));
+  // The feed waits for the saved provider so it does not briefly start the default one.
+  const [providerLoaded, setProviderLoaded] = useState(false);
+  // Finnhub's REST history matches real markets only; simulated and replayed prices must not mix with it.
+  const backfillActive = isStreamingProvider(providerSettings.kind) && CREDENTIALS.finnhubToken.length > 0;
+  const updates = useMemo(() => buffers[activeSymbol] ?? [], [buffers, activeSymbol]);
+  // One socket serves the watchlist first, then every other symbol an alert is waiting on.
+  const feedSymbols = useMemo(
+    () => capSymbols(watchlist, alertSymbols, WATCHLIST_MAX_ITEMS),
+    [watchlist, alertSymbols]
+  );
+  // Symbols the storage screen offers a retention override for.
+  const settingsSymbols = useMemo(
+    () => Array.from(new Set([...watchlist, ...storageUsage.map(item => item.symbol)])),
+    [watchlist, storageUsage]
+  );
+  // The focused symbol first, then the watchlist and anything else with cached trades.
+  const exportSymbols = useMemo(
+    () => Array.from(new Set([activeSymbol, ...watchlist, ...historySummaries.map(summary => summary.symbol)])),
+    [activeSymbol, watchlist, historySummaries]
+  );
 
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const dbRef = useRef<SQLiteDatabase | null>(null);
+  const tradeRepoRef = useRef<TradeRepository | null>(null);
+  const alertRepoRef = useRef<AlertRepository | null>(null);
+  const settingsRepoRef = useRef<SettingsRepository | null>(null);
+  const backfillRepoRef = useRef<BackfillRepository | null>(null);
+  const favoritesRepoRef = useRef<FavoritesRepository | null>(null);
+  // Only set when a Finnhub token is configured.
+  const backfillerRef = useRef<Backfiller | null>(null);
+  const gapTrackerRef = useRef(createGapTracker(BACKFILL_MIN_GAP_MS));
+  // Searches the bundled list until storage opens, then cached and Finnhub results too.
+  const symbolSearchRef = useRef<SymbolSearch>(
+    createSymbolSearch({ store: createMemorySymbolRepository(), rest: null })
+  );
+  const silenceMonitorRef = useRef(createSilenceMonitor(SILENT_SYMBOL_TIMEOUT_MS));
+  const tradeQueueRef = useRef<TradeWriteQueue | null>(null);
+  // Where the history list's next page starts; replaced whenever the filter changes.
+  const historyPageRef = useRef<HistoryPage>({
+    filter: EMPTY_HISTORY_FILTER,
+    summaries: [],
+    cursor: null,
+    done: true,
+    loading: false,
+  });
+  // Bumped on every reload so a page requested under an older filter is dropped.
+  const historyGenerationRef = useRef(0);
+  // Read by the write queue's periodic prune, which outlives any one render.
+  const retentionSettingsRef = useRef<RetentionSettings>(DEFAULT_RETENTION_SETTINGS);
+  // Callbacks that outlive symbol/watchlist changes read the latest values through refs.
+  const activeSymbolRef = useRef(activeSymbol);
+  const watchlistRef = useRef(watchlist);
+  const feedSymbolsRef = useRef(feedSymbols.symbols);
+  const hydratedSymbolsRef = useRef<Set<string>>(new Set());
+  const candleAggregatorRef = useRef(createCandleAggregator());
+  const chartIntervalRef = useRef(chartInterval);
+  // Per-symbol market state the alert evaluator reads: the last trade and recent finished 1-minute bars.
+  const lastTradesRef = useRef<Record<string, { price: number; timestamp: number }>>({});
+  const alertBarsRef = useRef<Record<string, Candle[]>>({});
+  // Evaluations for one symbol run one after another so two quick trades cannot both fire the same alert.
+  const alertQueueRef = useRef<Record<string, Promise<void>>>({});
+  // Live alerts per symbol, cached so a trade does not cost an alert query; cleared whenever an alert changes.
+  const liveAlertsRef = useRef<Record<string, AlertThreshold[]>>({});
+  // Trades reach React state through this buffer, one commit per refresh instead of one per trade.
+  const tickBufferRef = useRef<TickBuffer<PriceUpdate> | null>(null);
+  const providerKindRef = useRef(providerSettings.kind);
 
   useEffect(() => {
     const ensurePermissionsAsync = async () => {
@@ -129,286 +528,589 @@ export default function App(): JSX.Element {
     void ensurePermissionsAsync();
   }, []);
 
-  useEffect(() => {
-    const updateMarketStatus = () => {
-      setIsUsMarketOpen(isUsMarketOpen(new Date()));
-    };
+  // Replay the most recent trades for a symbol from SQLite when the app boots or the user switches symbols.
+  const loadCachedUpdates = useCallback(async (symbol: string) => {
+    const trades = tradeRepoRef.current;
+    if (!trades) {
+      return;
+    }
 
-    updateMarketStatus();
-    const timer = setInterval(updateMarketStatus, 60 * 1000);
-    return () => clearInterval(timer);
+    try {
+      const loaded = (await trades.recentTrades(symbol, MAX_ITEMS)).map(toPriceUpdate);
+
+      setBuffers(prev => ({ ...prev, [symbol]: mergeUpdates(prev[symbol] ?? [], loaded, MAX_ITEMS) }));
+    } catch (err) {
+      console.warn('SQLite read error', err);
+      setErrorMessage('Failed to load cached data.');
+    }
   }, []);
 
-  // Replay the most recent trades for a symbol from SQLite when the app boots or the user switches symbols.
-  const loadCachedUpdates = useCallback(async (symbol: string) => {
-    const db = dbRef.current;
-    if (!db) {
+  // Load stored bars for the chart; the in-progress bar is overlaid from the aggregator at render time.
+  const loadCandles = useCallback(async (symbol: string, interval: CandleInterval) => {
+    const trades = tradeRepoRef.current;
+    if (!trades) {
       return;
     }
 
     try {
-      const rows = await db.getAllAsync(
-        `SELECT symbol, price, timestamp FROM price_updates WHERE symbol = ? ORDER BY timestamp DESC LIMIT ?;`,
-        [symbol, MAX_ITEMS]
-      );
+      setStoredCandles(await trades.recentCandles(symbol, interval, CHART_MAX_BARS));
+    } catch (err) {
+      console.warn('SQLite candle read error', err);
+    }
+  }, []);
+
+  const noteBackfill = useCallback((outcome: BackfillOutcome) => {
+    if (outcome === 'offline') {
+      setBackfillNote('Offline: history shows stored bars only.');
+    } else if (outcome === 'unavailable') {
+      setBackfillNote('Finnhub history is unavailable; showing stored bars.');
+    } else if (outcome === 'filled' || outcome === 'fresh') {
+      setBackfillNote(null);
+    }
+  }, []);
+
+  // Fetch the chart's missing or stale bars from Finnhub, then reload the chart if it still shows that series.
+  const backfillChart = useCallback(
+    async (symbol: string, interval: CandleInterval) => {
+      const backfiller = backfillerRef.current;
+      if (!backfiller) {
+        return;
+      }
+      const outcome = await backfiller.backfillRecent(symbol, interval, CHART_MAX_BARS);
+      noteBackfill(outcome);
+      if (outcome === 'filled' && symbol === activeSymbolRef.current && interval === chartIntervalRef.current) {
+        await loadCandles(symbol, interval);
+      }
+    },
+    [loadCandles, noteBackfill]
+  );
 
-      const loaded: PriceUpdate[] = rows.map((row, index) => {
-        const symbolValue = typeof row.symbol === 'string' ? row.symbol : String(row.symbol ?? '');
-        const priceValue = typeof row.price === 'number' ? row.price : Number(row.price);
-        const timestampValue = typeof row.timestamp === 'number' ? row.timestamp : Number(row.timestamp);
-        return {
-          key: `${symbolValue}-${timestampValue}-${index}`,
-          symbol: symbolValue,
-          price: Number.isNaN(priceValue) ? 0 : priceValue,
-          timestamp: Number.isNaN(timestampValue) ? Date.now() : timestampValue,
-        };
+  // Fold finished 1-minute bars into the per-symbol window that bar-based alert conditions read.
+  const rememberAlertBars = useCallback((candles: Candle[]) => {
+    candles
+      .filter(candle => candle.interval === ALERT_BAR_INTERVAL)
+      .forEach(candle => {
+        const existing = alertBarsRef.current[candle.symbol] ?? [];
+        alertBarsRef.current[candle.symbol] = mergeCandleSeries(existing, [candle]).slice(-ALERT_MAX_BARS);
       });
+  }, []);
+
+  // Seed a symbol's alert bars from SQLite so averages and windows work right after launch.
+  const loadAlertBars = useCallback(
+    async (symbol: string) => {
+      const trades = tradeRepoRef.current;
+      if (!trades) {
+        return;
+      }
+      try {
+        rememberAlertBars(await trades.recentCandles(symbol, ALERT_BAR_INTERVAL, ALERT_MAX_BARS));
+      } catch (err) {
+        console.warn('SQLite alert bar read error', err);
+      }
+    },
+    [rememberAlertBars]
+  );
+
+  // Restore the persisted watchlist, seeding it with the in-memory list on first launch.
+  const loadWatchlist = useCallback(async () => {
+    const repo = favoritesRepoRef.current;
+    if (!repo) {
+      return;
+    }
+
+    try {
+      const restored = await repo.listWatchlist();
+      if (!restored.length) {
+        await repo.saveWatchlist(watchlistRef.current);
+        return;
+      }
 
-      setUpdates(loaded);
+      setWatchlist(restored);
+      if (!restored.includes(activeSymbolRef.current)) {
+        setActiveSymbol(restored[0]);
+        setSymbolInput(restored[0]);
+      }
+    } catch (err) {
+      console.warn('SQLite watchlist load error', err);
+    }
+  }, []);
+
+  const addToWatchlist = useCallback(async (symbol: string) => {
+    setWatchlist(prev => (prev.includes(symbol) ? prev : [...prev, symbol]));
+    try {
+      await favoritesRepoRef.current?.addToWatchlist(symbol);
+    } catch (err) {
+      console.warn('Watchlist insert error', err);
+    }
+  }, []);
+
+  const removeFromWatchlist = useCallback(async (symbol: string) => {
+    const remaining = watchlistRef.current.filter(item => item !== symbol);
+    setWatchlist(remaining);
+    setBuffers(prev => {
+      const { [symbol]: _removed, ...rest } = prev;
+      return rest;
+    });
+    hydratedSymbolsRef.current.delete(symbol);
+    if (symbol === activeSymbolRef.current && remaining.length) {
+      setActiveSymbol(remaining[0]);
+      setSymbolInput(remaining[0]);
       setFreshTimestamp(null);
-      setErrorMessage(null);
+    }
+
+    try {
+      await favoritesRepoRef.current?.removeFromWatchlist(symbol);
     } catch (err) {
-      console.warn('SQLite read error', err);
-      setErrorMessage('Failed to load cached data.');
+      console.warn('Watchlist delete error', err);
+    }
+  }, []);
+
+  const loadFavorites = useCallback(async () => {
+    const repo = favoritesRepoRef.current;
+    if (!repo) {
+      return;
+    }
+    try {
+      setFavorites(await repo.listFavorites());
+      setRecentSymbols(await repo.recentSymbols(RECENT_MAX_ITEMS));
+    } catch (err) {
+      console.warn('SQLite favorites load error', err);
+    }
+  }, []);
+
+  const saveFavorites = useCallback(async (next: string[]) => {
+    setFavorites(next);
+    try {
+      await favoritesRepoRef.current?.saveFavorites(next);
+    } catch (err) {
+      console.warn('Favorites save error', err);
+    }
+  }, []);
+
+  const rememberSymbol = useCallback(async (symbol: string) => {
+    setRecentSymbols(prev => rememberRecent(prev, symbol, RECENT_MAX_ITEMS));
+    try {
+      await favoritesRepoRef.current?.touchRecent(symbol, Date.now(), RECENT_MAX_ITEMS);
+    } catch (err) {
+      console.warn('Recent symbols save error', err);
     }
   }, []);
 
   // Pull the stored alert thresholds for the active symbol.
   const loadAlerts = useCallback(async (symbol: string) => {
-    const db = dbRef.current;
-    if (!db) {
+    const alertRepo = alertRepoRef.current;
+    if (!alertRepo) {
       setAlerts([]);
       return;
     }
     try {
-      const rows = await db.getAllAsync(
-        `SELECT id, symbol, direction, price, triggered
-         FROM price_alerts
-         WHERE symbol = ?
-         ORDER BY triggered ASC, price ASC
-         LIMIT ?;`,
-        [symbol, ALERT_MAX_ITEMS]
-      );
-      const nextAlerts: AlertThreshold[] = rows.map(row => ({
-        id: String(row.id),
-        symbol: typeof row.symbol === 'string' ? row.symbol : String(row.symbol ?? ''),
-        direction: row.direction === 'below' ? 'below' : 'above',
-        price: typeof row.price === 'number' ? row.price : Number(row.price),
-        triggered: row.triggered === 1,
-      }));
-      setAlerts(nextAlerts);
+      setAlerts(await alertRepo.listForSymbol(symbol, ALERT_MAX_ITEMS));
     } catch (err) {
       console.warn('SQLite alerts load error', err);
     }
   }, []);
 
-  const loadHistory = useCallback(async () => {
-    const db = dbRef.current;
-    if (!db) {
+  const loadAllAlerts = useCallback(async () => {
+    const alertRepo = alertRepoRef.current;
+    if (!alertRepo) {
+      setAllAlerts([]);
+      setAllAlertsLoading(false);
+      return;
+    }
+    try {
+      setAllAlerts(await alertRepo.listAll(ALL_ALERTS_MAX_ITEMS));
+    } catch (err) {
+      console.warn('SQLite all alerts load error', err);
+    } finally {
+      setAllAlertsLoading(false);
+    }
+  }, []);
+
+  const loadAlertSymbols = useCallback(async () => {
+    const alertRepo = alertRepoRef.current;
+    if (!alertRepo) {
+      return;
+    }
+    try {
+      const next = await alertRepo.liveSymbols();
+      // Keep the previous array when nothing changed so the feed does not see a new symbol list.
+      setAlertSymbols(prev => (prev.join('|') === next.join('|') ? prev : next));
+    } catch (err) {
+      console.warn('SQLite alert symbols load error', err);
+    }
+  }, []);
+
+  // Read the first page and the per-symbol summaries for `filter`; later pages load as the list scrolls.
+  const loadHistory = useCallback(async (filter: HistoryFilter) => {
+    const generation = historyGenerationRef.current + 1;
+    historyGenerationRef.current = generation;
+    historyPageRef.current = { filter, summaries: [], cursor: null, done: true, loading: false };
+    setHistoryLoadingMore(false);
+    const trades = tradeRepoRef.current;
+    if (!trades) {
       setHistorySections([]);
+      setHistorySummaries([]);
       setHistoryLoading(false);
       setHistoryError('History unavailable until storage initializes.');
       return;
     }
 
+    setHistoryLoading(true);
+    setHistoryError(null);
     try {
-      const rows = await db.getAllAsync(
-        `SELECT symbol, price, timestamp FROM price_updates ORDER BY symbol ASC, timestamp DESC;`
-      );
-
-      const grouped = new Map<string, HistoryEntry[]>();
-
-      rows.forEach((row, index) => {
-        const symbolValue = typeof row.symbol === 'string' ? row.symbol : String(row.symbol ?? '');
-        const priceValue = typeof row.price === 'number' ? row.price : Number(row.price);
-        const timestampValue = typeof row.timestamp === 'number' ? row.timestamp : Number(row.timestamp);
-        const entry: HistoryEntry = {
-          key: `${symbolValue}-${timestampValue}-${index}`,
-          symbol: symbolValue,
-          price: Number.isNaN(priceValue) ? 0 : priceValue,
-          timestamp: Number.isNaN(timestampValue) ? Date.now() : timestampValue,
-        };
-
-        if (!grouped.has(symbolValue)) {
-          grouped.set(symbolValue, []);
-        }
-        grouped.get(symbolValue)?.push(entry);
-      });
-
-      const sortedSymbols = Array.from(grouped.keys()).sort((a, b) => a.localeCompare(b));
-      sortedSymbols.sort((a, b) => {
-        if (a === activeSymbol) {
-          return -1;
-        }
-        if (b === activeSymbol) {
-          return 1;
-        }
-        return a.localeCompare(b);
-      });
-
-      const sections: HistorySection[] = sortedSymbols.map(symbol => ({
-        title: symbol,
-        data: grouped.get(symbol) ?? [],
-      }));
-
-      setHistorySections(sections);
-      setHistoryError(sections.length ? null : 'No cached history yet.');
+      await tradeQueueRef.current?.flush();
+      const summaries = await trades.historySummaries(filter);
+      const page = await trades.browseTrades(filter, null, HISTORY_PAGE_SIZE);
+      if (generation !== historyGenerationRef.current) {
+        return;
+      }
+      historyPageRef.current = {
+        filter,
+        summaries,
+        cursor: page.length ? page[page.length - 1] : null,
+        done: page.length < HISTORY_PAGE_SIZE,
+        loading: false,
+      };
+      setHistorySummaries(summaries);
+      setHistorySections(appendHistoryPage([], page, summaries));
+      setHistoryError(page.length ? null : historyEmptyMessage(filter));
     } catch (err) {
       console.warn('SQLite history load error', err);
-      setHistoryError('Failed to load history.');
-      setHistorySections([]);
+      if (generation === historyGenerationRef.current) {
+        setHistoryError('Failed to load history.');
+        setHistorySections([]);
+      }
     } finally {
-      setHistoryLoading(false);
+      if (generation === historyGenerationRef.current) {
+        setHistoryLoading(false);
+      }
     }
-  }, [activeSymbol]);
+  }, []);
+
+  const handleLoadMoreHistory = useCallback(async () => {
+    const trades = tradeRepoRef.current;
+    const current = historyPageRef.current;
+    if (!trades || current.loading || current.done || !current.cursor) {
+      return;
+    }
+    const generation = historyGenerationRef.current;
+    historyPageRef.current = { ...current, loading: true };
+    setHistoryLoadingMore(true);
+    try {
+      const page = await trades.browseTrades(current.filter, current.cursor, HISTORY_PAGE_SIZE);
+      if (generation !== historyGenerationRef.current) {
+        return;
+      }
+      historyPageRef.current = {
+        ...current,
+        cursor: page.length ? page[page.length - 1] : current.cursor,
+        done: page.length < HISTORY_PAGE_SIZE,
+        loading: false,
+      };
+      setHistorySections(prev => appendHistoryPage(prev, page, current.summaries));
+    } catch (err) {
+      console.warn('SQLite history page error', err);
+      if (generation === historyGenerationRef.current) {
+        historyPageRef.current = { ...current, loading: false };
+      }
+    } finally {
+      if (generation === historyGenerationRef.current) {
+        setHistoryLoadingMore(false);
+      }
+    }
+  }, []);
+
+  // After a delete, re-read the summaries and drop what is gone. The cursor stays valid: it marks a position in
+  // the sort order rather than an offset, so later pages neither skip nor repeat trades.
+  const refreshHistoryAfterDelete = useCallback(
+    async (trades: TradeRepository, deletedIds: number[]) => {
+      const summaries = await trades.historySummaries(historyPageRef.current.filter);
+      historyPageRef.current = { ...historyPageRef.current, summaries };
+      const { cursor, filter } = historyPageRef.current;
+      setHistorySummaries(summaries);
+      // Pages appended while the summaries were read must survive, so prune whatever the list holds by now.
+      setHistorySections(prev => pruneHistorySections(prev, deletedIds, summaries));
+      if (!summaries.length) {
+        setHistoryError(historyEmptyMessage(filter));
+      } else if (cursor && !summaries.some(summary => summary.symbol <= cursor.symbol)) {
+        // Sections load in symbol order up to the cursor, so none are left on screen. An empty list never reaches
+        // its end, so fetch the next symbols here.
+        void handleLoadMoreHistory();
+      }
+    },
+    [handleLoadMoreHistory]
+  );
+
+  const handleDeleteHistoryTrade = useCallback(
+    async (trade: HistoryTrade) => {
+      const trades = tradeRepoRef.current;
+      if (!trades) {
+        return;
+      }
+      try {
+        await trades.deleteTradesById([trade.id]);
+        await refreshHistoryAfterDelete(trades, [trade.id]);
+      } catch (err) {
+        console.warn('SQLite history delete error', err);
+        setHistoryError('Failed to delete the trade.');
+      }
+    },
+    [refreshHistoryAfterDelete]
+  );
+
+  const handleDeleteHistorySection = useCallback(
+    async (symbol: string) => {
+      const trades = tradeRepoRef.current;
+      if (!trades) {
+        return;
+      }
+      try {
+        await tradeQueueRef.current?.flush();
+        await trades.deleteFilteredTrades(symbol, historyPageRef.current.filter);
+        await refreshHistoryAfterDelete(trades, []);
+      } catch (err) {
+        console.warn('SQLite history delete error', err);
+        setHistoryError(`Failed to delete ${symbol} trades.`);
+      }
+    },
+    [refreshHistoryAfterDelete]
+  );
 
-  // Write the newest trade to SQLite and prune the table so we only keep a capped history per symbol.
-  const persistUpdate = useCallback(async (update: PriceUpdate) => {
-    const db = dbRef.current;
-    if (!db) {
+  // Upsert finished candles; a late fragment for an already stored bar is merged in rather than replacing it.
+  // Bars from the synthetic and replay feeds are charted but never stored: they carry real tickers but not real
+  // prices, and replayed trades are re-stamped with the current time.
+  const persistCandles = useCallback(async (candles: Candle[]) => {
+    const trades = tradeRepoRef.current;
+    if (!trades || !candles.length) {
       return;
     }
 
     try {
-      await db.runAsync(
-        `INSERT INTO price_updates (symbol, price, timestamp) VALUES (?, ?, ?);`,
-        [update.symbol, update.price, update.timestamp]
+      if (isStreamingProvider(providerKindRef.current)) {
+        await trades.saveCandles(candles);
+      }
+      const charted = candles.filter(
+        candle => candle.symbol === activeSymbolRef.current && candle.interval === chartIntervalRef.current
       );
-      await db.runAsync(
-        `DELETE FROM price_updates
-         WHERE symbol = ?
-           AND id NOT IN (
-             SELECT id FROM price_updates
-             WHERE symbol = ?
-             ORDER BY timestamp DESC
-             LIMIT ?
-           );`,
-        [update.symbol, update.symbol, DB_MAX_ITEMS]
+      if (charted.length) {
+        setStoredCandles(prev => mergeCandleSeries(prev, charted));
+      }
+      const measured = candles.filter(
+        candle => candle.symbol === activeSymbolRef.current && candle.interval === METRICS_BAR_INTERVAL
       );
+      if (measured.length) {
+        setMetricBars(prev => mergeCandleSeries(prev, measured));
+      }
     } catch (err) {
-      console.warn('SQLite write error', err);
+      console.warn('SQLite candle write error', err);
     }
   }, []);
 
-  // Evaluate stored alerts against the latest trade and dispatch local notifications.
-  const checkAlertsForUpdate = useCallback(
-    async (update: PriceUpdate) => {
-      const db = dbRef.current;
-      if (!db) {
+  // Every alert write goes through here so the evaluator's cache and the alert lists both pick it up.
+  const alertsChanged = useCallback(() => {
+    liveAlertsRef.current = {};
+    setAlertsVersion(version => version + 1);
+  }, []);
+
+  // Step a symbol's live alerts against its market state, record firings and dispatch local notifications.
+  const checkAlerts = useCallback(
+    async (symbol: string, market: AlertMarketState) => {
+      const alertRepo = alertRepoRef.current;
+      if (!alertRepo) {
         return;
       }
 
       try {
-        const rows = await db.getAllAsync(
-          `SELECT id, direction, price FROM price_alerts WHERE symbol = ? AND triggered = 0;`,
-          [update.symbol]
-        );
-
-        if (!rows.length) {
-          return;
+        let live = liveAlertsRef.current[symbol];
+        if (!live) {
+          live = await alertRepo.listLive(symbol);
+          liveAlertsRef.current[symbol] = live;
         }
+        // Without a trade only the quiet-feed condition can change, so timer checks skip everything else.
+        const candidates = market.price === null ? live.filter(alert => alert.condition.kind === 'noTrades') : live;
+
+        let changed = false;
+        for (const alert of candidates) {
+          const step = stepAlert(
+            alert.condition,
+            alert.rules,
+            { status: alert.status, paused: alert.paused, lastFiredAt: alert.lastFiredAt, armedAt: alert.createdAt },
+            market
+          );
+          if (step.type === 'idle') {
+            continue;
+          }
+          changed = true;
 
-        const triggeredIds: number[] = [];
-        await Promise.all(
-          rows.map(async row => {
-            const direction = row.direction === 'below' ? 'below' : 'above';
-            const priceValue = typeof row.price === 'number' ? row.price : Number(row.price);
-            if (Number.isNaN(priceValue)) {
-              return;
-            }
-
-            const isTriggered =
-              (direction === 'above' && update.price >= priceValue) ||
-              (direction === 'below' && update.price <= priceValue);
+          if (step.type === 'expire' || step.type === 'rearm') {
+            await alertRepo.setStatus(alert.id, step.type === 'expire' ? 'expired' : 'armed');
+            continue;
+          }
 
-            if (!isTriggered) {
-              return;
-            }
+          await alertRepo.recordFiring(
+            alert.id,
+            { firedAt: market.now, status: step.status, value: step.match.value, message: step.match.message },
+            ALERT_HISTORY_MAX_ITEMS
+          );
 
-            triggeredIds.push(row.id);
-
-            if (notificationAllowed) {
-              try {
-                await Notifications.scheduleNotificationAsync({
-                  content: {
-                    title: `${update.symbol} price alert`,
-                    body:
-                      direction === 'above'
-                        ? `Price moved above ${priceValue.toFixed(2)} (now ${update.price.toFixed(2)}).`
-                        : `Price fell below ${priceValue.toFixed(2)} (now ${update.price.toFixed(2)}).`,
-                    channelId: Platform.OS === 'android' ? 'price-alerts' : undefined,
-                  },
-                  trigger: null,
-                });
-              } catch (err) {
-                console.warn('Notification scheduling error', err);
-              }
+          if (notificationAllowed) {
+            try {
+              await Notifications.scheduleNotificationAsync({
+                content: {
+                  title: `${symbol} price alert`,
+                  body: step.match.message,
+                  channelId: Platform.OS === 'android' ? 'price-alerts' : undefined,
+                },
+                trigger: null,
+              });
+            } catch (err) {
+              console.warn('Notification scheduling error', err);
             }
-          })
-        );
+          }
+        }
 
-        if (triggeredIds.length) {
-          const placeholders = triggeredIds.map(() => '?').join(', ');
-          await db.runAsync(
-            `UPDATE price_alerts SET triggered = 1 WHERE id IN (${placeholders});`,
-            triggeredIds
-          );
-          await loadAlerts(update.symbol);
+        if (changed) {
+          alertsChanged();
         }
       } catch (err) {
         console.warn('Alert evaluation error', err);
+        alertsChanged();
       }
     },
-    [loadAlerts, notificationAllowed]
+    [alertsChanged, notificationAllowed]
+  );
+
+  const enqueueAlertCheck = useCallback(
+    (symbol: string, market: AlertMarketState) => {
+      const previous = alertQueueRef.current[symbol] ?? Promise.resolve();
+      const next = previous.then(() => checkAlerts(symbol, market));
+      alertQueueRef.current[symbol] = next;
+      return next;
+    },
+    [checkAlerts]
   );
 
-  const persistAndCheckUpdate = useCallback(
-    async (update: PriceUpdate) => {
-      await persistUpdate(update);
-      await checkAlertsForUpdate(update);
+  // Snapshot what the alert evaluator needs for a symbol; `price` is null for timer-driven checks.
+  const buildMarketState = useCallback(
+    (symbol: string, price: number | null, previousPrice: number | null): AlertMarketState => {
+      const forming = candleAggregatorRef.current.getOpenCandles(symbol, ALERT_BAR_INTERVAL);
+      return {
+        now: Date.now(),
+        price,
+        previousPrice,
+        lastTradeAt: lastTradesRef.current[symbol]?.timestamp ?? null,
+        bars: alertBarsRef.current[symbol] ?? [],
+        formingBar: forming.length ? forming[forming.length - 1] : null,
+      };
     },
-    [checkAlertsForUpdate, persistUpdate]
+    []
   );
 
-  // Normalize user input and trigger a subscription switch.
+  // Normalize user input, check it against the symbol directory, add it to the watchlist and focus it; the shared
+  // socket picks up the new subscription. Symbols Finnhub does not list are refused with suggestions instead.
   const applySymbol = useCallback(
-    (rawSymbol: string) => {
-      const normalized = rawSymbol.trim().toUpperCase();
+    async (rawSymbol: string) => {
+      const normalized = normalizeSymbol(rawSymbol);
+      setSymbolEditing(false);
       if (!normalized) {
         setErrorMessage('Enter a symbol to subscribe.');
         return;
       }
 
+      if (!watchlist.includes(normalized) && watchlist.length >= WATCHLIST_MAX_ITEMS) {
+        setErrorMessage(`Watchlist is limited to ${WATCHLIST_MAX_ITEMS} symbols. Remove one first.`);
+        return;
+      }
+
+      // Watched symbols were checked when they were added.
+      const check = watchlist.includes(normalized)
+        ? null
+        : await symbolSearchRef.current.check(normalized).catch(err => {
+            console.warn('Symbol check error', err);
+            return null;
+          });
+      // An unknown symbol keeps the suggestions it came with, so the right one is a tap away.
+      setSuggestions(check?.status === 'unknown' ? check.suggestions : []);
+      if (check?.status === 'invalid') {
+        setSymbolError(`${normalized} is not a valid symbol.`);
+        return;
+      }
+      if (check?.status === 'unknown') {
+        setSymbolError(`Unknown symbol ${normalized}.${didYouMean(check.suggestions)}`);
+        return;
+      }
+      setSymbolError(null);
+
       setSymbolInput(normalized);
       setErrorMessage(null);
+      setSymbolWarning(describeUnverified(normalized, check));
+      void addToWatchlist(normalized);
+      void rememberSymbol(normalized);
 
       if (normalized === activeSymbol) {
         return;
       }
 
       setActiveSymbol(normalized);
-      setUpdates([]);
       setFreshTimestamp(null);
-      setErrorMessage(null);
     },
-    [activeSymbol]
+    [activeSymbol, addToWatchlist, rememberSymbol, watchlist]
   );
 
+  // Focus a symbol that is already streaming; no socket work is needed.
+  const handleSelectWatchlistSymbol = useCallback((symbol: string) => {
+    setActiveSymbol(symbol);
+    setSymbolInput(symbol);
+    setSymbolEditing(false);
+    setSuggestions([]);
+    setFreshTimestamp(null);
+    setErrorMessage(null);
+    setSymbolError(null);
+    setSymbolWarning(null);
+  }, []);
+
   const handleApplySymbol = useCallback(() => {
-    applySymbol(symbolInput);
+    void applySymbol(symbolInput);
   }, [applySymbol, symbolInput]);
 
   const handleQuickSelect = useCallback(
     (ticker: string) => {
-      applySymbol(ticker);
+      void applySymbol(ticker);
     },
     [applySymbol]
   );
 
+  const handleAddFavorite = useCallback(() => {
+    const next = addFavorite(favorites, activeSymbol, FAVORITES_MAX_ITEMS);
+    if (!next) {
+      setErrorMessage(`Favorites are limited to ${FAVORITES_MAX_ITEMS} symbols. Long-press one to remove it.`);
+      return;
+    }
+    void saveFavorites(next);
+  }, [activeSymbol, favorites, saveFavorites]);
+
+  const handleRemoveFavorite = useCallback(
+    (symbol: string) => {
+      void saveFavorites(favorites.filter(item => item !== symbol));
+    },
+    [favorites, saveFavorites]
+  );
+
+  const handleMoveFavorite = useCallback(
+    (from: number, to: number) => {
+      void saveFavorites(moveItem(favorites, from, to));
+    },
+    [favorites, saveFavorites]
+  );
+
+  const handleSymbolInputChange = useCallback((text: string) => {
+    setSymbolInput(text.toUpperCase());
+    setSymbolEditing(true);
+    setSymbolError(null);
+  }, []);
+
   const handleOpenAlertModal = useCallback(() => {
-    const latestPrice = updates[0]?.price;
-    setAlertPriceText(latestPrice ? latestPrice.toFixed(2) : '');
-    setAlertDirection('above');
+    setAlertDraft(draftFromPrice(updates[0]?.price));
     setAlertError(null);
     setAlertModalVisible(true);
   }, [updates]);
@@ -418,58 +1120,95 @@ export default function App(): JSX.Element {
     setAlertError(null);
   }, []);
 
-  const handleRemoveAlert = useCallback(async (alertId: string) => {
-    const db = dbRef.current;
-    if (!db) {
+  const handleRemoveAlert = useCallback(async (alert: AlertThreshold) => {
+    const alertRepo = alertRepoRef.current;
+    if (!alertRepo) {
       return;
     }
     try {
-      await db.runAsync(`DELETE FROM price_alerts WHERE id = ?;`, [Number(alertId)]);
-      await loadAlerts(activeSymbol);
+      await alertRepo.remove(alert.id);
+      alertsChanged();
     } catch (err) {
       console.warn('Alert delete error', err);
     }
-  }, [activeSymbol, loadAlerts]);
+  }, [alertsChanged]);
+
+  const handleToggleAlertPaused = useCallback(async (alert: AlertThreshold) => {
+    const alertRepo = alertRepoRef.current;
+    if (!alertRepo) {
+      return;
+    }
+    try {
+      await alertRepo.setPaused(alert.id, !alert.paused);
+      alertsChanged();
+    } catch (err) {
+      console.warn('Alert pause error', err);
+    }
+  }, [alertsChanged]);
+
+  // Put a fired or expired alert back into service; an expiry that has passed is cleared rather than re-applied.
+  const handleRearmAlert = useCallback(async (alert: AlertThreshold) => {
+    const alertRepo = alertRepoRef.current;
+    if (!alertRepo) {
+      return;
+    }
+    try {
+      await alertRepo.rearm(alert.id, Date.now());
+      alertsChanged();
+    } catch (err) {
+      console.warn('Alert re-arm error', err);
+    }
+  }, [alertsChanged]);
+
+  const handleOpenAllAlerts = useCallback(() => {
+    setAllAlertsVisible(true);
+    setAllAlertsLoading(true);
+    void loadAllAlerts();
+  }, [loadAllAlerts]);
+
+  const handleCloseAllAlerts = useCallback(() => {
+    setAllAlertsVisible(false);
+  }, []);
+
+  const updateAlertDraft = useCallback((patch: Partial<AlertDraft>) => {
+    setAlertDraft(prev => ({ ...prev, ...patch }));
+    setAlertError(null);
+  }, []);
 
-  // Persist a new alert threshold for the current symbol.
+  // Persist a new alert condition for the current symbol.
   const handleSaveAlert = useCallback(async () => {
-    const db = dbRef.current;
-    if (!db) {
+    const alertRepo = alertRepoRef.current;
+    if (!alertRepo) {
       setAlertError('Storage not ready yet.');
       return;
     }
 
-    const price = Number(alertPriceText);
-    if (Number.isNaN(price) || price <= 0) {
-      setAlertError('Enter a valid price greater than zero.');
+    const now = Date.now();
+    const condition = conditionFromDraft(alertDraft);
+    const rules = rulesFromDraft(alertDraft, now);
+    if (!rules) {
+      setAlertError('Enter the expiry as YYYY-MM-DD HH:MM.');
+      return;
+    }
+    const validationError = validateAlertCondition(condition) ?? validateAlertRules(rules, now);
+    if (validationError) {
+      setAlertError(validationError);
       return;
     }
 
     try {
-      await db.runAsync(
-        `INSERT INTO price_alerts (symbol, direction, price, triggered) VALUES (?, ?, ?, 0);`,
-        [activeSymbol, alertDirection, price]
-      );
-      await db.runAsync(
-        `DELETE FROM price_alerts
-         WHERE symbol = ?
-           AND id NOT IN (
-             SELECT id FROM price_alerts
-             WHERE symbol = ?
-             ORDER BY triggered ASC, id DESC
-             LIMIT ?
-           );`,
-        [activeSymbol, activeSymbol, ALERT_MAX_ITEMS]
-      );
-      await loadAlerts(activeSymbol);
+      // The repository prunes finished alerts first so the cap never drops one that is still watching the market.
+      await alertRepo.create({ symbol: activeSymbol, condition, rules, createdAt: now }, ALERT_MAX_ITEMS);
+      alertsChanged();
       setAlertModalVisible(false);
       setAlertError(null);
     } catch (err) {
       console.warn('Alert insert error', err);
       setAlertError('Failed to save alert.');
     }
-  }, [activeSymbol, alertDirection, alertPriceText, loadAlerts]);
+  }, [activeSymbol, alertDraft, alertsChanged]);
 
+  // Reopening keeps the filter last applied.
   const handleOpenHistory = useCallback(() => {
     setHistoryVisible(true);
     setHistoryError(null);
@@ -478,16 +1217,280 @@ export default function App(): JSX.Element {
       setHistoryError('History unavailable until storage initializes.');
       return;
     }
-    setHistoryLoading(true);
-    void loadHistory();
+    void loadHistory(historyPageRef.current.filter);
   }, [isDbReady, loadHistory]);
 
-  const handleCloseHistory = useCallback(() => {
-    setHistoryVisible(false);
-    setHistoryLoading(false);
+  // Apply the retention policy to `symbols`, or to every symbol with stored data.
+  const runRetention = useCallback(async (symbols?: string[]) => {
+    const trades = tradeRepoRef.current;
+    if (!trades) {
+      return;
+    }
+    const targets = symbols ?? (await trades.storageUsage()).map(item => item.symbol);
+    await applyRetention(trades, retentionSettingsRef.current, targets, Date.now());
+  }, []);
+
+  const loadStorageUsage = useCallback(async () => {
+    const trades = tradeRepoRef.current;
+    if (!trades) {
+      setStorageLoading(false);
+      return;
+    }
+
+    try {
+      setStorageUsage(await trades.storageUsage());
+    } catch (err) {
+      console.warn('SQLite storage usage error', err);
+      setSettingsError('Failed to measure storage.');
+    } finally {
+      setStorageLoading(false);
+    }
+  }, []);
+
+  const handleOpenSettings = useCallback(() => {
+    setSettingsVisible(true);
+    setSettingsError(null);
+    setStorageLoading(true);
+    void loadStorageUsage();
+  }, [loadStorageUsage]);
+
+  const handleCloseSettings = useCallback(() => {
+    setSettingsVisible(false);
+  }, []);
+
+  const handleSaveRetention = useCallback(
+    async (next: RetentionSettings) => {
+      const settingsRepo = settingsRepoRef.current;
+      if (!settingsRepo) {
+        setSettingsError('Storage not ready yet.');
+        return;
+      }
+
+      try {
+        await settingsRepo.setSetting(RETENTION_SETTINGS_KEY, JSON.stringify(next));
+        retentionSettingsRef.current = next;
+        setRetentionSettings(next);
+        setSettingsError(null);
+        await tradeQueueRef.current?.flush();
+        await runRetention();
+      } catch (err) {
+        console.warn('Retention settings save error', err);
+        setSettingsError('Failed to apply retention settings.');
+      }
+      void loadStorageUsage();
+      void loadCandles(activeSymbolRef.current, chartIntervalRef.current);
+    },
+    [loadCandles, loadStorageUsage, runRetention]
+  );
+
+  // Drop in-memory copies of purged data so the rows and alert bars do not outlive what is stored.
+  const forgetMarketData = useCallback(
+    (symbols: string[] | null) => {
+      setBuffers(prev =>
+        symbols ? Object.fromEntries(Object.entries(prev).filter(([symbol]) => !symbols.includes(symbol))) : {}
+      );
+      if (symbols) {
+        symbols.forEach(symbol => delete alertBarsRef.current[symbol]);
+      } else {
+        alertBarsRef.current = {};
+      }
+      if (!symbols || symbols.includes(activeSymbolRef.current)) {
+        setStoredCandles([]);
+        setMetricBars([]);
+        setYearRange(null);
+        setFreshTimestamp(null);
+        setQuote(null);
+      }
+      void loadStorageUsage();
+    },
+    [loadStorageUsage]
+  );
+
+  const handlePurgeSymbol = useCallback(
+    async (symbol: string) => {
+      const trades = tradeRepoRef.current;
+      if (!trades) {
+        return;
+      }
+
+      try {
+        // Buffered trades are written first so they cannot land after the purge.
+        await tradeQueueRef.current?.flush();
+        await trades.purgeSymbol(symbol);
+        await backfillRepoRef.current?.forget([symbol]);
+        forgetMarketData([symbol]);
+      } catch (err) {
+        console.warn('SQLite purge error', err);
+        setSettingsError(`Failed to purge ${symbol}.`);
+      }
+    },
+    [forgetMarketData]
+  );
+
+  const handlePurgeAll = useCallback(async () => {
+    const trades = tradeRepoRef.current;
+    if (!trades) {
+      return;
+    }
+
+    try {
+      await tradeQueueRef.current?.flush();
+      await trades.purgeAll();
+      await backfillRepoRef.current?.forget(null);
+      forgetMarketData(null);
+    } catch (err) {
+      console.warn('SQLite purge error', err);
+      setSettingsError('Failed to purge stored data.');
+    }
+  }, [forgetMarketData]);
+
+  const handleCloseHistory = useCallback(() => {
+    historyGenerationRef.current += 1;
+    setHistoryVisible(false);
+    setHistoryLoading(false);
+    setHistoryLoadingMore(false);
     setHistoryError(null);
+    setExportStatus(null);
+  }, []);
+
+  const handleExport = useCallback(async (request: ExportRequest) => {
+    const trades = tradeRepoRef.current;
+    const alerts = alertRepoRef.current;
+    if (!trades || !alerts) {
+      setExportStatus('Export unavailable until storage initializes.');
+      return;
+    }
+    setExporting(true);
+    setExportStatus(null);
+    try {
+      await tradeQueueRef.current?.flush();
+      const result = await exportData({ trades, alerts }, request);
+      if (!result.rows) {
+        setExportStatus(`No ${request.kind} stored for ${request.symbol} in that range.`);
+        return;
+      }
+      const shared = await Share.share({ title: result.fileName, message: result.content });
+      if (shared.action === Share.sharedAction) {
+        setExportStatus(
+          result.truncated
+            ? `Shared the first ${result.rows} rows as ${result.fileName}; narrow the range for the rest.`
+            : `Shared ${result.rows} rows as ${result.fileName}.`
+        );
+      }
+    } catch (err) {
+      console.warn('Export error', err);
+      setExportStatus('Export failed.');
+    } finally {
+      setExporting(false);
+    }
+  }, []);
+
+  const applySavedSettings = useCallback((saved: Awaited<ReturnType<typeof readSavedSettings>>) => {
+    retentionSettingsRef.current = saved.retention;
+    setRetentionSettings(saved.retention);
+    setUiRefreshMs(saved.refreshMs);
+    setMetricsBaseline(saved.baseline);
+    setProviderSettings(saved.provider);
+  }, []);
+
+  const handleImportTrades = useCallback(
+    async (source: string, symbol: string) => {
+      const trades = tradeRepoRef.current;
+      if (!trades) {
+        setTransferReport(['Storage not ready yet.']);
+        return;
+      }
+      setTransferBusy(true);
+      setTransferReport([]);
+      try {
+        await tradeQueueRef.current?.flush();
+        const fallback = symbol.trim() ? normalizeSymbol(symbol) : null;
+        const summary = await importTrades(trades, await readTransferSource(source), fallback);
+        setTransferReport([
+          describeImport(summary),
+          ...summary.errors.map(error => `Row ${error.row}: ${error.message}`),
+        ]);
+        void loadStorageUsage();
+      } catch (err) {
+        if (err instanceof ExportFormatError) {
+          setTransferReport([err.message]);
+        } else {
+          console.warn('Trade import error', err);
+          setTransferReport(['Import failed; check the file or link.']);
+        }
+      } finally {
+        setTransferBusy(false);
+      }
+    },
+    [loadStorageUsage]
+  );
+
+  const handleShareBackup = useCallback(async () => {
+    const alerts = alertRepoRef.current;
+    const favorites = favoritesRepoRef.current;
+    const settings = settingsRepoRef.current;
+    if (!alerts || !favorites || !settings) {
+      setTransferReport(['Storage not ready yet.']);
+      return;
+    }
+    setTransferBusy(true);
+    setTransferReport([]);
+    try {
+      const now = Date.now();
+      const backup = await collectBackup({ alerts, favorites, settings }, now);
+      const shared = await Share.share({ title: backupFileName(now), message: serializeBackup(backup) });
+      if (shared.action === Share.sharedAction) {
+        setTransferReport([
+          `Shared a backup of ${backup.watchlist?.length ?? 0} watched symbols, ${backup.alerts.length} alerts and ` +
+            `${Object.keys(backup.settings).length} settings.`,
+        ]);
+      }
+    } catch (err) {
+      console.warn('Backup error', err);
+      setTransferReport(['Backup failed.']);
+    } finally {
+      setTransferBusy(false);
+    }
   }, []);
 
+  const handleRestoreBackup = useCallback(
+    async (source: string) => {
+      const alerts = alertRepoRef.current;
+      const favorites = favoritesRepoRef.current;
+      const settings = settingsRepoRef.current;
+      if (!alerts || !favorites || !settings) {
+        setTransferReport(['Storage not ready yet.']);
+        return;
+      }
+      setTransferBusy(true);
+      setTransferReport([]);
+      try {
+        const { backup, errors } = parseBackup(await readTransferSource(source));
+        const summary = await restoreBackup({ alerts, favorites, settings }, backup, ALERT_MAX_ITEMS);
+        applySavedSettings(await readSavedSettings(settings));
+        await loadWatchlist();
+        await loadFavorites();
+        alertsChanged();
+        const kept = summary.alertsKept ? ` (${summary.alertsKept} already set up)` : '';
+        setTransferReport([
+          `Restored ${backup.watchlist?.length ?? 0} watched symbols, ${summary.alertsAdded} alerts${kept} and ` +
+            `${summary.settings} settings.`,
+          ...errors,
+        ]);
+      } catch (err) {
+        if (err instanceof BackupFormatError) {
+          setTransferReport([err.message]);
+        } else {
+          console.warn('Backup restore error', err);
+          setTransferReport(['Restore failed; check the file or link.']);
+        }
+      } finally {
+        setTransferBusy(false);
+      }
+    },
+    [alertsChanged, applySavedSettings, loadFavorites, loadWatchlist]
+  );
+
   useEffect(() => {
     let isMounted = true;
 
@@ -498,261 +1501,587 @@ export default function App(): JSX.Element {
         if (!isMounted) {
           return;
         }
+        await migrateDatabase(db);
+        if (!isMounted) {
+          return;
+        }
+        const settingsRepo = createSqliteSettingsRepository(db);
+        const saved = await readSavedSettings(settingsRepo);
+        if (!isMounted) {
+          return;
+        }
         dbRef.current = db;
-
-        await db.runAsync(
-          `CREATE TABLE IF NOT EXISTS price_updates (
-             id INTEGER PRIMARY KEY AUTOINCREMENT,
-             symbol TEXT NOT NULL,
-             price REAL NOT NULL,
-             timestamp INTEGER NOT NULL
-           );`
-        );
-        await db.runAsync(
-          `CREATE TABLE IF NOT EXISTS price_alerts (
-             id INTEGER PRIMARY KEY AUTOINCREMENT,
-             symbol TEXT NOT NULL,
-             direction TEXT NOT NULL,
-             price REAL NOT NULL,
-             triggered INTEGER NOT NULL DEFAULT 0
-           );`
-        );
+        tradeRepoRef.current = createSqliteTradeRepository(db);
+        alertRepoRef.current = createSqliteAlertRepository(db);
+        settingsRepoRef.current = settingsRepo;
+        backfillRepoRef.current = createSqliteBackfillRepository(db);
+        favoritesRepoRef.current = createSqliteFavoritesRepository(db);
+        const rest = CREDENTIALS.finnhubToken ? createFinnhubRestClient({ token: CREDENTIALS.finnhubToken }) : null;
+        if (rest) {
+          backfillerRef.current = createBackfiller({
+            rest,
+            trades: tradeRepoRef.current,
+            store: backfillRepoRef.current,
+          });
+        }
+        symbolSearchRef.current = createSymbolSearch({ store: createSqliteSymbolRepository(db), rest });
+        applySavedSettings(saved);
+        tradeQueueRef.current = createTradeWriteQueue({
+          repository: tradeRepoRef.current,
+          prune: symbols => runRetention(symbols),
+          flushIntervalMs: TRADE_FLUSH_INTERVAL_MS,
+          pruneIntervalMs: TRADE_PRUNE_INTERVAL_MS,
+        });
       } catch (err) {
         console.warn('SQLite init error', err);
         if (isMounted) {
           setErrorMessage('Failed to load cached data.');
+          setProviderLoaded(true);
         }
         return;
       }
 
       if (isMounted) {
         setIsDbReady(true);
+        setProviderLoaded(true);
       }
+      // Data may have aged out while the app was closed; catch up in the background.
+      runRetention().catch(err => console.warn('Retention error', err));
     };
 
     void initializeDbAsync();
 
     return () => {
       isMounted = false;
+      void tradeQueueRef.current?.dispose();
+      tradeQueueRef.current = null;
       dbRef.current = null;
+      tradeRepoRef.current = null;
+      alertRepoRef.current = null;
+      settingsRepoRef.current = null;
+      favoritesRepoRef.current = null;
     };
+  }, [applySavedSettings, runRetention]);
+
+  useEffect(() => {
+    if (!isDbReady) {
+      return;
+    }
+    void loadWatchlist();
+    void loadFavorites();
+  }, [isDbReady, loadFavorites, loadWatchlist]);
+
+  // The OS may suspend or kill a backgrounded app without warning, so buffered trades are written out first.
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state !== 'active') {
+        void tradeQueueRef.current?.flush({ prune: true });
+      }
+    });
+    return () => subscription.remove();
   }, []);
 
-  // Whenever the active symbol changes, refill the list from SQLite so the UI updates instantly.
+  useEffect(() => {
+    activeSymbolRef.current = activeSymbol;
+  }, [activeSymbol]);
+
+  // Seed each newly subscribed symbol from SQLite so its row and alerts have data before the next trade arrives.
+  useEffect(() => {
+    if (!isDbReady) {
+      return;
+    }
+    feedSymbols.symbols.forEach(symbol => {
+      if (hydratedSymbolsRef.current.has(symbol)) {
+        return;
+      }
+      hydratedSymbolsRef.current.add(symbol);
+      void loadCachedUpdates(symbol);
+      void loadAlertBars(symbol);
+    });
+  }, [feedSymbols, isDbReady, loadCachedUpdates, loadAlertBars]);
+
   useEffect(() => {
     if (!isDbReady) {
       return;
     }
-    void loadCachedUpdates(activeSymbol);
     void loadAlerts(activeSymbol);
-  }, [activeSymbol, isDbReady, loadCachedUpdates, loadAlerts]);
+  }, [activeSymbol, alertsVersion, isDbReady, loadAlerts]);
 
-  // Handle the WebSocket lifecycle and reconnects for the currently selected symbol.
   useEffect(() => {
-    let manualClose = false;
-    const symbolForSession = activeSymbol;
+    if (!isDbReady) {
+      return;
+    }
+    void loadAlertSymbols();
+  }, [alertsVersion, isDbReady, loadAlertSymbols]);
 
-    if (!hasToken) {
-      if (reconnectTimerRef.current) {
-        clearTimeout(reconnectTimerRef.current);
-        reconnectTimerRef.current = null;
-      }
-      if (wsRef.current) {
-        wsRef.current.close();
-        wsRef.current = null;
-      }
-      setConnectionStatus('error');
-      setErrorMessage('Set EXPO_PUBLIC_FINNHUB_TOKEN to stream live data.');
-      return () => {
-        manualClose = true;
-      };
+  useEffect(() => {
+    if (allAlertsVisible && isDbReady) {
+      void loadAllAlerts();
     }
+  }, [alertsVersion, allAlertsVisible, isDbReady, loadAllAlerts]);
 
-    const scheduleReconnect = () => {
-      if (manualClose || reconnectTimerRef.current) {
-        return;
+  useEffect(() => {
+    chartIntervalRef.current = chartInterval;
+    setStoredCandles([]);
+    if (!isDbReady) {
+      return;
+    }
+    void loadCandles(activeSymbol, chartInterval);
+    if (backfillActive) {
+      void backfillChart(activeSymbol, chartInterval);
+    }
+  }, [activeSymbol, backfillActive, backfillChart, chartInterval, isDbReady, loadCandles]);
+
+  useEffect(() => {
+    setQuote(null);
+    const backfiller = backfillerRef.current;
+    if (!isDbReady || !backfillActive || !backfiller) {
+      return;
+    }
+    let cancelled = false;
+    void backfiller.quote(activeSymbol).then(next => {
+      if (!cancelled) {
+        setQuote(next);
       }
-      reconnectTimerRef.current = setTimeout(() => {
-        reconnectTimerRef.current = null;
-        connect();
-      }, 3000);
+    });
+    return () => {
+      cancelled = true;
     };
+  }, [activeSymbol, backfillActive, isDbReady]);
 
-    const handleMessage = (data: string) => {
-      try {
-        const payload = JSON.parse(data);
-        const trades: Array<Record<string, unknown>> = Array.isArray(payload?.data) ? payload.data : [];
-        if (!trades.length) {
-          return;
-        }
+  useEffect(() => {
+    watchlistRef.current = watchlist;
+  }, [watchlist]);
 
-        trades.forEach(trade => {
-          const symbol = typeof trade.s === 'string' ? trade.s : null;
-          const price = typeof trade.p === 'number' ? trade.p : Number(trade.p);
-          const timestamp = typeof trade.t === 'number' ? trade.t : Number(trade.t);
+  useEffect(() => {
+    feedSymbolsRef.current = feedSymbols.symbols;
+    silenceMonitorRef.current.watch(feedSymbols.symbols, Date.now());
+  }, [feedSymbols]);
 
-          if (!symbol || Number.isNaN(price) || Number.isNaN(timestamp) || symbol !== symbolForSession) {
-            return;
+  useEffect(() => {
+    if (!symbolEditing) {
+      return;
+    }
+    const query = normalizeSymbol(symbolInput);
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      symbolSearchRef.current
+        .suggest(query, SYMBOL_SUGGESTION_LIMIT)
+        .then(next => {
+          if (!cancelled) {
+            setSuggestions(next);
           }
+        })
+        .catch(err => console.warn('Symbol suggestion error', err));
+    }, SYMBOL_SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [symbolEditing, symbolInput]);
+
+  // Apply a batch of trades to the rows in one go; React folds these updates into a single commit.
+  const applyTradeBatch = useCallback((batch: PriceUpdate[]) => {
+    setBuffers(prev => mergeUpdatesBySymbol(prev, batch, MAX_ITEMS));
+    const active = batch.filter(update => update.symbol === activeSymbolRef.current);
+    if (active.length) {
+      setFreshTimestamp(Math.max(...active.map(update => update.timestamp)));
+    }
+    setErrorMessage(null);
+  }, []);
 
-          const update: PriceUpdate = {
-            key: `${symbol}-${timestamp}-${price}`,
-            symbol,
-            price,
-            timestamp,
-          };
-
-          setUpdates(prev => {
-            const next = [update, ...prev.filter(item => item.key !== update.key)];
-            return next.slice(0, MAX_ITEMS);
-          });
-          setFreshTimestamp(timestamp);
-          setErrorMessage(null);
-          void persistAndCheckUpdate(update);
-        });
-      } catch (err) {
-        console.warn('WebSocket parse error', err);
-      }
+  useEffect(() => {
+    const buffer = createTickBuffer<PriceUpdate>({ refreshMs: DEFAULT_UI_REFRESH_MS, onFlush: applyTradeBatch });
+    tickBufferRef.current = buffer;
+    return () => {
+      buffer.dispose();
+      tickBufferRef.current = null;
     };
+  }, [applyTradeBatch]);
 
-    const connect = () => {
-      setConnectionStatus('connecting');
-      setErrorMessage(null);
+  useEffect(() => {
+    tickBufferRef.current?.setRefreshMs(uiRefreshMs);
+  }, [uiRefreshMs]);
 
-      const ws = new WebSocket(`wss://ws.finnhub.io?token=${FINNHUB_TOKEN}`);
-      wsRef.current = ws;
+  const handleMetricsBaselineChange = useCallback(async (next: MetricsBaseline) => {
+    setMetricsBaseline(next);
+    try {
+      await settingsRepoRef.current?.setSetting(METRICS_SETTING_KEY, String(next));
+    } catch (err) {
+      console.warn('Metrics baseline setting save error', err);
+    }
+  }, []);
 
-      ws.onopen = () => {
-        setConnectionStatus('open');
-        ws.send(JSON.stringify({ type: 'subscribe', symbol: symbolForSession }));
-      };
+  const handleUiRefreshChange = useCallback(async (next: UiRefreshMs) => {
+    setUiRefreshMs(next);
+    try {
+      await settingsRepoRef.current?.setSetting(UI_REFRESH_SETTING_KEY, String(next));
+    } catch (err) {
+      console.warn('UI refresh setting save error', err);
+    }
+  }, []);
 
-      ws.onmessage = event => {
-        if (typeof event.data === 'string') {
-          handleMessage(event.data);
-        }
-      };
+  // Route each streamed trade into its symbol's buffer; the feed client only delivers subscribed symbols.
+  // Storage, candles and alerts see every trade straight away; only the rows wait for the next UI refresh.
+  // Demo and replayed trades are charted only: they would pass for real history and fire real alerts.
+  const handleTrade = useCallback(
+    (trade: FeedTrade) => {
+      const update = toPriceUpdate(trade);
+      tickBufferRef.current?.push(update);
+      silenceMonitorRef.current.trade(update.symbol);
+      const marketData = isStreamingProvider(providerKindRef.current);
+      if (marketData) {
+        tradeQueueRef.current?.enqueue(update);
+      }
 
-      ws.onerror = event => {
-        console.warn('WebSocket error', (event as WebSocketErrorEvent)?.message ?? 'unknown error');
-        setConnectionStatus('error');
-        setErrorMessage('Live feed error, attempting to reconnect...');
-      };
+      const previousPrice = lastTradesRef.current[update.symbol]?.price ?? null;
+      lastTradesRef.current[update.symbol] = { price: update.price, timestamp: update.timestamp };
+      const closed = candleAggregatorRef.current.addTrade(update);
+      rememberAlertBars(closed);
+      if (marketData) {
+        void enqueueAlertCheck(update.symbol, buildMarketState(update.symbol, update.price, previousPrice));
+      }
+      void persistCandles(closed);
+    },
+    [buildMarketState, enqueueAlertCheck, persistCandles, rememberAlertBars]
+  );
 
-      ws.onclose = () => {
-        if (manualClose) {
-          return;
-        }
-        setConnectionStatus('closed');
-        scheduleReconnect();
-      };
-    };
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const closed = candleAggregatorRef.current.advanceTime(Date.now());
+      rememberAlertBars(closed);
+      void persistCandles(closed);
+    }, CANDLE_SWEEP_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [persistCandles, rememberAlertBars]);
 
-    connect();
+  // Quiet-feed alerts have no trade to trigger them, so subscribed symbols are rechecked on a timer. Under a demo
+  // or replay feed the real market is not being watched, so nothing is checked.
+  useEffect(() => {
+    if (!isDbReady) {
+      return;
+    }
+    const timer = setInterval(() => {
+      if (!isStreamingProvider(providerKindRef.current)) {
+        return;
+      }
+      feedSymbolsRef.current.forEach(symbol => {
+        void enqueueAlertCheck(symbol, buildMarketState(symbol, null, null));
+      });
+    }, ALERT_IDLE_CHECK_MS);
+    return () => clearInterval(timer);
+  }, [buildMarketState, enqueueAlertCheck, isDbReady]);
 
-    return () => {
-      manualClose = true;
-      if (reconnectTimerRef.current) {
-        clearTimeout(reconnectTimerRef.current);
-        reconnectTimerRef.current = null;
+  useEffect(() => {
+    // Bars still forming from another feed must not close, and be stored, under this one.
+    if (providerKindRef.current !== providerSettings.kind) {
+      candleAggregatorRef.current = createCandleAggregator();
+    }
+    providerKindRef.current = providerSettings.kind;
+  }, [providerSettings]);
+
+  // Replay either the newest stored trades or a recording fetched from a URL.
+  const loadRecording = useCallback(async (replay: ReplaySettings, symbols: string[]) => {
+    if (replay.source === 'url') {
+      const response = await fetch(replay.url);
+      if (!response.ok) {
+        throw new Error(`Recording request failed with ${response.status}`);
       }
-      wsRef.current?.close();
-      wsRef.current = null;
-    };
-  }, [activeSymbol, persistAndCheckUpdate, hasToken]);
+      return parseTradeRecording(await response.text());
+    }
+    const trades = tradeRepoRef.current;
+    if (!trades) {
+      return [];
+    }
+    await tradeQueueRef.current?.flush();
+    const recorded = await Promise.all(symbols.map(symbol => trades.recentTrades(symbol, REPLAY_MAX_PER_SYMBOL)));
+    return recorded.flat();
+  }, []);
 
-  const metrics = useMemo(() => computeMetrics(updates), [updates]);
-  const { points: sparklinePoints, min: sparklineMin, max: sparklineMax } = useMemo(
-    () => computeSparklinePoints(updates),
-    [updates]
+  const createProvider = useMemo(() => {
+    const { kind, synthetic, replay } = providerSettings;
+    if (kind === 'synthetic') {
+      return () => createSyntheticProvider(synthetic);
+    }
+    if (kind === 'replay') {
+      return () => createReplayProvider({ speed: replay.speed, load: symbols => loadRecording(replay, symbols) });
+    }
+    return () => createStreamingProvider(kind, CREDENTIALS);
+  }, [loadRecording, providerSettings]);
+
+  const handleApplyProvider = useCallback(async (next: ProviderSettings) => {
+    setProviderSettings(next);
+    try {
+      await settingsRepoRef.current?.setSetting(PROVIDER_SETTING_KEY, JSON.stringify(next));
+    } catch (err) {
+      console.warn('Provider setting save error', err);
+    }
+  }, []);
+
+  const missingKeys = MISSING_CREDENTIALS[providerSettings.kind];
+  const needsCredentials = missingKeys.length > 0;
+  const feedEnabled = providerLoaded && !needsCredentials;
+  const { status: feedStatus, retryNow, getLastMessageAt } = useFeedClient({
+    createProvider,
+    enabled: feedEnabled,
+    symbols: feedSymbols.symbols,
+    onTrade: handleTrade,
+  });
+  const connectionStatus: FeedStatus = needsCredentials ? { ...feedStatus, state: 'error' } : feedStatus;
+  const statusNow = useNow(1000, feedEnabled);
+  const sessionNow = useNow(30 * 1000);
+  const activeCalendar = useMemo(() => calendarForSymbol(activeSymbol), [activeSymbol]);
+  const activeSession = useMemo(
+    () => (activeCalendar ? marketSession(activeCalendar, sessionNow) : null),
+    [activeCalendar, sessionNow]
   );
-  const sparklineChart = useMemo(() => {
-    // Build an SVG-friendly representation of the last trades for a smooth sparkline.
-    const height = 48;
-    if (!sparklinePoints.length) {
-      return {
-        viewBoxWidth: 1,
-        height,
-        pointsString: '',
-        latest: null as null | { x: number; y: number; price: number },
-      };
+
+  // Trades missed while the feed was down only exist upstream; fetch the bars of the outage once it is back.
+  const fillFeedGap = useCallback(
+    async (gap: TimeRange) => {
+      const backfiller = backfillerRef.current;
+      if (!backfiller) {
+        return;
+      }
+      const symbols = feedSymbolsRef.current;
+      const outcome = await backfiller.fillGap(symbols, gap);
+      noteBackfill(outcome);
+      if (outcome !== 'filled') {
+        return;
+      }
+      symbols.forEach(symbol => void loadAlertBars(symbol));
+      if (symbols.includes(activeSymbolRef.current)) {
+        await loadCandles(activeSymbolRef.current, chartIntervalRef.current);
+      }
+    },
+    [loadAlertBars, loadCandles, noteBackfill]
+  );
+
+  useEffect(() => {
+    const gap = gapTrackerRef.current.update(feedStatus.state, Date.now(), getLastMessageAt());
+    if (gap && backfillActive) {
+      void fillFeedGap(gap);
+    }
+  }, [backfillActive, feedStatus, fillFeedGap, getLastMessageAt]);
+
+  // Only an open feed can be expected to deliver, so each (re)connect restarts the clocks.
+  useEffect(() => {
+    if (feedStatus.state !== 'open') {
+      setSilentSymbols([]);
+      return;
+    }
+    silenceMonitorRef.current.restart(Date.now());
+    const timer = setInterval(() => {
+      const next = silenceMonitorRef.current.silent(Date.now());
+      setSilentSymbols(prev => (prev.join('|') === next.join('|') ? prev : next));
+    }, SILENCE_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [feedStatus.state]);
+  const activeSilent = silentSymbols.includes(activeSymbol);
+  const providerLabel = PROVIDER_OPTIONS.find(option => option.value === providerSettings.kind)?.label;
+
+  useEffect(() => {
+    if (needsCredentials) {
+      setErrorMessage(`Set ${missingKeys.join(' and ')} to stream live data.`);
+      return;
+    }
+    if (feedStatus.state === 'connecting') {
+      setErrorMessage(null);
+    } else if (feedStatus.state === 'error') {
+      setErrorMessage('Live feed error, attempting to reconnect...');
+    } else if (feedStatus.state === 'stale') {
+      setErrorMessage('Live feed went quiet, reconnecting...');
+    } else if (feedStatus.state === 'failed' && providerSettings.kind === 'replay') {
+      setErrorMessage(`Replay stopped: ${feedStatus.lastCloseReason ?? 'unknown error'}.`);
+    } else if (feedStatus.state === 'failed') {
+      const keys = credentialNames(providerSettings.kind);
+      setErrorMessage(
+        classifyClose(feedStatus.lastCloseCode, feedStatus.lastCloseReason) === 'fatal'
+          ? `${providerLabel} rejected the connection.${keys.length ? ` Check ${keys.join(' and ')}.` : ''}`
+          : 'Live feed gave up reconnecting.'
+      );
     }
+  }, [feedStatus, missingKeys, needsCredentials, providerLabel, providerSettings.kind]);
 
-    const count = sparklinePoints.length;
-    const width = count > 1 ? count - 1 : 1;
-    const verticalPadding = 4;
-    const usableHeight = height - verticalPadding * 2;
-    const polylinePoints = sparklinePoints
-      .map((point, index) => {
-        const x = count === 1 ? 0 : (index / (count - 1)) * width;
-        const y = height - (point.normalized * usableHeight + verticalPadding);
-        return `${x.toFixed(2)},${y.toFixed(2)}`;
-      })
-      .join(' ');
-
-    const latest = sparklinePoints[count - 1];
-    const latestPoint = {
-      x: count === 1 ? 0 : width,
-      y: height - (latest.normalized * usableHeight + verticalPadding),
-      price: latest.price,
+  const activeWindow = useMemo(
+    () => metricsWindow(metricsBaseline, activeCalendar, sessionNow),
+    [activeCalendar, metricsBaseline, sessionNow]
+  );
+  const windowFrom = activeWindow.previous?.from ?? activeWindow.range.from;
+  const windowTo = activeWindow.range.to;
+
+  // Reload the metrics bars when the symbol or its window moves; finished bars arrive through persistCandles.
+  useEffect(() => {
+    const trades = tradeRepoRef.current;
+    if (!isDbReady || !trades) {
+      return;
+    }
+    let cancelled = false;
+    const load = async () => {
+      try {
+        // At most one bar per bucket, so the window's length bounds the read.
+        const limit = Math.ceil((windowTo - windowFrom) / CANDLE_INTERVAL_MS[METRICS_BAR_INTERVAL]) + 1;
+        const bars = await trades.candlesBetween(activeSymbol, METRICS_BAR_INTERVAL, windowFrom, windowTo, limit);
+        if (!cancelled) {
+          // Keep bars persisted while the query ran; anything older is in `bars` already.
+          const lastStart = bars.length ? bars[bars.length - 1].start : -Infinity;
+          setMetricBars(prev => [
+            ...bars,
+            ...prev.filter(bar => bar.symbol === activeSymbol && bar.start > lastStart),
+          ]);
+        }
+      } catch (err) {
+        console.warn('SQLite metrics read error', err);
+      }
     };
+    void (async () => {
+      await load();
+      const backfiller = backfillerRef.current;
+      if (!backfillActive || !backfiller || cancelled) {
+        return;
+      }
+      const bars = Math.ceil((Date.now() - windowFrom) / CANDLE_INTERVAL_MS[METRICS_BAR_INTERVAL]);
+      if ((await backfiller.backfillRecent(activeSymbol, METRICS_BAR_INTERVAL, bars)) === 'filled') {
+        await load();
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSymbol, backfillActive, isDbReady, windowFrom, windowTo]);
 
-    return {
-      viewBoxWidth: width,
-      height,
-      pointsString: polylinePoints,
-      latest: latestPoint,
+  // The 52-week range needs a year of hourly bars; with Finnhub they are backfilled, otherwise they build up.
+  useEffect(() => {
+    setYearRange(null);
+    const trades = tradeRepoRef.current;
+    if (!isDbReady || !trades) {
+      return;
+    }
+    let cancelled = false;
+    void (async () => {
+      try {
+        const backfiller = backfillerRef.current;
+        if (backfillActive && backfiller) {
+          await backfiller.backfillRecent(activeSymbol, YEAR_RANGE_INTERVAL, YEAR_RANGE_MS / HOUR_MS);
+        }
+        const now = Date.now();
+        const range = await trades.priceRange(activeSymbol, YEAR_RANGE_INTERVAL, now - YEAR_RANGE_MS, now);
+        if (!cancelled) {
+          setYearRange(range);
+        }
+      } catch (err) {
+        console.warn('SQLite 52-week range read error', err);
+      }
+    })();
+    return () => {
+      cancelled = true;
     };
-  }, [sparklinePoints]);
-
-  const renderItem = ({ item }: ListRenderItemInfo<PriceUpdate>) => {
-    const isFresh = freshTimestamp !== null && item.timestamp === freshTimestamp;
-    return (
-      <View style={[styles.row, isFresh ? styles.rowFresh : styles.rowStale]}>
-        <View style={styles.rowHeader}>
-          <Text style={styles.symbol}>{item.symbol}</Text>
-          <Text style={styles.price}>{item.price.toFixed(2)}</Text>
-        </View>
-        <Text style={styles.timestamp}>{formatTimestamp(item.timestamp)}</Text>
-      </View>
-    );
-  };
+  }, [activeSymbol, backfillActive, isDbReady]);
 
-  const renderHistoryItem = ({ item }: SectionListRenderItemInfo<HistoryEntry>) => (
-    <View style={styles.historyRow}>
-      <View style={styles.historyRowHeader}>
-        <Text style={styles.historyRowPrice}>{item.price.toFixed(2)}</Text>
-        <Text style={styles.historyRowTimestamp}>{formatTimestamp(item.timestamp)}</Text>
-      </View>
+  // `updates` changes with every batch of trades for the focused symbol, which is when its open bar changes too.
+  const openCandles = useMemo(
+    () => candleAggregatorRef.current.getOpenCandles(activeSymbol, chartInterval),
+    [updates, activeSymbol, chartInterval]
+  );
+  const chartCandles = useMemo(() => mergeCandleSeries(storedCandles, openCandles), [storedCandles, openCandles]);
+  const indicatorPoints = useIndicators(
+    `${activeSymbol}|${chartInterval}`,
+    storedCandles,
+    openCandles.length ? openCandles[openCandles.length - 1] : null
+  );
+  const latestIndicators = indicatorPoints.length ? indicatorPoints[indicatorPoints.length - 1] : null;
+  const openMetricBars = useMemo(
+    () => candleAggregatorRef.current.getOpenCandles(activeSymbol, METRICS_BAR_INTERVAL),
+    [updates, activeSymbol]
+  );
+  const metrics = useMemo(() => {
+    // A quote's previous close stands in for missing bars only when it belongs to the session being measured.
+    const quoteClose = quote && quote.quotedAt >= activeWindow.range.from ? quote.previousClose : null;
+    const stored = metricBars.filter(bar => bar.symbol === activeSymbol);
+    return computeSessionMetrics(mergeCandleSeries(stored, openMetricBars), activeWindow, quoteClose);
+  }, [activeSymbol, activeWindow, metricBars, openMetricBars, quote]);
+  const metricsSummary = useMemo(
+    () => describeSessionMetrics(metrics, fiftyTwoWeekRange(yearRange, sessionNow)),
+    [metrics, sessionNow, yearRange]
+  );
+  const metricsLabel = METRICS_BASELINE_OPTIONS.find(option => option.value === metricsBaseline)?.label ?? '';
+
+  const renderAlertOptions = <T extends string | number>(
+    options: Array<{ value: T; label: string }>,
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.alertToggleRow}>
+      {options.map((option, index) => (
+        <Pressable
+          key={option.value}
+          style={[
+            styles.alertToggle,
+            index === options.length - 1 ? styles.alertToggleLast : null,
+            selected === option.value ? styles.alertToggleActive : null,
+          ]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text style={[styles.alertToggleText, selected === option.value ? styles.alertToggleTextActive : null]}>
+            {option.label}
+          </Text>
+        </Pressable>
+      ))}
     </View>
   );
 
-  const renderHistorySectionHeader = ({ section }: { section: SectionListData<HistoryEntry> }) => (
-    <View style={styles.historySectionHeader}>
-      <Text style={styles.historySectionTitle}>{section.title}</Text>
-      <Text style={styles.historySectionMeta}>{section.data.length} stored</Text>
-    </View>
+  const renderItem = useCallback(
+    ({ item }: ListRenderItemInfo<PriceUpdate>) => (
+      <TradeRow
+        symbol={item.symbol}
+        price={item.price}
+        timestamp={item.timestamp}
+        fresh={freshTimestamp !== null && item.timestamp === freshTimestamp}
+      />
+    ),
+    [freshTimestamp]
   );
 
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.statusContainer}>
-        <Text style={styles.statusText}>Status: {connectionStatus}</Text>
-        <Text style={styles.statusText}>Symbol: {activeSymbol}</Text>
+        <Text style={styles.statusText}>
+          Status: {describeFeedStatus(connectionStatus, statusNow)}
+          {feedEnabled ? ` · ${describeLastMessage(getLastMessageAt(), statusNow)}` : ''}
+        </Text>
+        <Text style={styles.statusText}>
+          Symbol: {activeSymbol} · Watching {watchlist.length} · Source: {providerLabel}
+        </Text>
         {errorMessage ? <Text style={styles.errorText}>{errorMessage}</Text> : null}
-        {!hasToken ? (
+        {symbolWarning ? <Text style={styles.warningText}>{symbolWarning}</Text> : null}
+        {feedEnabled && (feedStatus.state === 'failed' || feedStatus.nextRetryAt !== null) ? (
+          <Pressable onPress={retryNow}>
+            <Text style={styles.retryText}>Retry now</Text>
+          </Pressable>
+        ) : null}
+        {needsCredentials ? (
           <Text style={styles.warningText}>
-            Set EXPO_PUBLIC_FINNHUB_TOKEN before running to stream live data.
+            Set {missingKeys.join(' and ')} before running to stream live data, or pick another source in Settings.
           </Text>
         ) : null}
-        <Pressable style={styles.historyButton} onPress={handleOpenHistory}>
-          <Text style={styles.historyButtonText}>View History</Text>
-        </Pressable>
+        <View style={styles.headerActions}>
+          <Pressable style={styles.historyButton} onPress={handleOpenHistory}>
+            <Text style={styles.historyButtonText}>View History</Text>
+          </Pressable>
+          <Pressable style={[styles.historyButton, styles.settingsButton]} onPress={handleOpenSettings}>
+            <Text style={styles.historyButtonText}>Settings</Text>
+          </Pressable>
+        </View>
       </View>
       <View style={styles.symbolControls}>
         <TextInput
           value={symbolInput}
-          onChangeText={text => setSymbolInput(text.toUpperCase())}
+          onChangeText={handleSymbolInputChange}
+          onSubmitEditing={handleApplySymbol}
           placeholder="Enter symbol (e.g. AAPL or BINANCE:BTCUSDT)"
           placeholderTextColor="#4a5568"
           autoCapitalize="characters"
@@ -763,33 +2092,80 @@ export default function App(): JSX.Element {
           <Text style={styles.symbolButtonText}>Subscribe</Text>
         </Pressable>
       </View>
-      {isUsMarketOpen === false && activeSymbol && activeSymbol.indexOf(':') === -1 ? (
+      {symbolError ? <Text style={styles.symbolErrorText}>{symbolError}</Text> : null}
+      <SymbolSuggestions suggestions={suggestions} onSelect={handleQuickSelect} />
+      {isStreamingProvider(providerSettings.kind) &&
+      activeCalendar &&
+      activeSession &&
+      (activeSession.phase !== 'regular' || activeSession.earlyClose) ? (
         <View style={styles.marketNotice}>
           <Text style={styles.marketNoticeText}>
-            U.S. equities may be idle outside regular market hours (9:30 AM – 4:00 PM ET).
+            {activeCalendar.name}: {describeSession(activeSession, sessionNow)}
           </Text>
         </View>
       ) : null}
-      <View style={styles.quickSymbols}>
-        {QUICK_SYMBOLS.map(ticker => {
-          const isActive = ticker === activeSymbol;
-          return (
-            <Pressable
-              key={ticker}
-              onPress={() => handleQuickSelect(ticker)}
-              style={[styles.symbolChip, isActive ? styles.symbolChipActive : null]}
-            >
-              <Text style={[styles.symbolChipText, isActive ? styles.symbolChipTextActive : null]}>{ticker}</Text>
-            </Pressable>
-          );
-        })}
+      <FavoriteChips
+        favorites={favorites}
+        activeSymbol={activeSymbol}
+        addSymbol={favorites.includes(activeSymbol) || favorites.length >= FAVORITES_MAX_ITEMS ? null : activeSymbol}
+        onSelect={handleQuickSelect}
+        onAdd={handleAddFavorite}
+        onRemove={handleRemoveFavorite}
+        onMove={handleMoveFavorite}
+      />
+      {recentSymbols.length ? (
+        <View style={styles.quickSymbols}>
+          <Text style={styles.recentLabel}>Recent</Text>
+          {recentSymbols.map(ticker => {
+            const isActive = ticker === activeSymbol;
+            return (
+              <Pressable
+                key={ticker}
+                onPress={() => handleQuickSelect(ticker)}
+                style={[styles.symbolChip, isActive ? styles.symbolChipActive : null]}
+              >
+                <Text style={[styles.symbolChipText, isActive ? styles.symbolChipTextActive : null]}>{ticker}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : null}
+      <View style={styles.watchlistContainer}>
+        <Text style={styles.watchlistTitle}>Watchlist</Text>
+        <ScrollView style={styles.watchlistScroll} nestedScrollEnabled>
+          {watchlist.map(symbol => {
+            const isActive = symbol === activeSymbol;
+            const latest = buffers[symbol]?.[0];
+            return (
+              <Pressable
+                key={symbol}
+                onPress={() => handleSelectWatchlistSymbol(symbol)}
+                style={[styles.watchlistRow, isActive ? styles.watchlistRowActive : null]}
+              >
+                <Text style={[styles.watchlistSymbol, isActive ? styles.symbolChipTextActive : null]}>{symbol}</Text>
+                <View style={styles.watchlistRowRight}>
+                  {silentSymbols.includes(symbol) ? <Text style={styles.watchlistSilent}>No trades</Text> : null}
+                  <Text style={styles.watchlistPrice}>{latest ? latest.price.toFixed(2) : '—'}</Text>
+                  <Pressable onPress={() => removeFromWatchlist(symbol)}>
+                    <Text style={styles.alertRemoveText}>Remove</Text>
+                  </Pressable>
+                </View>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
       </View>
       <View style={styles.alertsContainer}>
         <View style={styles.alertsHeader}>
           <Text style={styles.alertsTitle}>Alerts</Text>
-          <Pressable style={styles.alertsAddButton} onPress={handleOpenAlertModal}>
-            <Text style={styles.alertsAddButtonText}>Add</Text>
-          </Pressable>
+          <View style={styles.alertsHeaderActions}>
+            <Pressable style={styles.alertsAllButton} onPress={handleOpenAllAlerts}>
+              <Text style={styles.alertsAllButtonText}>All alerts</Text>
+            </Pressable>
+            <Pressable style={styles.alertsAddButton} onPress={handleOpenAlertModal}>
+              <Text style={styles.alertsAddButtonText}>Add</Text>
+            </Pressable>
+          </View>
         </View>
         {!notificationAllowed ? (
           <Text style={styles.alertsPermission}>
@@ -798,25 +2174,13 @@ export default function App(): JSX.Element {
         ) : null}
         {alerts.length ? (
           alerts.map(alert => (
-            <View
+            <AlertRow
               key={alert.id}
-              style={[
-                styles.alertRow,
-                alert.triggered ? styles.alertRowTriggered : styles.alertRowActive,
-              ]}
-            >
-              <Text
-                style={[
-                  styles.alertRowText,
-                  alert.triggered ? styles.alertRowTextTriggered : null,
-                ]}
-              >
-                {alert.symbol} {alert.direction === 'above' ? '≥' : '≤'} {alert.price.toFixed(2)}
-              </Text>
-              <Pressable onPress={() => handleRemoveAlert(alert.id)}>
-                <Text style={styles.alertRemoveText}>Remove</Text>
-              </Pressable>
-            </View>
+              alert={alert}
+              onTogglePaused={handleToggleAlertPaused}
+              onRearm={handleRearmAlert}
+              onRemove={handleRemoveAlert}
+            />
           ))
         ) : (
           <Text style={styles.alertsEmpty}>No alerts configured.</Text>
@@ -825,71 +2189,84 @@ export default function App(): JSX.Element {
       <View style={styles.analyticsContainer}>
         <View style={styles.metricBlock}>
           <Text style={styles.metricLabel}>Last Price</Text>
-          <Text style={styles.metricValue}>{metrics.latest !== null ? metrics.latest.toFixed(2) : '—'}</Text>
+          <Text style={styles.metricValue}>{updates.length ? updates[0].price.toFixed(2) : '—'}</Text>
+        </View>
+        <View style={styles.metricBlock}>
+          <Text style={styles.metricLabel}>{metricsBaseline === 0 ? 'Δ prev close' : `Δ ${metricsLabel}`}</Text>
+          <Text
+            style={[
+              styles.metricValue,
+              metrics.change !== null && metrics.change > 0 ? styles.metricValuePositive : null,
+              metrics.change !== null && metrics.change < 0 ? styles.metricValueNegative : null,
+            ]}
+          >
+            {metrics.change === null ? '—' : `${metrics.change > 0 ? '+' : ''}${metrics.change.toFixed(2)}`}
+          </Text>
+        </View>
+        <View style={styles.metricBlock}>
+          <Text style={styles.metricLabel}>Δ%</Text>
+          <Text
+            style={[
+              styles.metricValue,
+              metrics.percentage !== null && metrics.percentage > 0 ? styles.metricValuePositive : null,
+              metrics.percentage !== null && metrics.percentage < 0 ? styles.metricValueNegative : null,
+            ]}
+          >
+            {metrics.percentage === null
+              ? '—'
+              : `${metrics.percentage > 0 ? '+' : ''}${metrics.percentage.toFixed(2)}%`}
+          </Text>
         </View>
+      </View>
+      {renderAlertOptions(METRICS_BASELINE_OPTIONS, metricsBaseline, handleMetricsBaselineChange)}
+      {metricsSummary ? <Text style={styles.quoteText}>{metricsSummary}</Text> : null}
+      {quote ? (
+        <Text style={styles.quoteText}>
+          Prev close {quote.previousClose.toFixed(2)} · Day {quote.low.toFixed(2)}–{quote.high.toFixed(2)}
+          {' · '}Quote {quote.price.toFixed(2)} ({quote.changePercent > 0 ? '+' : ''}
+          {quote.changePercent.toFixed(2)}%)
+        </Text>
+      ) : null}
+      {backfillNote ? <Text style={styles.quoteText}>{backfillNote}</Text> : null}
+      <View style={styles.analyticsContainer}>
         <View style={styles.metricBlock}>
-          <Text style={styles.metricLabel}>Δ (20 ticks)</Text>
+          <Text style={styles.metricLabel}>RSI (14)</Text>
           <Text
             style={[
               styles.metricValue,
-              metrics.change > 0 ? styles.metricValuePositive : null,
-              metrics.change < 0 ? styles.metricValueNegative : null,
+              latestIndicators?.rsi != null && latestIndicators.rsi >= 70 ? styles.metricValueNegative : null,
+              latestIndicators?.rsi != null && latestIndicators.rsi <= 30 ? styles.metricValuePositive : null,
             ]}
           >
-            {metrics.change > 0 ? '+' : ''}
-            {metrics.change.toFixed(2)}
+            {latestIndicators?.rsi != null ? latestIndicators.rsi.toFixed(1) : '—'}
           </Text>
         </View>
         <View style={styles.metricBlock}>
-          <Text style={styles.metricLabel}>Δ%</Text>
+          <Text style={styles.metricLabel}>MACD hist</Text>
           <Text
             style={[
               styles.metricValue,
-              metrics.percentage > 0 ? styles.metricValuePositive : null,
-              metrics.percentage < 0 ? styles.metricValueNegative : null,
+              latestIndicators?.macd && latestIndicators.macd.histogram > 0 ? styles.metricValuePositive : null,
+              latestIndicators?.macd && latestIndicators.macd.histogram < 0 ? styles.metricValueNegative : null,
             ]}
           >
-            {metrics.percentage > 0 ? '+' : ''}
-            {metrics.percentage.toFixed(2)}%
+            {latestIndicators?.macd ? latestIndicators.macd.histogram.toFixed(3) : '—'}
           </Text>
         </View>
-      </View>
-      {sparklinePoints.length ? (
-        <View style={styles.sparkline}>
-          {/* Show a quick legend so readers know the min/max that the line chart spans. */}
-          <View style={styles.sparklineHeader}>
-            <Text style={styles.sparklineLabel}>Price trend (last 20 trades)</Text>
-            {sparklineMin !== null && sparklineMax !== null ? (
-              <Text style={styles.sparklineRange}>
-                {sparklineMin.toFixed(2)} – {sparklineMax.toFixed(2)}
-              </Text>
-            ) : null}
-          </View>
-          {sparklineChart.pointsString ? (
-            <Svg
-              style={styles.sparklineChart}
-              viewBox={`0 0 ${sparklineChart.viewBoxWidth} ${sparklineChart.height}`}
-              preserveAspectRatio="none"
-            >
-              <Defs>
-                <SvgLinearGradient id={`sparkline-gradient-${activeSymbol}`} x1="0" y1="0" x2="0" y2="1">
-                  <Stop offset="0%" stopColor="#63b3ed" stopOpacity={0.9} />
-                  <Stop offset="100%" stopColor="#3182ce" stopOpacity={0.2} />
-                </SvgLinearGradient>
-              </Defs>
-              <Polyline
-                points={sparklineChart.pointsString}
-                fill="none"
-                stroke={`url(#sparkline-gradient-${activeSymbol})`}
-                strokeWidth={0.9}
-              />
-              {sparklineChart.latest ? (
-                <Circle cx={sparklineChart.latest.x} cy={sparklineChart.latest.y} r={1.2} fill="#63b3ed" />
-              ) : null}
-            </Svg>
-          ) : null}
+        <View style={styles.metricBlock}>
+          <Text style={styles.metricLabel}>VWAP</Text>
+          <Text style={styles.metricValue}>
+            {latestIndicators?.vwap != null ? latestIndicators.vwap.toFixed(2) : '—'}
+          </Text>
         </View>
-      ) : null}
+      </View>
+      <PriceChart
+        candles={chartCandles}
+        interval={chartInterval}
+        intervals={CHART_INTERVALS}
+        onIntervalChange={setChartInterval}
+        indicators={indicatorPoints}
+      />
       <FlatList
         data={updates}
         renderItem={renderItem}
@@ -897,7 +2274,11 @@ export default function App(): JSX.Element {
         contentContainerStyle={updates.length === 0 ? styles.emptyContent : undefined}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>Waiting for trade updates…</Text>
+            <Text style={styles.emptyText}>
+              {activeSilent
+                ? `No trades for ${activeSymbol} yet. Check the symbol, or its market may be closed.`
+                : 'Waiting for trade updates…'}
+            </Text>
           </View>
         }
       />
@@ -909,102 +2290,269 @@ export default function App(): JSX.Element {
       >
         <View style={styles.alertOverlay}>
           <View style={styles.alertSheet}>
-            <Text style={styles.alertTitle}>Create Price Alert</Text>
-            <Text style={styles.alertSubtitle}>Notify when {activeSymbol} trades…</Text>
-            <View style={styles.alertToggleRow}>
-              <Pressable
-                style={[
-                  styles.alertToggle,
-                  alertDirection === 'above' ? styles.alertToggleActive : null,
-                ]}
-                onPress={() => setAlertDirection('above')}
-              >
-                <Text
-                  style={[
-                    styles.alertToggleText,
-                    alertDirection === 'above' ? styles.alertToggleTextActive : null,
-                  ]}
-                >
-                  At or above
-                </Text>
-              </Pressable>
-              <Pressable
-                style={[
-                  styles.alertToggle,
-                  styles.alertToggleLast,
-                  alertDirection === 'below' ? styles.alertToggleActive : null,
-                ]}
-                onPress={() => setAlertDirection('below')}
-              >
-                <Text
-                  style={[
-                    styles.alertToggleText,
-                    alertDirection === 'below' ? styles.alertToggleTextActive : null,
-                  ]}
-                >
-                  At or below
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.alertTitle}>Create Price Alert</Text>
+              <Text style={styles.alertSubtitle}>Notify when {activeSymbol}…</Text>
+              <View style={styles.alertKindRow}>
+                {ALERT_KIND_OPTIONS.map(option => (
+                  <Pressable
+                    key={option.kind}
+                    style={[styles.alertKindChip, alertDraft.kind === option.kind ? styles.alertToggleActive : null]}
+                    onPress={() => updateAlertDraft({ kind: option.kind })}
+                  >
+                    <Text
+                      style={[
+                        styles.alertToggleText,
+                        alertDraft.kind === option.kind ? styles.alertToggleTextActive : null,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {alertDraft.kind === 'price' || alertDraft.kind === 'cross' ? (
+                <>
+                  {renderAlertOptions(
+                    alertDraft.kind === 'price'
+                      ? [
+                          { value: 'above', label: 'At or above' },
+                          { value: 'below', label: 'At or below' },
+                        ]
+                      : [
+                          { value: 'above', label: 'Crosses above' },
+                          { value: 'below', label: 'Crosses below' },
+                        ],
+                    alertDraft.direction,
+                    direction => updateAlertDraft({ direction })
+                  )}
+                  <TextInput
+                    value={alertDraft.price}
+                    onChangeText={price => updateAlertDraft({ price })}
+                    placeholder="Price target"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="decimal-pad"
+                    style={styles.alertInput}
+                  />
+                </>
+              ) : null}
+              {alertDraft.kind === 'percentMove' ? (
+                <>
+                  {renderAlertOptions<MoveDirection>(
+                    [
+                      { value: 'either', label: 'Either way' },
+                      { value: 'up', label: 'Up' },
+                      { value: 'down', label: 'Down' },
+                    ],
+                    alertDraft.moveDirection,
+                    moveDirection => updateAlertDraft({ moveDirection })
+                  )}
+                  <Text style={styles.alertFieldLabel}>Move (%)</Text>
+                  <TextInput
+                    value={alertDraft.percent}
+                    onChangeText={percent => updateAlertDraft({ percent })}
+                    placeholder="3"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="decimal-pad"
+                    style={styles.alertInput}
+                  />
+                  <Text style={styles.alertFieldLabel}>Within (minutes)</Text>
+                  <TextInput
+                    value={alertDraft.minutes}
+                    onChangeText={minutes => updateAlertDraft({ minutes })}
+                    placeholder="15"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="number-pad"
+                    style={styles.alertInput}
+                  />
+                </>
+              ) : null}
+              {alertDraft.kind === 'maCross' ? (
+                <>
+                  {renderAlertOptions<AlertDirection>(
+                    [
+                      { value: 'above', label: 'Crosses above' },
+                      { value: 'below', label: 'Crosses below' },
+                    ],
+                    alertDraft.direction,
+                    direction => updateAlertDraft({ direction })
+                  )}
+                  {renderAlertOptions<MovingAverageKind>(
+                    [
+                      { value: 'sma', label: 'SMA' },
+                      { value: 'ema', label: 'EMA' },
+                    ],
+                    alertDraft.average,
+                    average => updateAlertDraft({ average })
+                  )}
+                  <Text style={styles.alertFieldLabel}>Period (1m bars)</Text>
+                  <TextInput
+                    value={alertDraft.period}
+                    onChangeText={period => updateAlertDraft({ period })}
+                    placeholder="20"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="number-pad"
+                    style={styles.alertInput}
+                  />
+                </>
+              ) : null}
+              {alertDraft.kind === 'volumeSpike' ? (
+                <>
+                  <Text style={styles.alertFieldLabel}>Current 1m volume at least (× average)</Text>
+                  <TextInput
+                    value={alertDraft.multiple}
+                    onChangeText={multiple => updateAlertDraft({ multiple })}
+                    placeholder="3"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="decimal-pad"
+                    style={styles.alertInput}
+                  />
+                  <Text style={styles.alertFieldLabel}>Average over (1m bars)</Text>
+                  <TextInput
+                    value={alertDraft.period}
+                    onChangeText={period => updateAlertDraft({ period })}
+                    placeholder="20"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="number-pad"
+                    style={styles.alertInput}
+                  />
+                </>
+              ) : null}
+              {alertDraft.kind === 'noTrades' ? (
+                <>
+                  <Text style={styles.alertFieldLabel}>No trades for (minutes)</Text>
+                  <TextInput
+                    value={alertDraft.minutes}
+                    onChangeText={minutes => updateAlertDraft({ minutes })}
+                    placeholder="15"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="number-pad"
+                    style={styles.alertInput}
+                  />
+                </>
+              ) : null}
+              <Text style={styles.alertFieldLabel}>After it fires</Text>
+              {renderAlertOptions<AlertRepeatMode>(
+                [
+                  { value: 'once', label: 'Once' },
+                  { value: 'rearm', label: 'Re-arm' },
+                  { value: 'cooldown', label: 'Repeat' },
+                ],
+                alertDraft.repeat,
+                repeat =>
+                  updateAlertDraft(
+                    repeat === 'cooldown' && !(Number(alertDraft.cooldown) >= MIN_REPEAT_COOLDOWN_MINUTES)
+                      ? { repeat, cooldown: String(DEFAULT_REPEAT_COOLDOWN_MINUTES) }
+                      : { repeat }
+                  )
+              )}
+              {alertDraft.repeat === 'rearm' &&
+              (alertDraft.kind === 'price' || alertDraft.kind === 'cross' || alertDraft.kind === 'maCross') ? (
+                <>
+                  <Text style={styles.alertFieldLabel}>Re-arm once price retreats by (%)</Text>
+                  <TextInput
+                    value={alertDraft.hysteresis}
+                    onChangeText={hysteresis => updateAlertDraft({ hysteresis })}
+                    placeholder="0.5"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="decimal-pad"
+                    style={styles.alertInput}
+                  />
+                </>
+              ) : null}
+              {alertDraft.repeat !== 'once' ? (
+                <>
+                  <Text style={styles.alertFieldLabel}>Minimum minutes between notifications</Text>
+                  <TextInput
+                    value={alertDraft.cooldown}
+                    onChangeText={cooldown => updateAlertDraft({ cooldown })}
+                    placeholder="0"
+                    placeholderTextColor="#4a5568"
+                    keyboardType="number-pad"
+                    style={styles.alertInput}
+                  />
+                </>
+              ) : null}
+              <Text style={styles.alertFieldLabel}>Expires</Text>
+              {renderAlertOptions(ALERT_EXPIRY_OPTIONS, alertDraft.expiry, expiry => updateAlertDraft({ expiry }))}
+              {alertDraft.expiry === 'custom' ? (
+                <TextInput
+                  value={alertDraft.expiryText}
+                  onChangeText={expiryText => updateAlertDraft({ expiryText })}
+                  placeholder="YYYY-MM-DD HH:MM"
+                  placeholderTextColor="#4a5568"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  style={styles.alertInput}
+                />
+              ) : null}
+              {alertError ? <Text style={styles.alertError}>{alertError}</Text> : null}
+              {!notificationAllowed ? (
+                <Text style={styles.alertPermissionWarning}>
+                  Alerts will be stored, but enable notifications to see banners.
                 </Text>
-              </Pressable>
-            </View>
-            <TextInput
-              value={alertPriceText}
-              onChangeText={setAlertPriceText}
-              placeholder="Price target"
-              placeholderTextColor="#4a5568"
-              keyboardType="decimal-pad"
-              style={styles.alertInput}
-            />
-            {alertError ? <Text style={styles.alertError}>{alertError}</Text> : null}
-            {!notificationAllowed ? (
-              <Text style={styles.alertPermissionWarning}>
-                Alerts will be stored, but enable notifications to see banners.
-              </Text>
-            ) : null}
-            <View style={styles.alertActions}>
-              <Pressable style={styles.alertCancelButton} onPress={handleCloseAlertModal}>
-                <Text style={styles.alertCancelText}>Cancel</Text>
-              </Pressable>
-              <Pressable style={styles.alertSaveButton} onPress={handleSaveAlert}>
-                <Text style={styles.alertSaveText}>Save Alert</Text>
-              </Pressable>
-            </View>
+              ) : null}
+              <View style={styles.alertActions}>
+                <Pressable style={styles.alertCancelButton} onPress={handleCloseAlertModal}>
+                  <Text style={styles.alertCancelText}>Cancel</Text>
+                </Pressable>
+                <Pressable style={styles.alertSaveButton} onPress={handleSaveAlert}>
+                  <Text style={styles.alertSaveText}>Save Alert</Text>
+                </Pressable>
+              </View>
+            </ScrollView>
           </View>
         </View>
       </Modal>
-      <Modal
-        animationType="slide"
-        transparent
+      <AlertsScreen
+        visible={allAlertsVisible}
+        alerts={allAlerts}
+        loading={allAlertsLoading}
+        unmonitoredSymbols={feedSymbols.dropped}
+        onClose={handleCloseAllAlerts}
+        onTogglePaused={handleToggleAlertPaused}
+        onRearm={handleRearmAlert}
+        onRemove={handleRemoveAlert}
+      />
+      <SettingsScreen
+        visible={settingsVisible}
+        settings={retentionSettings}
+        storage={storageUsage}
+        loading={storageLoading}
+        symbols={settingsSymbols}
+        error={settingsError}
+        uiRefreshMs={uiRefreshMs}
+        onUiRefreshChange={handleUiRefreshChange}
+        providerSettings={providerSettings}
+        missingCredentials={MISSING_CREDENTIALS}
+        onApplyProvider={handleApplyProvider}
+        importSymbol={activeSymbol}
+        transferBusy={transferBusy}
+        transferReport={transferReport}
+        onImportTrades={(source, symbol) => void handleImportTrades(source, symbol)}
+        onShareBackup={() => void handleShareBackup()}
+        onRestoreBackup={source => void handleRestoreBackup(source)}
+        onClose={handleCloseSettings}
+        onSave={handleSaveRetention}
+        onPurgeSymbol={handlePurgeSymbol}
+        onPurgeAll={handlePurgeAll}
+      />
+      <HistoryScreen
         visible={historyVisible}
-        onRequestClose={handleCloseHistory}
-      >
-        <View style={styles.historyOverlay}>
-          <View style={styles.historySheet}>
-            <View style={styles.historySheetHeader}>
-              <Text style={styles.historyTitle}>Cached History</Text>
-              <Pressable onPress={handleCloseHistory}>
-                <Text style={styles.historyCloseText}>Close</Text>
-              </Pressable>
-            </View>
-            {historyLoading ? (
-              <Text style={styles.historyStatus}>Loading…</Text>
-            ) : historyError ? (
-              <Text style={styles.historyStatus}>{historyError}</Text>
-            ) : (
-              <SectionList
-                sections={historySections}
-                renderItem={renderHistoryItem}
-                renderSectionHeader={renderHistorySectionHeader}
-                keyExtractor={item => item.key}
-                contentContainerStyle={
-                  historySections.length === 0 ? styles.historyEmpty : undefined
-                }
-                stickySectionHeadersEnabled={false}
-                showsVerticalScrollIndicator={false}
-              />
-            )}
-          </View>
-        </View>
-      </Modal>
+        sections={historySections}
+        loading={historyLoading}
+        loadingMore={historyLoadingMore}
+        status={historyError}
+        exportSymbols={exportSymbols}
+        exporting={exporting}
+        exportStatus={exportStatus}
+        onClose={handleCloseHistory}
+        onFilter={filter => void loadHistory(filter)}
+        onEndReached={() => void handleLoadMoreHistory()}
+        onDeleteTrade={trade => void handleDeleteHistoryTrade(trade)}
+        onDeleteSection={symbol => void handleDeleteHistorySection(symbol)}
+        onExport={request => void handleExport(request)}
+      />
     </SafeAreaView>
   );
 }
@@ -1028,11 +2576,29 @@ const styles = StyleSheet.create({
     color: '#f56565',
     fontSize: 12,
   },
+  retryText: {
+    marginTop: 4,
+    color: '#63b3ed',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  symbolErrorText: {
+    marginTop: -4,
+    marginBottom: 8,
+    color: '#f56565',
+    fontSize: 12,
+  },
   warningText: {
     marginTop: 4,
     color: '#ecc94b',
     fontSize: 12,
   },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  settingsButton: {
+    marginLeft: 8,
+  },
   historyButton: {
     marginTop: 12,
     alignSelf: 'flex-start',
@@ -1076,10 +2642,19 @@ const styles = StyleSheet.create({
   },
   quickSymbols: {
     flexDirection: 'row',
-    marginBottom: 12,
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  recentLabel: {
+    color: '#a0aec0',
+    fontSize: 12,
+    marginRight: 8,
+    marginBottom: 8,
   },
   symbolChip: {
     marginRight: 8,
+    marginBottom: 8,
     paddingHorizontal: 14,
     paddingVertical: 6,
     borderRadius: 16,
@@ -1099,6 +2674,59 @@ const styles = StyleSheet.create({
   symbolChipTextActive: {
     color: '#48bb78',
   },
+  watchlistContainer: {
+    backgroundColor: '#151d2b',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 12,
+  },
+  watchlistTitle: {
+    color: '#f7fafc',
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  watchlistScroll: {
+    maxHeight: 160,
+  },
+  watchlistRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    marginTop: 6,
+  },
+  watchlistRowActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  watchlistRowRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  watchlistSymbol: {
+    color: '#e2e8f0',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  watchlistSilent: {
+    color: '#ecc94b',
+    fontSize: 12,
+    marginRight: 12,
+  },
+  watchlistPrice: {
+    color: '#f6ad55',
+    fontSize: 14,
+    fontWeight: '600',
+    marginRight: 12,
+  },
   alertsContainer: {
     backgroundColor: '#151d2b',
     borderRadius: 12,
@@ -1119,6 +2747,23 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '700',
   },
+  alertsHeaderActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  alertsAllButton: {
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  alertsAllButtonText: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    fontWeight: '600',
+  },
   alertsAddButton: {
     backgroundColor: '#3182ce',
     borderRadius: 8,
@@ -1140,33 +2785,6 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontStyle: 'italic',
   },
-  alertRow: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingVertical: 8,
-    paddingHorizontal: 10,
-    borderRadius: 8,
-    borderWidth: 1,
-    marginTop: 6,
-  },
-  alertRowActive: {
-    borderColor: '#48bb78',
-    backgroundColor: '#1f2a3c',
-  },
-  alertRowTriggered: {
-    borderColor: '#4a5568',
-    backgroundColor: '#1a202c',
-  },
-  alertRowText: {
-    color: '#f7fafc',
-    fontSize: 14,
-    fontWeight: '600',
-  },
-  alertRowTextTriggered: {
-    color: '#718096',
-    textDecorationLine: 'line-through',
-  },
   alertRemoveText: {
     color: '#f56565',
     fontSize: 12,
@@ -1185,6 +2803,7 @@ const styles = StyleSheet.create({
     borderColor: '#2d3748',
     paddingHorizontal: 20,
     paddingVertical: 20,
+    maxHeight: '85%',
   },
   alertTitle: {
     color: '#f7fafc',
@@ -1213,6 +2832,25 @@ const styles = StyleSheet.create({
   alertToggleLast: {
     marginRight: 0,
   },
+  alertKindRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  alertKindChip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  alertFieldLabel: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    marginBottom: 4,
+  },
   alertToggleActive: {
     borderColor: '#48bb78',
     backgroundColor: '#1f2a3c',
@@ -1272,6 +2910,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  quoteText: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    marginBottom: 8,
+  },
   analyticsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1315,149 +2958,6 @@ const styles = StyleSheet.create({
     color: '#ecc94b',
     fontSize: 12,
   },
-  sparkline: {
-    backgroundColor: '#151d2b',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#2d3748',
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    marginBottom: 16,
-  },
-  sparklineHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  sparklineLabel: {
-    color: '#f7fafc',
-    fontSize: 12,
-    fontWeight: '600',
-    letterSpacing: 0.2,
-  },
-  sparklineRange: {
-    color: '#9aa5b1',
-    fontSize: 12,
-  },
-  sparklineChart: {
-    width: '100%',
-    height: 48,
-  },
-  historyOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(15, 22, 36, 0.85)',
-    justifyContent: 'center',
-    paddingHorizontal: 18,
-  },
-  historySheet: {
-    backgroundColor: '#0f1624',
-    borderRadius: 16,
-    paddingHorizontal: 16,
-    paddingVertical: 16,
-    borderWidth: 1,
-    borderColor: '#2d3748',
-    maxHeight: '80%',
-  },
-  historySheetHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 12,
-  },
-  historyTitle: {
-    color: '#f7fafc',
-    fontSize: 18,
-    fontWeight: '700',
-  },
-  historyCloseText: {
-    color: '#63b3ed',
-    fontSize: 14,
-    fontWeight: '600',
-  },
-  historyStatus: {
-    color: '#9aa5b1',
-    fontSize: 14,
-    textAlign: 'center',
-    paddingVertical: 24,
-  },
-  historyEmpty: {
-    paddingVertical: 40,
-    alignItems: 'center',
-  },
-  historySectionHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    backgroundColor: '#151d2b',
-    paddingHorizontal: 12,
-    paddingVertical: 8,
-    borderRadius: 8,
-    marginTop: 8,
-  },
-  historySectionTitle: {
-    color: '#f7fafc',
-    fontWeight: '700',
-    fontSize: 14,
-  },
-  historySectionMeta: {
-    color: '#9aa5b1',
-    fontSize: 12,
-  },
-  historyRow: {
-    backgroundColor: '#0f1b2d',
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#1f2a3c',
-    paddingHorizontal: 12,
-    paddingVertical: 10,
-    marginTop: 8,
-  },
-  historyRowHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-  },
-  historyRowPrice: {
-    color: '#f6ad55',
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  historyRowTimestamp: {
-    color: '#9aa5b1',
-    fontSize: 12,
-  },
-  row: {
-    padding: 12,
-    borderRadius: 12,
-    borderWidth: 1,
-    marginBottom: 10,
-  },
-  rowFresh: {
-    backgroundColor: '#1f2a3c',
-    borderColor: '#48bb78',
-  },
-  rowStale: {
-    backgroundColor: '#151d2b',
-    borderColor: '#2d3748',
-  },
-  rowHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 6,
-  },
-  symbol: {
-    color: '#f7fafc',
-    fontSize: 18,
-    fontWeight: '700',
-  },
-  price: {
-    color: '#f6ad55',
-    fontSize: 18,
-    fontWeight: '600',
-  },
-  timestamp: {
-    color: '#a0aec0',
-    fontSize: 12,
-  },
   emptyContainer: {
     alignItems: 'center',
     paddingTop: 40,
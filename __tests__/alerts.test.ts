@@ -0,0 +1,257 @@
+import {
+  AlertCondition,
+  alertConditionFromRow,
+  alertConditionToRow,
+  AlertMarketState,
+  AlertRules,
+  AlertRuntime,
+  AlertThreshold,
+  countAlertsByFilter,
+  DEFAULT_ALERT_RULES,
+  describeAlertCondition,
+  evaluateAlertCondition,
+  filterAlerts,
+  isAlertLive,
+  isAlertReset,
+  parseLocalDateTime,
+  stepAlert,
+  validateAlertCondition,
+  validateAlertRules,
+} from '../utils/alerts';
+import { Candle, candleFromTrade } from '../utils/market';
+
+const MINUTE = 60_000;
+const NOW = 100 * MINUTE + 30_000;
+
+const bar = (minute: number, close: number, extra: Partial<Candle> = {}): Candle => ({
+  ...candleFromTrade({ symbol: 'AAPL', price: close, timestamp: minute * MINUTE, volume: 10 }, '1m'),
+  ...extra,
+});
+
+const state = (overrides: Partial<AlertMarketState> = {}): AlertMarketState => ({
+  now: NOW,
+  price: 100,
+  previousPrice: 99,
+  lastTradeAt: NOW,
+  bars: [],
+  formingBar: null,
+  ...overrides,
+});
+
+describe('evaluateAlertCondition', () => {
+  it('keeps the original level semantics for price alerts', () => {
+    const condition: AlertCondition = { kind: 'price', direction: 'above', price: 100 };
+    expect(evaluateAlertCondition(condition, state(), 0)?.message).toMatch(/above 100\.00/);
+    expect(evaluateAlertCondition(condition, state({ previousPrice: 101 }), 0)).not.toBeNull();
+    expect(evaluateAlertCondition(condition, state({ price: 99.99 }), 0)).toBeNull();
+  });
+
+  it('fires crossing alerts only on the trade that crosses', () => {
+    const condition: AlertCondition = { kind: 'cross', direction: 'above', price: 100 };
+    expect(evaluateAlertCondition(condition, state(), 0)).not.toBeNull();
+    expect(evaluateAlertCondition(condition, state({ previousPrice: 100.5, price: 101 }), 0)).toBeNull();
+    expect(evaluateAlertCondition(condition, state({ previousPrice: null }), 0)).toBeNull();
+
+    const below: AlertCondition = { kind: 'cross', direction: 'below', price: 100 };
+    expect(evaluateAlertCondition(below, state({ previousPrice: 101, price: 100 }), 0)).not.toBeNull();
+    expect(evaluateAlertCondition(below, state({ previousPrice: 99, price: 98 }), 0)).toBeNull();
+  });
+
+  it('measures percent moves from the extremes inside the window', () => {
+    const bars = [bar(80, 50), bar(90, 100), bar(95, 104), bar(99, 102)];
+    const drop: AlertCondition = { kind: 'percentMove', direction: 'either', percent: 3, windowMinutes: 15 };
+    // 104 -> 100 is a 3.85% drop; the 50 bar at minute 80 is outside the 15 minute window.
+    const match = evaluateAlertCondition(drop, state({ bars, price: 100 }), 0);
+    expect(match?.value).toBeCloseTo(-3.846, 2);
+
+    const upOnly: AlertCondition = { ...drop, direction: 'up' };
+    expect(evaluateAlertCondition(upOnly, state({ bars, price: 100 }), 0)).toBeNull();
+    expect(evaluateAlertCondition(upOnly, state({ bars, price: 102.5 }), 0)).toBeNull();
+    expect(evaluateAlertCondition(upOnly, state({ bars, price: 106 }), 0)?.message).toMatch(/^Up 6\.00%/);
+    expect(evaluateAlertCondition(drop, state({ bars: [], price: 100 }), 0)).toBeNull();
+  });
+
+  it('detects crossings of a moving average of finished bars', () => {
+    const bars = [bar(97, 10), bar(98, 10), bar(99, 13)];
+    const condition: AlertCondition = { kind: 'maCross', direction: 'above', average: 'sma', period: 3 };
+    expect(evaluateAlertCondition(condition, state({ bars, previousPrice: 10.5, price: 11.2 }), 0)?.message).toMatch(
+      /SMA\(3\) 11\.00/
+    );
+    expect(evaluateAlertCondition(condition, state({ bars, previousPrice: 11.5, price: 12 }), 0)).toBeNull();
+    expect(evaluateAlertCondition(condition, state({ bars: bars.slice(1), previousPrice: 10, price: 20 }), 0)).toBeNull();
+  });
+
+  it('compares the forming bar volume with the recent average', () => {
+    const bars = [bar(97, 10), bar(98, 10), bar(99, 10)];
+    const condition: AlertCondition = { kind: 'volumeSpike', multiple: 3, lookback: 3 };
+    expect(evaluateAlertCondition(condition, state({ bars, formingBar: bar(100, 10, { volume: 30 }) }), 0)?.value).toBe(3);
+    expect(evaluateAlertCondition(condition, state({ bars, formingBar: bar(100, 10, { volume: 29 }) }), 0)).toBeNull();
+    expect(
+      evaluateAlertCondition(condition, state({ bars: bars.slice(1), formingBar: bar(100, 10, { volume: 90 }) }), 0)
+    ).toBeNull();
+  });
+
+  it('fires quiet-feed alerts from the later of the last trade and arming', () => {
+    const condition: AlertCondition = { kind: 'noTrades', minutes: 5 };
+    const quiet = state({ price: null, lastTradeAt: NOW - 6 * MINUTE });
+    expect(evaluateAlertCondition(condition, quiet, 0)?.message).toBe('No trades for 6 min.');
+    expect(evaluateAlertCondition(condition, quiet, NOW - 2 * MINUTE)).toBeNull();
+    expect(evaluateAlertCondition(condition, state({ price: null, lastTradeAt: null }), NOW - 5 * MINUTE)).not.toBeNull();
+  });
+
+  it('ignores trade-driven conditions on timer checks', () => {
+    const condition: AlertCondition = { kind: 'price', direction: 'below', price: 1000 };
+    expect(evaluateAlertCondition(condition, state({ price: null }), 0)).toBeNull();
+  });
+});
+
+describe('validateAlertCondition', () => {
+  it('rejects out-of-range parameters', () => {
+    expect(validateAlertCondition({ kind: 'cross', direction: 'above', price: 0 })).not.toBeNull();
+    expect(validateAlertCondition({ kind: 'percentMove', direction: 'up', percent: 2, windowMinutes: 1.5 })).not.toBeNull();
+    expect(validateAlertCondition({ kind: 'maCross', direction: 'below', average: 'ema', period: 1 })).not.toBeNull();
+    expect(validateAlertCondition({ kind: 'volumeSpike', multiple: 1, lookback: 20 })).not.toBeNull();
+    expect(validateAlertCondition({ kind: 'noTrades', minutes: 10 })).toBeNull();
+  });
+});
+
+describe('condition rows', () => {
+  it('round-trips every condition kind', () => {
+    const conditions: AlertCondition[] = [
+      { kind: 'price', direction: 'below', price: 90 },
+      { kind: 'cross', direction: 'above', price: 120.5 },
+      { kind: 'percentMove', direction: 'either', percent: 3, windowMinutes: 15 },
+      { kind: 'maCross', direction: 'below', average: 'ema', period: 20 },
+      { kind: 'volumeSpike', multiple: 4, lookback: 20 },
+      { kind: 'noTrades', minutes: 120 },
+    ];
+    conditions.forEach(condition => {
+      expect(alertConditionFromRow(alertConditionToRow(condition))).toEqual(condition);
+    });
+  });
+
+  it('reads legacy rows and refuses malformed ones', () => {
+    expect(alertConditionFromRow({ kind: 'price', direction: 'above', price: 150, params: null })).toEqual({
+      kind: 'price',
+      direction: 'above',
+      price: 150,
+    });
+    expect(alertConditionFromRow({ kind: 'cross', direction: 'above', price: 1, params: '{oops' })).toBeNull();
+    expect(alertConditionFromRow({ kind: 'moonPhase', direction: 'above', price: 0, params: '{}' })).toBeNull();
+    expect(alertConditionFromRow({ kind: 'maCross', direction: 'above', price: 0, params: '{"period":5}' })).toBeNull();
+  });
+
+  it('describes conditions for the alert list', () => {
+    expect(describeAlertCondition({ kind: 'percentMove', direction: 'either', percent: 3, windowMinutes: 15 })).toBe(
+      '±3% in 15m'
+    );
+    expect(describeAlertCondition({ kind: 'noTrades', minutes: 120 })).toBe('no trades for 2h');
+  });
+});
+
+describe('stepAlert', () => {
+  const level: AlertCondition = { kind: 'price', direction: 'above', price: 100 };
+  const armed: AlertRuntime = { status: 'armed', paused: false, lastFiredAt: null, armedAt: 0 };
+  const rules = (overrides: Partial<AlertRules> = {}): AlertRules => ({ ...DEFAULT_ALERT_RULES, ...overrides });
+
+  it('finishes one-shot alerts after the first match', () => {
+    const step = stepAlert(level, rules(), armed, state());
+    expect(step).toMatchObject({ type: 'fire', status: 'done' });
+    expect(stepAlert(level, rules(), { ...armed, status: 'done' }, state())).toEqual({ type: 'idle' });
+  });
+
+  it('waits for price to clear the hysteresis band before re-arming', () => {
+    const rearm = rules({ repeat: 'rearm', hysteresisPercent: 1 });
+    expect(stepAlert(level, rearm, armed, state())).toMatchObject({ type: 'fire', status: 'waiting' });
+
+    const waiting: AlertRuntime = { ...armed, status: 'waiting', lastFiredAt: NOW };
+    expect(stepAlert(level, rearm, waiting, state({ price: 99.5 }))).toEqual({ type: 'idle' });
+    expect(stepAlert(level, rearm, waiting, state({ price: 99 }))).toEqual({ type: 'rearm' });
+  });
+
+  it('suppresses repeats inside the cooldown', () => {
+    const cooldown = rules({ repeat: 'cooldown', cooldownMinutes: 5 });
+    const recent: AlertRuntime = { ...armed, lastFiredAt: NOW - 4 * MINUTE };
+    expect(stepAlert(level, cooldown, recent, state())).toEqual({ type: 'idle' });
+    expect(stepAlert(level, cooldown, { ...recent, lastFiredAt: NOW - 5 * MINUTE }, state())).toMatchObject({
+      type: 'fire',
+      status: 'armed',
+    });
+    // Stored before the minimum was enforced: still held back for a minute.
+    const noCooldown = rules({ repeat: 'cooldown', cooldownMinutes: 0 });
+    expect(stepAlert(level, noCooldown, { ...armed, lastFiredAt: NOW - 1000 }, state())).toEqual({ type: 'idle' });
+  });
+
+  it('expires and ignores paused alerts', () => {
+    expect(stepAlert(level, rules({ expiresAt: NOW }), armed, state())).toEqual({ type: 'expire' });
+    expect(stepAlert(level, rules({ expiresAt: NOW }), { ...armed, paused: true }, state())).toEqual({ type: 'idle' });
+  });
+});
+
+describe('isAlertReset', () => {
+  it('resets quiet-feed alerts on the next trade', () => {
+    const condition: AlertCondition = { kind: 'noTrades', minutes: 5 };
+    expect(isAlertReset(condition, state({ lastTradeAt: NOW - MINUTE }), 0, NOW - 2 * MINUTE)).toBe(true);
+    expect(isAlertReset(condition, state({ lastTradeAt: NOW - 3 * MINUTE }), 0, NOW - 2 * MINUTE)).toBe(false);
+  });
+
+  it('resets below-level alerts once price recovers past the band', () => {
+    const condition: AlertCondition = { kind: 'cross', direction: 'below', price: 100 };
+    expect(isAlertReset(condition, state({ price: 100.4 }), 0.5, NOW)).toBe(false);
+    expect(isAlertReset(condition, state({ price: 100.5 }), 0.5, NOW)).toBe(true);
+  });
+});
+
+describe('alert rule parsing', () => {
+  it('validates rules against the current time', () => {
+    expect(validateAlertRules(DEFAULT_ALERT_RULES, NOW)).toBeNull();
+    expect(validateAlertRules({ ...DEFAULT_ALERT_RULES, expiresAt: NOW - 1 }, NOW)).not.toBeNull();
+    expect(validateAlertRules({ ...DEFAULT_ALERT_RULES, cooldownMinutes: -1 }, NOW)).not.toBeNull();
+  });
+
+  it('requires a cooldown for alerts that repeat while the condition holds', () => {
+    expect(validateAlertRules({ ...DEFAULT_ALERT_RULES, repeat: 'cooldown' }, NOW)).toBe(
+      'Repeating alerts need a cooldown of at least 1 minute.'
+    );
+    expect(validateAlertRules({ ...DEFAULT_ALERT_RULES, repeat: 'cooldown', cooldownMinutes: 1 }, NOW)).toBeNull();
+    expect(validateAlertRules({ ...DEFAULT_ALERT_RULES, repeat: 'rearm' }, NOW)).toBeNull();
+  });
+
+  it('parses local expiry times', () => {
+    expect(parseLocalDateTime('2024-03-05 09:30')).toBe(new Date(2024, 2, 5, 9, 30).getTime());
+    expect(parseLocalDateTime('2024-02-30 09:30')).toBeNull();
+    expect(parseLocalDateTime('tomorrow')).toBeNull();
+  });
+});
+
+describe('alert filters', () => {
+  const alert = (id: string, overrides: Partial<AlertThreshold>): AlertThreshold => ({
+    id,
+    symbol: 'AAPL',
+    condition: { kind: 'price', direction: 'above', price: 100 },
+    rules: DEFAULT_ALERT_RULES,
+    status: 'armed',
+    paused: false,
+    createdAt: 0,
+    lastFiredAt: null,
+    fireCount: 0,
+    ...overrides,
+  });
+  const alerts = [
+    alert('armed', {}),
+    alert('waiting', { status: 'waiting' }),
+    alert('paused', { paused: true }),
+    alert('done', { status: 'done', paused: true }),
+    alert('expired', { status: 'expired' }),
+  ];
+
+  it('buckets every alert exactly once', () => {
+    expect(countAlertsByFilter(alerts)).toEqual({ all: 5, active: 2, paused: 1, fired: 1, expired: 1 });
+    expect(filterAlerts(alerts, 'active').map(item => item.id)).toEqual(['armed', 'waiting']);
+    expect(filterAlerts(alerts, 'fired').map(item => item.id)).toEqual(['done']);
+  });
+
+  it('treats only unpaused armed or waiting alerts as live', () => {
+    expect(alerts.filter(isAlertLive).map(item => item.id)).toEqual(['armed', 'waiting']);
+  });
+});
@@ -0,0 +1,310 @@
+import { createBackfiller } from '../storage/backfill';
+import { createMemoryBackfillRepository, createMemoryTradeRepository } from '../storage/memoryRepositories';
+import { createGapTracker, extendCoverage, planBackfill } from '../utils/backfill';
+import {
+  candleEndpoint,
+  createFinnhubRestClient,
+  FinnhubRestError,
+  parseCandleResponse,
+  parseQuoteResponse,
+} from '../utils/finnhubRest';
+import { Candle } from '../utils/market';
+import { HttpStub, startHttpStub, StubResponse } from './support/httpStub';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+// Finnhub's candle payload for bars starting at the given epoch milliseconds.
+const candlePayload = (starts: number[], close = 100) => ({
+  s: 'ok',
+  t: starts.map(start => start / 1000),
+  o: starts.map(() => close - 1),
+  h: starts.map(() => close + 1),
+  l: starts.map(() => close - 2),
+  c: starts.map(() => close),
+  v: starts.map(() => 10),
+});
+
+// Answers candle requests with one bar per resolution step in the requested range, like Finnhub does.
+const finnhubHandler =
+  (close = 100) =>
+  (url: URL): StubResponse => {
+    if (url.pathname.endsWith('/quote')) {
+      return { body: { c: 190.5, d: 1.5, dp: 0.79, h: 191, l: 188, o: 189, pc: 189, t: 1_718_000_000 } };
+    }
+    const from = Number(url.searchParams.get('from')) * 1000;
+    const to = Number(url.searchParams.get('to')) * 1000;
+    const step = Number(url.searchParams.get('resolution')) * MINUTE;
+    const starts: number[] = [];
+    for (let start = Math.ceil(from / step) * step; start <= to; start += step) {
+      starts.push(start);
+    }
+    return { body: starts.length ? candlePayload(starts, close) : { s: 'no_data' } };
+  };
+
+const localBar = (start: number): Candle => ({
+  symbol: 'AAPL',
+  interval: '1m',
+  start,
+  open: 50,
+  high: 50,
+  low: 50,
+  close: 50,
+  volume: 1,
+  tradeCount: 1,
+  openTime: start,
+  closeTime: start,
+});
+
+describe('planBackfill', () => {
+  const window = { from: 10 * MINUTE, to: 20 * MINUTE };
+
+  it('fetches the whole window when nothing was fetched before', () => {
+    expect(planBackfill(window, null, 20 * MINUTE, MINUTE, 5 * MINUTE)).toEqual([window]);
+    expect(planBackfill({ from: 5, to: 5 }, null, 0, MINUTE, 0)).toEqual([]);
+  });
+
+  it('fetches only older history and a stale newest end', () => {
+    const coverage = { symbol: 'AAPL', interval: '1m' as const, from: 15 * MINUTE, to: 18 * MINUTE, fetchedAt: 0 };
+    expect(planBackfill(window, coverage, 20 * MINUTE, MINUTE, 5 * MINUTE)).toEqual([
+      { from: 10 * MINUTE, to: 15 * MINUTE },
+      { from: 18 * MINUTE, to: 20 * MINUTE },
+    ]);
+    const recent = { ...coverage, fetchedAt: 19 * MINUTE };
+    expect(planBackfill(window, recent, 20 * MINUTE, MINUTE, 5 * MINUTE)).toEqual([
+      { from: 10 * MINUTE, to: 15 * MINUTE },
+    ]);
+  });
+
+  it('extends coverage only with ranges that touch it', () => {
+    const coverage = { symbol: 'AAPL', interval: '1m' as const, from: 10, to: 20, fetchedAt: 1 };
+    expect(extendCoverage(coverage, 'AAPL', '1m', { from: 20, to: 30 }, 5)).toEqual({
+      ...coverage,
+      to: 30,
+      fetchedAt: 5,
+    });
+    expect(extendCoverage(coverage, 'AAPL', '1m', { from: 0, to: 10 }, 5)).toEqual({ ...coverage, from: 0 });
+    expect(extendCoverage(coverage, 'AAPL', '1m', { from: 25, to: 30 }, 5)).toBeNull();
+    expect(extendCoverage(null, 'AAPL', '1m', { from: 25, to: 30 }, 5)).toMatchObject({ from: 25, to: 30 });
+  });
+});
+
+describe('createGapTracker', () => {
+  it('reports an outage from the last frame until the feed reopens', () => {
+    const tracker = createGapTracker(MINUTE);
+    expect(tracker.update('connecting', 0, null)).toBeNull();
+    expect(tracker.update('open', 1000, null)).toBeNull();
+    expect(tracker.update('closed', 5 * MINUTE, 2 * MINUTE)).toBeNull();
+    expect(tracker.update('connecting', 6 * MINUTE, 2 * MINUTE)).toBeNull();
+    expect(tracker.update('open', 9 * MINUTE, 2 * MINUTE)).toEqual({ from: 2 * MINUTE, to: 9 * MINUTE });
+    expect(tracker.update('open', 10 * MINUTE, 9 * MINUTE)).toBeNull();
+  });
+
+  it('ignores blips shorter than the minimum', () => {
+    const tracker = createGapTracker(MINUTE);
+    tracker.update('open', 0, null);
+    tracker.update('stale', 30_000, 10_000);
+    expect(tracker.update('open', 40_000, 10_000)).toBeNull();
+  });
+});
+
+describe('Finnhub REST parsing', () => {
+  it('turns candle arrays into bars and drops inconsistent ones', () => {
+    const payload = candlePayload([0, MINUTE]);
+    payload.h[1] = 0;
+    expect(parseCandleResponse('AAPL', '1m', payload)).toEqual([
+      {
+        symbol: 'AAPL',
+        interval: '1m',
+        start: 0,
+        open: 99,
+        high: 101,
+        low: 98,
+        close: 100,
+        volume: 10,
+        tradeCount: 0,
+        openTime: 0,
+        closeTime: MINUTE - 1,
+      },
+    ]);
+    expect(parseCandleResponse('AAPL', '1m', { s: 'no_data' })).toEqual([]);
+  });
+
+  it('treats an all-zero quote as unknown', () => {
+    expect(parseQuoteResponse('NOPE', { c: 0, d: null, dp: null, h: 0, l: 0, o: 0, pc: 0, t: 0 }, 1)).toBeNull();
+    expect(parseQuoteResponse('AAPL', { c: 10, pc: 9, t: 2 }, 1)).toMatchObject({
+      price: 10,
+      previousClose: 9,
+      quotedAt: 2000,
+      fetchedAt: 1,
+    });
+  });
+
+  it('picks the endpoint from the symbol', () => {
+    expect(candleEndpoint('AAPL')).toBe('stock/candle');
+    expect(candleEndpoint('BINANCE:BTCUSDT')).toBe('crypto/candle');
+    expect(candleEndpoint('OANDA:EUR_USD')).toBe('forex/candle');
+  });
+});
+
+describe('Finnhub REST client against a local stub', () => {
+  let stub: HttpStub;
+  let status = 200;
+
+  beforeEach(async () => {
+    status = 200;
+    stub = await startHttpStub(url => (status === 200 ? finnhubHandler()(url) : { status, body: { error: 'no' } }));
+  });
+
+  afterEach(async () => {
+    await stub.close();
+  });
+
+  it('requests candles in seconds with the token and keeps the half-open range', async () => {
+    const rest = createFinnhubRestClient({ token: 'secret', baseUrl: stub.baseUrl });
+    const candles = await rest.candles('BINANCE:BTCUSDT', '5m', 0, 15 * MINUTE);
+
+    const request = stub.requests[0];
+    expect(request.pathname).toBe('/api/v1/crypto/candle');
+    expect(Object.fromEntries(request.searchParams)).toEqual({
+      symbol: 'BINANCE:BTCUSDT',
+      resolution: '5',
+      from: '0',
+      to: String(15 * 60 - 1),
+      token: 'secret',
+    });
+    expect(candles.map(candle => candle.start)).toEqual([0, 5 * MINUTE, 10 * MINUTE]);
+  });
+
+  it('reports HTTP errors with their status and unreachable servers with none', async () => {
+    status = 403;
+    const rest = createFinnhubRestClient({ token: 'secret', baseUrl: stub.baseUrl });
+    await expect(rest.quote('AAPL')).rejects.toMatchObject({ name: 'FinnhubRestError', status: 403 });
+
+    const baseUrl = stub.baseUrl;
+    await stub.close();
+    stub = await startHttpStub(finnhubHandler());
+    const offline = createFinnhubRestClient({ token: 'secret', baseUrl });
+    const error = await offline.quote('AAPL').catch(err => err);
+    expect(error).toBeInstanceOf(FinnhubRestError);
+    expect(error.status).toBeNull();
+  });
+});
+
+describe('createBackfiller', () => {
+  let stub: HttpStub;
+  let now = 30 * MINUTE + 15_000;
+  const warn = jest.spyOn(console, 'warn');
+
+  beforeEach(async () => {
+    now = 30 * MINUTE + 15_000;
+    warn.mockImplementation(() => undefined);
+    stub = await startHttpStub(finnhubHandler());
+  });
+
+  afterEach(async () => {
+    warn.mockReset();
+    await stub.close();
+  });
+
+  const setup = (baseUrl = stub.baseUrl) => {
+    const trades = createMemoryTradeRepository();
+    const store = createMemoryBackfillRepository();
+    const backfiller = createBackfiller({
+      rest: createFinnhubRestClient({ token: 't', baseUrl, now: () => now }),
+      trades,
+      store,
+      now: () => now,
+      refreshAfterMs: 5 * MINUTE,
+    });
+    return { trades, store, backfiller };
+  };
+
+  it('fills finished bars around local ones and skips fresh coverage', async () => {
+    const { trades, store, backfiller } = setup();
+    await trades.saveCandles([localBar(28 * MINUTE)]);
+
+    await expect(backfiller.backfillRecent('AAPL', '1m', 10)).resolves.toBe('filled');
+    const stored = await trades.recentCandles('AAPL', '1m', 20);
+    expect(stored.map(candle => candle.start / MINUTE)).toEqual([20, 21, 22, 23, 24, 25, 26, 27, 28, 29]);
+    expect(stored.find(candle => candle.start === 28 * MINUTE)?.close).toBe(50);
+    expect(await store.getCoverage('AAPL', '1m')).toMatchObject({ from: 20 * MINUTE, to: 30 * MINUTE });
+
+    now += 2 * MINUTE;
+    await expect(backfiller.backfillRecent('AAPL', '1m', 10)).resolves.toBe('fresh');
+    expect(stub.requests).toHaveLength(1);
+
+    now += 5 * MINUTE;
+    await expect(backfiller.backfillRecent('AAPL', '1m', 10)).resolves.toBe('filled');
+    expect(stub.requests).toHaveLength(2);
+    expect(Number(stub.requests[1].searchParams.get('from')) * 1000).toBe(30 * MINUTE);
+  });
+
+  it('leaves a bucket that just ended to the live aggregator', async () => {
+    now = 30 * MINUTE + 1_000;
+    const { trades, store, backfiller } = setup();
+
+    await expect(backfiller.backfillRecent('AAPL', '1m', 10)).resolves.toBe('filled');
+    const stored = await trades.recentCandles('AAPL', '1m', 20);
+    expect(stored.map(candle => candle.start / MINUTE)).toEqual([19, 20, 21, 22, 23, 24, 25, 26, 27, 28]);
+    expect(await store.getCoverage('AAPL', '1m')).toMatchObject({ from: 19 * MINUTE, to: 29 * MINUTE });
+  });
+
+  it('shares one fetch between concurrent callers and skips unsupported intervals', async () => {
+    const { backfiller } = setup();
+    const outcomes = await Promise.all([
+      backfiller.backfillRecent('AAPL', '1m', 5),
+      backfiller.backfillRecent('AAPL', '1m', 5),
+      backfiller.backfillRecent('AAPL', '1s', 5),
+    ]);
+    expect(outcomes).toEqual(['filled', 'filled', 'unsupported']);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('fills only whole buckets inside an outage', async () => {
+    const { trades, store, backfiller } = setup();
+    const gap = { from: 10 * MINUTE + 20_000, to: 14 * MINUTE + 5_000 };
+
+    await expect(backfiller.fillGap(['AAPL'], gap)).resolves.toBe('filled');
+    const stored = await trades.recentCandles('AAPL', '1m', 20);
+    expect(stored.map(candle => candle.start / MINUTE)).toEqual([11, 12, 13]);
+    // 5m and 1h buckets are not wholly inside a four-minute outage.
+    expect(stub.requests).toHaveLength(1);
+    expect(await store.getCoverage('AAPL', '1m')).toMatchObject({ from: 11 * MINUTE, to: 14 * MINUTE });
+  });
+
+  it('degrades to stored data when Finnhub is unreachable or refuses', async () => {
+    const baseUrl = stub.baseUrl;
+    await stub.close();
+    const offline = setup(baseUrl);
+    await offline.trades.saveCandles([localBar(28 * MINUTE)]);
+    await expect(offline.backfiller.backfillRecent('AAPL', '1m', 10)).resolves.toBe('offline');
+    expect((await offline.trades.recentCandles('AAPL', '1m', 20)).length).toBe(1);
+    expect(await offline.store.getCoverage('AAPL', '1m')).toBeNull();
+
+    stub = await startHttpStub(() => ({ status: 403, body: { error: "You don't have access to this resource." } }));
+    const denied = setup();
+    await expect(denied.backfiller.backfillRecent('AAPL', '1m', 10)).resolves.toBe('unavailable');
+    await expect(denied.backfiller.backfillRecent('MSFT', '5m', 10)).resolves.toBe('unavailable');
+    await expect(denied.backfiller.fillGap(['AAPL'], { from: 0, to: HOUR })).resolves.toBe('unavailable');
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('caches quotes and serves the cached one when offline', async () => {
+    const { store, backfiller } = setup();
+    const quote = await backfiller.quote('AAPL');
+    expect(quote).toMatchObject({ symbol: 'AAPL', price: 190.5, fetchedAt: now });
+    await backfiller.quote('AAPL');
+    expect(stub.requests).toHaveLength(1);
+
+    await stub.close();
+    stub = await startHttpStub(finnhubHandler());
+    const offline = createBackfiller({
+      rest: createFinnhubRestClient({ token: 't', baseUrl: 'http://127.0.0.1:9/api/v1' }),
+      trades: createMemoryTradeRepository(),
+      store,
+      now: () => now + HOUR,
+    });
+    await expect(offline.quote('AAPL')).resolves.toEqual(quote);
+  });
+});
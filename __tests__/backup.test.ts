@@ -0,0 +1,120 @@
+import { collectBackup, restoreBackup } from '../storage/backup';
+import {
+  createMemoryAlertRepository,
+  createMemoryFavoritesRepository,
+  createMemorySettingsRepository,
+} from '../storage/memoryRepositories';
+import { AlertCondition, DEFAULT_ALERT_RULES } from '../utils/alerts';
+import { BackupFormatError, backupFileName, parseBackup, serializeBackup } from '../utils/backup';
+
+const level: AlertCondition = { kind: 'price', direction: 'above', price: 200 };
+const move: AlertCondition = { kind: 'percentMove', direction: 'either', percent: 2, windowMinutes: 15 };
+
+const createStores = () => ({
+  alerts: createMemoryAlertRepository(),
+  favorites: createMemoryFavoritesRepository(),
+  settings: createMemorySettingsRepository(),
+});
+
+describe('app backup', () => {
+  it('carries the watchlist, favorites, alerts and settings to another device', async () => {
+    const source = createStores();
+    await source.favorites.saveWatchlist(['AAPL', 'BINANCE:BTCUSDT']);
+    await source.favorites.saveFavorites(['BINANCE:BTCUSDT']);
+    await source.settings.setSetting('uiRefreshMs', '250');
+    await source.settings.setSetting('metricsBaseline', '60');
+    await source.alerts.create({ symbol: 'AAPL', condition: level, rules: DEFAULT_ALERT_RULES, createdAt: 1 }, 20);
+    const paused = await source.alerts.create(
+      { symbol: 'BINANCE:BTCUSDT', condition: move, rules: { ...DEFAULT_ALERT_RULES, repeat: 'rearm' }, createdAt: 2 },
+      20
+    );
+    await source.alerts.setPaused(paused, true);
+
+    const text = serializeBackup(await collectBackup(source, 1_000));
+    expect(JSON.parse(text)).toMatchObject({ format: 'price-updates-backup', version: 1, createdAt: 1_000 });
+
+    const target = createStores();
+    await target.settings.setSetting('uiRefreshMs', '1000');
+    await target.settings.setSetting('retention', '{"budgetMb":5}');
+    await target.alerts.create({ symbol: 'AAPL', condition: level, rules: DEFAULT_ALERT_RULES, createdAt: 9 }, 20);
+
+    const { backup, errors } = parseBackup(text);
+    expect(errors).toEqual([]);
+    expect(await restoreBackup(target, backup, 20)).toEqual({ alertsAdded: 1, alertsKept: 1, settings: 2 });
+    expect(await target.favorites.listWatchlist()).toEqual(['AAPL', 'BINANCE:BTCUSDT']);
+    expect(await target.favorites.listFavorites()).toEqual(['BINANCE:BTCUSDT']);
+    expect(await target.settings.allSettings()).toEqual({
+      metricsBaseline: '60',
+      retention: '{"budgetMb":5}',
+      uiRefreshMs: '250',
+    });
+    const restored = await target.alerts.listAll(10);
+    expect(restored.map(alert => [alert.symbol, alert.condition.kind, alert.paused])).toEqual([
+      ['AAPL', 'price', false],
+      ['BINANCE:BTCUSDT', 'percentMove', true],
+    ]);
+    expect(restored[1].rules.repeat).toBe('rearm');
+  });
+
+  it('leaves out alerts and settings that do not validate', () => {
+    const { backup, errors } = parseBackup(
+      JSON.stringify({
+        format: 'price-updates-backup',
+        version: 1,
+        createdAt: 5,
+        watchlist: ['AAPL', 7, 'AAPL'],
+        favorites: [],
+        alerts: [
+          { symbol: 'AAPL', condition: { kind: 'price', direction: 'above', price: -1 }, rules: DEFAULT_ALERT_RULES },
+          { symbol: 'MSFT', condition: { kind: 'teleport' }, rules: DEFAULT_ALERT_RULES },
+          { symbol: 'TSLA', condition: level, rules: { ...DEFAULT_ALERT_RULES, expiresAt: 10 }, status: 'expired' },
+        ],
+        settings: { uiRefreshMs: '250', retention: { budgetMb: 5 } },
+      })
+    );
+    expect(backup.watchlist).toEqual(['AAPL']);
+    // A lapsed expiry is kept: the alert simply comes back expired.
+    expect(backup.alerts).toEqual([
+      {
+        symbol: 'TSLA',
+        condition: level,
+        rules: { ...DEFAULT_ALERT_RULES, expiresAt: 10 },
+        status: 'expired',
+        paused: false,
+        createdAt: 0,
+      },
+    ]);
+    expect(backup.settings).toEqual({ uiRefreshMs: '250' });
+    expect(errors).toEqual([
+      'Alert 1 (AAPL): Enter a valid price greater than zero.',
+      'Alert 2 (MSFT): unknown condition',
+      'Setting retention: not a stored value.',
+      'Skipped 1 unreadable watchlist entries.',
+    ]);
+  });
+
+  it('leaves the watchlist and favorites alone when the backup has none', async () => {
+    const target = createStores();
+    await target.favorites.saveWatchlist(['AAPL', 'MSFT']);
+    await target.favorites.saveFavorites(['MSFT']);
+    const { backup, errors } = parseBackup('{"format":"price-updates-backup","version":1,"settings":{"a":"1"}}');
+    expect(backup).toMatchObject({ watchlist: null, favorites: null });
+    expect(errors).toEqual(['No watchlist in the backup.', 'No favorites in the backup.']);
+    expect(await restoreBackup(target, backup, 20)).toEqual({ alertsAdded: 0, alertsKept: 0, settings: 1 });
+    expect(await target.favorites.listWatchlist()).toEqual(['AAPL', 'MSFT']);
+    expect(await target.favorites.listFavorites()).toEqual(['MSFT']);
+
+    // An empty favorites list is a choice the backup made, and is restored as one.
+    await restoreBackup(target, { ...backup, favorites: [] }, 20);
+    expect(await target.favorites.listFavorites()).toEqual([]);
+  });
+
+  it('refuses documents that are not a backup this build can read', () => {
+    expect(() => parseBackup('{"format":"price-updates-export","version":1}')).toThrow(BackupFormatError);
+    expect(() => parseBackup('{"format":"price-updates-backup","version":2}')).toThrow(
+      'Unsupported backup version 2.'
+    );
+    expect(() => parseBackup('not json')).toThrow(BackupFormatError);
+    expect(backupFileName(Date.parse('2025-03-01T10:00:00Z'))).toBe('price-updates-backup-2025-03-01.json');
+  });
+});
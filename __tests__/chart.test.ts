@@ -0,0 +1,126 @@
+import {
+  clampViewport,
+  createLinearScale,
+  formatPriceTick,
+  formatTimeTick,
+  hitTestBar,
+  latestViewport,
+  niceStep,
+  panViewport,
+  priceExtent,
+  priceTicks,
+  timeTicks,
+  timeTickStep,
+  zoomViewport,
+} from '../utils/chart';
+
+describe('createLinearScale', () => {
+  it('maps and inverts values, including flipped ranges', () => {
+    const scale = createLinearScale(100, 200, 120, 0);
+    expect(scale.map(100)).toBe(120);
+    expect(scale.map(150)).toBe(60);
+    expect(scale.invert(0)).toBe(200);
+  });
+
+  it('does not divide by zero for a flat domain', () => {
+    const scale = createLinearScale(5, 5, 0, 10);
+    expect(Number.isFinite(scale.map(5))).toBe(true);
+  });
+});
+
+describe('niceStep', () => {
+  it('rounds to 1, 2 or 5 times a power of ten', () => {
+    expect(niceStep(0.7)).toBe(1);
+    expect(niceStep(1.3)).toBe(2);
+    expect(niceStep(3)).toBe(5);
+    expect(niceStep(7)).toBe(10);
+    expect(niceStep(0.0031)).toBeCloseTo(0.005);
+  });
+});
+
+describe('priceTicks', () => {
+  it('generates evenly spaced round ticks inside the range', () => {
+    expect(priceTicks(101.3, 109.8, 5)).toEqual([102, 104, 106, 108]);
+  });
+
+  it('avoids floating point noise', () => {
+    expect(priceTicks(0.1, 0.5, 4)).toEqual([0.1, 0.2, 0.3, 0.4, 0.5]);
+  });
+
+  it('handles flat and invalid input', () => {
+    expect(priceTicks(3, 3)).toEqual([3]);
+    expect(priceTicks(Number.NaN, 3)).toEqual([]);
+  });
+});
+
+describe('timeTicks', () => {
+  it('picks a step that fits the requested tick count', () => {
+    expect(timeTickStep(0, 60 * 60 * 1000, 4)).toBe(15 * 60 * 1000);
+    expect(timeTickStep(0, 20_000, 4)).toBe(5_000);
+  });
+
+  it('aligns ticks to the step', () => {
+    const start = Date.UTC(2024, 0, 1, 13, 7);
+    const end = Date.UTC(2024, 0, 1, 14, 7);
+    expect(timeTicks(start, end, 4)).toEqual([
+      Date.UTC(2024, 0, 1, 13, 15),
+      Date.UTC(2024, 0, 1, 13, 30),
+      Date.UTC(2024, 0, 1, 13, 45),
+      Date.UTC(2024, 0, 1, 14, 0),
+    ]);
+  });
+});
+
+describe('tick formatting', () => {
+  it('formats times by step size', () => {
+    const timestamp = Date.UTC(2024, 0, 1, 13, 45, 30);
+    expect(formatTimeTick(timestamp, 60 * 1000)).toMatch(/^\d{2}:\d{2}$/);
+    expect(formatTimeTick(timestamp, 5000)).toMatch(/^\d{2}:\d{2}:\d{2}$/);
+    expect(formatTimeTick(timestamp, 24 * 60 * 60 * 1000)).toMatch(/^\d{2}\/\d{2}$/);
+  });
+
+  it('formats prices with precision matching the step', () => {
+    expect(formatPriceTick(105, 5)).toBe('105.00');
+    expect(formatPriceTick(0.0125, 0.005)).toBe('0.0125');
+  });
+});
+
+describe('viewport math', () => {
+  it('clamps to the available bars', () => {
+    expect(clampViewport({ start: -5, count: 500 }, 100)).toEqual({ start: 0, count: 100 });
+    expect(clampViewport({ start: 95, count: 20 }, 100)).toEqual({ start: 80, count: 20 });
+    expect(clampViewport({ start: 0, count: 2 }, 100, 10)).toEqual({ start: 0, count: 10 });
+  });
+
+  it('starts at the newest bars', () => {
+    expect(latestViewport(100, 30)).toEqual({ start: 70, count: 30 });
+    expect(latestViewport(5, 30)).toEqual({ start: 0, count: 5 });
+  });
+
+  it('pans within bounds', () => {
+    expect(panViewport({ start: 70, count: 30 }, -10, 100)).toEqual({ start: 60, count: 30 });
+    expect(panViewport({ start: 70, count: 30 }, 10, 100)).toEqual({ start: 70, count: 30 });
+  });
+
+  it('zooms around the anchor', () => {
+    expect(zoomViewport({ start: 0, count: 100 }, 2, 0.5, 100)).toEqual({ start: 25, count: 50 });
+    expect(zoomViewport({ start: 50, count: 50 }, 2, 1, 100)).toEqual({ start: 75, count: 25 });
+    expect(zoomViewport({ start: 50, count: 50 }, 0.5, 1, 100)).toEqual({ start: 0, count: 100 });
+  });
+});
+
+describe('priceExtent', () => {
+  it('pads the high/low range', () => {
+    expect(priceExtent([{ high: 110, low: 100 }, { high: 120, low: 105 }], 0.1)).toEqual({ min: 98, max: 122 });
+    expect(priceExtent([])).toBeNull();
+  });
+});
+
+describe('hitTestBar', () => {
+  it('returns the bar index under x', () => {
+    expect(hitTestBar(10, 10, 100, 10)).toBe(0);
+    expect(hitTestBar(55, 10, 100, 10)).toBe(4);
+    expect(hitTestBar(110, 10, 100, 10)).toBe(9);
+    expect(hitTestBar(5, 10, 100, 10)).toBeNull();
+  });
+});
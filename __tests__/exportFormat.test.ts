@@ -0,0 +1,158 @@
+import { createMemoryAlertRepository, createMemoryTradeRepository } from '../storage/memoryRepositories';
+import { exportData } from '../storage/dataExport';
+import { DEFAULT_ALERT_RULES } from '../utils/alerts';
+import {
+  exportColumns,
+  ExportFiring,
+  exportFileName,
+  ExportFormatError,
+  exportRange,
+  parseCsv,
+  parseExport,
+  serializeExport,
+} from '../utils/exportFormat';
+import { FeedTrade } from '../utils/feedClient';
+import { Candle } from '../utils/market';
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+
+const trades: FeedTrade[] = [
+  { symbol: 'BINANCE:BTCUSDT', price: 64250.5, timestamp: utc('2025-03-01T10:00:00.125'), volume: 0.0125 },
+  { symbol: 'BINANCE:BTCUSDT', price: 64251, timestamp: utc('2025-03-01T10:00:01'), volume: 0 },
+];
+
+const bars: Candle[] = [
+  {
+    symbol: 'AAPL',
+    interval: '1m',
+    start: utc('2025-03-03T14:30'),
+    open: 240.1,
+    high: 241,
+    low: 239.5,
+    close: 240.75,
+    volume: 1200,
+    tradeCount: 14,
+    openTime: utc('2025-03-03T14:30:00.200'),
+    closeTime: utc('2025-03-03T14:30:59.900'),
+  },
+];
+
+const firings: ExportFiring[] = [
+  { alertId: '3', symbol: 'AAPL', firedAt: utc('2025-03-03T15:00'), value: 242, message: 'AAPL crossed 242' },
+  // Commas, quotes and a line break all need quoting in CSV.
+  { alertId: '4', symbol: 'AAPL', firedAt: utc('2025-03-03T16:00'), value: -1.5, message: 'Said "drop", then\nfell' },
+];
+
+describe('serializeExport', () => {
+  it('writes the documented columns with an ISO time beside each timestamp', () => {
+    expect(exportColumns('trades')).toEqual(['symbol', 'timestamp', 'time', 'price', 'volume']);
+    expect(serializeExport('trades', trades.slice(0, 1), 'csv')).toBe(
+      'symbol,timestamp,time,price,volume\nBINANCE:BTCUSDT,1740823200125,2025-03-01T10:00:00.125Z,64250.5,0.0125\n'
+    );
+  });
+
+  it('quotes cells holding commas, quotes or line breaks', () => {
+    const csv = serializeExport('alerts', firings.slice(1), 'csv');
+    expect(csv.split('\n').slice(1).join('\n')).toBe(
+      '4,AAPL,1741017600000,2025-03-03T16:00:00.000Z,-1.5,"Said ""drop"", then\nfell"\n'
+    );
+    expect(parseCsv('a,"b,c"\r\n\r\n"d""e",f')).toEqual([
+      ['a', 'b,c'],
+      ['d"e', 'f'],
+    ]);
+  });
+
+  it('wraps JSON rows in a versioned envelope', () => {
+    const body = JSON.parse(serializeExport('bars', bars, 'json'));
+    expect(body).toMatchObject({ format: 'price-updates-export', version: 1, kind: 'bars' });
+    expect(body.rows[0]).toMatchObject({ interval: '1m', trade_count: 14, time: '2025-03-03T14:30:00.000Z' });
+  });
+});
+
+describe('parseExport', () => {
+  it.each(['csv', 'json'] as const)('round-trips every kind through %s', format => {
+    expect(parseExport('trades', serializeExport('trades', trades, format))).toEqual({ records: trades, errors: [] });
+    expect(parseExport('bars', serializeExport('bars', bars, format))).toEqual({ records: bars, errors: [] });
+    expect(parseExport('alerts', serializeExport('alerts', firings, format))).toEqual({ records: firings, errors: [] });
+  });
+
+  it('matches CSV columns by name and reports bad rows by position', () => {
+    const csv = '\uFEFFPrice,Symbol,Timestamp,Volume\n10,AAPL,1000,5\nabc,AAPL,2000,1\n-1,AAPL,3000,1\n11,,4000,1\n';
+    const parsed = parseExport('trades', csv);
+    expect(parsed.records).toEqual([{ symbol: 'AAPL', price: 10, timestamp: 1000, volume: 5 }]);
+    expect(parsed.errors).toEqual([
+      { row: 2, message: 'invalid price: "abc"' },
+      { row: 3, message: 'price must be positive' },
+      { row: 4, message: 'missing symbol' },
+    ]);
+  });
+
+  it('checks bars hold together', () => {
+    const csv = serializeExport('bars', [{ ...bars[0], high: 240 }, bars[0]], 'csv');
+    const broken = csv.replace(/,1m,(?=[^\n]*\n$)/, ',2m,');
+    expect(parseExport('bars', broken).errors.map(error => error.message)).toEqual([
+      'high/low do not contain open and close',
+      'unknown interval 2m',
+    ]);
+  });
+
+  it('rejects files that are not an export of the expected kind', () => {
+    expect(() => parseExport('bars', serializeExport('trades', trades, 'json'))).toThrow(ExportFormatError);
+    const future = '{"format":"price-updates-export","version":2,"kind":"trades","rows":[]}';
+    expect(() => parseExport('trades', future)).toThrow('Unsupported export version 2.');
+    expect(() => parseExport('trades', '{not json')).toThrow(ExportFormatError);
+    expect(() => parseExport('trades', 'symbol,price\nAAPL,1\n')).toThrow('Missing trades columns: timestamp, volume.');
+    expect(parseExport('trades', '  \n')).toEqual({ records: [], errors: [] });
+  });
+});
+
+describe('export files', () => {
+  it('names files after the symbol, kind and inclusive dates', () => {
+    const range = { from: utc('2025-03-01T00:00'), to: utc('2025-03-08T00:00') };
+    expect(exportFileName('trades', 'BINANCE:BTCUSDT', range.from, range.to, 'csv')).toBe(
+      'BINANCE_BTCUSDT-trades-2025-03-01-to-2025-03-07.csv'
+    );
+    expect(exportFileName('alerts', 'AAPL', 0, range.to, 'json')).toBe('AAPL-alerts-to-2025-03-07.json');
+    expect(exportRange('week', range.to)).toEqual({ from: range.from, to: range.to + 1 });
+    expect(exportRange('all', range.to).from).toBe(0);
+  });
+
+  it('exports one symbol and range from storage, capped at the oldest rows', async () => {
+    const tradeRepo = createMemoryTradeRepository();
+    const alertRepo = createMemoryAlertRepository();
+    await tradeRepo.appendTrades([...trades, { ...trades[0], symbol: 'AAPL' }]);
+    await tradeRepo.saveCandles([bars[0], { ...bars[0], interval: '1h', start: utc('2025-03-03T14:00') }]);
+    const id = await alertRepo.create(
+      {
+        symbol: 'AAPL',
+        condition: { kind: 'price', direction: 'above', price: 242 },
+        rules: DEFAULT_ALERT_RULES,
+        createdAt: 0,
+      },
+      10
+    );
+    const { firedAt, value, message } = firings[0];
+    await alertRepo.recordFiring(id, { firedAt, value, message, status: 'done' }, 10);
+    const stores = { trades: tradeRepo, alerts: alertRepo };
+    const range = { from: 0, to: utc('2026-01-01T00:00') };
+
+    const capped = await exportData(
+      stores,
+      { kind: 'trades', format: 'csv', symbol: trades[0].symbol, interval: '1m', range },
+      1
+    );
+    expect(capped).toMatchObject({ rows: 1, truncated: true });
+    expect(parseExport('trades', capped.content).records).toEqual(trades.slice(0, 1));
+
+    // Each interval is its own file, so fine bars never crowd coarser ones out of the row cap.
+    const hourBars = { kind: 'bars', format: 'json', symbol: 'AAPL', interval: '1h', range } as const;
+    const barFile = await exportData(stores, hourBars, 1);
+    expect(parseExport('bars', barFile.content).records.map(bar => bar.interval)).toEqual(['1h']);
+    expect(barFile).toMatchObject({ rows: 1, truncated: false, fileName: 'AAPL-bars-1h-to-2025-12-31.json' });
+
+    const alertRequest = { kind: 'alerts', format: 'csv', symbol: 'AAPL', interval: '1m', range } as const;
+    const alertFile = await exportData(stores, alertRequest);
+    expect(parseExport('alerts', alertFile.content).records).toEqual([{ ...firings[0], alertId: id }]);
+    expect(alertFile).toMatchObject({ rows: 1, truncated: false, fileName: 'AAPL-alerts-to-2025-12-31.csv' });
+  });
+});
@@ -0,0 +1,33 @@
+import { addFavorite, ChipLayout, dropIndex, moveItem, rememberRecent } from '../utils/favorites';
+
+describe('favorites', () => {
+  it('adds a symbol once and refuses a full list', () => {
+    expect(addFavorite(['AAPL'], 'TSLA', 3)).toEqual(['AAPL', 'TSLA']);
+    expect(addFavorite(['AAPL', 'TSLA'], 'AAPL', 2)).toEqual(['AAPL', 'TSLA']);
+    expect(addFavorite(['AAPL', 'TSLA'], 'MSFT', 2)).toBeNull();
+  });
+
+  it('moves an item to its new slot', () => {
+    expect(moveItem(['A', 'B', 'C', 'D'], 0, 2)).toEqual(['B', 'C', 'A', 'D']);
+    expect(moveItem(['A', 'B', 'C', 'D'], 3, 0)).toEqual(['D', 'A', 'B', 'C']);
+    expect(moveItem(['A', 'B'], 0, 9)).toEqual(['B', 'A']);
+    expect(moveItem(['A', 'B'], 5, 0)).toEqual(['A', 'B']);
+  });
+
+  it('keeps recent symbols newest first without duplicates', () => {
+    expect(rememberRecent(['MSFT', 'AAPL', 'TSLA'], 'AAPL', 3)).toEqual(['AAPL', 'MSFT', 'TSLA']);
+    expect(rememberRecent(['MSFT', 'AAPL', 'TSLA'], 'NVDA', 3)).toEqual(['NVDA', 'MSFT', 'AAPL']);
+  });
+
+  it('drops a dragged chip on the nearest slot, across wrapped rows', () => {
+    const chip = (x: number, y: number): ChipLayout => ({ x, y, width: 60, height: 30 });
+    // Two rows: three chips on the first, one on the second.
+    const layouts = [chip(0, 0), chip(70, 0), chip(140, 0), chip(0, 40)];
+
+    expect(dropIndex(layouts, 0, 10, 0)).toBe(0);
+    expect(dropIndex(layouts, 0, 135, 5)).toBe(2);
+    expect(dropIndex(layouts, 2, -140, 38)).toBe(3);
+    expect(dropIndex([chip(0, 0), undefined, chip(140, 0)], 0, 70, 0)).toBe(0);
+    expect(dropIndex([], 0, 70, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,411 @@
+import {
+  classifyClose,
+  computeBackoffDelay,
+  createFeedClient,
+  DEFAULT_BACKOFF,
+  describeFeedStatus,
+  describeLastMessage,
+  FeedSocket,
+  FeedState,
+  FeedStatus,
+  FeedTrade,
+  initialFeedStatus,
+  parseFinnhubMessage,
+} from '../utils/feedClient';
+import { createAlpacaProtocol } from '../utils/feedProtocols';
+import { createFakeClock } from './support/fakeClock';
+
+class FakeSocket implements FeedSocket {
+  static instances: FakeSocket[] = [];
+
+  readyState = 0;
+  sent: Array<Record<string, unknown>> = [];
+  closed = false;
+  onopen: FeedSocket['onopen'] = null;
+  onmessage: FeedSocket['onmessage'] = null;
+  onerror: FeedSocket['onerror'] = null;
+  onclose: FeedSocket['onclose'] = null;
+
+  constructor(public url: string) {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+    this.readyState = 3;
+    this.onclose?.({ code: 1000 });
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  receive(payload: unknown) {
+    this.onmessage?.({ data: typeof payload === 'string' ? payload : JSON.stringify(payload) });
+  }
+
+  drop(code = 1006, reason = '') {
+    this.readyState = 3;
+    this.onclose?.({ code, reason });
+  }
+}
+
+const setup = () => {
+  FakeSocket.instances = [];
+  const fakeClock = createFakeClock();
+  const client = createFeedClient({
+    url: 'wss://example.test',
+    WebSocketImpl: FakeSocket,
+    clock: fakeClock.clock,
+    backoff: { initialDelayMs: 3000, maxDelayMs: 20_000, multiplier: 2, maxAttempts: 3 },
+    random: () => 0,
+    staleAfterMs: 10_000,
+  });
+  const trades: FeedTrade[] = [];
+  const statuses: FeedState[] = [];
+  client.onTrade(trade => trades.push(trade));
+  client.onStatus(status => statuses.push(status.state));
+  return { client, trades, statuses, ...fakeClock, latest: () => FakeSocket.instances[FakeSocket.instances.length - 1] };
+};
+
+describe('parseFinnhubMessage', () => {
+  it('extracts valid trades and skips malformed entries', () => {
+    const frame = JSON.stringify({
+      type: 'trade',
+      data: [
+        { s: 'AAPL', p: 190.5, t: 1_000, v: 12 },
+        { s: 'TSLA', p: '250.25', t: '2000', v: 'n/a' },
+        { s: 'MSFT', p: 'oops', t: 3_000 },
+        { p: 1, t: 4_000 },
+      ],
+    });
+    expect(parseFinnhubMessage(frame)).toEqual([
+      { symbol: 'AAPL', price: 190.5, timestamp: 1_000, volume: 12 },
+      { symbol: 'TSLA', price: 250.25, timestamp: 2_000, volume: 0 },
+    ]);
+  });
+
+  it('returns nothing for ping frames', () => {
+    expect(parseFinnhubMessage(JSON.stringify({ type: 'ping' }))).toEqual([]);
+  });
+
+  it('throws on invalid JSON', () => {
+    expect(() => parseFinnhubMessage('not json')).toThrow();
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  const backoff = { ...DEFAULT_BACKOFF, initialDelayMs: 1000, maxDelayMs: 8000, multiplier: 2, jitter: 0.5 };
+
+  it('doubles the delay per attempt up to the cap', () => {
+    const delays = [1, 2, 3, 4, 5].map(attempt => computeBackoffDelay(attempt, backoff, () => 0));
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 8000]);
+  });
+
+  it('removes at most the jitter fraction of the delay', () => {
+    expect(computeBackoffDelay(3, backoff, () => 0.999_999)).toBe(2000);
+    expect(computeBackoffDelay(3, backoff, () => 0.5)).toBe(3000);
+  });
+});
+
+describe('classifyClose', () => {
+  it('treats auth failures as fatal', () => {
+    expect(classifyClose(1008, null)).toBe('fatal');
+    expect(classifyClose(1006, '401 Unauthorized')).toBe('fatal');
+    expect(classifyClose(1000, 'Invalid API key')).toBe('fatal');
+  });
+
+  it('detects rate limiting', () => {
+    expect(classifyClose(1013, '429 Too Many Requests')).toBe('rateLimited');
+  });
+
+  it('retries everything else', () => {
+    expect(classifyClose(1006, null)).toBe('retryable');
+    expect(classifyClose(null, null)).toBe('retryable');
+  });
+});
+
+describe('describeFeedStatus', () => {
+  const base: FeedStatus = { ...initialFeedStatus };
+
+  it('shows the retry countdown and attempt', () => {
+    expect(describeFeedStatus({ ...base, state: 'closed', attempt: 4, nextRetryAt: 12_000 }, 500)).toBe(
+      'retrying in 12s (attempt 4)'
+    );
+  });
+
+  it('shows why the client stopped', () => {
+    expect(describeFeedStatus({ ...base, state: 'failed', lastCloseCode: 1008 }, 0)).toBe('disconnected (code 1008)');
+    expect(describeFeedStatus({ ...base, state: 'failed', lastCloseReason: 'Invalid API key' }, 0)).toBe(
+      'disconnected (Invalid API key)'
+    );
+  });
+
+  it('passes plain states through', () => {
+    expect(describeFeedStatus({ ...base, state: 'open' }, 0)).toBe('open');
+    expect(describeFeedStatus({ ...base, state: 'connecting', attempt: 2 }, 0)).toBe('connecting (attempt 2)');
+  });
+});
+
+describe('describeLastMessage', () => {
+  it('reports the age of the newest frame', () => {
+    expect(describeLastMessage(null, 5_000)).toBe('no messages yet');
+    expect(describeLastMessage(1_000, 8_200)).toBe('last message 8s ago');
+  });
+});
+
+describe('createFeedClient', () => {
+  it('subscribes every requested symbol once the socket opens', () => {
+    const { client, latest, statuses } = setup();
+    client.setSymbols(['AAPL', 'TSLA']);
+    client.connect();
+    expect(statuses).toEqual(['connecting']);
+
+    latest().open();
+    expect(statuses).toEqual(['connecting', 'open']);
+    expect(latest().sent).toEqual([
+      { type: 'subscribe', symbol: 'AAPL' },
+      { type: 'subscribe', symbol: 'TSLA' },
+    ]);
+  });
+
+  it('sends only the difference when the symbol list changes', () => {
+    const { client, latest } = setup();
+    client.setSymbols(['AAPL', 'TSLA']);
+    client.connect();
+    latest().open();
+    latest().sent = [];
+
+    client.setSymbols(['TSLA', 'MSFT']);
+    client.subscribe('NVDA');
+    client.unsubscribe('TSLA');
+
+    expect(latest().sent).toEqual([
+      { type: 'unsubscribe', symbol: 'AAPL' },
+      { type: 'subscribe', symbol: 'MSFT' },
+      { type: 'subscribe', symbol: 'NVDA' },
+      { type: 'unsubscribe', symbol: 'TSLA' },
+    ]);
+    expect(client.getSymbols()).toEqual(['MSFT', 'NVDA']);
+  });
+
+  it('emits trades for watched symbols only and ignores bad frames', () => {
+    const { client, latest, trades } = setup();
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    client.setSymbols(['AAPL']);
+    client.connect();
+    latest().open();
+
+    latest().receive({ data: [{ s: 'AAPL', p: 1, t: 10 }, { s: 'TSLA', p: 2, t: 20 }] });
+    latest().receive('garbage');
+
+    expect(trades).toEqual([{ symbol: 'AAPL', price: 1, timestamp: 10, volume: 0 }]);
+    expect(warn).toHaveBeenCalledWith('WebSocket parse error', expect.anything());
+    warn.mockRestore();
+  });
+
+  it('reconnects after an unexpected close and resubscribes', () => {
+    const { client, latest, advance, statuses } = setup();
+    client.setSymbols(['AAPL']);
+    client.connect();
+    latest().open();
+    latest().drop(1006, 'going away');
+
+    expect(statuses[statuses.length - 1]).toBe('closed');
+    expect(client.getStatus()).toMatchObject({
+      attempt: 1,
+      nextRetryAt: 3000,
+      lastCloseCode: 1006,
+      lastCloseReason: 'going away',
+    });
+    expect(FakeSocket.instances).toHaveLength(1);
+
+    advance(2999);
+    expect(FakeSocket.instances).toHaveLength(1);
+    advance(1);
+    expect(FakeSocket.instances).toHaveLength(2);
+
+    latest().open();
+    expect(latest().sent).toEqual([{ type: 'subscribe', symbol: 'AAPL' }]);
+  });
+
+  it('backs off exponentially and gives up after the attempt cap', () => {
+    const { client, latest, advance } = setup();
+    client.connect();
+    latest().drop();
+    expect(client.getStatus().nextRetryAt).toBe(3000);
+
+    advance(3000);
+    latest().drop();
+    expect(client.getStatus()).toMatchObject({ attempt: 2, nextRetryAt: 9000 });
+
+    advance(6000);
+    latest().drop();
+    expect(client.getStatus()).toMatchObject({ attempt: 3, nextRetryAt: 21_000 });
+
+    advance(12_000);
+    latest().drop();
+    expect(client.getStatus()).toMatchObject({ state: 'failed', nextRetryAt: null });
+    advance(60_000);
+    expect(FakeSocket.instances).toHaveLength(4);
+  });
+
+  it('resets the attempt counter once a trade arrives or the socket stays up', () => {
+    const { client, latest, advance } = setup();
+    client.setSymbols(['AAPL']);
+    client.connect();
+    latest().drop();
+    advance(3000);
+    latest().open();
+    latest().receive({ type: 'ping' });
+    expect(client.getStatus().attempt).toBe(1);
+
+    latest().receive({ data: [{ s: 'AAPL', p: 1, t: 10 }] });
+    expect(client.getStatus().attempt).toBe(0);
+
+    latest().drop();
+    advance(3000);
+    latest().open();
+    advance(9_000);
+    latest().receive({ type: 'ping' });
+    expect(client.getStatus().attempt).toBe(1);
+    advance(1_000);
+    latest().receive({ type: 'ping' });
+    expect(client.getStatus().attempt).toBe(0);
+  });
+
+  it('keeps backing off when the vendor answers with an error and closes', () => {
+    FakeSocket.instances = [];
+    const fakeClock = createFakeClock();
+    const client = createFeedClient({
+      url: 'wss://example.test',
+      WebSocketImpl: FakeSocket,
+      clock: fakeClock.clock,
+      protocol: createAlpacaProtocol('key', 'secret'),
+      backoff: { initialDelayMs: 3000, maxDelayMs: 20_000, multiplier: 2, maxAttempts: 3 },
+      random: () => 0,
+    });
+    client.connect();
+    const delays: Array<number | null> = [];
+    for (let i = 0; i < 4; i += 1) {
+      const socket = FakeSocket.instances[FakeSocket.instances.length - 1];
+      socket.open();
+      socket.receive([{ T: 'success', msg: 'connected' }]);
+      socket.receive([{ T: 'error', code: 406, msg: 'connection limit exceeded' }]);
+      const { nextRetryAt } = client.getStatus();
+      delays.push(nextRetryAt === null ? null : nextRetryAt - fakeClock.clock.now());
+      fakeClock.advance(20_000);
+    }
+    expect(delays).toEqual([3000, 6000, 12_000, null]);
+    expect(client.getStatus().state).toBe('failed');
+  });
+
+  it('stops immediately on a fatal close', () => {
+    const { client, latest, pending } = setup();
+    client.connect();
+    latest().drop(1008, 'Invalid API key');
+
+    expect(client.getStatus().state).toBe('failed');
+    expect(pending()).toBe(0);
+  });
+
+  it('waits the full cap after a rate-limit close', () => {
+    const { client, latest } = setup();
+    client.connect();
+    latest().drop(1013, 'rate limit exceeded');
+
+    expect(client.getStatus().nextRetryAt).toBe(20_000);
+  });
+
+  it('retries immediately on request, even after giving up', () => {
+    const { client, latest, pending } = setup();
+    client.connect();
+    latest().drop(1008, 'Invalid API key');
+    client.retryNow();
+
+    expect(FakeSocket.instances).toHaveLength(2);
+    expect(client.getStatus()).toMatchObject({ state: 'connecting', attempt: 0 });
+
+    latest().drop();
+    client.retryNow();
+    expect(pending()).toBe(0);
+    expect(FakeSocket.instances).toHaveLength(3);
+  });
+
+  it('tracks the time of the last frame, including pings', () => {
+    const { client, latest, advance } = setup();
+    client.connect();
+    latest().open();
+    expect(client.getLastMessageAt()).toBeNull();
+
+    advance(4_000);
+    latest().receive({ type: 'ping' });
+    expect(client.getLastMessageAt()).toBe(4_000);
+  });
+
+  it('keeps a socket alive while frames keep arriving', () => {
+    const { client, latest, advance } = setup();
+    client.connect();
+    latest().open();
+
+    for (let i = 0; i < 5; i += 1) {
+      advance(6_000);
+      latest().receive({ type: 'ping' });
+    }
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(client.getStatus().state).toBe('open');
+  });
+
+  it('replaces a silent socket and resubscribes every symbol', () => {
+    const { client, latest, advance, statuses } = setup();
+    client.setSymbols(['AAPL', 'TSLA']);
+    client.connect();
+    const first = latest();
+    first.open();
+
+    advance(10_000);
+    expect(statuses).toContain('stale');
+    expect(first.closed).toBe(true);
+    expect(client.getStatus()).toMatchObject({ state: 'closed', attempt: 1, lastCloseReason: 'stale feed' });
+
+    advance(3_000);
+    expect(FakeSocket.instances).toHaveLength(2);
+    latest().open();
+    expect(latest().sent).toEqual([
+      { type: 'subscribe', symbol: 'AAPL' },
+      { type: 'subscribe', symbol: 'TSLA' },
+    ]);
+  });
+
+  it('does not reconnect after disconnect', () => {
+    const { client, latest, advance, pending } = setup();
+    client.connect();
+    latest().open();
+    latest().drop();
+    expect(pending()).toBe(1);
+
+    client.disconnect();
+    expect(pending()).toBe(0);
+    advance(10_000);
+    expect(FakeSocket.instances).toHaveLength(1);
+    expect(client.getStatus()).toMatchObject({ state: 'closed', nextRetryAt: null });
+  });
+
+  it('stops delivering trades to removed listeners', () => {
+    const { client, latest } = setup();
+    const received: FeedTrade[] = [];
+    const remove = client.onTrade(trade => received.push(trade));
+    client.setSymbols(['AAPL']);
+    client.connect();
+    latest().open();
+    remove();
+
+    latest().receive({ data: [{ s: 'AAPL', p: 1, t: 10 }] });
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+import { classifyClose, createFeedClient, FeedTrade } from '../utils/feedClient';
+import {
+  createAlpacaProtocol,
+  createBinanceProtocol,
+  createPolygonProtocol,
+  fromBinanceSymbol,
+  parseAlpacaMessage,
+  parseBinanceMessage,
+  parsePolygonMessage,
+  parseRfc3339,
+  toBinanceStream,
+} from '../utils/feedProtocols';
+import { createMockFeedServer } from './support/mockFeedServer';
+import { ALPACA_FRAMES, BINANCE_FRAMES, POLYGON_FRAMES } from './support/vendorFrames';
+
+describe('Binance', () => {
+  it('maps symbols to trade streams and back', () => {
+    expect(toBinanceStream('BINANCE:BTCUSDT')).toBe('btcusdt@trade');
+    expect(toBinanceStream('AAPL')).toBeNull();
+    expect(toBinanceStream('OANDA:EUR_USD')).toBeNull();
+    expect(fromBinanceSymbol('ethusdt')).toBe('BINANCE:ETHUSDT');
+  });
+
+  it('parses raw and combined-stream trade frames', () => {
+    expect(parseBinanceMessage(BINANCE_FRAMES.trade)).toEqual({
+      trades: [{ symbol: 'BINANCE:BTCUSDT', price: 67412.01, timestamp: 1718035200121, volume: 0.00152 }],
+    });
+    expect(parseBinanceMessage(BINANCE_FRAMES.combinedTrade).trades).toEqual([
+      { symbol: 'BINANCE:ETHUSDT', price: 3671.45, timestamp: 1718035200455, volume: 0.0291 },
+    ]);
+  });
+
+  it('ignores subscription acknowledgements and request errors', () => {
+    expect(parseBinanceMessage(BINANCE_FRAMES.subscribed)).toEqual({ trades: [] });
+    expect(parseBinanceMessage(BINANCE_FRAMES.error)).toEqual({ trades: [] });
+  });
+
+  it('batches subscriptions into one request with increasing ids', () => {
+    const protocol = createBinanceProtocol();
+    expect(protocol.subscribeFrames(['BINANCE:BTCUSDT', 'AAPL', 'BINANCE:ETHUSDT']).map(f => JSON.parse(f))).toEqual([
+      { method: 'SUBSCRIBE', params: ['btcusdt@trade', 'ethusdt@trade'], id: 1 },
+    ]);
+    expect(protocol.subscribeFrames(['AAPL'])).toEqual([]);
+    expect(JSON.parse(protocol.unsubscribeFrames(['BINANCE:BTCUSDT'])[0])).toEqual({
+      method: 'UNSUBSCRIBE',
+      params: ['btcusdt@trade'],
+      id: 2,
+    });
+  });
+});
+
+describe('Alpaca', () => {
+  it('parses trade batches with nanosecond timestamps', () => {
+    expect(parseAlpacaMessage(ALPACA_FRAMES.trades)).toEqual({
+      trades: [
+        { symbol: 'AAPL', price: 195.87, timestamp: Date.UTC(2024, 5, 10, 15, 30, 1, 123), volume: 100 },
+        { symbol: 'MSFT', price: 427.1, timestamp: Date.UTC(2024, 5, 10, 15, 30, 1, 500), volume: 5 },
+      ],
+    });
+    expect(parseRfc3339('2024-06-10T15:30:01Z')).toBe(Date.UTC(2024, 5, 10, 15, 30, 1));
+    expect(parseRfc3339(42)).toBeNaN();
+  });
+
+  it('reports the login handshake and errors', () => {
+    expect(parseAlpacaMessage(ALPACA_FRAMES.connected)).toEqual({ trades: [] });
+    expect(parseAlpacaMessage(ALPACA_FRAMES.authenticated)).toEqual({ trades: [], ready: true });
+    expect(parseAlpacaMessage(ALPACA_FRAMES.subscription)).toEqual({ trades: [] });
+    expect(parseAlpacaMessage(ALPACA_FRAMES.authFailed)).toEqual({ trades: [], error: 'auth failed' });
+  });
+
+  it('authenticates on open and subscribes plain tickers only', () => {
+    const protocol = createAlpacaProtocol('key', 'secret');
+    expect(protocol.waitForReady).toBe(true);
+    expect(protocol.openFrames().map(f => JSON.parse(f))).toEqual([{ action: 'auth', key: 'key', secret: 'secret' }]);
+    expect(protocol.subscribeFrames(['AAPL', 'BINANCE:BTCUSDT']).map(f => JSON.parse(f))).toEqual([
+      { action: 'subscribe', trades: ['AAPL'] },
+    ]);
+    expect(protocol.unsubscribeFrames(['BINANCE:BTCUSDT'])).toEqual([]);
+  });
+});
+
+describe('Polygon', () => {
+  it('parses trade batches', () => {
+    expect(parsePolygonMessage(POLYGON_FRAMES.trades).trades).toEqual([
+      { symbol: 'AAPL', price: 195.87, timestamp: 1718033401123, volume: 100 },
+      { symbol: 'AAPL', price: 195.88, timestamp: 1718033401130, volume: 20 },
+    ]);
+  });
+
+  it('reports the login handshake and rejected keys', () => {
+    expect(parsePolygonMessage(POLYGON_FRAMES.connected)).toEqual({ trades: [] });
+    expect(parsePolygonMessage(POLYGON_FRAMES.authenticated)).toEqual({ trades: [], ready: true });
+    expect(parsePolygonMessage(POLYGON_FRAMES.subscribed)).toEqual({ trades: [] });
+    expect(parsePolygonMessage(POLYGON_FRAMES.authFailed)).toEqual({ trades: [], error: 'authentication failed' });
+    expect(classifyClose(null, 'authentication failed')).toBe('fatal');
+  });
+
+  it('subscribes to T channels in one request', () => {
+    const protocol = createPolygonProtocol('key');
+    expect(protocol.openFrames().map(f => JSON.parse(f))).toEqual([{ action: 'auth', params: 'key' }]);
+    expect(JSON.parse(protocol.subscribeFrames(['AAPL', 'MSFT'])[0])).toEqual({
+      action: 'subscribe',
+      params: 'T.AAPL,T.MSFT',
+    });
+  });
+});
+
+describe('feed client against a mock vendor server', () => {
+  const isAuth = (frame: unknown) => (frame as { action?: string }).action === 'auth';
+
+  it('streams Binance trades for subscribed symbols', () => {
+    const server = createMockFeedServer({ reply: frame => [{ result: null, id: (frame as { id: number }).id }] });
+    const client = createFeedClient({
+      url: 'wss://binance.test/ws',
+      protocol: createBinanceProtocol(),
+      WebSocketImpl: server.WebSocketImpl,
+    });
+    const trades: FeedTrade[] = [];
+    client.onTrade(trade => trades.push(trade));
+
+    client.setSymbols(['BINANCE:BTCUSDT']);
+    client.connect();
+    server.accept();
+    expect(server.latest().received).toEqual([{ method: 'SUBSCRIBE', params: ['btcusdt@trade'], id: 1 }]);
+
+    server.broadcast(BINANCE_FRAMES.trade);
+    server.broadcast(BINANCE_FRAMES.combinedTrade);
+    expect(trades.map(trade => trade.symbol)).toEqual(['BINANCE:BTCUSDT']);
+    client.disconnect();
+  });
+
+  it('holds Alpaca subscriptions until the login is accepted', () => {
+    const server = createMockFeedServer({
+      greeting: [ALPACA_FRAMES.connected],
+      reply: frame => (isAuth(frame) ? [ALPACA_FRAMES.authenticated] : [ALPACA_FRAMES.subscription]),
+    });
+    const client = createFeedClient({
+      url: 'wss://alpaca.test',
+      protocol: createAlpacaProtocol('id', 'secret'),
+      WebSocketImpl: server.WebSocketImpl,
+    });
+    const trades: FeedTrade[] = [];
+    client.onTrade(trade => trades.push(trade));
+
+    client.setSymbols(['AAPL']);
+    client.connect();
+    server.accept();
+    expect(server.latest().received).toEqual([
+      { action: 'auth', key: 'id', secret: 'secret' },
+      { action: 'subscribe', trades: ['AAPL'] },
+    ]);
+
+    client.setSymbols(['AAPL', 'MSFT']);
+    server.broadcast(ALPACA_FRAMES.trades);
+    expect(server.latest().received[2]).toEqual({ action: 'subscribe', trades: ['MSFT'] });
+    expect(trades.map(trade => trade.symbol)).toEqual(['AAPL', 'MSFT']);
+    client.disconnect();
+  });
+
+  it('gives up when Polygon rejects the key', () => {
+    const server = createMockFeedServer({
+      greeting: [POLYGON_FRAMES.connected],
+      reply: frame => (isAuth(frame) ? [POLYGON_FRAMES.authFailed] : []),
+    });
+    const client = createFeedClient({
+      url: 'wss://polygon.test',
+      protocol: createPolygonProtocol('bad'),
+      WebSocketImpl: server.WebSocketImpl,
+    });
+
+    client.setSymbols(['AAPL']);
+    client.connect();
+    server.accept();
+
+    expect(server.latest().received).toEqual([{ action: 'auth', params: 'bad' }]);
+    expect(server.latest().isOpen()).toBe(false);
+    expect(client.getStatus()).toMatchObject({ state: 'failed', lastCloseReason: 'authentication failed' });
+    expect(server.connections).toHaveLength(1);
+  });
+});
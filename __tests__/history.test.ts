@@ -0,0 +1,85 @@
+import {
+  appendHistoryPage,
+  describeHistorySummary,
+  EMPTY_HISTORY_DRAFT,
+  HistorySummary,
+  HistoryTrade,
+  parseHistoryFilter,
+  pruneHistorySections,
+} from '../utils/history';
+
+const trade = (id: number, symbol: string, price = 10): HistoryTrade => ({
+  id,
+  symbol,
+  price,
+  timestamp: 1000 - id,
+  volume: 1,
+});
+
+const summary = (symbol: string, count: number): HistorySummary => ({
+  symbol,
+  count,
+  low: 9.5,
+  high: 10.25,
+  firstPrice: 9.5,
+  firstAt: 1,
+  lastPrice: 10,
+  lastAt: 2,
+});
+
+describe('parseHistoryFilter', () => {
+  it('reads dates in local time and includes the whole end day', () => {
+    const draft = { ...EMPTY_HISTORY_DRAFT, symbol: ' aapl ', from: '2025-03-01', to: '2025-03-02' };
+    expect(parseHistoryFilter(draft)).toEqual({
+      symbolQuery: 'aapl',
+      from: new Date(2025, 2, 1).getTime(),
+      to: new Date(2025, 2, 3).getTime(),
+      minPrice: null,
+      maxPrice: null,
+    });
+    expect(parseHistoryFilter({ ...EMPTY_HISTORY_DRAFT, to: '2025-03-02 09:30', minPrice: '1.5' })).toMatchObject({
+      from: null,
+      to: new Date(2025, 2, 2, 9, 30).getTime(),
+      minPrice: 1.5,
+    });
+  });
+
+  it('names the first field that does not parse', () => {
+    expect(parseHistoryFilter({ ...EMPTY_HISTORY_DRAFT, from: '03/01/2025' })).toBe(
+      'Enter the start as YYYY-MM-DD or YYYY-MM-DD HH:MM.'
+    );
+    expect(parseHistoryFilter({ ...EMPTY_HISTORY_DRAFT, from: '2025-03-02', to: '2025-03-01' })).toBe(
+      'The start must be before the end.'
+    );
+    expect(parseHistoryFilter({ ...EMPTY_HISTORY_DRAFT, maxPrice: 'ten' })).toBe('Enter prices as plain numbers.');
+    expect(parseHistoryFilter({ ...EMPTY_HISTORY_DRAFT, minPrice: '5', maxPrice: '4' })).toBe(
+      'The minimum price must not exceed the maximum.'
+    );
+  });
+});
+
+describe('history sections', () => {
+  const summaries = [summary('AAPL', 3), summary('MSFT', 1)];
+
+  it('continues the last section with each page and opens sections as symbols arrive', () => {
+    const first = appendHistoryPage([], [trade(1, 'AAPL'), trade(2, 'AAPL')], summaries);
+    const second = appendHistoryPage(first, [trade(3, 'AAPL'), trade(4, 'MSFT'), trade(5, 'TSLA')], summaries);
+    expect(second.map(section => [section.key, section.summary.count, section.data.map(item => item.id)])).toEqual([
+      ['AAPL', 3, [1, 2, 3]],
+      ['MSFT', 1, [4]],
+    ]);
+    expect(first[0].data).toHaveLength(2);
+  });
+
+  it('drops deleted trades and sections with nothing left', () => {
+    const sections = appendHistoryPage([], [trade(1, 'AAPL'), trade(2, 'AAPL'), trade(4, 'MSFT')], summaries);
+    const pruned = pruneHistorySections(sections, [2], [summary('AAPL', 2)]);
+    expect(pruned.map(section => [section.key, section.summary.count, section.data.map(item => item.id)])).toEqual([
+      ['AAPL', 2, [1]],
+    ]);
+  });
+
+  it('summarizes a section in one line', () => {
+    expect(describeHistorySummary(summary('AAPL', 1))).toBe('1 trade · low 9.50 · high 10.25 · 9.50 → 10.00');
+  });
+});
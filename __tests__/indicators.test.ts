@@ -0,0 +1,162 @@
+import {
+  createBollinger,
+  createEma,
+  createIndicatorEngine,
+  createMacd,
+  createRsi,
+  createSma,
+  createVwap,
+} from '../utils/indicators';
+import { candleFromTrade } from '../utils/market';
+
+const closes = [44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22, 45.64];
+
+const naiveSma = (values: number[], period: number) =>
+  values.length < period ? null : values.slice(-period).reduce((sum, value) => sum + value, 0) / period;
+
+describe('createSma', () => {
+  it('matches a full recomputation at every step', () => {
+    const sma = createSma(5);
+    closes.forEach((value, index) => {
+      const expected = naiveSma(closes.slice(0, index + 1), 5);
+      const actual = sma.update(value);
+      if (expected === null) {
+        expect(actual).toBeNull();
+      } else {
+        expect(actual).toBeCloseTo(expected, 10);
+      }
+    });
+  });
+
+  it('peeks without committing', () => {
+    const sma = createSma(2);
+    sma.update(10);
+    sma.update(20);
+    expect(sma.peek(40)).toBe(30);
+    expect(sma.value()).toBe(15);
+    expect(sma.update(40)).toBe(30);
+  });
+
+  it('rejects invalid periods', () => {
+    expect(() => createSma(0)).toThrow(RangeError);
+  });
+});
+
+describe('createEma', () => {
+  it('seeds with the SMA and then smooths', () => {
+    const ema = createEma(3);
+    expect(ema.update(1)).toBeNull();
+    expect(ema.update(2)).toBeNull();
+    expect(ema.update(3)).toBe(2);
+    expect(ema.peek(6)).toBe(4);
+    expect(ema.update(6)).toBe(4);
+    expect(ema.value()).toBe(4);
+  });
+});
+
+describe('createBollinger', () => {
+  it('uses the population standard deviation around the SMA', () => {
+    const bands = createBollinger(4, 2);
+    [2, 4, 4, 4].forEach(value => bands.update(value));
+    const value = bands.value();
+    expect(value?.middle).toBeCloseTo(3.5);
+    const deviation = Math.sqrt(((2 - 3.5) ** 2 + 3 * (4 - 3.5) ** 2) / 4);
+    expect(value?.upper).toBeCloseTo(3.5 + 2 * deviation);
+    expect(value?.lower).toBeCloseTo(3.5 - 2 * deviation);
+  });
+
+  it('collapses to the mean for flat input', () => {
+    const bands = createBollinger(3, 2);
+    [5, 5, 5].forEach(value => bands.update(value));
+    expect(bands.value()).toEqual({ middle: 5, upper: 5, lower: 5 });
+  });
+});
+
+describe('createVwap', () => {
+  it('weights prices by volume', () => {
+    const vwap = createVwap();
+    expect(vwap.value()).toBeNull();
+    vwap.update({ price: 10, volume: 1 });
+    expect(vwap.peek({ price: 20, volume: 3 })).toBe(17.5);
+    expect(vwap.update({ price: 20, volume: 3 })).toBe(17.5);
+  });
+
+  it('ignores zero-volume input until volume arrives', () => {
+    const vwap = createVwap();
+    expect(vwap.update({ price: 10, volume: 0 })).toBeNull();
+  });
+});
+
+describe('createRsi', () => {
+  it('matches the classic Wilder example', () => {
+    const rsi = createRsi(14);
+    const values = closes.map(value => rsi.update(value));
+    expect(values.slice(0, 14).every(value => value === null)).toBe(true);
+    expect(values[14]).toBeCloseTo(70.46, 1);
+    expect(values[15]).toBeCloseTo(66.25, 1);
+  });
+
+  it('reports 100 for a series of gains only', () => {
+    const rsi = createRsi(3);
+    [1, 2, 3, 4].forEach(value => rsi.update(value));
+    expect(rsi.value()).toBe(100);
+    expect(rsi.peek(3)).toBeLessThan(100);
+    expect(rsi.value()).toBe(100);
+  });
+});
+
+describe('createMacd', () => {
+  it('derives the signal line from the MACD line', () => {
+    const macd = createMacd(3, 6, 3);
+    const values = closes.map(value => macd.update(value));
+    const fast = createEma(3);
+    const slow = createEma(6);
+    const signal = createEma(3);
+    let expected = null as null | { macd: number; signal: number; histogram: number };
+    closes.forEach(value => {
+      const f = fast.update(value);
+      const s = slow.update(value);
+      if (f !== null && s !== null) {
+        const line = f - s;
+        const sig = signal.update(line);
+        expected = sig === null ? null : { macd: line, signal: sig, histogram: line - sig };
+      }
+    });
+    expect(values[values.length - 1]).toEqual(expected);
+    expect(values.slice(0, 7).every(value => value === null)).toBe(true);
+  });
+});
+
+describe('createIndicatorEngine', () => {
+  const bars = closes.map((close, index) =>
+    candleFromTrade({ symbol: 'AAPL', price: close, timestamp: index * 60_000, volume: 1 }, '1m')
+  );
+
+  it('commits closed bars and previews the forming one', () => {
+    const engine = createIndicatorEngine({
+      smaPeriod: 3,
+      emaPeriod: 3,
+      bollingerPeriod: 3,
+      bollingerStdDevs: 2,
+      rsiPeriod: 3,
+      macdFast: 2,
+      macdSlow: 4,
+      macdSignal: 2,
+    });
+    bars.slice(0, -1).forEach(bar => engine.push(bar));
+    expect(engine.points()).toHaveLength(bars.length - 1);
+    expect(engine.lastStart()).toBe(bars[bars.length - 2].start);
+
+    const last = bars[bars.length - 1];
+    const preview = engine.preview(last);
+    expect(engine.points()).toHaveLength(bars.length - 1);
+    const committed = engine.push(last);
+    expect(committed.start).toBe(preview.start);
+    expect(committed.sma).toBeCloseTo(preview.sma as number, 10);
+    expect(committed.ema).toBeCloseTo(preview.ema as number, 10);
+    expect(committed.bollinger?.upper).toBeCloseTo(preview.bollinger?.upper as number, 8);
+    expect(committed.rsi).toBeCloseTo(preview.rsi as number, 10);
+    expect(committed.macd).toEqual(preview.macd);
+    expect(preview.sma).toBeCloseTo(naiveSma(closes, 3) as number, 10);
+  });
+});
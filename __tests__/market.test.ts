@@ -1,10 +1,59 @@
 import {
-  computeMetrics,
-  computeSparklinePoints,
+  bucketStart,
+  Candle,
+  candleFromTrade,
+  createCandleAggregator,
+  mergeCandles,
+  mergeCandleSeries,
+  capSymbols,
+  diffSubscriptions,
   formatTimestamp,
-  isUsMarketOpen,
+  mergeUpdates,
+  normalizeSymbol,
 } from '../utils/market';
 
+describe('normalizeSymbol', () => {
+  it('trims and uppercases input', () => {
+    expect(normalizeSymbol('  binance:btcusdt ')).toBe('BINANCE:BTCUSDT');
+  });
+});
+
+describe('diffSubscriptions', () => {
+  it('returns symbols to add and remove', () => {
+    expect(diffSubscriptions(new Set(['AAPL', 'TSLA']), ['TSLA', 'MSFT'])).toEqual({
+      subscribe: ['MSFT'],
+      unsubscribe: ['AAPL'],
+    });
+  });
+
+  it('returns empty lists when nothing changed', () => {
+    expect(diffSubscriptions(['AAPL'], ['AAPL', 'AAPL'])).toEqual({ subscribe: [], unsubscribe: [] });
+  });
+});
+
+describe('capSymbols', () => {
+  it('keeps primary symbols first and reports what did not fit', () => {
+    expect(capSymbols(['AAPL', 'TSLA'], ['TSLA', 'MSFT', 'NVDA'], 3)).toEqual({
+      symbols: ['AAPL', 'TSLA', 'MSFT'],
+      dropped: ['NVDA'],
+    });
+  });
+});
+
+describe('mergeUpdates', () => {
+  it('keeps newest first, drops duplicate keys and caps the length', () => {
+    const existing = [
+      { key: 'b', price: 2, timestamp: 2_000 },
+      { key: 'a', price: 1, timestamp: 1_000 },
+    ];
+    const incoming = [
+      { key: 'c', price: 3, timestamp: 3_000 },
+      { key: 'b', price: 2, timestamp: 2_000 },
+    ];
+    expect(mergeUpdates(existing, incoming, 2).map(item => item.key)).toEqual(['c', 'b']);
+  });
+});
+
 describe('formatTimestamp', () => {
   it('returns a readable string for valid timestamps', () => {
     const timestamp = Date.UTC(2024, 0, 1, 13, 45); // Jan 1 2024 13:45 UTC
@@ -18,68 +67,112 @@ describe('formatTimestamp', () => {
   });
 });
 
-describe('computeMetrics', () => {
-  it('returns zeros for empty input', () => {
-    expect(computeMetrics([])).toEqual({
-      change: 0,
-      percentage: 0,
-      basis: null,
-      latest: null,
-    });
+describe('bucketStart', () => {
+  it('floors timestamps to the interval boundary', () => {
+    const timestamp = Date.UTC(2024, 0, 1, 13, 47, 31, 250);
+    expect(bucketStart(timestamp, '1s')).toBe(Date.UTC(2024, 0, 1, 13, 47, 31));
+    expect(bucketStart(timestamp, '1m')).toBe(Date.UTC(2024, 0, 1, 13, 47));
+    expect(bucketStart(timestamp, '5m')).toBe(Date.UTC(2024, 0, 1, 13, 45));
+    expect(bucketStart(timestamp, '1h')).toBe(Date.UTC(2024, 0, 1, 13));
   });
+});
 
-  it('computes change and percentage', () => {
-    const sample = [
-      { price: 110, timestamp: 2_000 },
-      { price: 100, timestamp: 1_000 },
-    ];
-    expect(computeMetrics(sample)).toEqual({
-      change: 10,
-      percentage: 10,
-      basis: 100,
-      latest: 110,
+describe('mergeCandles', () => {
+  it('orders open/close by trade time regardless of arrival order', () => {
+    const later = candleFromTrade({ symbol: 'AAPL', price: 105, timestamp: 30_000, volume: 2 }, '1m');
+    const earlier = candleFromTrade({ symbol: 'AAPL', price: 100, timestamp: 10_000, volume: 3 }, '1m');
+    const merged = mergeCandles(later, earlier);
+    expect(merged).toMatchObject({
+      open: 100,
+      close: 105,
+      high: 105,
+      low: 100,
+      volume: 5,
+      tradeCount: 2,
+      openTime: 10_000,
+      closeTime: 30_000,
     });
+    expect(mergeCandles(earlier, later)).toEqual(merged);
   });
 });
 
-describe('computeSparklinePoints', () => {
-  it('returns empty payload when fewer than two points', () => {
-    const result = computeSparklinePoints([{ price: 100, timestamp: 1_000 }]);
-    expect(result).toEqual({
-      points: [],
-      min: null,
-      max: null,
-    });
+describe('mergeCandleSeries', () => {
+  it('merges bars that share a bucket and keeps the series chronological', () => {
+    const stored = [
+      candleFromTrade({ symbol: 'AAPL', price: 10, timestamp: 61_000 }, '1m'),
+      candleFromTrade({ symbol: 'AAPL', price: 9, timestamp: 1_000 }, '1m'),
+    ];
+    const live = [candleFromTrade({ symbol: 'AAPL', price: 12, timestamp: 90_000 }, '1m')];
+    const merged = mergeCandleSeries(stored, live);
+    expect(merged.map(candle => candle.start)).toEqual([0, 60_000]);
+    expect(merged[1]).toMatchObject({ open: 10, close: 12, tradeCount: 2 });
   });
+});
 
-  it('normalizes prices between 0 and 1', () => {
-    const result = computeSparklinePoints([
-      { price: 100, timestamp: 1_000 },
-      { price: 110, timestamp: 2_000 },
-      { price: 105, timestamp: 3_000 },
+describe('createCandleAggregator', () => {
+  const trade = (price: number, timestamp: number, volume = 1, symbol = 'AAPL') => ({ symbol, price, timestamp, volume });
+
+  it('builds OHLCV bars and emits them once the next bucket starts', () => {
+    const aggregator = createCandleAggregator({ intervals: ['1m'], allowedLatenessMs: 0 });
+    expect(aggregator.addTrade(trade(10, 1_000, 2))).toEqual([]);
+    expect(aggregator.addTrade(trade(12, 20_000, 1))).toEqual([]);
+    expect(aggregator.addTrade(trade(9, 40_000, 4))).toEqual([]);
+
+    const finished = aggregator.addTrade(trade(11, 61_000));
+    expect(finished).toEqual<Candle[]>([
+      {
+        symbol: 'AAPL',
+        interval: '1m',
+        start: 0,
+        open: 10,
+        high: 12,
+        low: 9,
+        close: 9,
+        volume: 7,
+        tradeCount: 3,
+        openTime: 1_000,
+        closeTime: 40_000,
+      },
     ]);
+    expect(aggregator.getOpenCandles('AAPL', '1m')).toHaveLength(1);
+  });
+
+  it('folds out-of-order trades inside the lateness window into the open bar', () => {
+    const aggregator = createCandleAggregator({ intervals: ['1m'], allowedLatenessMs: 5_000 });
+    aggregator.addTrade(trade(10, 30_000));
+    aggregator.addTrade(trade(11, 61_000));
+    expect(aggregator.addTrade(trade(8, 5_000))).toEqual([]);
 
-    const normalized = result.points.map(point => point.normalized);
-    expect(Math.min(...normalized)).toBe(0);
-    expect(Math.max(...normalized)).toBe(1);
-    expect(result.min).toBe(100);
-    expect(result.max).toBe(110);
+    const [bar] = aggregator.addTrade(trade(12, 66_000));
+    expect(bar).toMatchObject({ start: 0, open: 8, close: 10, low: 8, tradeCount: 2 });
   });
-});
 
-describe('isUsMarketOpen', () => {
-  it('returns true during regular weekday session', () => {
-    const mondayAt15UTC = new Date(Date.UTC(2024, 2, 4, 15, 0)); // Monday
-    expect(isUsMarketOpen(mondayAt15UTC)).toBe(true);
+  it('returns trades for already emitted bars as mergeable fragments', () => {
+    const aggregator = createCandleAggregator({ intervals: ['1m'], allowedLatenessMs: 0 });
+    aggregator.addTrade(trade(10, 1_000));
+    aggregator.addTrade(trade(11, 61_000));
+
+    const [fragment] = aggregator.addTrade(trade(7, 2_000, 3));
+    expect(fragment).toMatchObject({ start: 0, open: 7, close: 7, volume: 3, tradeCount: 1 });
   });
 
-  it('returns false before open on weekdays', () => {
-    const mondayAt13UTC = new Date(Date.UTC(2024, 2, 4, 13, 0));
-    expect(isUsMarketOpen(mondayAt13UTC)).toBe(false);
+  it('tracks each symbol and interval independently', () => {
+    const aggregator = createCandleAggregator({ intervals: ['1s', '1m'], allowedLatenessMs: 0 });
+    aggregator.addTrade(trade(10, 100, 1, 'AAPL'));
+    aggregator.addTrade(trade(20, 200, 1, 'TSLA'));
+
+    const finished = aggregator.addTrade(trade(11, 1_500, 1, 'AAPL'));
+    expect(finished.map(candle => `${candle.symbol}/${candle.interval}`)).toEqual(['AAPL/1s']);
+    expect(aggregator.getOpenCandles('TSLA', '1s')).toHaveLength(1);
   });
 
-  it('returns false on weekends', () => {
-    const sunday = new Date(Date.UTC(2024, 2, 3, 16, 0));
-    expect(isUsMarketOpen(sunday)).toBe(false);
+  it('closes idle bars when the clock advances and on flush', () => {
+    const aggregator = createCandleAggregator({ intervals: ['1s', '1m'], allowedLatenessMs: 1_000 });
+    aggregator.addTrade(trade(10, 100));
+
+    expect(aggregator.advanceTime(1_999)).toEqual([]);
+    expect(aggregator.advanceTime(2_000).map(candle => candle.interval)).toEqual(['1s']);
+    expect(aggregator.flush().map(candle => candle.interval)).toEqual(['1m']);
+    expect(aggregator.getOpenCandles('AAPL', '1m')).toEqual([]);
   });
 });
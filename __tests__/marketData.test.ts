@@ -0,0 +1,267 @@
+import { FeedStatus, FeedTrade } from '../utils/feedClient';
+import {
+  DEFAULT_PROVIDER_SETTINGS,
+  isStreamingProvider,
+  MarketDataProvider,
+  parseProviderSettings,
+  PROVIDER_OPTIONS,
+} from '../utils/marketData';
+import { createReplayProvider, parseTradeRecording } from '../utils/replayFeed';
+import { createSyntheticProvider, gbmStep, seedPrice } from '../utils/syntheticFeed';
+import { createFakeClock } from './support/fakeClock';
+
+// Deterministic stand-in for Math.random.
+const seededRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1_103_515_245 + 12_345) % 2_147_483_648;
+    return state / 2_147_483_648;
+  };
+};
+
+const settle = () => new Promise<void>(resolve => setImmediate(resolve));
+
+const collect = (provider: MarketDataProvider) => {
+  const trades: FeedTrade[] = [];
+  const statuses: FeedStatus[] = [];
+  provider.onTrade(trade => trades.push(trade));
+  provider.onStatus(status => statuses.push(status));
+  return { trades, statuses };
+};
+
+const trade = (symbol: string, price: number, timestamp: number): FeedTrade => ({
+  symbol,
+  price,
+  timestamp,
+  volume: 1,
+});
+
+describe('gbmStep', () => {
+  it('follows the drift exactly when volatility is zero', () => {
+    const settings = { driftPctPerHour: 10, volatilityPctPerHour: 0 };
+    expect(gbmStep(100, 60 * 60 * 1000, settings, 1.5)).toBeCloseTo(100 * Math.exp(0.1), 10);
+    expect(gbmStep(100, 0, settings, 1.5)).toBe(100);
+  });
+
+  it('moves by sigma * sqrt(dt) per unit of noise', () => {
+    const settings = { driftPctPerHour: 0, volatilityPctPerHour: 20 };
+    const quarterHour = 15 * 60 * 1000;
+    const expected = 100 * Math.exp(-0.02 * 0.25 + 0.2 * 0.5 * 2);
+    expect(gbmStep(100, quarterHour, settings, 2)).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('createSyntheticProvider', () => {
+  it('emits one trade per subscribed symbol at the configured tick rate', () => {
+    const { clock, advance } = createFakeClock();
+    const provider = createSyntheticProvider({
+      ...DEFAULT_PROVIDER_SETTINGS.synthetic,
+      ticksPerSecond: 4,
+      initialPrices: { AAPL: 190 },
+      clock,
+      random: seededRandom(1),
+    });
+    const { trades, statuses } = collect(provider);
+
+    provider.setSymbols(['AAPL', 'MSFT', 'AAPL']);
+    provider.connect();
+    expect(statuses[statuses.length - 1].state).toBe('open');
+    advance(1000);
+
+    expect(trades).toHaveLength(8);
+    expect(trades.filter(item => item.symbol === 'AAPL')).toHaveLength(4);
+    expect(trades.map(item => item.timestamp).slice(0, 2)).toEqual([250, 250]);
+    expect(Math.abs(trades[0].price - 190)).toBeLessThan(5);
+    expect(Math.abs(trades[1].price - seedPrice('MSFT'))).toBeLessThan(seedPrice('MSFT') * 0.05);
+    expect(provider.getLastMessageAt()).toBe(1000);
+
+    provider.disconnect();
+    advance(1000);
+    expect(trades).toHaveLength(8);
+    expect(provider.getStatus().state).toBe('closed');
+  });
+
+  it('produces the same walk for the same random source', () => {
+    const run = () => {
+      const { clock, advance } = createFakeClock();
+      const provider = createSyntheticProvider({
+        driftPctPerHour: 5,
+        volatilityPctPerHour: 50,
+        ticksPerSecond: 10,
+        clock,
+        random: seededRandom(42),
+      });
+      const { trades } = collect(provider);
+      provider.setSymbols(['BINANCE:BTCUSDT']);
+      provider.connect();
+      advance(2000);
+      return trades.map(item => item.price);
+    };
+
+    const first = run();
+    expect(first).toHaveLength(20);
+    expect(run()).toEqual(first);
+    expect(new Set(first).size).toBeGreaterThan(1);
+  });
+});
+
+describe('createReplayProvider', () => {
+  it('plays trades in timestamp order with gaps divided by speed and capped', async () => {
+    const { clock, advance } = createFakeClock();
+    const recording = [
+      trade('AAPL', 3, 1_000 + 60_000),
+      trade('AAPL', 1, 1_000),
+      trade('MSFT', 9, 1_500),
+      trade('AAPL', 2, 3_000),
+    ];
+    const provider = createReplayProvider({ load: async () => recording, speed: 10, maxGapMs: 5_000, clock });
+    const { trades } = collect(provider);
+
+    provider.setSymbols(['AAPL']);
+    provider.connect();
+    await settle();
+    expect(provider.getStatus().state).toBe('open');
+
+    advance(0);
+    expect(trades.map(item => item.price)).toEqual([1]);
+    advance(199);
+    expect(trades).toHaveLength(1);
+    advance(1);
+    expect(trades.map(item => item.price)).toEqual([1, 2]);
+    // The minute-long gap is cut to maxGapMs before the speed-up.
+    advance(500);
+    expect(trades.map(item => item.price)).toEqual([1, 2, 3]);
+    expect(trades.map(item => item.timestamp)).toEqual([0, 200, 700]);
+  });
+
+  it('starts over after a pause when the recording ends', async () => {
+    const { clock, advance } = createFakeClock();
+    const provider = createReplayProvider({
+      load: async () => [trade('AAPL', 1, 0), trade('AAPL', 2, 1_000)],
+      speed: 1,
+      clock,
+    });
+    const { trades } = collect(provider);
+
+    provider.setSymbols(['AAPL']);
+    provider.connect();
+    await settle();
+    advance(1_000);
+    expect(trades.map(item => item.price)).toEqual([1, 2]);
+    advance(999);
+    expect(trades).toHaveLength(2);
+    advance(1);
+    expect(trades.map(item => item.price)).toEqual([1, 2, 1]);
+  });
+
+  it('reloads the recording when the symbols change', async () => {
+    const { clock, advance } = createFakeClock();
+    const load = jest.fn(async (symbols: string[]) => symbols.map(symbol => trade(symbol, 1, 0)));
+    const provider = createReplayProvider({ load, speed: 1, clock });
+    const { trades } = collect(provider);
+
+    provider.setSymbols(['AAPL']);
+    provider.connect();
+    await settle();
+    provider.setSymbols(['AAPL']);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    provider.setSymbols(['MSFT']);
+    await settle();
+    advance(0);
+    expect(load).toHaveBeenLastCalledWith(['MSFT']);
+    expect(trades.map(item => item.symbol)).toEqual(['MSFT']);
+  });
+
+  it('fails with a reason when the recording is empty or cannot be loaded', async () => {
+    const { clock } = createFakeClock();
+    const empty = createReplayProvider({ load: async () => [trade('MSFT', 1, 0)], speed: 1, clock });
+    empty.setSymbols(['AAPL']);
+    empty.connect();
+    await settle();
+    expect(empty.getStatus()).toMatchObject({ state: 'failed', lastCloseReason: 'nothing recorded for these symbols' });
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const broken = createReplayProvider({
+      load: async () => {
+        throw new Error('offline');
+      },
+      speed: 1,
+      clock,
+    });
+    broken.setSymbols(['AAPL']);
+    broken.connect();
+    await settle();
+    expect(broken.getStatus()).toMatchObject({ state: 'failed', lastCloseReason: 'recording could not be loaded' });
+    warn.mockRestore();
+  });
+
+  it('ignores a load that finishes after disconnect', async () => {
+    const { clock, advance, pending } = createFakeClock();
+    let resolveLoad: (trades: FeedTrade[]) => void = () => undefined;
+    const provider = createReplayProvider({
+      load: () => new Promise(resolve => (resolveLoad = resolve)),
+      speed: 1,
+      clock,
+    });
+    const { trades } = collect(provider);
+
+    provider.setSymbols(['AAPL']);
+    provider.connect();
+    provider.disconnect();
+    resolveLoad([trade('AAPL', 1, 0)]);
+    await settle();
+    advance(1_000);
+
+    expect(trades).toHaveLength(0);
+    expect(pending()).toBe(0);
+    expect(provider.getStatus().state).toBe('closed');
+  });
+});
+
+describe('parseTradeRecording', () => {
+  it('reads CSV with a header in any column order', () => {
+    const csv = 'timestamp,symbol,price,volume\n1000,AAPL,190.5,3\n\n2000,MSFT,abc,1\n3000,MSFT,410,\n';
+    expect(parseTradeRecording(csv)).toEqual([
+      { symbol: 'AAPL', price: 190.5, timestamp: 1000, volume: 3 },
+      { symbol: 'MSFT', price: 410, timestamp: 3000, volume: 0 },
+    ]);
+  });
+
+  it('reads a JSON array and skips malformed rows', () => {
+    const json = JSON.stringify([
+      { symbol: 'AAPL', price: 190, timestamp: 1000, volume: 2 },
+      { symbol: 'AAPL', price: -1, timestamp: 2000 },
+      'noise',
+    ]);
+    expect(parseTradeRecording(json)).toEqual([{ symbol: 'AAPL', price: 190, timestamp: 1000, volume: 2 }]);
+    expect(parseTradeRecording('  ')).toEqual([]);
+  });
+});
+
+describe('isStreamingProvider', () => {
+  it('treats only vendor feeds as market data to store and alert on', () => {
+    const kinds = PROVIDER_OPTIONS.map(option => option.value);
+    expect(kinds.filter(isStreamingProvider)).toEqual(['finnhub', 'binance', 'alpaca', 'polygon']);
+  });
+});
+
+describe('parseProviderSettings', () => {
+  it('falls back to the defaults with the given kind', () => {
+    expect(parseProviderSettings(null, 'synthetic')).toEqual({ ...DEFAULT_PROVIDER_SETTINGS, kind: 'synthetic' });
+    expect(parseProviderSettings('not json', 'finnhub').kind).toBe('finnhub');
+    expect(parseProviderSettings(JSON.stringify({ kind: 'other' }), 'synthetic').kind).toBe('synthetic');
+  });
+
+  it('fills missing fields and rejects invalid values', () => {
+    const saved = parseProviderSettings(JSON.stringify({ kind: 'replay', replay: { speed: 10 } }), 'finnhub');
+    expect(saved).toEqual({
+      kind: 'replay',
+      synthetic: DEFAULT_PROVIDER_SETTINGS.synthetic,
+      replay: { ...DEFAULT_PROVIDER_SETTINGS.replay, speed: 10 },
+    });
+
+    const invalid = JSON.stringify({ kind: 'synthetic', synthetic: { ticksPerSecond: 0 } });
+    expect(parseProviderSettings(invalid, 'finnhub')).toEqual({ ...DEFAULT_PROVIDER_SETTINGS, kind: 'finnhub' });
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  getSchemaVersion,
+  LATEST_SCHEMA_VERSION,
+  migrateDatabase,
+  Migration,
+  MIGRATIONS,
+  SchemaVersionError,
+} from '../storage/migrations';
+import { createSqliteFavoritesRepository } from '../storage/sqliteRepositories';
+import { openTestDatabase, TestDatabase } from './support/sqlJsDatabase';
+
+const tableNames = async (db: TestDatabase, type: 'table' | 'index') =>
+  (
+    await db.getAllAsync<{ name: string }>(
+      `SELECT name FROM sqlite_master WHERE type = ? AND name NOT LIKE 'sqlite_%' ORDER BY name;`,
+      [type]
+    )
+  ).map(row => row.name);
+
+const columnNames = async (db: TestDatabase, table: string) =>
+  (await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table});`, [])).map(row => row.name);
+
+describe('migrateDatabase', () => {
+  let db: TestDatabase;
+
+  beforeEach(async () => {
+    db = await openTestDatabase();
+  });
+
+  afterEach(() => {
+    db.raw.close();
+  });
+
+  it('builds the full schema on a fresh database', async () => {
+    await expect(migrateDatabase(db)).resolves.toEqual({ from: 0, to: LATEST_SCHEMA_VERSION });
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await tableNames(db, 'table')).toEqual([
+      'alert_history',
+      'app_settings',
+      'candle_coverage',
+      'favorite_symbols',
+      'price_alerts',
+      'price_candles',
+      'price_updates',
+      'quote_cache',
+      'recent_symbols',
+      'symbol_directory',
+      'symbol_searches',
+      'watchlist',
+    ]);
+    expect(await tableNames(db, 'index')).toEqual(
+      expect.arrayContaining([
+        'price_updates_symbol_timestamp',
+        'price_alerts_symbol_status',
+        'alert_history_alert_fired',
+        'price_updates_timestamp',
+        'price_candles_interval_start',
+      ])
+    );
+    expect(await columnNames(db, 'price_updates')).toContain('volume');
+    expect(await columnNames(db, 'price_alerts')).toEqual(expect.arrayContaining(['kind', 'status', 'fire_count']));
+  });
+
+  it('serves the per-symbol trade query from the (symbol, timestamp) index', async () => {
+    await migrateDatabase(db);
+    const plan = await db.getAllAsync<{ detail: string }>(
+      'EXPLAIN QUERY PLAN SELECT price, timestamp FROM price_updates WHERE symbol = ? ORDER BY timestamp DESC LIMIT 50;',
+      ['AAPL']
+    );
+    expect(plan.map(step => step.detail).join(' ')).toContain('price_updates_symbol_timestamp');
+  });
+
+  it('seeds the favorite chips once, on the first launch with favorites', async () => {
+    await migrateDatabase(db);
+    expect(await createSqliteFavoritesRepository(db).listFavorites()).toEqual(['AAPL', 'TSLA', 'BINANCE:BTCUSDT']);
+
+    await createSqliteFavoritesRepository(db).saveFavorites([]);
+    await migrateDatabase(db);
+    expect(await createSqliteFavoritesRepository(db).listFavorites()).toEqual([]);
+  });
+
+  it('is a no-op once the database is current', async () => {
+    await migrateDatabase(db);
+    await expect(migrateDatabase(db)).resolves.toEqual({ from: LATEST_SCHEMA_VERSION, to: LATEST_SCHEMA_VERSION });
+  });
+
+  it('upgrades an unversioned install without losing data', async () => {
+    await db.execAsync(
+      `CREATE TABLE price_updates (id INTEGER PRIMARY KEY AUTOINCREMENT, symbol TEXT NOT NULL, price REAL NOT NULL, timestamp INTEGER NOT NULL);
+       CREATE TABLE price_alerts (id INTEGER PRIMARY KEY AUTOINCREMENT, symbol TEXT NOT NULL, direction TEXT NOT NULL, price REAL NOT NULL, triggered INTEGER NOT NULL DEFAULT 0);
+       INSERT INTO price_updates (symbol, price, timestamp) VALUES ('AAPL', 190.5, 1000);
+       INSERT INTO price_alerts (symbol, direction, price, triggered) VALUES ('AAPL', 'above', 200, 0), ('AAPL', 'below', 180, 1);`
+    );
+
+    await expect(migrateDatabase(db)).resolves.toEqual({ from: 0, to: LATEST_SCHEMA_VERSION });
+
+    expect(await db.getAllAsync('SELECT symbol, price, timestamp, volume FROM price_updates;', [])).toEqual([
+      { symbol: 'AAPL', price: 190.5, timestamp: 1000, volume: 0 },
+    ]);
+    expect(
+      await db.getAllAsync('SELECT direction, kind, status, fire_count FROM price_alerts ORDER BY id;', [])
+    ).toEqual([
+      { direction: 'above', kind: 'price', status: 'armed', fire_count: 0 },
+      { direction: 'below', kind: 'price', status: 'done', fire_count: 1 },
+    ]);
+  });
+
+  it('rolls back a failing step and keeps the last applied version', async () => {
+    const failing: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: LATEST_SCHEMA_VERSION + 1,
+        description: 'Broken step',
+        up: async target => {
+          await target.execAsync('CREATE TABLE half_done (id INTEGER);');
+          throw new Error('boom');
+        },
+      },
+    ];
+
+    await expect(migrateDatabase(db, failing)).rejects.toThrow('boom');
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await tableNames(db, 'table')).not.toContain('half_done');
+  });
+
+  it('refuses a database written by a newer build', async () => {
+    await db.execAsync(`PRAGMA user_version = ${LATEST_SCHEMA_VERSION + 1};`);
+    await expect(migrateDatabase(db)).rejects.toBeInstanceOf(SchemaVersionError);
+  });
+
+  it('rejects migrations with gaps or out of order', async () => {
+    const noop = async () => undefined;
+    await expect(
+      migrateDatabase(db, [
+        { version: 1, description: 'one', up: noop },
+        { version: 3, description: 'three', up: noop },
+      ])
+    ).rejects.toBeInstanceOf(SchemaVersionError);
+    expect(await getSchemaVersion(db)).toBe(0);
+  });
+});
@@ -0,0 +1,433 @@
+import { AlertCondition, DEFAULT_ALERT_RULES } from '../utils/alerts';
+import { EMPTY_HISTORY_FILTER } from '../utils/history';
+import { Candle } from '../utils/market';
+import {
+  createMemoryAlertRepository,
+  createMemoryBackfillRepository,
+  createMemoryFavoritesRepository,
+  createMemorySettingsRepository,
+  createMemorySymbolRepository,
+  createMemoryTradeRepository,
+} from '../storage/memoryRepositories';
+import { migrateDatabase } from '../storage/migrations';
+import {
+  AlertRepository,
+  BackfillRepository,
+  FavoritesRepository,
+  SettingsRepository,
+  SymbolRepository,
+  TradeRepository,
+} from '../storage/repositories';
+import { readAlertRow, readTradeRow, RowValidationError } from '../storage/rows';
+import {
+  createSqliteAlertRepository,
+  createSqliteBackfillRepository,
+  createSqliteFavoritesRepository,
+  createSqliteSettingsRepository,
+  createSqliteSymbolRepository,
+  createSqliteTradeRepository,
+} from '../storage/sqliteRepositories';
+import { openTestDatabase, TestDatabase } from './support/sqlJsDatabase';
+
+type Repositories = {
+  trades: TradeRepository;
+  alerts: AlertRepository;
+  settings: SettingsRepository;
+  backfill: BackfillRepository;
+  symbols: SymbolRepository;
+  favorites: FavoritesRepository;
+  close: () => void;
+};
+
+const implementations: Array<[string, () => Promise<Repositories>]> = [
+  [
+    'memory',
+    async () => ({
+      trades: createMemoryTradeRepository(),
+      alerts: createMemoryAlertRepository(),
+      settings: createMemorySettingsRepository(),
+      backfill: createMemoryBackfillRepository(),
+      symbols: createMemorySymbolRepository(),
+      favorites: createMemoryFavoritesRepository(),
+      close: () => undefined,
+    }),
+  ],
+  [
+    'sqlite',
+    async () => {
+      const db = await openTestDatabase();
+      await migrateDatabase(db);
+      return {
+        trades: createSqliteTradeRepository(db),
+        alerts: createSqliteAlertRepository(db),
+        settings: createSqliteSettingsRepository(db),
+        backfill: createSqliteBackfillRepository(db),
+        symbols: createSqliteSymbolRepository(db),
+        favorites: createSqliteFavoritesRepository(db),
+        close: () => db.raw.close(),
+      };
+    },
+  ],
+];
+
+const candle = (start: number, patch: Partial<Candle> = {}): Candle => ({
+  symbol: 'AAPL',
+  interval: '1m',
+  start,
+  open: 10,
+  high: 12,
+  low: 9,
+  close: 11,
+  volume: 5,
+  tradeCount: 2,
+  openTime: start + 1000,
+  closeTime: start + 50000,
+  ...patch,
+});
+
+const level: AlertCondition = { kind: 'price', direction: 'above', price: 200 };
+
+describe.each(implementations)('%s repositories', (_name, open) => {
+  let repos: Repositories;
+
+  beforeEach(async () => {
+    repos = await open();
+  });
+
+  afterEach(() => {
+    repos.close();
+  });
+
+  it('reads and deletes trades by age', async () => {
+    await repos.trades.appendTrades(
+      [3, 1, 5, 2, 4].map(timestamp => ({ symbol: 'AAPL', price: 100 + timestamp, timestamp, volume: 1 }))
+    );
+    await repos.trades.appendTrades([{ symbol: 'MSFT', price: 300, timestamp: 2, volume: 0 }]);
+    expect(await repos.trades.recentTrades('AAPL', 10)).toHaveLength(5);
+    expect((await repos.trades.tradesBefore('AAPL', 4, 2)).map(trade => trade.timestamp)).toEqual([1, 2]);
+    expect((await repos.trades.tradesBetween('AAPL', 2, 5, 10)).map(trade => trade.timestamp)).toEqual([2, 3, 4]);
+    expect((await repos.trades.tradesBetween('AAPL', 2, 5, 2)).map(trade => trade.timestamp)).toEqual([2, 3]);
+    await repos.trades.deleteTradesBefore('AAPL', 3);
+
+    expect((await repos.trades.recentTrades('AAPL', 10)).map(trade => trade.timestamp)).toEqual([5, 4, 3]);
+    expect((await repos.trades.recentTrades('AAPL', 2)).map(trade => trade.price)).toEqual([105, 104]);
+  });
+
+  it('merges late candle fragments into stored bars', async () => {
+    await repos.trades.saveCandles([candle(60000), candle(0)]);
+    await repos.trades.saveCandles([
+      candle(0, { open: 8, high: 8, low: 7, close: 8, volume: 1, tradeCount: 1, openTime: 500, closeTime: 500 }),
+    ]);
+
+    const bars = await repos.trades.recentCandles('AAPL', '1m', 10);
+    expect(bars.map(bar => bar.start)).toEqual([0, 60000]);
+    expect(bars[0]).toMatchObject({ open: 8, high: 12, low: 7, close: 11, volume: 6, tradeCount: 3, openTime: 500 });
+    expect(await repos.trades.recentCandles('AAPL', '1m', 1)).toEqual([candle(60000)]);
+    expect(await repos.trades.recentCandles('AAPL', '5m', 10)).toEqual([]);
+  });
+
+  it('fills missing bars, reports usage and purges by symbol or tier', async () => {
+    await repos.trades.saveCandles([candle(0), candle(60000), candle(0, { symbol: 'MSFT', interval: '1h' })]);
+    await repos.trades.insertMissingCandles([candle(0, { volume: 1 }), candle(120000, { volume: 2 })]);
+    await repos.trades.appendTrades([{ symbol: 'AAPL', price: 10, timestamp: 5, volume: 1 }]);
+
+    expect((await repos.trades.candlesBefore('AAPL', '1m', 120000, 10)).map(bar => bar.volume)).toEqual([5, 5]);
+    expect((await repos.trades.candlesBefore('AAPL', '1m', 200000, 1)).map(bar => bar.start)).toEqual([0]);
+    expect((await repos.trades.candlesBetween('AAPL', '1m', 60000, 180000, 10)).map(bar => bar.start)).toEqual([
+      60000, 120000,
+    ]);
+    expect(await repos.trades.priceRange('AAPL', '1m', 0, 120000)).toEqual({ low: 9, high: 12, firstStart: 0 });
+    expect(await repos.trades.priceRange('AAPL', '1m', 180000, 240000)).toBeNull();
+    expect(await repos.trades.storageUsage()).toEqual([
+      { symbol: 'AAPL', rows: { trades: 1, '1s': 0, '1m': 3, '5m': 0, '1h': 0 } },
+      { symbol: 'MSFT', rows: { trades: 0, '1s': 0, '1m': 0, '5m': 0, '1h': 1 } },
+    ]);
+
+    await repos.trades.deleteCandlesBefore('AAPL', '1m', 60000);
+    await repos.trades.trimOldest('1m', 1);
+    expect((await repos.trades.recentCandles('AAPL', '1m', 10)).map(bar => bar.start)).toEqual([120000]);
+
+    await repos.trades.purgeSymbol('AAPL');
+    expect((await repos.trades.storageUsage()).map(item => item.symbol)).toEqual(['MSFT']);
+    await repos.trades.purgeAll();
+    expect(await repos.trades.storageUsage()).toEqual([]);
+  });
+
+  it('stores settings by key', async () => {
+    expect(await repos.settings.getSetting('retention')).toBeNull();
+    await repos.settings.setSetting('retention', '{}');
+    await repos.settings.setSetting('retention', '{"budgetMb":5}');
+    expect(await repos.settings.getSetting('retention')).toBe('{"budgetMb":5}');
+    await repos.settings.setSetting('marketData', '{"kind":"synthetic"}');
+    expect(await repos.settings.allSettings()).toEqual({
+      marketData: '{"kind":"synthetic"}',
+      retention: '{"budgetMb":5}',
+    });
+  });
+
+  it('inserts trades until as many as the batch holds are stored', async () => {
+    const trade = { symbol: 'AAPL', price: 10, timestamp: 1, volume: 2 };
+    await repos.trades.appendTrades([trade]);
+    const inserted = await repos.trades.insertMissingTrades([
+      trade,
+      { ...trade, volume: 3 },
+      { ...trade, timestamp: 2 },
+      { ...trade, timestamp: 2 },
+      { ...trade, symbol: 'MSFT' },
+    ]);
+    expect(inserted).toEqual([
+      { ...trade, volume: 3 },
+      { ...trade, timestamp: 2 },
+      { ...trade, timestamp: 2 },
+      { ...trade, symbol: 'MSFT' },
+    ]);
+    expect(await repos.trades.recentTrades('AAPL', 10)).toHaveLength(4);
+    expect(await repos.trades.insertMissingTrades([trade, trade, { ...trade, timestamp: 2 }])).toEqual([trade]);
+  });
+
+  it('pages filtered history by cursor, summarizes and deletes it', async () => {
+    await repos.trades.appendTrades([
+      { symbol: 'MSFT', price: 30, timestamp: 5, volume: 1 },
+      { symbol: 'AAPL', price: 12, timestamp: 1, volume: 1 },
+      { symbol: 'AAPL', price: 10, timestamp: 2, volume: 1 },
+      { symbol: 'AAPL', price: 11, timestamp: 2, volume: 1 },
+      { symbol: 'AAPL', price: 99, timestamp: 3, volume: 1 },
+      { symbol: 'OANDA:EUR_USD', price: 1.1, timestamp: 4, volume: 1 },
+    ]);
+    const filter = { ...EMPTY_HISTORY_FILTER, maxPrice: 50 };
+    const first = await repos.trades.browseTrades(filter, null, 2);
+    const rest = await repos.trades.browseTrades(filter, first[1], 10);
+    // Equal timestamps page by id, newest row first, so nothing is skipped or repeated across pages.
+    expect([...first, ...rest].map(trade => [trade.symbol, trade.price])).toEqual([
+      ['AAPL', 11],
+      ['AAPL', 10],
+      ['AAPL', 12],
+      ['MSFT', 30],
+      ['OANDA:EUR_USD', 1.1],
+    ]);
+    expect(await repos.trades.historySummaries(filter)).toEqual([
+      { symbol: 'AAPL', count: 3, low: 10, high: 12, firstPrice: 12, firstAt: 1, lastPrice: 11, lastAt: 2 },
+      { symbol: 'MSFT', count: 1, low: 30, high: 30, firstPrice: 30, firstAt: 5, lastPrice: 30, lastAt: 5 },
+      {
+        symbol: 'OANDA:EUR_USD',
+        count: 1,
+        low: 1.1,
+        high: 1.1,
+        firstPrice: 1.1,
+        firstAt: 4,
+        lastPrice: 1.1,
+        lastAt: 4,
+      },
+    ]);
+    const bySymbol = await repos.trades.browseTrades({ ...EMPTY_HISTORY_FILTER, symbolQuery: 'r_u' }, null, 10);
+    expect(bySymbol.map(trade => trade.symbol)).toEqual(['OANDA:EUR_USD']);
+
+    await repos.trades.deleteTradesById([first[0].id]);
+    await repos.trades.deleteFilteredTrades('AAPL', { ...filter, from: 2, symbolQuery: 'MSFT' });
+    expect((await repos.trades.recentTrades('AAPL', 10)).map(trade => trade.price)).toEqual([99, 12]);
+    expect(await repos.trades.recentTrades('MSFT', 10)).toHaveLength(1);
+  });
+
+  it('stores backfill coverage and quotes until forgotten', async () => {
+    const quote = (symbol: string, fetchedAt: number) => ({
+      symbol,
+      price: 10,
+      change: 1,
+      changePercent: 11.1,
+      high: 11,
+      low: 9,
+      open: 9.5,
+      previousClose: 9,
+      quotedAt: fetchedAt - 500,
+      fetchedAt,
+    });
+    expect(await repos.backfill.getCoverage('AAPL', '1m')).toBeNull();
+    await repos.backfill.saveCoverage({ symbol: 'AAPL', interval: '1m', from: 0, to: 60000, fetchedAt: 1 });
+    await repos.backfill.saveCoverage({ symbol: 'AAPL', interval: '1m', from: 0, to: 120000, fetchedAt: 2 });
+    await repos.backfill.saveCoverage({ symbol: 'MSFT', interval: '5m', from: 0, to: 300000, fetchedAt: 3 });
+    await repos.backfill.saveQuote(quote('AAPL', 1000));
+    await repos.backfill.saveQuote(quote('AAPL', 2000));
+    await repos.backfill.saveQuote(quote('MSFT', 3000));
+
+    expect(await repos.backfill.getCoverage('AAPL', '1m')).toEqual({
+      symbol: 'AAPL',
+      interval: '1m',
+      from: 0,
+      to: 120000,
+      fetchedAt: 2,
+    });
+    expect(await repos.backfill.getCoverage('AAPL', '5m')).toBeNull();
+    expect(await repos.backfill.latestQuote('AAPL')).toEqual(quote('AAPL', 2000));
+
+    await repos.backfill.forget(['AAPL']);
+    expect(await repos.backfill.getCoverage('AAPL', '1m')).toBeNull();
+    expect(await repos.backfill.latestQuote('AAPL')).toBeNull();
+    expect(await repos.backfill.latestQuote('MSFT')).not.toBeNull();
+
+    await repos.backfill.forget(null);
+    expect(await repos.backfill.getCoverage('MSFT', '5m')).toBeNull();
+    expect(await repos.backfill.latestQuote('MSFT')).toBeNull();
+  });
+
+  it('caches searched symbols and when each query was asked', async () => {
+    const info = (symbol: string, description: string) => ({ symbol, description, exchange: 'US', type: 'Forex' });
+    await repos.symbols.save([info('OANDA:EUR_USD', 'Euro / US Dollar'), info('EURN', 'Euronav NV')], 1);
+    await repos.symbols.save([info('EUR', 'Euro Corp'), info('EURN', 'Euronav')], 2);
+
+    const search = async (query: string) => (await repos.symbols.search(query, 10)).map(item => item.symbol);
+    expect(await search('eur')).toEqual(['EUR', 'EURN', 'OANDA:EUR_USD']);
+    // `_` is literal, not a LIKE wildcard.
+    expect(await search('EUR_')).toEqual([]);
+    expect(await search('OANDA:EUR_')).toEqual(['OANDA:EUR_USD']);
+    expect(await repos.symbols.find('EURN')).toEqual(info('EURN', 'Euronav'));
+    expect(await repos.symbols.find('EURO')).toBeNull();
+
+    expect(await repos.symbols.searchedAt('EUR')).toBeNull();
+    await repos.symbols.markSearched('EUR', 5);
+    await repos.symbols.markSearched('EUR', 7);
+    expect(await repos.symbols.searchedAt('EUR')).toBe(7);
+  });
+
+  it('stores favorites in order and keeps the newest recent symbols', async () => {
+    await repos.favorites.saveFavorites(['MSFT', 'AAPL', 'MSFT']);
+    expect(await repos.favorites.listFavorites()).toEqual(['MSFT', 'AAPL']);
+    await repos.favorites.saveFavorites(['AAPL', 'MSFT']);
+    expect(await repos.favorites.listFavorites()).toEqual(['AAPL', 'MSFT']);
+
+    await repos.favorites.touchRecent('AAPL', 1, 2);
+    await repos.favorites.touchRecent('MSFT', 2, 2);
+    await repos.favorites.touchRecent('AAPL', 3, 2);
+    await repos.favorites.touchRecent('TSLA', 4, 2);
+    expect(await repos.favorites.recentSymbols(10)).toEqual(['TSLA', 'AAPL']);
+    expect(await repos.favorites.recentSymbols(1)).toEqual(['TSLA']);
+
+    await repos.favorites.saveWatchlist(['TSLA', 'AAPL']);
+    expect(await repos.favorites.listWatchlist()).toEqual(['TSLA', 'AAPL']);
+    await repos.favorites.addToWatchlist('MSFT');
+    await repos.favorites.addToWatchlist('TSLA');
+    await repos.favorites.removeFromWatchlist('AAPL');
+    await repos.favorites.addToWatchlist('AAPL');
+    expect(await repos.favorites.listWatchlist()).toEqual(['TSLA', 'MSFT', 'AAPL']);
+  });
+
+  const createAlert = (symbol: string, createdAt: number, keep = 10, condition: AlertCondition = level) =>
+    repos.alerts.create({ symbol, condition, rules: DEFAULT_ALERT_RULES, createdAt }, keep);
+
+  it('creates alerts and lists live ones first', async () => {
+    const first = await createAlert('AAPL', 1);
+    const second = await createAlert('AAPL', 2, 10, { kind: 'noTrades', minutes: 5 });
+    await createAlert('MSFT', 3);
+    await repos.alerts.setStatus(second, 'done');
+
+    const listed = await repos.alerts.listForSymbol('AAPL', 10);
+    expect(listed.map(alert => alert.id)).toEqual([first, second]);
+    expect(listed[0]).toMatchObject({
+      symbol: 'AAPL',
+      condition: level,
+      rules: DEFAULT_ALERT_RULES,
+      status: 'armed',
+      paused: false,
+      createdAt: 1,
+      lastFiredAt: null,
+      fireCount: 0,
+    });
+    expect((await repos.alerts.listAll(10)).map(alert => alert.symbol)).toEqual(['AAPL', 'AAPL', 'MSFT']);
+    expect(await repos.alerts.liveSymbols()).toEqual(['AAPL', 'MSFT']);
+
+    await repos.alerts.setStatus(second, 'armed');
+    expect((await repos.alerts.listLive('AAPL', 'noTrades')).map(alert => alert.id)).toEqual([second]);
+    await repos.alerts.setPaused(first, true);
+    expect((await repos.alerts.listLive('AAPL')).map(alert => alert.id)).toEqual([second]);
+  });
+
+  it('drops finished alerts first when a symbol is over its cap', async () => {
+    const done = await createAlert('AAPL', 1, 2);
+    await repos.alerts.setStatus(done, 'done');
+    const live = await createAlert('AAPL', 2, 2);
+    const newest = await createAlert('AAPL', 3, 2);
+
+    expect((await repos.alerts.listForSymbol('AAPL', 10)).map(alert => alert.id)).toEqual([newest, live]);
+  });
+
+  it('records firings with capped history and re-arms', async () => {
+    const id = await repos.alerts.create(
+      { symbol: 'AAPL', condition: level, rules: { ...DEFAULT_ALERT_RULES, expiresAt: 500 }, createdAt: 1 },
+      10
+    );
+    for (let firedAt = 100; firedAt <= 300; firedAt += 100) {
+      await repos.alerts.recordFiring(id, { firedAt, status: 'waiting', value: 201, message: `fired ${firedAt}` }, 2);
+    }
+
+    const [fired] = await repos.alerts.listForSymbol('AAPL', 1);
+    expect(fired).toMatchObject({ status: 'waiting', lastFiredAt: 300, fireCount: 3 });
+    expect((await repos.alerts.listFirings(id)).map(entry => entry.message)).toEqual(['fired 300', 'fired 200']);
+    expect((await repos.alerts.firingsBetween('AAPL', 0, 300, 10)).map(entry => entry.firedAt)).toEqual([200]);
+    expect(await repos.alerts.firingsBetween('MSFT', 0, 400, 10)).toEqual([]);
+
+    await repos.alerts.setStatus(id, 'expired');
+    await repos.alerts.rearm(id, 600);
+    const [rearmed] = await repos.alerts.listForSymbol('AAPL', 1);
+    expect(rearmed).toMatchObject({ status: 'armed', paused: false, rules: { expiresAt: null } });
+
+    await repos.alerts.remove(id);
+    expect(await repos.alerts.listAll(10)).toEqual([]);
+    expect(await repos.alerts.listFirings(id)).toEqual([]);
+  });
+});
+
+describe('row validation', () => {
+  const alertRow = {
+    id: 7,
+    symbol: 'AAPL',
+    kind: 'price',
+    direction: 'above',
+    price: 200,
+    params: null,
+    created_at: 0,
+    repeat_mode: 'once',
+    hysteresis_pct: 0.5,
+    cooldown_minutes: 0,
+    expires_at: null,
+    paused: 0,
+    status: 'armed',
+    last_fired_at: null,
+    fire_count: 0,
+  };
+
+  it('reads well-formed rows', () => {
+    expect(readTradeRow({ symbol: 'AAPL', price: 1.5, timestamp: 10, volume: 0 })).toEqual({
+      symbol: 'AAPL',
+      price: 1.5,
+      timestamp: 10,
+      volume: 0,
+    });
+    expect(readAlertRow(alertRow)).toMatchObject({ id: '7', condition: level, status: 'armed' });
+  });
+
+  it('rejects corrupt values instead of substituting defaults', () => {
+    const trade = { symbol: 'AAPL', price: 1, timestamp: 10, volume: 0 };
+    expect(() => readTradeRow({ ...trade, price: 'abc' })).toThrow(RowValidationError);
+    expect(() => readTradeRow({ ...trade, timestamp: null })).toThrow(RowValidationError);
+    expect(() => readTradeRow({ ...trade, symbol: '' })).toThrow(RowValidationError);
+    expect(() => readAlertRow({ ...alertRow, status: 'bogus' })).toThrow(RowValidationError);
+    expect(() => readAlertRow({ ...alertRow, repeat_mode: 'always' })).toThrow(RowValidationError);
+    expect(() => readAlertRow({ ...alertRow, kind: 'maCross', params: '{' })).toThrow(RowValidationError);
+  });
+
+  it('skips corrupt rows when the SQLite repository reads them', async () => {
+    const db: TestDatabase = await openTestDatabase();
+    await migrateDatabase(db);
+    await db.execAsync(
+      `INSERT INTO price_updates (symbol, price, timestamp, volume) VALUES ('AAPL', 10, 1, 0), ('AAPL', 'n/a', 2, 0);`
+    );
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(await createSqliteTradeRepository(db).recentTrades('AAPL', 10)).toEqual([
+      { symbol: 'AAPL', price: 10, timestamp: 1, volume: 0 },
+    ]);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    warn.mockRestore();
+    db.raw.close();
+  });
+});
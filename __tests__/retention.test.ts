@@ -0,0 +1,154 @@
+import { createMemoryTradeRepository } from '../storage/memoryRepositories';
+import { applyRetention } from '../storage/retention';
+import { candleFromTrade, TradeSample } from '../utils/market';
+import {
+  DEFAULT_RETENTION_SETTINGS,
+  downsampleTrades,
+  parseRetentionSettings,
+  planBudgetTrim,
+  RetentionSettings,
+  SymbolStorage,
+  validateRetentionPolicy,
+} from '../utils/retention';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const usage = (symbol: string, rows: Partial<SymbolStorage['rows']>): SymbolStorage => ({
+  symbol,
+  rows: { trades: 0, '1s': 0, '1m': 0, '5m': 0, '1h': 0, ...rows },
+});
+
+describe('retention settings', () => {
+  it('falls back to the defaults for missing or invalid settings', () => {
+    expect(parseRetentionSettings(null)).toEqual(DEFAULT_RETENTION_SETTINGS);
+    expect(parseRetentionSettings('{')).toEqual(DEFAULT_RETENTION_SETTINGS);
+    expect(parseRetentionSettings('{"budgetMb":0}')).toEqual(DEFAULT_RETENTION_SETTINGS);
+    const saved = JSON.stringify({
+      budgetMb: 10,
+      overrides: { AAPL: { rawTickHours: 1, minuteBarDays: 1, hourBarDays: 1 } },
+    });
+    expect(parseRetentionSettings(saved)).toMatchObject({
+      budgetMb: 10,
+      defaults: DEFAULT_RETENTION_SETTINGS.defaults,
+      overrides: { AAPL: { rawTickHours: 1 } },
+    });
+  });
+
+  it('requires coarser tiers to be kept at least as long as finer ones', () => {
+    expect(validateRetentionPolicy({ rawTickHours: 6, minuteBarDays: 30, hourBarDays: 365 })).toBeNull();
+    expect(validateRetentionPolicy({ rawTickHours: 0, minuteBarDays: 30, hourBarDays: 365 })).toMatch(/raw ticks/);
+    expect(validateRetentionPolicy({ rawTickHours: 48, minuteBarDays: 1, hourBarDays: 365 })).toMatch(/1-minute/);
+    expect(validateRetentionPolicy({ rawTickHours: 6, minuteBarDays: 30, hourBarDays: 7 })).toMatch(/hourly/);
+  });
+});
+
+describe('downsampleTrades', () => {
+  it('builds one bar per symbol and bucket', () => {
+    const trades: TradeSample[] = [
+      { symbol: 'AAPL', price: 10, timestamp: 61000, volume: 1 },
+      { symbol: 'AAPL', price: 12, timestamp: 1000, volume: 2 },
+      { symbol: 'MSFT', price: 5, timestamp: 2000, volume: 1 },
+      { symbol: 'AAPL', price: 11, timestamp: 30000, volume: 3 },
+    ];
+    expect(downsampleTrades(trades, '1m')).toEqual([
+      { ...candleFromTrade(trades[1], '1m'), high: 12, low: 11, close: 11, closeTime: 30000, volume: 5, tradeCount: 2 },
+      candleFromTrade(trades[2], '1m'),
+      candleFromTrade(trades[0], '1m'),
+    ]);
+  });
+});
+
+describe('planBudgetTrim', () => {
+  it('drops raw ticks first and moves on to bars only when ticks are not enough', () => {
+    expect(planBudgetTrim([usage('AAPL', { trades: 20000 })], 1)).toEqual([{ tier: 'trades', rows: 6893 }]);
+    expect(planBudgetTrim([usage('AAPL', { trades: 600, '1m': 5000 }), usage('MSFT', { trades: 400, '1m': 5000 })], 1))
+      .toEqual([
+        { tier: 'trades', rows: 1000 },
+        { tier: '1m', rows: 1262 },
+      ]);
+    expect(planBudgetTrim([usage('AAPL', { trades: 100 })], 1)).toEqual([]);
+  });
+});
+
+describe('applyRetention', () => {
+  const settings: RetentionSettings = {
+    defaults: { rawTickHours: 1, minuteBarDays: 1, hourBarDays: 5 },
+    overrides: {},
+    budgetMb: 50,
+  };
+  const start = 6 * DAY;
+  const now = 8 * DAY;
+
+  it('rolls expiring ticks into bars across read chunks and drops expired tiers', async () => {
+    const repository = createMemoryTradeRepository();
+    // 1500 ticks over two and a half minutes, which takes more than one read chunk.
+    const busy = Array.from({ length: 1500 }, (_, index) => ({
+      symbol: 'AAPL',
+      price: 100 + (index % 10),
+      timestamp: start + index * 100,
+      volume: 1,
+    }));
+    const recent = [
+      { symbol: 'AAPL', price: 50, timestamp: now - 2 * HOUR, volume: 1 },
+      { symbol: 'AAPL', price: 51, timestamp: now - 2 * HOUR + 10, volume: 1 },
+      { symbol: 'AAPL', price: 52, timestamp: now - 30 * 60 * 1000, volume: 1 },
+    ];
+    await repository.appendTrades([...busy, ...recent]);
+    // The live aggregator already stored the bar for the two ticks two hours ago.
+    const liveBar = downsampleTrades(recent.slice(0, 2), '1m')[0];
+    await repository.saveCandles([
+      liveBar,
+      { ...candleFromTrade(recent[0], '1s') },
+      { ...candleFromTrade(busy[0], '5m') },
+      { ...candleFromTrade({ ...busy[0], timestamp: DAY }, '1h') },
+    ]);
+
+    await applyRetention(repository, settings, ['AAPL'], now);
+
+    expect((await repository.recentTrades('AAPL', 10)).map(trade => trade.price)).toEqual([52]);
+    expect(await repository.recentCandles('AAPL', '1m', 10)).toEqual([liveBar]);
+    expect(await repository.recentCandles('AAPL', '1s', 10)).toEqual([]);
+    expect(await repository.recentCandles('AAPL', '5m', 10)).toEqual([]);
+    expect(await repository.recentCandles('AAPL', '1h', 10)).toEqual([
+      expect.objectContaining({ start, open: 100, close: 109, tradeCount: 1500, closeTime: start + 149900 }),
+    ]);
+  });
+
+  it('summarizes a minute busier than one read chunk from all of its trades', async () => {
+    const repository = createMemoryTradeRepository();
+    // 2500 ticks in one minute, ten to a millisecond, so chunks end partway through a millisecond.
+    const minute = Array.from({ length: 2500 }, (_, index) => ({
+      symbol: 'BINANCE:BTCUSDT',
+      price: index === 2200 ? 200 : 100 + (index % 7),
+      timestamp: start + Math.floor(index / 10),
+      volume: 1,
+    }));
+    await repository.appendTrades(minute);
+
+    await applyRetention(repository, settings, ['BINANCE:BTCUSDT'], now);
+
+    expect(await repository.recentTrades('BINANCE:BTCUSDT', 10)).toEqual([]);
+    expect(await repository.recentCandles('BINANCE:BTCUSDT', '1h', 10)).toEqual([
+      expect.objectContaining({ start, high: 200, volume: 2500, tradeCount: 2500, closeTime: start + 249 }),
+    ]);
+  });
+
+  it('uses per-symbol overrides', async () => {
+    const repository = createMemoryTradeRepository();
+    await repository.appendTrades([
+      { symbol: 'AAPL', price: 10, timestamp: now - 2 * HOUR, volume: 1 },
+      { symbol: 'MSFT', price: 10, timestamp: now - 2 * HOUR, volume: 1 },
+    ]);
+
+    await applyRetention(
+      repository,
+      { ...settings, overrides: { MSFT: { rawTickHours: 3, minuteBarDays: 1, hourBarDays: 5 } } },
+      ['AAPL', 'MSFT'],
+      now
+    );
+
+    expect(await repository.recentTrades('AAPL', 10)).toEqual([]);
+    expect(await repository.recentTrades('MSFT', 10)).toHaveLength(1);
+  });
+});
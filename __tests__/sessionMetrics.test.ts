@@ -0,0 +1,140 @@
+import { US_CALENDAR } from '../utils/exchangeCalendars';
+import { Candle } from '../utils/market';
+import {
+  computeSessionMetrics,
+  describeSessionMetrics,
+  fiftyTwoWeekRange,
+  formatVolume,
+  metricsWindow,
+  parseMetricsBaseline,
+  YEAR_RANGE_MS,
+} from '../utils/sessionMetrics';
+import { recentSessions } from '../utils/sessions';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+const iso = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 16);
+
+const bar = (start: number, close: number, patch: Partial<Candle> = {}): Candle => ({
+  symbol: 'AAPL',
+  interval: '1m',
+  start,
+  open: close,
+  high: close,
+  low: close,
+  close,
+  volume: 10,
+  tradeCount: 1,
+  openTime: start,
+  closeTime: start + 1000,
+  ...patch,
+});
+
+describe('metricsWindow', () => {
+  it('measures the latest regular session against the one before it', () => {
+    const window = metricsWindow(0, US_CALENDAR, utc('2025-11-28T16:00'));
+    expect([iso(window.range.from), iso(window.range.to)]).toEqual(['2025-11-28T14:30', '2025-11-28T18:00']);
+    // Thanksgiving is skipped, so the previous session is the Wednesday.
+    expect(window.previous && iso(window.previous.from)).toBe('2025-11-26T14:30');
+  });
+
+  it('keeps the last session until the next open', () => {
+    const { current, previous } = recentSessions(US_CALENDAR, utc('2025-03-10T12:00'));
+    expect(current?.date).toBe('2025-03-07');
+    expect(previous?.date).toBe('2025-03-06');
+  });
+
+  it('uses the UTC day for symbols without a calendar and a sliding range for rolling windows', () => {
+    const now = utc('2025-03-10T12:34') + 20_000;
+    expect(metricsWindow(0, null, now)).toEqual({
+      range: { from: utc('2025-03-10T00:00'), to: utc('2025-03-11T00:00') },
+      previous: { from: utc('2025-03-09T00:00'), to: utc('2025-03-10T00:00') },
+    });
+    expect(metricsWindow(15, US_CALENDAR, now)).toEqual({
+      range: { from: utc('2025-03-10T12:19'), to: utc('2025-03-10T12:35') },
+      previous: null,
+    });
+  });
+
+  it('reads the stored baseline and falls back to the session', () => {
+    expect(parseMetricsBaseline('60')).toBe(60);
+    expect(parseMetricsBaseline('7')).toBe(0);
+    expect(parseMetricsBaseline(null)).toBe(0);
+  });
+});
+
+describe('computeSessionMetrics', () => {
+  const window = { range: { from: 10 * MINUTE, to: 20 * MINUTE }, previous: { from: 0, to: 5 * MINUTE } };
+
+  it('compares the session to the previous close', () => {
+    const bars = [
+      bar(0, 90),
+      bar(4 * MINUTE, 100),
+      // After hours: neither the previous close nor part of the session.
+      bar(7 * MINUTE, 120),
+      bar(10 * MINUTE, 101, { open: 102, high: 104, low: 99, volume: 30 }),
+      bar(11 * MINUTE, 110, { high: 112, low: 108, volume: 10 }),
+    ];
+    const metrics = computeSessionMetrics(bars, window);
+    expect(metrics).toMatchObject({ latest: 110, baseline: 100, change: 10, open: 102, high: 112, low: 99 });
+    expect(metrics.percentage).toBeCloseTo(10);
+    expect(metrics.volume).toBe(40);
+    // Typical prices 101.33 and 110, weighted 3:1.
+    expect(metrics.vwap).toBeCloseTo((101.3333 * 30 + 110 * 10) / 40, 3);
+  });
+
+  it('falls back to a quoted previous close and leaves the rest empty without bars', () => {
+    expect(computeSessionMetrics([bar(10 * MINUTE, 105)], window, 100)).toMatchObject({ baseline: 100, change: 5 });
+    expect(computeSessionMetrics([], window)).toEqual({
+      latest: null,
+      baseline: null,
+      change: null,
+      percentage: null,
+      open: null,
+      high: null,
+      low: null,
+      volume: 0,
+      vwap: null,
+    });
+  });
+
+  it('starts a rolling window from its first open', () => {
+    const rolling = { range: window.range, previous: null };
+    const metrics = computeSessionMetrics([bar(10 * MINUTE, 98, { open: 96 }), bar(12 * MINUTE, 99)], rolling, 50);
+    expect(metrics).toMatchObject({ baseline: 96, change: 3 });
+  });
+});
+
+describe('metrics summary', () => {
+  it('only reports a 52-week range once the stored bars reach back a year', () => {
+    const now = 400 * DAY;
+    expect(fiftyTwoWeekRange({ low: 1, high: 2, firstStart: now - YEAR_RANGE_MS + 3 * DAY }, now)).toEqual({
+      low: 1,
+      high: 2,
+    });
+    expect(fiftyTwoWeekRange({ low: 1, high: 2, firstStart: now - 30 * DAY }, now)).toBeNull();
+    expect(fiftyTwoWeekRange(null, now)).toBeNull();
+  });
+
+  it('formats volume compactly', () => {
+    expect(formatVolume(950)).toBe('950');
+    expect(formatVolume(0.5234)).toBe('0.52');
+    expect(formatVolume(12_400)).toBe('12.4K');
+    expect(formatVolume(3_100_000)).toBe('3.1M');
+    expect(formatVolume(250_000)).toBe('250K');
+  });
+
+  it('describes the session in one line', () => {
+    const metrics = computeSessionMetrics([bar(0, 10, { open: 9, low: 8, high: 11, volume: 1500 })], {
+      range: { from: 0, to: MINUTE },
+      previous: null,
+    });
+    expect(describeSessionMetrics(metrics, { low: 5, high: 20 })).toBe(
+      'Open 9.00 · Range 8.00–11.00 · Vol 1.5K · VWAP 9.67 · 52w 5.00–20.00'
+    );
+    const empty = computeSessionMetrics([], { range: { from: 0, to: 1 }, previous: null });
+    expect(describeSessionMetrics(empty, null)).toBeNull();
+  });
+});
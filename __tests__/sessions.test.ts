@@ -0,0 +1,170 @@
+import {
+  calendarForSymbol,
+  ExchangeCalendar,
+  LSE_CALENDAR,
+  TSE_CALENDAR,
+  US_CALENDAR,
+} from '../utils/exchangeCalendars';
+import {
+  addDays,
+  describeSession,
+  formatDuration,
+  localTime,
+  marketSession,
+  tradingDay,
+  zonedTime,
+} from '../utils/sessions';
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+const iso = (timestamp: number | null) => (timestamp === null ? null : new Date(timestamp).toISOString().slice(0, 16));
+
+const describeAt = (calendar: ExchangeCalendar, at: string) =>
+  describeSession(marketSession(calendar, utc(at)), utc(at));
+
+describe('zoned time', () => {
+  it('converts exchange wall-clock times on both sides of a DST change', () => {
+    expect(iso(zonedTime('2025-03-07', 570, 'America/New_York'))).toBe('2025-03-07T14:30');
+    expect(iso(zonedTime('2025-03-10', 570, 'America/New_York'))).toBe('2025-03-10T13:30');
+    expect(iso(zonedTime('2025-03-28', 480, 'Europe/London'))).toBe('2025-03-28T08:00');
+    expect(iso(zonedTime('2025-03-31', 480, 'Europe/London'))).toBe('2025-03-31T07:00');
+    expect(iso(zonedTime('2025-07-01', 540, 'Asia/Tokyo'))).toBe('2025-07-01T00:00');
+  });
+
+  it('settles times inside the spring-forward gap and the fall-back overlap', () => {
+    expect(iso(zonedTime('2025-03-09', 150, 'America/New_York'))).toBe('2025-03-09T06:30');
+    expect(iso(zonedTime('2025-11-02', 90, 'America/New_York'))).toBe('2025-11-02T05:30');
+    expect(localTime(utc('2025-11-02T06:30'), 'America/New_York')).toEqual({ date: '2025-11-02', minutes: 90 });
+  });
+
+  it('reads the local date across midnight and month ends', () => {
+    expect(localTime(utc('2025-01-01T03:00'), 'America/New_York')).toEqual({ date: '2024-12-31', minutes: 22 * 60 });
+    expect(localTime(utc('2025-03-31T23:30'), 'Asia/Tokyo')).toEqual({ date: '2025-04-01', minutes: 8 * 60 + 30 });
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+  });
+});
+
+describe('tradingDay', () => {
+  // Every day of the bundled years, so each DST change on both continents is crossed.
+  it.each([US_CALENDAR, LSE_CALENDAR, TSE_CALENDAR])('opens and closes at local wall-clock times: $name', calendar => {
+    let date = '2024-01-01';
+    while (date < '2028-01-01') {
+      const day = tradingDay(calendar, date);
+      if (day) {
+        expect(localTime(day.open, calendar.timeZone)).toEqual({ date, minutes: calendar.hours.open });
+        const close = calendar.earlyCloses[date] ?? calendar.hours.close;
+        expect(localTime(day.close, calendar.timeZone)).toEqual({ date, minutes: close });
+        expect(day.close - day.open).toBe((close - calendar.hours.open) * MINUTE);
+      }
+      date = addDays(date, 1);
+    }
+  });
+
+  it('closes on weekends and holidays', () => {
+    expect(tradingDay(US_CALENDAR, '2025-03-08')).toBeNull();
+    expect(tradingDay(US_CALENDAR, '2025-11-27')).toBeNull();
+    expect(tradingDay(LSE_CALENDAR, '2025-11-27')).not.toBeNull();
+    expect(tradingDay(LSE_CALENDAR, '2025-08-25')).toBeNull();
+    expect(tradingDay(TSE_CALENDAR, '2026-05-06')).toBeNull();
+  });
+
+  it('shortens half days and their after-hours session', () => {
+    const day = tradingDay(US_CALENDAR, '2025-11-28');
+    expect(day).toMatchObject({ earlyClose: true });
+    expect(iso(day!.close)).toBe('2025-11-28T18:00');
+    expect(iso(day!.postClose)).toBe('2025-11-28T22:00');
+    expect(iso(tradingDay(LSE_CALENDAR, '2025-12-24')!.close)).toBe('2025-12-24T12:30');
+  });
+});
+
+describe('marketSession', () => {
+  it('follows the US open across the March DST change', () => {
+    expect(marketSession(US_CALENDAR, utc('2025-03-07T14:00')).phase).toBe('pre');
+    expect(marketSession(US_CALENDAR, utc('2025-03-07T14:30')).phase).toBe('regular');
+    expect(marketSession(US_CALENDAR, utc('2025-03-10T13:30')).phase).toBe('regular');
+    expect(marketSession(US_CALENDAR, utc('2025-03-10T20:00')).phase).toBe('post');
+    expect(marketSession(US_CALENDAR, utc('2025-03-07T20:30')).phase).toBe('regular');
+  });
+
+  it('follows the US close across the November DST change', () => {
+    expect(marketSession(US_CALENDAR, utc('2025-10-31T20:30')).phase).toBe('post');
+    expect(marketSession(US_CALENDAR, utc('2025-11-01T00:00')).phase).toBe('closed');
+    expect(marketSession(US_CALENDAR, utc('2025-11-03T20:30')).phase).toBe('regular');
+    expect(iso(marketSession(US_CALENDAR, utc('2025-11-01T12:00')).nextOpen)).toBe('2025-11-03T14:30');
+  });
+
+  it('follows London across the March and October changes', () => {
+    expect(marketSession(LSE_CALENDAR, utc('2025-03-28T07:30')).phase).toBe('closed');
+    expect(marketSession(LSE_CALENDAR, utc('2025-03-31T07:30')).phase).toBe('regular');
+    expect(marketSession(LSE_CALENDAR, utc('2025-10-24T15:45')).phase).toBe('closed');
+    expect(marketSession(LSE_CALENDAR, utc('2025-10-27T16:15')).phase).toBe('regular');
+  });
+
+  it('pauses Tokyo for lunch', () => {
+    expect(marketSession(TSE_CALENDAR, utc('2025-03-24T02:00'))).toMatchObject({ phase: 'regular' });
+    const lunch = marketSession(TSE_CALENDAR, utc('2025-03-24T03:00'));
+    expect(lunch.phase).toBe('lunch');
+    expect(iso(lunch.phaseEndsAt)).toBe('2025-03-24T03:30');
+    expect(marketSession(TSE_CALENDAR, utc('2025-03-24T06:30')).phase).toBe('closed');
+  });
+
+  it('names the holiday and finds the open after it', () => {
+    const session = marketSession(US_CALENDAR, utc('2025-11-27T15:00'));
+    expect(session).toMatchObject({ phase: 'closed', closedFor: 'Thanksgiving' });
+    expect(iso(session.nextOpen)).toBe('2025-11-28T14:30');
+    expect(iso(session.phaseEndsAt)).toBe('2025-11-28T09:00');
+
+    const goldenWeek = marketSession(TSE_CALENDAR, utc('2026-05-04T03:00'));
+    expect(goldenWeek.closedFor).toBe('Greenery Day');
+    expect(iso(goldenWeek.nextOpen)).toBe('2026-05-07T00:00');
+  });
+
+  it('treats the night before a trading day as closed without a reason', () => {
+    const session = marketSession(US_CALENDAR, utc('2025-03-10T06:00'));
+    expect(session).toMatchObject({ phase: 'closed', closedFor: null });
+    expect(iso(session.phaseEndsAt)).toBe('2025-03-10T08:00');
+    expect(iso(session.nextOpen)).toBe('2025-03-10T13:30');
+  });
+});
+
+describe('describeSession', () => {
+  it('counts down to the next phase', () => {
+    expect(describeAt(LSE_CALENDAR, '2025-03-31T04:46')).toBe('Opens in 2h 14m');
+    expect(describeAt(US_CALENDAR, '2025-03-10T11:16')).toBe('Pre-market · opens in 2h 14m');
+    expect(describeAt(US_CALENDAR, '2025-03-10T19:00')).toBe('Open · closes in 1h');
+    expect(describeAt(US_CALENDAR, '2025-03-10T20:30')).toBe('After hours · ends in 3h 30m');
+    expect(describeAt(TSE_CALENDAR, '2025-03-24T03:00')).toBe('Lunch break · reopens in 30m');
+  });
+
+  it('names closures and half days', () => {
+    expect(describeAt(US_CALENDAR, '2025-11-27T15:00')).toBe('Closed for Thanksgiving · opens in 23h 30m');
+    expect(describeAt(US_CALENDAR, '2025-03-08T12:00')).toBe('Closed for the weekend · opens in 2d 1h');
+    expect(describeAt(US_CALENDAR, '2025-11-28T17:00')).toBe('Early close · closes in 1h');
+    expect(describeAt(LSE_CALENDAR, '2025-12-24T13:00')).toBe('Opens in 4d 19h');
+  });
+
+  it('formats countdowns', () => {
+    expect(formatDuration(45 * MINUTE)).toBe('45m');
+    expect(formatDuration(30 * 1000)).toBe('1m');
+    expect(formatDuration(2 * HOUR)).toBe('2h');
+    expect(formatDuration(27 * HOUR + 5 * MINUTE)).toBe('1d 3h');
+    expect(formatDuration(-MINUTE)).toBe('0m');
+  });
+});
+
+describe('calendarForSymbol', () => {
+  it('picks the calendar from the exchange prefix or market suffix', () => {
+    expect(calendarForSymbol('AAPL')).toBe(US_CALENDAR);
+    expect(calendarForSymbol('BRK.B')).toBe(US_CALENDAR);
+    expect(calendarForSymbol('NASDAQ:AAPL')).toBe(US_CALENDAR);
+    expect(calendarForSymbol('VOD.L')).toBe(LSE_CALENDAR);
+    expect(calendarForSymbol('LSE:VOD')).toBe(LSE_CALENDAR);
+    expect(calendarForSymbol('7203.T')).toBe(TSE_CALENDAR);
+    expect(calendarForSymbol('BINANCE:BTCUSDT')).toBeNull();
+    expect(calendarForSymbol('OANDA:EUR_USD')).toBeNull();
+    expect(calendarForSymbol('SHOP.TO')).toBeNull();
+  });
+});
@@ -0,0 +1,41 @@
+import { Clock, TimerHandle } from '../../utils/feedClient';
+
+/*
+ * A Clock whose time only moves when the test calls `advance`. Due timers fire one at a time in time order, with
+ * `now` at their due time, so timers scheduled by a callback run within the same advance when they fall inside it.
+ */
+export const createFakeClock = () => {
+  let now = 0;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock = {
+    now: () => now,
+    setTimeout: (callback, delayMs) => {
+      const id = nextId++;
+      timers.set(id, { at: now + delayMs, callback });
+      return id as unknown as TimerHandle;
+    },
+    clearTimeout: handle => {
+      timers.delete(handle as unknown as number);
+    },
+  };
+
+  const advance = (ms: number) => {
+    const target = now + ms;
+    for (;;) {
+      const due = Array.from(timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) {
+        break;
+      }
+      timers.delete(due[0]);
+      now = due[1].at;
+      due[1].callback();
+    }
+    now = target;
+  };
+
+  return { clock, advance, pending: () => timers.size };
+};
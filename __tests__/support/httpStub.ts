@@ -0,0 +1,38 @@
+/// <reference types="node" />
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+
+export type StubResponse = {
+  status?: number;
+  body: unknown;
+};
+
+export type HttpStub = {
+  baseUrl: string;
+  // Every request URL the stub answered, in order.
+  requests: URL[];
+  close: () => Promise<void>;
+};
+
+// A real HTTP server on a free local port that answers every GET through `handler` with JSON.
+export const startHttpStub = async (handler: (url: URL) => StubResponse): Promise<HttpStub> => {
+  const requests: URL[] = [];
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    requests.push(url);
+    const reply = handler(url);
+    response.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(reply.body));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    baseUrl: `http://127.0.0.1:${port}/api/v1`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close(err => (err ? reject(err) : resolve()));
+      }),
+  };
+};
@@ -0,0 +1,87 @@
+import { FeedSocket, FeedSocketConstructor } from '../../utils/feedClient';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+export type MockConnection = {
+  url: string;
+  // Frames the client sent, parsed as JSON.
+  received: unknown[];
+  send: (payload: unknown) => void;
+  drop: (code?: number, reason?: string) => void;
+  isOpen: () => boolean;
+};
+
+export type MockFeedServerOptions = {
+  // Frames sent to every client the moment it connects, e.g. a vendor's "connected" greeting.
+  greeting?: unknown[];
+  // Scripted replies to client frames, e.g. an auth acknowledgement.
+  reply?: (frame: unknown, connection: MockConnection) => unknown[] | void;
+};
+
+/*
+ * An in-process stand-in for a vendor's WebSocket server. Hand `WebSocketImpl` to the feed client; connections stay
+ * pending until `accept()` so tests control when the socket opens, as they do with the network.
+ */
+export const createMockFeedServer = (options: MockFeedServerOptions = {}) => {
+  const connections: MockConnection[] = [];
+  const pending: Array<() => void> = [];
+
+  class MockSocket implements FeedSocket {
+    readyState = CONNECTING;
+    onopen: FeedSocket['onopen'] = null;
+    onmessage: FeedSocket['onmessage'] = null;
+    onerror: FeedSocket['onerror'] = null;
+    onclose: FeedSocket['onclose'] = null;
+    private connection: MockConnection;
+
+    constructor(url: string) {
+      const deliver = (payload: unknown) => {
+        if (this.readyState === OPEN) {
+          this.onmessage?.({ data: typeof payload === 'string' ? payload : JSON.stringify(payload) });
+        }
+      };
+      this.connection = {
+        url,
+        received: [],
+        send: deliver,
+        drop: (code = 1006, reason = '') => {
+          this.readyState = CLOSED;
+          this.onclose?.({ code, reason });
+        },
+        isOpen: () => this.readyState === OPEN,
+      };
+      connections.push(this.connection);
+      pending.push(() => {
+        this.readyState = OPEN;
+        this.onopen?.({});
+        options.greeting?.forEach(deliver);
+      });
+    }
+
+    send(data: string) {
+      const frame: unknown = JSON.parse(data);
+      this.connection.received.push(frame);
+      options.reply?.(frame, this.connection)?.forEach(this.connection.send);
+    }
+
+    close() {
+      if (this.readyState === CLOSED) {
+        return;
+      }
+      this.readyState = CLOSED;
+      this.onclose?.({ code: 1000 });
+    }
+  }
+
+  return {
+    WebSocketImpl: MockSocket as FeedSocketConstructor,
+    connections,
+    // Complete every handshake that is waiting.
+    accept: () => pending.splice(0).forEach(open => open()),
+    latest: (): MockConnection => connections[connections.length - 1],
+    broadcast: (payload: unknown) =>
+      connections.filter(connection => connection.isOpen()).forEach(connection => connection.send(payload)),
+  };
+};
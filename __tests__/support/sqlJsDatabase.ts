@@ -0,0 +1,47 @@
+import initSqlJs, { Database } from 'sql.js';
+import { SqlDatabase, SqlValue } from '../../storage/database';
+
+// In-memory SQLite for Node tests, exposing the same surface the app gets from expo-sqlite.
+export type TestDatabase = SqlDatabase & { raw: Database };
+
+export const openTestDatabase = async (): Promise<TestDatabase> => {
+  const SQL = await initSqlJs();
+  const raw = new SQL.Database();
+
+  const getAll = <T>(source: string, params: SqlValue[]): T[] => {
+    const statement = raw.prepare(source);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  };
+
+  return {
+    raw,
+    execAsync: async source => {
+      raw.exec(source);
+    },
+    runAsync: async (source, params) => {
+      raw.run(source, params);
+      const [{ id }] = getAll<{ id: number }>('SELECT last_insert_rowid() AS id;', []);
+      return { changes: raw.getRowsModified(), lastInsertRowId: id };
+    },
+    getAllAsync: async <T>(source: string, params: SqlValue[]) => getAll<T>(source, params),
+    withTransactionAsync: async task => {
+      raw.exec('BEGIN;');
+      try {
+        await task();
+        raw.exec('COMMIT;');
+      } catch (err) {
+        raw.exec('ROLLBACK;');
+        throw err;
+      }
+    },
+  };
+};
@@ -0,0 +1,12 @@
+import { act, create } from 'react-test-renderer';
+
+/*
+ * Tests that render import the renderer from here. React Native's jest preset sets these flags; this repo runs
+ * plain ts-jest, so they are set once for every test that renders: act() is expected, and the renderer is not
+ * reported as deprecated, since React Native still tests components with it.
+ */
+const flags = globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean; IS_REACT_NATIVE_TEST_ENVIRONMENT?: boolean };
+flags.IS_REACT_ACT_ENVIRONMENT = true;
+flags.IS_REACT_NATIVE_TEST_ENVIRONMENT = true;
+
+export { act, create };
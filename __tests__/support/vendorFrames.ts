@@ -0,0 +1,35 @@
+// Frames captured from each vendor's public stream, trimmed to a few messages. Kept as raw strings on purpose.
+
+export const BINANCE_FRAMES = {
+  trade:
+    '{"e":"trade","E":1718035200123,"s":"BTCUSDT","t":3629472701,"p":"67412.01000000","q":"0.00152000",' +
+    '"T":1718035200121,"m":false,"M":true}',
+  combinedTrade:
+    '{"stream":"ethusdt@trade","data":{"e":"trade","E":1718035200456,"s":"ETHUSDT","t":1468290114,' +
+    '"p":"3671.45000000","q":"0.02910000","T":1718035200455,"m":true,"M":true}}',
+  subscribed: '{"result":null,"id":1}',
+  error: '{"error":{"code":2,"msg":"Invalid request: unknown variant `SUBSCRIBES`"},"id":2}',
+};
+
+export const ALPACA_FRAMES = {
+  connected: '[{"T":"success","msg":"connected"}]',
+  authenticated: '[{"T":"success","msg":"authenticated"}]',
+  subscription: '[{"T":"subscription","trades":["AAPL"],"quotes":[],"bars":[]}]',
+  trades:
+    '[{"T":"t","S":"AAPL","i":52983525029461,"x":"V","p":195.87,"s":100,"c":["@"],' +
+    '"t":"2024-06-10T15:30:01.123456789Z","z":"C"},' +
+    '{"T":"t","S":"MSFT","i":52983525034192,"x":"V","p":427.1,"s":5,"c":["@","I"],' +
+    '"t":"2024-06-10T15:30:01.5Z","z":"C"}]',
+  authFailed: '[{"T":"error","code":402,"msg":"auth failed"}]',
+};
+
+export const POLYGON_FRAMES = {
+  connected: '[{"ev":"status","status":"connected","message":"Connected Successfully"}]',
+  authenticated: '[{"ev":"status","status":"auth_success","message":"authenticated"}]',
+  subscribed: '[{"ev":"status","status":"success","message":"subscribed to: T.AAPL"}]',
+  trades:
+    '[{"ev":"T","sym":"AAPL","i":"52983525029461","x":11,"p":195.87,"s":100,"c":[14,41],"t":1718033401123,' +
+    '"q":4412237,"z":3},{"ev":"T","sym":"AAPL","i":"52983525029462","x":4,"p":195.88,"s":20,"t":1718033401130,' +
+    '"q":4412238,"z":3}]',
+  authFailed: '[{"ev":"status","status":"auth_failed","message":"authentication failed"}]',
+};
@@ -0,0 +1,198 @@
+import { createMemorySymbolRepository } from '../storage/memoryRepositories';
+import { createSymbolSearch } from '../storage/symbolSearch';
+import { createFinnhubRestClient, parseSearchResponse } from '../utils/finnhubRest';
+import {
+  closestSymbols,
+  createSilenceMonitor,
+  exchangeOf,
+  isWellFormedSymbol,
+  matchSymbols,
+  POPULAR_SYMBOLS,
+} from '../utils/symbols';
+import { HttpStub, startHttpStub, StubResponse } from './support/httpStub';
+
+const MINUTE = 60_000;
+
+// Finnhub's /search answers for a few queries; anything else finds nothing.
+const SEARCH_RESULTS: Record<string, unknown[]> = {
+  APPL: [
+    { description: 'APPLE INC', displaySymbol: 'AAPL', symbol: 'AAPL', type: 'Common Stock' },
+    { description: 'APPLIED MATERIALS INC', displaySymbol: 'AMAT', symbol: 'AMAT', type: 'Common Stock' },
+  ],
+  SHOP: [
+    { description: 'SHOPIFY INC - CLASS A', displaySymbol: 'SHOP', symbol: 'SHOP', type: 'Common Stock' },
+    { description: 'SHOPIFY INC', displaySymbol: 'SHOP.TO', symbol: 'SHOP.TO', type: 'Common Stock' },
+  ],
+};
+
+const searchHandler = (url: URL): StubResponse => {
+  const results = SEARCH_RESULTS[url.searchParams.get('q') ?? ''] ?? [];
+  return { body: { count: results.length, result: results } };
+};
+
+describe('symbol directory', () => {
+  it('ranks exact symbols, then prefixes, then names', () => {
+    expect(matchSymbols('goog', POPULAR_SYMBOLS, 5).map(info => info.symbol)).toEqual(['GOOG', 'GOOGL']);
+    expect(matchSymbols('BTC', POPULAR_SYMBOLS, 5).map(info => info.symbol)).toEqual([
+      'BINANCE:BTCUSDT',
+      'COINBASE:BTC-USD',
+      'BINANCE:ETHBTC',
+    ]);
+    expect(matchSymbols('tesla', POPULAR_SYMBOLS, 5).map(info => info.symbol)).toEqual(['TSLA']);
+    expect(matchSymbols('  ', POPULAR_SYMBOLS, 5)).toEqual([]);
+  });
+
+  it('keeps the first entry for a symbol listed twice', () => {
+    const cached = { symbol: 'AAPL', description: 'APPLE INC', exchange: 'US', type: 'Common Stock' };
+    expect(matchSymbols('AAPL', [...POPULAR_SYMBOLS, cached], 5)).toEqual([POPULAR_SYMBOLS[0]]);
+  });
+
+  it('suggests near spellings for typos', () => {
+    expect(closestSymbols('APPL', POPULAR_SYMBOLS, 3).map(info => info.symbol)).toEqual(['AAPL']);
+    expect(closestSymbols('BINANCE:BTCUSTD', POPULAR_SYMBOLS, 3).map(info => info.symbol)).toEqual([
+      'BINANCE:BTCUSDT',
+    ]);
+    expect(closestSymbols('ZZZZ', POPULAR_SYMBOLS, 3)).toEqual([]);
+  });
+
+  it('accepts tickers, share classes and exchange pairs only', () => {
+    ['AAPL', 'BRK.B', 'BINANCE:BTCUSDT', 'OANDA:EUR_USD', 'COINBASE:BTC-USD', '^GSPC'].forEach(symbol =>
+      expect(isWellFormedSymbol(symbol)).toBe(true)
+    );
+    ['', 'AA PL', 'AAPL!', ':AAPL', 'BINANCE:', 'X'.repeat(31)].forEach(symbol =>
+      expect(isWellFormedSymbol(symbol)).toBe(false)
+    );
+  });
+
+  it('reads the exchange from the prefix or market suffix', () => {
+    expect(exchangeOf('BINANCE:BTCUSDT')).toBe('BINANCE');
+    expect(exchangeOf('VOD.L')).toBe('LSE');
+    expect(exchangeOf('BRK.B')).toBe('US');
+    expect(exchangeOf('AAPL')).toBe('US');
+  });
+
+  it('parses Finnhub search results and drops entries without a symbol', () => {
+    expect(
+      parseSearchResponse({
+        count: 3,
+        result: [
+          { description: 'VODAFONE GROUP PLC', symbol: 'VOD.L', type: 'Common Stock' },
+          { description: 'NO SYMBOL', symbol: '' },
+          { symbol: 'xyz', type: '' },
+        ],
+      })
+    ).toEqual([
+      { symbol: 'VOD.L', description: 'VODAFONE GROUP PLC', exchange: 'LSE', type: 'Common Stock' },
+      { symbol: 'XYZ', description: 'XYZ', exchange: 'US', type: 'Other' },
+    ]);
+    expect(parseSearchResponse({ error: 'limit' })).toEqual([]);
+  });
+});
+
+describe('createSilenceMonitor', () => {
+  it('flags subscriptions that never trade within the timeout', () => {
+    const monitor = createSilenceMonitor(2 * MINUTE);
+    monitor.watch(['AAPL', 'APPL'], 0);
+    monitor.trade('AAPL');
+    expect(monitor.silent(MINUTE)).toEqual([]);
+    expect(monitor.silent(2 * MINUTE)).toEqual(['APPL']);
+
+    monitor.watch(['AAPL', 'MSFT'], 2 * MINUTE);
+    expect(monitor.silent(3 * MINUTE)).toEqual([]);
+    expect(monitor.silent(4 * MINUTE)).toEqual(['MSFT']);
+  });
+
+  it('restarts the clock when the feed comes back', () => {
+    const monitor = createSilenceMonitor(2 * MINUTE);
+    monitor.watch(['AAPL'], 0);
+    monitor.restart(3 * MINUTE);
+    expect(monitor.silent(4 * MINUTE)).toEqual([]);
+    expect(monitor.silent(5 * MINUTE)).toEqual(['AAPL']);
+  });
+});
+
+describe('createSymbolSearch', () => {
+  let stub: HttpStub;
+  let now = 0;
+  const warn = jest.spyOn(console, 'warn');
+
+  beforeEach(async () => {
+    now = 0;
+    warn.mockImplementation(() => undefined);
+    stub = await startHttpStub(searchHandler);
+  });
+
+  afterEach(async () => {
+    warn.mockReset();
+    await stub.close();
+  });
+
+  const createSearch = (baseUrl: string | null, store = createMemorySymbolRepository()) =>
+    createSymbolSearch({
+      store,
+      rest: baseUrl ? createFinnhubRestClient({ token: 't', baseUrl }) : null,
+      now: () => now,
+      maxAgeMs: 60 * MINUTE,
+    });
+
+  it('suggests from the bundled list without a token', async () => {
+    const search = createSearch(null);
+    expect((await search.suggest('ms', 3)).map(info => info.symbol)).toEqual(['MSFT']);
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('caches Finnhub results and asks again only once they are old', async () => {
+    const store = createMemorySymbolRepository();
+    const search = createSearch(stub.baseUrl, store);
+
+    expect((await search.suggest('shop', 5)).map(info => info.symbol)).toEqual(['SHOP', 'SHOP.TO']);
+    expect(stub.requests.map(url => url.searchParams.get('q'))).toEqual(['SHOP']);
+    expect(await store.find('SHOP.TO')).toMatchObject({ exchange: 'TSX', description: 'SHOPIFY INC' });
+
+    now = 30 * MINUTE;
+    expect((await search.suggest('SHOP', 5)).map(info => info.symbol)).toEqual(['SHOP', 'SHOP.TO']);
+    expect(stub.requests).toHaveLength(1);
+
+    now = 61 * MINUTE;
+    await search.suggest('SHOP', 5);
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('falls back to cached results when Finnhub cannot be reached', async () => {
+    const store = createMemorySymbolRepository();
+    await createSearch(stub.baseUrl, store).suggest('SHOP', 5);
+    const baseUrl = stub.baseUrl;
+    await stub.close();
+    stub = await startHttpStub(searchHandler);
+
+    now = 2 * 60 * MINUTE;
+    const offline = createSearch(baseUrl, store);
+    expect((await offline.suggest('SHO', 5)).map(info => info.symbol)).toEqual(['SHOP', 'SHOP.TO']);
+    expect(warn).toHaveBeenCalledWith('Symbol search error', expect.anything());
+  });
+
+  it('knows bundled and searched symbols and refuses ones Finnhub does not list', async () => {
+    const search = createSearch(stub.baseUrl);
+
+    expect(await search.check('aapl')).toMatchObject({ status: 'known', info: { symbol: 'AAPL' } });
+    expect(stub.requests).toHaveLength(0);
+    expect(await search.check('SHOP')).toMatchObject({ status: 'known', info: { symbol: 'SHOP' } });
+
+    const typo = await search.check('APPL');
+    expect(typo.status).toBe('unknown');
+    expect(typo.status === 'unknown' && typo.suggestions.map(info => info.symbol)).toEqual(['AAPL', 'AMAT']);
+    expect(await search.check('AA PL')).toEqual({ status: 'invalid' });
+  });
+
+  it('only warns about symbols it cannot check', async () => {
+    const pair = await createSearch(stub.baseUrl).check('BINANCE:BTCUSTD');
+    expect(pair).toEqual({
+      status: 'unverified',
+      suggestions: [expect.objectContaining({ symbol: 'BINANCE:BTCUSDT' })],
+    });
+    expect(stub.requests).toHaveLength(0);
+
+    const offline = await createSearch(null).check('APPL');
+    expect(offline).toEqual({ status: 'unverified', suggestions: [expect.objectContaining({ symbol: 'AAPL' })] });
+  });
+});
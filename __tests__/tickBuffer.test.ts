@@ -0,0 +1,165 @@
+import { createElement, Profiler, useCallback, useEffect, useState } from 'react';
+import { mergeUpdatesBySymbol } from '../utils/market';
+import {
+  createTickBuffer,
+  DEFAULT_UI_REFRESH_MS,
+  FrameScheduler,
+  parseUiRefreshMs,
+  TickBufferOptions,
+} from '../utils/tickBuffer';
+import { createFakeClock } from './support/fakeClock';
+import { act, create } from './support/testRenderer';
+
+// Frames fire only when the test says so, like a display that is ready for the next paint.
+const createFakeFrames = () => {
+  let nextId = 1;
+  const callbacks = new Map<number, () => void>();
+  const frames: FrameScheduler = {
+    request: callback => {
+      const id = nextId++;
+      callbacks.set(id, callback);
+      return id;
+    },
+    cancel: handle => {
+      callbacks.delete(handle);
+    },
+  };
+  const paint = () => {
+    const due = Array.from(callbacks.values());
+    callbacks.clear();
+    due.forEach(callback => callback());
+  };
+  return { frames, paint, pending: () => callbacks.size };
+};
+
+type Update = { key: string; symbol: string; price: number; timestamp: number };
+
+const update = (symbol: string, timestamp: number): Update => ({
+  key: `${symbol}-${timestamp}`,
+  symbol,
+  price: 100 + (timestamp % 5),
+  timestamp,
+});
+
+/*
+ * Renders rows the way App does: each batch makes App's three state updates (rows, fresh time, error), and a
+ * Profiler counts the commits React actually makes. Without tick buffer options every trade is applied as it
+ * arrives, as App did before the buffer.
+ */
+const renderRows = (options?: Omit<TickBufferOptions<Update>, 'onFlush'>) => {
+  const counts = { commits: 0 };
+  const rows: { push: (item: Update) => void; buffers: Record<string, Update[]> } = { push: () => {}, buffers: {} };
+
+  const TradeRows = () => {
+    const [buffers, setBuffers] = useState<Record<string, Update[]>>({});
+    const [, setFreshTimestamp] = useState<number | null>(null);
+    const [, setErrorMessage] = useState<string | null>('Connecting');
+    const applyBatch = useCallback((batch: Update[]) => {
+      setBuffers(prev => mergeUpdatesBySymbol(prev, batch, 20));
+      setFreshTimestamp(Math.max(...batch.map(item => item.timestamp)));
+      setErrorMessage(null);
+    }, []);
+    useEffect(() => {
+      if (!options) {
+        rows.push = item => applyBatch([item]);
+        return undefined;
+      }
+      const buffer = createTickBuffer<Update>({ ...options, onFlush: applyBatch });
+      rows.push = item => buffer.push(item);
+      return () => buffer.dispose();
+    }, [applyBatch]);
+    rows.buffers = buffers;
+    return null;
+  };
+
+  act(() => {
+    create(createElement(Profiler, { id: 'rows', onRender: () => (counts.commits += 1) }, createElement(TradeRows)));
+  });
+  counts.commits = 0;
+  return { counts, rows };
+};
+
+describe('createTickBuffer', () => {
+  // 1000 trades over one second across two symbols.
+  const burst = Array.from({ length: 1000 }, (_, index) => update(index % 2 ? 'MSFT' : 'AAPL', index));
+
+  it('renders a burst of 1000 trades in 4 commits at 250 ms instead of 1000 (benchmark)', () => {
+    const direct = renderRows();
+    burst.forEach(item => act(() => direct.rows.push(item)));
+    expect(direct.counts.commits).toBe(1000);
+
+    const fakeClock = createFakeClock();
+    const buffered = renderRows({ refreshMs: 250, clock: fakeClock.clock });
+    burst.forEach(item =>
+      act(() => {
+        buffered.rows.push(item);
+        fakeClock.advance(1);
+      })
+    );
+    act(() => fakeClock.advance(250));
+
+    expect(buffered.counts.commits).toBe(4);
+    expect(buffered.rows.buffers).toEqual(direct.rows.buffers);
+    expect(buffered.rows.buffers.AAPL.map(item => item.timestamp).slice(0, 2)).toEqual([998, 996]);
+    expect(buffered.rows.buffers.MSFT).toHaveLength(20);
+    expect(fakeClock.pending()).toBe(0);
+  });
+
+  it('commits once per painted frame', () => {
+    const fakeFrames = createFakeFrames();
+    const { counts, rows } = renderRows({ refreshMs: 0, frames: fakeFrames.frames });
+
+    // About 16 trades land between 60 Hz frames.
+    burst.forEach((item, index) =>
+      act(() => {
+        rows.push(item);
+        if (index % 16 === 15) {
+          fakeFrames.paint();
+        }
+      })
+    );
+    act(() => fakeFrames.paint());
+
+    expect(counts.commits).toBe(63);
+    expect(fakeFrames.pending()).toBe(0);
+  });
+
+  it('switches refresh rate and drops pending trades on dispose', () => {
+    const fakeClock = createFakeClock();
+    const fakeFrames = createFakeFrames();
+    const flushed: number[][] = [];
+    const buffer = createTickBuffer<Update>({
+      refreshMs: 1000,
+      onFlush: batch => flushed.push(batch.map(item => item.timestamp)),
+      clock: fakeClock.clock,
+      frames: fakeFrames.frames,
+    });
+
+    buffer.push(update('AAPL', 1));
+    buffer.setRefreshMs(100);
+    expect(fakeClock.pending()).toBe(1);
+    fakeClock.advance(100);
+    expect(flushed).toEqual([[1]]);
+
+    buffer.setRefreshMs(0);
+    buffer.push(update('AAPL', 2));
+    expect(fakeClock.pending()).toBe(0);
+    fakeFrames.paint();
+    expect(flushed).toEqual([[1], [2]]);
+
+    buffer.push(update('AAPL', 3));
+    buffer.dispose();
+    fakeFrames.paint();
+    expect(flushed).toEqual([[1], [2]]);
+    expect(fakeFrames.pending()).toBe(0);
+  });
+});
+
+describe('parseUiRefreshMs', () => {
+  it('accepts only the offered rates', () => {
+    expect(parseUiRefreshMs('0')).toBe(0);
+    expect(parseUiRefreshMs('500')).toBe(500);
+    expect(parseUiRefreshMs('42')).toBe(DEFAULT_UI_REFRESH_MS);
+    expect(parseUiRefreshMs(null)).toBe(DEFAULT_UI_REFRESH_MS);
+  });
+});
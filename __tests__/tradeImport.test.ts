@@ -0,0 +1,152 @@
+import { describeImport, importTrades } from '../storage/dataImport';
+import { createMemoryTradeRepository } from '../storage/memoryRepositories';
+import { ExportFormatError, serializeExport } from '../utils/exportFormat';
+import { parseTradeFile, readTimestamp } from '../utils/tradeImport';
+
+const utc = (iso: string) => Date.parse(`${iso}Z`);
+const MARCH_1 = utc('2025-03-01T10:00');
+
+describe('readTimestamp', () => {
+  it('tells epoch units apart by size', () => {
+    expect(readTimestamp(MARCH_1 / 1000)).toBe(MARCH_1);
+    expect(readTimestamp(String(MARCH_1))).toBe(MARCH_1);
+    expect(readTimestamp(`${MARCH_1}123`)).toBe(MARCH_1);
+    expect(readTimestamp(`${MARCH_1}400000`)).toBe(MARCH_1);
+    expect(readTimestamp(MARCH_1 * 1e6)).toBe(MARCH_1);
+  });
+
+  it('reads ISO text as UTC unless it carries an offset', () => {
+    expect(readTimestamp('2025-03-01 10:00:00')).toBe(MARCH_1);
+    expect(readTimestamp('2025-03-01T05:00:00-05:00')).toBe(MARCH_1);
+    expect(readTimestamp('2025-03-01T10:00:00.000123456Z')).toBe(MARCH_1);
+    expect(readTimestamp('yesterday')).toBeNull();
+    expect(readTimestamp(undefined)).toBeNull();
+  });
+});
+
+describe('parseTradeFile', () => {
+  const trade = { symbol: 'AAPL', price: 190.5, timestamp: MARCH_1, volume: 100 };
+
+  it('reads our own exports in either format', () => {
+    const json = parseTradeFile(serializeExport('trades', [trade], 'json'), null);
+    expect(json).toEqual({ source: 'export', trades: [trade], errors: [] });
+    expect(parseTradeFile(serializeExport('trades', [trade], 'csv'), 'MSFT').trades).toEqual([trade]);
+  });
+
+  it('reads Binance dumps with or without a header under the chosen symbol', () => {
+    const trades = `1,64250.5,0.01,642.505,${MARCH_1},true,true\n2,64251,0.02,1285.02,${MARCH_1 + 5},false,true\n`;
+    expect(parseTradeFile(trades, 'BINANCE:BTCUSDT')).toEqual({
+      source: 'binance',
+      trades: [
+        { symbol: 'BINANCE:BTCUSDT', price: 64250.5, timestamp: MARCH_1, volume: 0.01, tradeId: '1' },
+        { symbol: 'BINANCE:BTCUSDT', price: 64251, timestamp: MARCH_1 + 5, volume: 0.02, tradeId: '2' },
+      ],
+      errors: [],
+    });
+    // Aggregate trades since 2025 are stamped in microseconds.
+    const aggTrades = `agg_trade_id,price,quantity,first_trade_id,last_trade_id,transact_time,is_buyer_maker
+7,64250.5,0.5,10,12,${MARCH_1}000,False`;
+    expect(parseTradeFile(aggTrades, 'BINANCE:BTCUSDT').trades).toEqual([
+      { symbol: 'BINANCE:BTCUSDT', price: 64250.5, timestamp: MARCH_1, volume: 0.5, tradeId: '7' },
+    ]);
+    expect(parseTradeFile(`7,64250.5,0.5,10,12,${MARCH_1},true`, 'X').trades[0].timestamp).toBe(MARCH_1);
+  });
+
+  it('reads Polygon and Alpaca trade responses', () => {
+    const polygon = JSON.stringify({
+      status: 'OK',
+      results: [{ price: 190.5, size: 100, sip_timestamp: MARCH_1 * 1e6, exchange: 4 }],
+    });
+    expect(parseTradeFile(polygon, 'AAPL')).toEqual({ source: 'polygon', trades: [trade], errors: [] });
+
+    const alpaca = JSON.stringify({
+      trades: { AAPL: [{ t: '2025-03-01T10:00:00.000123Z', p: 190.5, s: 100, x: 'V' }] },
+      next_page_token: null,
+    });
+    expect(parseTradeFile(alpaca, null)).toEqual({ source: 'alpaca', trades: [trade], errors: [] });
+  });
+
+  it('reads generic files by common column names and reports bad rows', () => {
+    const csv = 'Ticker,Date,Price,Size\nAAPL,2025-03-01 10:00:00,190.5,100\nAAPL,soon,190,1\nAAPL,2025-03-01,-2,1\n';
+    expect(parseTradeFile(csv, null)).toEqual({
+      source: 'generic',
+      trades: [trade],
+      errors: [
+        { row: 2, message: 'invalid timestamp: "soon"' },
+        { row: 3, message: 'price must be positive' },
+      ],
+    });
+    const json = JSON.stringify([{ Price: 190.5, Time: MARCH_1 / 1000 }]);
+    expect(parseTradeFile(json, 'AAPL').trades).toEqual([{ ...trade, volume: 0 }]);
+  });
+
+  it('refuses files it cannot read as trades', () => {
+    expect(() => parseTradeFile('open,high,low,close\n1,2,0.5,1.5\n', 'AAPL')).toThrow(ExportFormatError);
+    expect(() => parseTradeFile('{"bars": []}', 'AAPL')).toThrow('Not a recognized trade file.');
+    expect(() => parseTradeFile(`1,10,1,10,${MARCH_1},true`, null)).toThrow('does not name its symbol');
+    expect(parseTradeFile('   ', null)).toEqual({ source: 'generic', trades: [], errors: [] });
+  });
+});
+
+describe('importTrades', () => {
+  it('stores new trades once and fills bars with nothing stored', async () => {
+    const repository = createMemoryTradeRepository();
+    await repository.appendTrades([{ symbol: 'AAPL', price: 190, timestamp: MARCH_1, volume: 1 }]);
+    await repository.saveCandles([
+      {
+        symbol: 'AAPL',
+        interval: '1m',
+        start: MARCH_1,
+        open: 190,
+        high: 190,
+        low: 190,
+        close: 190,
+        volume: 1,
+        tradeCount: 1,
+        openTime: MARCH_1,
+        closeTime: MARCH_1,
+      },
+    ]);
+    const file = `symbol,timestamp,price,volume
+AAPL,${MARCH_1},190,1
+AAPL,${MARCH_1 + 1000},191,2
+AAPL,${MARCH_1 + 61_000},192,3
+AAPL,${MARCH_1 + 61_000},192,3
+AAPL,oops,1,1
+`;
+    const summary = await importTrades(repository, file, null);
+    expect(summary).toEqual({
+      source: 'export',
+      read: 4,
+      imported: 2,
+      symbols: ['AAPL'],
+      errors: [{ row: 5, message: 'invalid timestamp: "oops"' }],
+    });
+    expect(describeImport(summary)).toBe('Imported 2 exported trades for AAPL; 2 already stored; 1 rows skipped.');
+    expect(await repository.recentTrades('AAPL', 10)).toHaveLength(3);
+
+    // The bar the feed built is kept; the next minute is built from the import.
+    const bars = await repository.recentCandles('AAPL', '1m', 10);
+    expect(bars.map(bar => [bar.start - MARCH_1, bar.close, bar.volume])).toEqual([
+      [0, 190, 1],
+      [60_000, 192, 3],
+    ]);
+    expect((await repository.recentCandles('AAPL', '1h', 10))[0]).toMatchObject({ open: 191, close: 192, volume: 5 });
+
+    expect((await importTrades(repository, file, null)).imported).toBe(0);
+  });
+
+  it('keeps distinct fills that share the millisecond, price and size', async () => {
+    const repository = createMemoryTradeRepository();
+    const row = `64250.5,0.01,642.505,${MARCH_1},true,true`;
+    // Fills 1 and 2 look alike; fill 2 is listed twice, as overlapping dumps do.
+    const file = `1,${row}\n2,${row}\n2,${row}\n`;
+    const summary = await importTrades(repository, file, 'BINANCE:BTCUSDT');
+    expect(summary).toMatchObject({ read: 3, imported: 2 });
+    expect(await repository.recentTrades('BINANCE:BTCUSDT', 10)).toHaveLength(2);
+    expect((await repository.recentCandles('BINANCE:BTCUSDT', '1m', 10))[0]).toMatchObject({ volume: 0.02 });
+
+    expect((await importTrades(repository, file, 'BINANCE:BTCUSDT')).imported).toBe(0);
+    expect((await importTrades(repository, `${file}3,${row}\n`, 'BINANCE:BTCUSDT')).imported).toBe(1);
+  });
+});
@@ -0,0 +1,190 @@
+import { SqlDatabase } from '../storage/database';
+import { createMemoryTradeRepository } from '../storage/memoryRepositories';
+import { migrateDatabase } from '../storage/migrations';
+import { StoredTrade, TradeRepository } from '../storage/repositories';
+import { createSqliteTradeRepository } from '../storage/sqliteRepositories';
+import { createTradeWriteQueue } from '../storage/tradeWriteQueue';
+import { createFakeClock } from './support/fakeClock';
+import { openTestDatabase, TestDatabase } from './support/sqlJsDatabase';
+
+// Counts SQL statements sent to the database; a transaction adds its BEGIN and COMMIT.
+const countStatements = (db: SqlDatabase) => {
+  const counts = { statements: 0, transactions: 0 };
+  const counted: SqlDatabase = {
+    execAsync: source => {
+      counts.statements += 1;
+      return db.execAsync(source);
+    },
+    runAsync: (source, params) => {
+      counts.statements += 1;
+      return db.runAsync(source, params);
+    },
+    getAllAsync: (source, params) => {
+      counts.statements += 1;
+      return db.getAllAsync(source, params);
+    },
+    withTransactionAsync: task => {
+      counts.statements += 2;
+      counts.transactions += 1;
+      return db.withTransactionAsync(task);
+    },
+  };
+  return { db: counted, counts };
+};
+
+const noPrune = async () => undefined;
+
+const trade = (symbol: string, timestamp: number): StoredTrade => ({
+  symbol,
+  price: 100 + (timestamp % 7),
+  timestamp,
+  volume: 1,
+});
+
+describe('createTradeWriteQueue', () => {
+  let raw: TestDatabase;
+
+  beforeEach(async () => {
+    raw = await openTestDatabase();
+    await migrateDatabase(raw);
+  });
+
+  afterEach(() => {
+    raw.raw.close();
+  });
+
+  it('writes 1000 trades with 32 statements instead of 4000 (benchmark)', async () => {
+    // Each symbol trades every 20ms, so this keeps its newest 60 trades.
+    const KEEP_MS = 1200;
+    const symbols = ['BINANCE:BTCUSDT', 'BINANCE:ETHUSDT'];
+    const trades = Array.from({ length: 1000 }, (_, index) => trade(symbols[index % 2], index * 10));
+
+    // Reference: the old path, one INSERT and one prune per trade.
+    const perTrade = countStatements(raw);
+    const perTradeRepository = createSqliteTradeRepository(perTrade.db);
+    for (const item of trades) {
+      await perTradeRepository.appendTrades([item]);
+      await perTradeRepository.deleteTradesBefore(item.symbol, item.timestamp - KEEP_MS);
+    }
+    await raw.execAsync('DELETE FROM price_updates;');
+
+    // 100 trades per second for 10 seconds, flushed every second and pruned when the queue is disposed.
+    const fakeClock = createFakeClock();
+    const batched = countStatements(raw);
+    const batchedRepository = createSqliteTradeRepository(batched.db);
+    const queue = createTradeWriteQueue({
+      repository: batchedRepository,
+      prune: async written => {
+        for (const symbol of written) {
+          await batchedRepository.deleteTradesBefore(symbol, fakeClock.clock.now() - KEEP_MS);
+        }
+      },
+      flushIntervalMs: 1000,
+      pruneIntervalMs: 30 * 1000,
+      clock: fakeClock.clock,
+    });
+    for (let second = 0; second < 10; second += 1) {
+      trades.slice(second * 100, (second + 1) * 100).forEach(queue.enqueue);
+      fakeClock.advance(1000);
+      await queue.flush();
+    }
+    await queue.dispose();
+
+    // Per trade: a transaction of BEGIN, INSERT and COMMIT, then a prune DELETE.
+    expect(perTrade.counts.statements).toBe(4000);
+    // Per flush: BEGIN, one multi-row INSERT and COMMIT; plus one prune per symbol at the end.
+    expect(batched.counts).toEqual({ statements: 10 * 3 + 2, transactions: 10 });
+
+    const rows = await raw.getAllAsync<{ symbol: string; total: number; newest: number }>(
+      'SELECT symbol, COUNT(*) AS total, MAX(timestamp) AS newest FROM price_updates GROUP BY symbol ORDER BY symbol;',
+      []
+    );
+    expect(rows).toEqual([
+      { symbol: 'BINANCE:BTCUSDT', total: 60, newest: 9980 },
+      { symbol: 'BINANCE:ETHUSDT', total: 60, newest: 9990 },
+    ]);
+  });
+
+  it('flushes as soon as a batch is full', async () => {
+    const fakeClock = createFakeClock();
+    const repository = createMemoryTradeRepository();
+    const append = jest.spyOn(repository, 'appendTrades');
+    const queue = createTradeWriteQueue({ repository, prune: noPrune, maxBatchSize: 3, clock: fakeClock.clock });
+
+    queue.enqueue(trade('AAPL', 1));
+    queue.enqueue(trade('AAPL', 2));
+    expect(fakeClock.pending()).toBe(1);
+    queue.enqueue(trade('AAPL', 3));
+    await queue.flush();
+
+    expect(append).toHaveBeenCalledTimes(1);
+    expect(append.mock.calls[0][0]).toHaveLength(3);
+    expect(fakeClock.pending()).toBe(0);
+    expect(queue.pendingCount()).toBe(0);
+  });
+
+  it('prunes only when the prune interval has passed or a prune is requested', async () => {
+    const fakeClock = createFakeClock();
+    const repository = createMemoryTradeRepository();
+    const prune = jest.fn(async (symbols: string[]) => {
+      for (const symbol of symbols) {
+        await repository.deleteTradesBefore(symbol, 2);
+      }
+    });
+    const queue = createTradeWriteQueue({
+      repository,
+      prune,
+      flushIntervalMs: 1000,
+      pruneIntervalMs: 5000,
+      clock: fakeClock.clock,
+    });
+
+    [1, 2, 3].forEach(timestamp => queue.enqueue(trade('AAPL', timestamp)));
+    fakeClock.advance(1000);
+    await queue.flush();
+    expect(prune).not.toHaveBeenCalled();
+    expect(await repository.recentTrades('AAPL', 10)).toHaveLength(3);
+
+    queue.enqueue(trade('MSFT', 4));
+    fakeClock.advance(4000);
+    await queue.flush();
+    expect(prune).toHaveBeenCalledWith(['AAPL', 'MSFT']);
+    expect(await repository.recentTrades('AAPL', 10)).toHaveLength(2);
+
+    queue.enqueue(trade('TSLA', 5));
+    await queue.flush({ prune: true });
+    expect(prune).toHaveBeenLastCalledWith(['TSLA']);
+  });
+
+  it('keeps a failed batch and retries it on the next flush', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const fakeClock = createFakeClock();
+    const stored: StoredTrade[] = [];
+    let failures = 1;
+    const repository: TradeRepository = {
+      ...createMemoryTradeRepository(),
+      appendTrades: async trades => {
+        if (failures > 0) {
+          failures -= 1;
+          throw new Error('disk full');
+        }
+        stored.push(...trades);
+      },
+    };
+    const queue = createTradeWriteQueue({ repository, prune: noPrune, maxPending: 3, clock: fakeClock.clock });
+
+    queue.enqueue(trade('AAPL', 1));
+    queue.enqueue(trade('AAPL', 2));
+    await queue.flush();
+    expect(queue.pendingCount()).toBe(2);
+    expect(fakeClock.pending()).toBe(1);
+
+    queue.enqueue(trade('AAPL', 3));
+    queue.enqueue(trade('AAPL', 4));
+    await queue.flush();
+    // The oldest trade is dropped once more than `maxPending` are waiting.
+    expect(stored.map(item => item.timestamp)).toEqual([2, 3, 4]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
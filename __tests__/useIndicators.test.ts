@@ -0,0 +1,62 @@
+import { createElement } from 'react';
+import { ReactTestRenderer } from 'react-test-renderer';
+import { useIndicators } from '../hooks/useIndicators';
+import { createIndicatorEngine, IndicatorPoint } from '../utils/indicators';
+import { Candle, candleFromTrade, mergeCandleSeries } from '../utils/market';
+import { act, create } from './support/testRenderer';
+
+const bar = (minute: number, price = 100 + Math.sin(minute) * 5) =>
+  candleFromTrade({ symbol: 'AAPL', price, timestamp: minute * 60_000, volume: 1 + (minute % 3) }, '1m');
+
+const minutes = (from: number, to: number) => Array.from({ length: to - from }, (_, index) => bar(from + index));
+
+// What a fresh engine computes from the bars, to compare the hook's incremental result against.
+const recomputed = (bars: Candle[]): IndicatorPoint[] => {
+  const engine = createIndicatorEngine();
+  bars.forEach(candle => engine.push(candle));
+  return engine.points();
+};
+
+const renderIndicators = (bars: Candle[]) => {
+  const result: { current: IndicatorPoint[] } = { current: [] };
+  const Probe = ({ closedBars }: { closedBars: Candle[] }) => {
+    result.current = useIndicators('AAPL|1m', closedBars, null);
+    return null;
+  };
+  let renderer: ReactTestRenderer | undefined;
+  act(() => {
+    renderer = create(createElement(Probe, { closedBars: bars }));
+  });
+  const rerender = (next: Candle[]) =>
+    act(() => {
+      renderer?.update(createElement(Probe, { closedBars: next }));
+    });
+  return { result, rerender };
+};
+
+describe('useIndicators', () => {
+  it('feeds new bars to the engine as they close', () => {
+    const { result, rerender } = renderIndicators(minutes(0, 30));
+    rerender(minutes(0, 32));
+    expect(result.current).toEqual(recomputed(minutes(0, 32)));
+  });
+
+  it('starts over when a gap inside the series is filled', () => {
+    const withGap = [...minutes(0, 10), ...minutes(15, 30)];
+    const { result, rerender } = renderIndicators(withGap);
+    expect(result.current).toHaveLength(25);
+
+    rerender(minutes(0, 30));
+    expect(result.current).toEqual(recomputed(minutes(0, 30)));
+  });
+
+  it('starts over when a late trade is merged into a stored bar', () => {
+    const bars = minutes(0, 30);
+    const { result, rerender } = renderIndicators(bars);
+
+    const merged = mergeCandleSeries(bars, [bar(27, 140)]);
+    rerender(merged);
+    expect(result.current).toEqual(recomputed(merged));
+    expect(result.current[27].sma).not.toBe(recomputed(bars)[27].sma);
+  });
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { AlertStatus, AlertThreshold, describeAlertCondition, describeAlertRules } from '../utils/alerts';
+import { formatTimestamp } from '../utils/market';
+
+type AlertRowProps = {
+  alert: AlertThreshold;
+  onTogglePaused: (alert: AlertThreshold) => void;
+  onRearm: (alert: AlertThreshold) => void;
+  onRemove: (alert: AlertThreshold) => void;
+};
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  armed: 'Armed',
+  waiting: 'Waiting to re-arm',
+  done: 'Fired',
+  expired: 'Expired',
+};
+
+export default function AlertRow({ alert, onTogglePaused, onRearm, onRemove }: AlertRowProps): React.JSX.Element {
+  const isFinished = alert.status === 'done' || alert.status === 'expired';
+  const isLive = !isFinished && !alert.paused;
+  const meta = [
+    alert.paused && !isFinished ? 'Paused' : STATUS_LABELS[alert.status],
+    describeAlertRules(alert.rules),
+    alert.fireCount ? `fired ${alert.fireCount}×` : null,
+    alert.lastFiredAt !== null ? `last ${formatTimestamp(alert.lastFiredAt)}` : null,
+    alert.rules.expiresAt !== null && !isFinished ? `expires ${formatTimestamp(alert.rules.expiresAt)}` : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return (
+    <View style={[styles.row, isLive ? styles.rowActive : styles.rowInactive]}>
+      <View style={styles.body}>
+        <Text style={[styles.title, isFinished ? styles.titleFinished : null]}>
+          {alert.symbol} {describeAlertCondition(alert.condition)}
+        </Text>
+        <Text style={styles.meta}>{meta}</Text>
+      </View>
+      {isFinished ? (
+        <Pressable onPress={() => onRearm(alert)}>
+          <Text style={styles.actionText}>Re-arm</Text>
+        </Pressable>
+      ) : (
+        <Pressable onPress={() => onTogglePaused(alert)}>
+          <Text style={styles.actionText}>{alert.paused ? 'Resume' : 'Pause'}</Text>
+        </Pressable>
+      )}
+      <Pressable onPress={() => onRemove(alert)}>
+        <Text style={styles.removeText}>Remove</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 6,
+  },
+  rowActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  rowInactive: {
+    borderColor: '#4a5568',
+    backgroundColor: '#1a202c',
+  },
+  body: {
+    flex: 1,
+    marginRight: 8,
+  },
+  title: {
+    color: '#f7fafc',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  titleFinished: {
+    color: '#718096',
+    textDecorationLine: 'line-through',
+  },
+  meta: {
+    color: '#9aa5b1',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  actionText: {
+    color: '#63b3ed',
+    fontSize: 12,
+    fontWeight: '600',
+    marginRight: 12,
+  },
+  removeText: {
+    color: '#f56565',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { FlatList, Modal, Pressable, StyleSheet, Text, View } from 'react-native';
+import AlertRow from './AlertRow';
+import { ALERT_FILTERS, AlertFilter, AlertThreshold, countAlertsByFilter, filterAlerts } from '../utils/alerts';
+
+type AlertsScreenProps = {
+  visible: boolean;
+  alerts: AlertThreshold[];
+  loading: boolean;
+  // Symbols with live alerts that did not fit in the feed's subscription limit.
+  unmonitoredSymbols: string[];
+  onClose: () => void;
+  onTogglePaused: (alert: AlertThreshold) => void;
+  onRearm: (alert: AlertThreshold) => void;
+  onRemove: (alert: AlertThreshold) => void;
+};
+
+const FILTER_LABELS: Record<AlertFilter, string> = {
+  all: 'All',
+  active: 'Active',
+  paused: 'Paused',
+  fired: 'Fired',
+  expired: 'Expired',
+};
+
+export default function AlertsScreen({
+  visible,
+  alerts,
+  loading,
+  unmonitoredSymbols,
+  onClose,
+  onTogglePaused,
+  onRearm,
+  onRemove,
+}: AlertsScreenProps): React.JSX.Element {
+  const [filter, setFilter] = useState<AlertFilter>('all');
+  const counts = useMemo(() => countAlertsByFilter(alerts), [alerts]);
+  const visibleAlerts = useMemo(() => filterAlerts(alerts, filter), [alerts, filter]);
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>All Alerts</Text>
+            <Pressable onPress={onClose}>
+              <Text style={styles.closeText}>Close</Text>
+            </Pressable>
+          </View>
+          <View style={styles.filterRow}>
+            {ALERT_FILTERS.map(option => (
+              <Pressable
+                key={option}
+                onPress={() => setFilter(option)}
+                style={[styles.filterChip, filter === option ? styles.filterChipActive : null]}
+              >
+                <Text style={[styles.filterText, filter === option ? styles.filterTextActive : null]}>
+                  {FILTER_LABELS[option]} {counts[option]}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+          {unmonitoredSymbols.length ? (
+            <Text style={styles.warning}>
+              Not monitored (feed symbol limit reached): {unmonitoredSymbols.join(', ')}
+            </Text>
+          ) : null}
+          {loading ? (
+            <Text style={styles.status}>Loading…</Text>
+          ) : (
+            <FlatList
+              data={visibleAlerts}
+              keyExtractor={item => item.id}
+              renderItem={({ item }) => (
+                <AlertRow alert={item} onTogglePaused={onTogglePaused} onRearm={onRearm} onRemove={onRemove} />
+              )}
+              ListEmptyComponent={
+                <Text style={styles.status}>{alerts.length ? 'No alerts match this filter.' : 'No alerts configured.'}</Text>
+              }
+              showsVerticalScrollIndicator={false}
+            />
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 22, 36, 0.85)',
+    justifyContent: 'center',
+    paddingHorizontal: 18,
+  },
+  sheet: {
+    backgroundColor: '#0f1624',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    color: '#f7fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#63b3ed',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  filterRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  filterChip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  filterChipActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  filterText: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  filterTextActive: {
+    color: '#48bb78',
+  },
+  warning: {
+    color: '#ecc94b',
+    fontSize: 12,
+    marginBottom: 6,
+  },
+  status: {
+    color: '#9aa5b1',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+});
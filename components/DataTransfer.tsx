@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+
+type DataTransferProps = {
+  visible: boolean;
+  // Symbol for trade files that do not name one, until the user types another.
+  defaultSymbol: string;
+  busy: boolean;
+  // What the last import, backup or restore did, one line each.
+  report: string[];
+  onImport: (source: string, symbol: string) => void;
+  onBackup: () => void;
+  onRestore: (source: string) => void;
+};
+
+// Rows listed under a report before the rest are summed up.
+const REPORT_MAX_LINES = 8;
+
+// Imports trade files and writes or restores a full backup. Files are pasted in or fetched from a URL.
+export default function DataTransfer({
+  visible,
+  defaultSymbol,
+  busy,
+  report,
+  onImport,
+  onBackup,
+  onRestore,
+}: DataTransferProps): React.JSX.Element {
+  const [source, setSource] = useState('');
+  const [symbol, setSymbol] = useState(defaultSymbol);
+  // Restoring replaces the watchlist and settings, so it takes a second tap.
+  const [confirmRestore, setConfirmRestore] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSymbol(defaultSymbol);
+      setConfirmRestore(false);
+    }
+  }, [visible, defaultSymbol]);
+
+  const hasSource = source.trim().length > 0;
+
+  const handleRestore = () => {
+    if (!confirmRestore) {
+      setConfirmRestore(true);
+      return;
+    }
+    setConfirmRestore(false);
+    onRestore(source);
+  };
+
+  const shown = report.slice(0, REPORT_MAX_LINES);
+
+  return (
+    <View>
+      <TextInput
+        value={source}
+        onChangeText={value => {
+          setSource(value);
+          setConfirmRestore(false);
+        }}
+        placeholder="Paste CSV or JSON, or an https:// link to it"
+        placeholderTextColor="#4a5568"
+        autoCapitalize="none"
+        autoCorrect={false}
+        multiline
+        style={styles.sourceInput}
+      />
+      <View style={styles.fieldRow}>
+        <Text style={styles.fieldLabel}>Symbol for files without one</Text>
+        <TextInput
+          value={symbol}
+          onChangeText={setSymbol}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          style={styles.fieldInput}
+        />
+      </View>
+      <View style={styles.buttonRow}>
+        <Pressable onPress={onBackup} disabled={busy} style={[styles.button, busy ? styles.disabled : null]}>
+          <Text style={styles.buttonText}>Share backup</Text>
+        </Pressable>
+        <Pressable
+          onPress={handleRestore}
+          disabled={busy || !hasSource}
+          style={[styles.button, busy || !hasSource ? styles.disabled : null]}
+        >
+          <Text style={styles.buttonText}>{confirmRestore ? 'Tap again to restore' : 'Restore backup'}</Text>
+        </Pressable>
+        <Pressable
+          onPress={() => onImport(source, symbol)}
+          disabled={busy || !hasSource}
+          style={[styles.button, styles.primary, busy || !hasSource ? styles.disabled : null]}
+        >
+          <Text style={styles.primaryText}>{busy ? 'Working…' : 'Import trades'}</Text>
+        </Pressable>
+      </View>
+      {shown.map((line, index) => (
+        <Text key={`${index}-${line}`} style={index === 0 ? styles.summary : styles.detail}>
+          {line}
+        </Text>
+      ))}
+      {report.length > shown.length ? (
+        <Text style={styles.detail}>…and {report.length - shown.length} more</Text>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  sourceInput: {
+    backgroundColor: '#151d2b',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    color: '#f7fafc',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 12,
+    minHeight: 72,
+    maxHeight: 160,
+    textAlignVertical: 'top',
+    marginBottom: 8,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    color: '#9aa5b1',
+    fontSize: 13,
+  },
+  fieldInput: {
+    backgroundColor: '#151d2b',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    color: '#f7fafc',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    minWidth: 120,
+    textAlign: 'right',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    marginBottom: 8,
+  },
+  button: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 6,
+    marginBottom: 6,
+  },
+  primary: {
+    backgroundColor: '#48bb78',
+    borderColor: '#48bb78',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#e2e8f0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  primaryText: {
+    color: '#0f1624',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  summary: {
+    color: '#e2e8f0',
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  detail: {
+    color: '#ecc94b',
+    fontSize: 12,
+    marginBottom: 2,
+  },
+});
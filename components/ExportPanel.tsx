@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import {
+  EXPORT_FORMATS,
+  EXPORT_KINDS,
+  EXPORT_RANGE_OPTIONS,
+  ExportFormat,
+  ExportKind,
+  exportRange,
+  ExportRangePreset,
+} from '../utils/exportFormat';
+import { ExportRequest } from '../storage/dataExport';
+import { CANDLE_INTERVALS, CandleInterval } from '../utils/market';
+
+type ExportPanelProps = {
+  // Symbols with stored data; the first is selected until the user picks another.
+  symbols: string[];
+  busy: boolean;
+  // The outcome of the last export, e.g. "Shared 1,204 trades."
+  status: string | null;
+  onExport: (request: ExportRequest) => void;
+};
+
+const KIND_OPTIONS: Array<{ value: ExportKind; label: string }> = EXPORT_KINDS.map(kind => ({
+  value: kind,
+  label: kind === 'alerts' ? 'Alert history' : kind[0].toUpperCase() + kind.slice(1),
+}));
+
+const FORMAT_OPTIONS: Array<{ value: ExportFormat; label: string }> = EXPORT_FORMATS.map(format => ({
+  value: format,
+  label: format.toUpperCase(),
+}));
+
+const INTERVAL_OPTIONS: Array<{ value: CandleInterval; label: string }> = CANDLE_INTERVALS.map(interval => ({
+  value: interval,
+  label: interval,
+}));
+
+// Picks a symbol, date range, data set (and bar interval) and file format, then hands the file to the share sheet.
+export default function ExportPanel({ symbols, busy, status, onExport }: ExportPanelProps): React.JSX.Element {
+  const [symbol, setSymbol] = useState<string | null>(symbols[0] ?? null);
+  const [preset, setPreset] = useState<ExportRangePreset>('week');
+  const [kind, setKind] = useState<ExportKind>('trades');
+  const [barInterval, setBarInterval] = useState<CandleInterval>('1m');
+  const [format, setFormat] = useState<ExportFormat>('csv');
+
+  useEffect(() => {
+    setSymbol(prev => (prev && symbols.includes(prev) ? prev : symbols[0] ?? null));
+  }, [symbols]);
+
+  const renderChips = <T extends string>(
+    options: Array<{ value: T; label: string }>,
+    selected: T | null,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <Pressable
+          key={option.value}
+          onPress={() => onSelect(option.value)}
+          style={[styles.chip, selected === option.value ? styles.chipActive : null]}
+        >
+          <Text style={[styles.chipText, selected === option.value ? styles.chipTextActive : null]}>
+            {option.label}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  const handleExport = () => {
+    if (symbol) {
+      onExport({ kind, format, symbol, interval: barInterval, range: exportRange(preset, Date.now()) });
+    }
+  };
+
+  return (
+    <View style={styles.panel}>
+      {symbols.length ? (
+        renderChips(
+          symbols.map(value => ({ value, label: value })),
+          symbol,
+          setSymbol
+        )
+      ) : (
+        <Text style={styles.note}>Nothing stored to export yet.</Text>
+      )}
+      {renderChips(EXPORT_RANGE_OPTIONS, preset, setPreset)}
+      {renderChips(KIND_OPTIONS, kind, setKind)}
+      {kind === 'bars' ? renderChips(INTERVAL_OPTIONS, barInterval, setBarInterval) : null}
+      <View style={styles.footer}>
+        {renderChips(FORMAT_OPTIONS, format, setFormat)}
+        <Pressable
+          style={[styles.shareButton, busy || !symbol ? styles.shareButtonDisabled : null]}
+          onPress={handleExport}
+          disabled={busy || !symbol}
+        >
+          <Text style={styles.shareText}>{busy ? 'Exporting…' : 'Export'}</Text>
+        </Pressable>
+      </View>
+      {status ? <Text style={styles.note}>{status}</Text> : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#2d3748',
+    paddingBottom: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 2,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  chipText: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#48bb78',
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+  },
+  shareButton: {
+    backgroundColor: '#48bb78',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+  },
+  shareButtonDisabled: {
+    opacity: 0.5,
+  },
+  shareText: {
+    color: '#0f1624',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  note: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
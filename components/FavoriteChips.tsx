@@ -0,0 +1,162 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Animated, LayoutChangeEvent, PanResponder, Pressable, StyleSheet, Text, View } from 'react-native';
+import { ChipLayout, dropIndex } from '../utils/favorites';
+
+type FavoriteChipsProps = {
+  favorites: string[];
+  activeSymbol: string;
+  // Null hides the add chip, e.g. when the active symbol is already a favorite or the list is full.
+  addSymbol: string | null;
+  onSelect: (symbol: string) => void;
+  onAdd: () => void;
+  onRemove: (symbol: string) => void;
+  onMove: (from: number, to: number) => void;
+};
+
+type FavoriteChipProps = {
+  symbol: string;
+  index: number;
+  active: boolean;
+  onSelect: (symbol: string) => void;
+  onRemove: (symbol: string) => void;
+  onLayout: (index: number, layout: ChipLayout) => void;
+  onDrop: (index: number, dx: number, dy: number) => void;
+};
+
+// Movement before a touch counts as a drag rather than a tap or long press.
+const DRAG_SLOP = 8;
+
+function FavoriteChip({ symbol, index, active, onSelect, onRemove, onLayout, onDrop }: FavoriteChipProps) {
+  const offset = useRef(new Animated.ValueXY()).current;
+  const [dragging, setDragging] = useState(false);
+  // The responder is created once, so it reads the chip's current slot and callback through a ref.
+  const latest = useRef({ index, onDrop });
+  latest.current = { index, onDrop };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponder: (_, gesture) => Math.abs(gesture.dx) > DRAG_SLOP || Math.abs(gesture.dy) > DRAG_SLOP,
+      onPanResponderGrant: () => setDragging(true),
+      onPanResponderMove: Animated.event([null, { dx: offset.x, dy: offset.y }], { useNativeDriver: false }),
+      onPanResponderRelease: (_, gesture) => {
+        setDragging(false);
+        offset.setValue({ x: 0, y: 0 });
+        latest.current.onDrop(latest.current.index, gesture.dx, gesture.dy);
+      },
+      onPanResponderTerminate: () => {
+        setDragging(false);
+        offset.setValue({ x: 0, y: 0 });
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      {...panResponder.panHandlers}
+      onLayout={(event: LayoutChangeEvent) => onLayout(index, event.nativeEvent.layout)}
+      style={[styles.chipSlot, dragging ? styles.chipDragging : null, { transform: offset.getTranslateTransform() }]}
+    >
+      <Pressable
+        onPress={() => onSelect(symbol)}
+        onLongPress={() => onRemove(symbol)}
+        style={[styles.chip, active ? styles.chipActive : null]}
+      >
+        <Text style={[styles.chipText, active ? styles.chipTextActive : null]}>{symbol}</Text>
+      </Pressable>
+    </Animated.View>
+  );
+}
+
+// Favorite symbols as chips: tap to subscribe, long-press to remove, drag onto another chip to reorder.
+export default function FavoriteChips({
+  favorites,
+  activeSymbol,
+  addSymbol,
+  onSelect,
+  onAdd,
+  onRemove,
+  onMove,
+}: FavoriteChipsProps): React.JSX.Element {
+  const layoutsRef = useRef<Array<ChipLayout | undefined>>([]);
+  layoutsRef.current.length = favorites.length;
+
+  const handleLayout = useCallback((index: number, layout: ChipLayout) => {
+    layoutsRef.current[index] = layout;
+  }, []);
+
+  const handleDrop = useCallback(
+    (index: number, dx: number, dy: number) => {
+      const target = dropIndex(layoutsRef.current, index, dx, dy);
+      if (target !== index) {
+        onMove(index, target);
+      }
+    },
+    [onMove]
+  );
+
+  return (
+    <View style={styles.row}>
+      {favorites.map((symbol, index) => (
+        <FavoriteChip
+          key={symbol}
+          symbol={symbol}
+          index={index}
+          active={symbol === activeSymbol}
+          onSelect={onSelect}
+          onRemove={onRemove}
+          onLayout={handleLayout}
+          onDrop={handleDrop}
+        />
+      ))}
+      {addSymbol ? (
+        <Pressable onPress={onAdd} style={[styles.chipSlot, styles.chip, styles.addChip]}>
+          <Text style={styles.addChipText}>+ {addSymbol}</Text>
+        </Pressable>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chipSlot: {
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipDragging: {
+    zIndex: 1,
+    opacity: 0.8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    backgroundColor: '#151d2b',
+  },
+  chipActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  chipText: {
+    color: '#e2e8f0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#48bb78',
+  },
+  addChip: {
+    borderStyle: 'dashed',
+  },
+  addChipText: {
+    color: '#a0aec0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,349 @@
+import React, { useEffect, useState } from 'react';
+import { Modal, Pressable, SectionList, StyleSheet, Text, TextInput, View } from 'react-native';
+import ExportPanel from './ExportPanel';
+import { ExportRequest } from '../storage/dataExport';
+import {
+  describeHistorySummary,
+  EMPTY_HISTORY_DRAFT,
+  HistoryFilter,
+  HistoryFilterDraft,
+  HistorySection,
+  HistoryTrade,
+  parseHistoryFilter,
+} from '../utils/history';
+import { formatTimestamp } from '../utils/market';
+
+type HistoryScreenProps = {
+  visible: boolean;
+  sections: HistorySection[];
+  loading: boolean;
+  loadingMore: boolean;
+  // Shown in place of an empty list, e.g. "No stored trades match these filters.", otherwise above it.
+  status: string | null;
+  exportSymbols: string[];
+  exporting: boolean;
+  exportStatus: string | null;
+  onClose: () => void;
+  onFilter: (filter: HistoryFilter) => void;
+  onEndReached: () => void;
+  onDeleteTrade: (trade: HistoryTrade) => void;
+  // Deletes the section's trades that pass the current filter.
+  onDeleteSection: (symbol: string) => void;
+  onExport: (request: ExportRequest) => void;
+};
+
+const FILTER_FIELDS: Array<{ field: keyof HistoryFilterDraft; placeholder: string; numeric?: boolean }> = [
+  { field: 'from', placeholder: 'From YYYY-MM-DD' },
+  { field: 'to', placeholder: 'To YYYY-MM-DD' },
+  { field: 'minPrice', placeholder: 'Min price', numeric: true },
+  { field: 'maxPrice', placeholder: 'Max price', numeric: true },
+];
+
+// Stored trades grouped by symbol, filtered by symbol, time and price, and loaded a page at a time as it scrolls.
+export default function HistoryScreen({
+  visible,
+  sections,
+  loading,
+  loadingMore,
+  status,
+  exportSymbols,
+  exporting,
+  exportStatus,
+  onClose,
+  onFilter,
+  onEndReached,
+  onDeleteTrade,
+  onDeleteSection,
+  onExport,
+}: HistoryScreenProps): React.JSX.Element {
+  const [draft, setDraft] = useState<HistoryFilterDraft>(EMPTY_HISTORY_DRAFT);
+  const [filterError, setFilterError] = useState<string | null>(null);
+  // Deleting takes a second tap on the same row or section: "trade:<id>" or "section:<symbol>".
+  const [confirmKey, setConfirmKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setConfirmKey(null);
+    }
+  }, [visible]);
+
+  const updateDraft = (patch: Partial<HistoryFilterDraft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setFilterError(null);
+  };
+
+  const applyDraft = (next: HistoryFilterDraft) => {
+    const parsed = parseHistoryFilter(next);
+    if (typeof parsed === 'string') {
+      setFilterError(parsed);
+      return;
+    }
+    setFilterError(null);
+    setConfirmKey(null);
+    onFilter(parsed);
+  };
+
+  const clearDraft = () => {
+    setDraft(EMPTY_HISTORY_DRAFT);
+    applyDraft(EMPTY_HISTORY_DRAFT);
+  };
+
+  const confirmThen = (key: string, action: () => void) => {
+    if (confirmKey !== key) {
+      setConfirmKey(key);
+      return;
+    }
+    setConfirmKey(null);
+    action();
+  };
+
+  const header = (
+    <View>
+      <ExportPanel symbols={exportSymbols} busy={exporting} status={exportStatus} onExport={onExport} />
+      <TextInput
+        value={draft.symbol}
+        onChangeText={symbol => updateDraft({ symbol })}
+        onSubmitEditing={() => applyDraft(draft)}
+        placeholder="Search symbols"
+        placeholderTextColor="#4a5568"
+        autoCapitalize="characters"
+        autoCorrect={false}
+        style={styles.input}
+      />
+      <View style={styles.fieldGrid}>
+        {FILTER_FIELDS.map(({ field, placeholder, numeric }) => (
+          <TextInput
+            key={field}
+            value={draft[field]}
+            onChangeText={value => updateDraft({ [field]: value })}
+            onSubmitEditing={() => applyDraft(draft)}
+            placeholder={placeholder}
+            placeholderTextColor="#4a5568"
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType={numeric ? 'decimal-pad' : 'default'}
+            style={[styles.input, styles.fieldInput]}
+          />
+        ))}
+      </View>
+      <View style={styles.buttonRow}>
+        {filterError ? <Text style={styles.error}>{filterError}</Text> : <View style={styles.spacer} />}
+        <Pressable onPress={clearDraft} style={styles.button}>
+          <Text style={styles.buttonText}>Clear</Text>
+        </Pressable>
+        <Pressable onPress={() => applyDraft(draft)} style={[styles.button, styles.primary]}>
+          <Text style={styles.primaryText}>Apply</Text>
+        </Pressable>
+      </View>
+      {status && sections.length ? <Text style={styles.error}>{status}</Text> : null}
+    </View>
+  );
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Cached History</Text>
+            <Pressable onPress={onClose}>
+              <Text style={styles.closeText}>Close</Text>
+            </Pressable>
+          </View>
+          <SectionList
+            sections={loading ? [] : sections}
+            keyExtractor={item => String(item.id)}
+            renderSectionHeader={({ section }) => {
+              const key = `section:${section.key}`;
+              return (
+                <View style={styles.sectionHeader}>
+                  <View style={styles.sectionTitleRow}>
+                    <Text style={styles.sectionTitle}>{section.key}</Text>
+                    <Pressable onPress={() => confirmThen(key, () => onDeleteSection(section.key))}>
+                      <Text style={styles.deleteText}>
+                        {confirmKey === key ? 'Tap again to delete all' : 'Delete all'}
+                      </Text>
+                    </Pressable>
+                  </View>
+                  <Text style={styles.sectionMeta}>{describeHistorySummary(section.summary)}</Text>
+                  <Text style={styles.sectionMeta}>
+                    {formatTimestamp(section.summary.firstAt)} – {formatTimestamp(section.summary.lastAt)}
+                  </Text>
+                </View>
+              );
+            }}
+            renderItem={({ item }) => {
+              const key = `trade:${item.id}`;
+              return (
+                <View style={styles.row}>
+                  <View>
+                    <Text style={styles.rowPrice}>{item.price.toFixed(2)}</Text>
+                    <Text style={styles.rowMeta}>{formatTimestamp(item.timestamp)} · vol {item.volume}</Text>
+                  </View>
+                  <Pressable onPress={() => confirmThen(key, () => onDeleteTrade(item))}>
+                    <Text style={styles.deleteText}>{confirmKey === key ? 'Confirm' : 'Delete'}</Text>
+                  </Pressable>
+                </View>
+              );
+            }}
+            ListHeaderComponent={header}
+            ListEmptyComponent={<Text style={styles.status}>{loading ? 'Loading…' : status ?? ''}</Text>}
+            ListFooterComponent={loadingMore ? <Text style={styles.footer}>Loading more…</Text> : null}
+            onEndReached={onEndReached}
+            onEndReachedThreshold={0.5}
+            keyboardShouldPersistTaps="handled"
+            stickySectionHeadersEnabled={false}
+            showsVerticalScrollIndicator={false}
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 22, 36, 0.85)',
+    justifyContent: 'center',
+    paddingHorizontal: 18,
+  },
+  sheet: {
+    backgroundColor: '#0f1624',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    maxHeight: '80%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    color: '#f7fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#63b3ed',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: '#151d2b',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    color: '#f7fafc',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  fieldGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  fieldInput: {
+    width: '49%',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  spacer: {
+    flex: 1,
+  },
+  error: {
+    flex: 1,
+    color: '#fc8181',
+    fontSize: 12,
+  },
+  button: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginLeft: 6,
+  },
+  primary: {
+    backgroundColor: '#48bb78',
+    borderColor: '#48bb78',
+  },
+  buttonText: {
+    color: '#e2e8f0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  primaryText: {
+    color: '#0f1624',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  status: {
+    color: '#9aa5b1',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  footer: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  sectionHeader: {
+    backgroundColor: '#151d2b',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  sectionTitleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
+  sectionTitle: {
+    color: '#f7fafc',
+    fontWeight: '700',
+    fontSize: 14,
+  },
+  sectionMeta: {
+    color: '#9aa5b1',
+    fontSize: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: '#0f1b2d',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#1f2a3c',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginTop: 8,
+  },
+  rowPrice: {
+    color: '#f6ad55',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    color: '#9aa5b1',
+    fontSize: 12,
+  },
+  deleteText: {
+    color: '#fc8181',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from 'react';
+import { Pressable, StyleSheet, Text, TextInput, View } from 'react-native';
+import {
+  PROVIDER_OPTIONS,
+  ProviderKind,
+  ProviderSettings,
+  REPLAY_SPEEDS,
+  ReplaySource,
+  validateProviderSettings,
+} from '../utils/marketData';
+
+type MarketDataSettingsProps = {
+  settings: ProviderSettings;
+  missingCredentials: Record<ProviderKind, string[]>;
+  onApply: (settings: ProviderSettings) => void;
+};
+
+type Draft = {
+  kind: ProviderKind;
+  drift: string;
+  volatility: string;
+  ticksPerSecond: string;
+  source: ReplaySource;
+  url: string;
+  speed: number;
+};
+
+const REPLAY_SOURCES: Array<{ value: ReplaySource; label: string }> = [
+  { value: 'database', label: 'Stored trades' },
+  { value: 'url', label: 'Recording URL' },
+];
+
+// Each vendor streams a different part of the watchlist.
+const SYMBOL_HINTS: Partial<Record<ProviderKind, string>> = {
+  binance: 'Streams BINANCE: symbols, e.g. BINANCE:BTCUSDT.',
+  alpaca: 'Streams US stock tickers from the IEX feed, e.g. AAPL.',
+  polygon: 'Streams US stock tickers, e.g. AAPL.',
+};
+
+const draftFromSettings = (settings: ProviderSettings): Draft => ({
+  kind: settings.kind,
+  drift: String(settings.synthetic.driftPctPerHour),
+  volatility: String(settings.synthetic.volatilityPctPerHour),
+  ticksPerSecond: String(settings.synthetic.ticksPerSecond),
+  source: settings.replay.source,
+  url: settings.replay.url,
+  speed: settings.replay.speed,
+});
+
+// Picks where trades come from: the live Finnhub feed, a random walk, or a recording played back.
+export default function MarketDataSettings({
+  settings,
+  missingCredentials,
+  onApply,
+}: MarketDataSettingsProps): React.JSX.Element {
+  const [draft, setDraft] = useState<Draft>(() => draftFromSettings(settings));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(draftFromSettings(settings));
+    setError(null);
+  }, [settings]);
+
+  const update = (patch: Partial<Draft>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setError(null);
+  };
+
+  const handleApply = () => {
+    const next: ProviderSettings = {
+      kind: draft.kind,
+      synthetic: {
+        driftPctPerHour: Number(draft.drift),
+        volatilityPctPerHour: Number(draft.volatility),
+        ticksPerSecond: Number(draft.ticksPerSecond),
+      },
+      replay: { source: draft.source, url: draft.url.trim(), speed: draft.speed },
+    };
+    const validationError = validateProviderSettings(next);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onApply(next);
+  };
+
+  const renderChips = <T extends string | number>(
+    options: Array<{ value: T; label: string }>,
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <Pressable
+          key={String(option.value)}
+          onPress={() => onSelect(option.value)}
+          style={[styles.chip, selected === option.value ? styles.chipActive : null]}
+        >
+          <Text style={[styles.chipText, selected === option.value ? styles.chipTextActive : null]}>
+            {option.label}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <View>
+      {renderChips(PROVIDER_OPTIONS, draft.kind, kind => update({ kind }))}
+      {SYMBOL_HINTS[draft.kind] ? <Text style={styles.note}>{SYMBOL_HINTS[draft.kind]}</Text> : null}
+      {missingCredentials[draft.kind].length ? (
+        <Text style={styles.hint}>
+          Needs {missingCredentials[draft.kind].join(' and ')}; without it no trades arrive.
+        </Text>
+      ) : null}
+      {draft.kind === 'synthetic' ? (
+        <>
+          <View style={styles.fieldRow}>
+            <Text style={styles.fieldLabel}>Drift (% per hour)</Text>
+            <TextInput
+              value={draft.drift}
+              onChangeText={drift => update({ drift })}
+              keyboardType="numbers-and-punctuation"
+              style={styles.fieldInput}
+            />
+          </View>
+          <View style={styles.fieldRow}>
+            <Text style={styles.fieldLabel}>Volatility (% per hour)</Text>
+            <TextInput
+              value={draft.volatility}
+              onChangeText={volatility => update({ volatility })}
+              keyboardType="decimal-pad"
+              style={styles.fieldInput}
+            />
+          </View>
+          <View style={styles.fieldRow}>
+            <Text style={styles.fieldLabel}>Ticks per second</Text>
+            <TextInput
+              value={draft.ticksPerSecond}
+              onChangeText={ticksPerSecond => update({ ticksPerSecond })}
+              keyboardType="decimal-pad"
+              style={styles.fieldInput}
+            />
+          </View>
+        </>
+      ) : null}
+      {draft.kind === 'replay' ? (
+        <>
+          {renderChips(REPLAY_SOURCES, draft.source, source => update({ source }))}
+          {draft.source === 'url' ? (
+            <TextInput
+              value={draft.url}
+              onChangeText={url => update({ url })}
+              placeholder="https://example.com/trades.csv"
+              placeholderTextColor="#4a5568"
+              autoCapitalize="none"
+              autoCorrect={false}
+              style={[styles.fieldInput, styles.urlInput]}
+            />
+          ) : null}
+          {renderChips(
+            REPLAY_SPEEDS.map(speed => ({ value: speed, label: `${speed}x` })),
+            draft.speed,
+            speed => update({ speed })
+          )}
+        </>
+      ) : null}
+      {error ? <Text style={styles.error}>{error}</Text> : null}
+      <Pressable style={styles.applyButton} onPress={handleApply}>
+        <Text style={styles.applyText}>Apply Source</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  chip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  chipActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  chipText: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  chipTextActive: {
+    color: '#48bb78',
+  },
+  note: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  hint: {
+    color: '#ecc94b',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    color: '#9aa5b1',
+    fontSize: 13,
+  },
+  fieldInput: {
+    backgroundColor: '#151d2b',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    color: '#f7fafc',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    minWidth: 80,
+    textAlign: 'right',
+  },
+  urlInput: {
+    textAlign: 'left',
+    marginBottom: 8,
+  },
+  error: {
+    color: '#f56565',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  applyButton: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#48bb78',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  applyText: {
+    color: '#0f1624',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,455 @@
+import React, { memo, useEffect, useMemo, useRef, useState } from 'react';
+import { GestureResponderEvent, LayoutChangeEvent, PanResponder, Pressable, StyleSheet, Text, View } from 'react-native';
+import Svg, { Line, Polyline, Rect, Text as SvgText } from 'react-native-svg';
+import { Candle, CandleInterval, CANDLE_INTERVAL_MS, formatTimestamp } from '../utils/market';
+import {
+  createLinearScale,
+  formatPriceTick,
+  formatTimeTick,
+  hitTestBar,
+  latestViewport,
+  niceStep,
+  panViewport,
+  priceExtent,
+  priceTicks,
+  timeTicks,
+  timeTickStep,
+  Viewport,
+  zoomViewport,
+} from '../utils/chart';
+import { IndicatorPoint } from '../utils/indicators';
+
+export type ChartMode = 'candles' | 'line';
+
+export type OverlayKey = 'sma' | 'ema' | 'bollinger' | 'vwap';
+
+type PriceChartProps = {
+  candles: Candle[];
+  interval: CandleInterval;
+  intervals: CandleInterval[];
+  onIntervalChange: (interval: CandleInterval) => void;
+  // Indicator values keyed by bar start; bars without a point simply draw no overlay.
+  indicators?: IndicatorPoint[];
+};
+
+const OVERLAYS: Array<{ key: OverlayKey; label: string; color: string }> = [
+  { key: 'sma', label: 'SMA', color: '#ecc94b' },
+  { key: 'ema', label: 'EMA', color: '#ed64a6' },
+  { key: 'bollinger', label: 'BB', color: '#4299e1' },
+  { key: 'vwap', label: 'VWAP', color: '#9f7aea' },
+];
+
+// Values each overlay contributes at one bar, used both for drawing and for fitting the price axis.
+const overlayValues = (point: IndicatorPoint | undefined, key: OverlayKey): number[] => {
+  if (!point) {
+    return [];
+  }
+  switch (key) {
+    case 'bollinger':
+      return point.bollinger ? [point.bollinger.upper, point.bollinger.lower] : [];
+    case 'sma':
+      return point.sma !== null ? [point.sma] : [];
+    case 'ema':
+      return point.ema !== null ? [point.ema] : [];
+    case 'vwap':
+      return point.vwap !== null ? [point.vwap] : [];
+  }
+};
+
+const CHART_HEIGHT = 220;
+const PRICE_AXIS_WIDTH = 56;
+const TIME_AXIS_HEIGHT = 18;
+const DEFAULT_VISIBLE_BARS = 40;
+const MIN_VISIBLE_BARS = 10;
+// Finger travel (px) below which a touch counts as a tap that places the crosshair.
+const TAP_SLOP = 6;
+
+const touchDistance = (event: GestureResponderEvent): number | null => {
+  const [a, b] = event.nativeEvent.touches;
+  if (!a || !b) {
+    return null;
+  }
+  return Math.hypot(a.pageX - b.pageX, a.pageY - b.pageY);
+};
+
+// Memoized: the SVG is the costliest part of a frame, so it only redraws when its bars or indicators change.
+function PriceChart({
+  candles,
+  interval,
+  intervals,
+  onIntervalChange,
+  indicators = [],
+}: PriceChartProps): React.JSX.Element {
+  const [width, setWidth] = useState(0);
+  const [mode, setMode] = useState<ChartMode>('candles');
+  const [enabledOverlays, setEnabledOverlays] = useState<OverlayKey[]>(['sma', 'ema']);
+  const [viewport, setViewport] = useState<Viewport>(() =>
+    latestViewport(candles.length, DEFAULT_VISIBLE_BARS, MIN_VISIBLE_BARS)
+  );
+  const [crosshairIndex, setCrosshairIndex] = useState<number | null>(null);
+
+  const plotWidth = Math.max(width - PRICE_AXIS_WIDTH, 0);
+  const plotHeight = CHART_HEIGHT - TIME_AXIS_HEIGHT;
+  const total = candles.length;
+
+  // Gesture handlers are created once, so they read layout and viewport through refs.
+  const viewportRef = useRef(viewport);
+  const totalRef = useRef(total);
+  const plotWidthRef = useRef(plotWidth);
+  const followLatestRef = useRef(true);
+  const gestureRef = useRef<{ viewport: Viewport; pinchDistance: number | null }>({ viewport, pinchDistance: null });
+  viewportRef.current = viewport;
+  totalRef.current = total;
+  plotWidthRef.current = plotWidth;
+
+  // Keep the newest bar in view as live bars arrive, unless the user has panned back into history.
+  useEffect(() => {
+    setViewport(prev =>
+      followLatestRef.current
+        ? latestViewport(total, prev.count, MIN_VISIBLE_BARS)
+        : panViewport(prev, 0, total, MIN_VISIBLE_BARS)
+    );
+  }, [total]);
+
+  useEffect(() => {
+    followLatestRef.current = true;
+    setCrosshairIndex(null);
+    setViewport(latestViewport(totalRef.current, DEFAULT_VISIBLE_BARS, MIN_VISIBLE_BARS));
+  }, [interval]);
+
+  const applyViewport = (next: Viewport) => {
+    followLatestRef.current = next.start + next.count >= totalRef.current;
+    setViewport(next);
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: event => {
+        gestureRef.current = { viewport: viewportRef.current, pinchDistance: touchDistance(event) };
+      },
+      onPanResponderMove: (event, gesture) => {
+        const start = gestureRef.current.viewport;
+        const barWidth = plotWidthRef.current / Math.max(start.count, 1);
+        const distance = touchDistance(event);
+
+        if (distance !== null) {
+          if (gestureRef.current.pinchDistance === null) {
+            gestureRef.current = { viewport: viewportRef.current, pinchDistance: distance };
+            return;
+          }
+          const [a, b] = event.nativeEvent.touches;
+          const anchor = plotWidthRef.current ? ((a.locationX + b.locationX) / 2) / plotWidthRef.current : 1;
+          const factor = distance / gestureRef.current.pinchDistance;
+          applyViewport(zoomViewport(start, factor, Math.min(Math.max(anchor, 0), 1), totalRef.current, MIN_VISIBLE_BARS));
+          return;
+        }
+
+        if (Math.abs(gesture.dx) < TAP_SLOP || !barWidth) {
+          return;
+        }
+        setCrosshairIndex(null);
+        applyViewport(panViewport(start, -gesture.dx / barWidth, totalRef.current, MIN_VISIBLE_BARS));
+      },
+      onPanResponderRelease: (event, gesture) => {
+        const wasTap =
+          gestureRef.current.pinchDistance === null && Math.abs(gesture.dx) < TAP_SLOP && Math.abs(gesture.dy) < TAP_SLOP;
+        if (!wasTap) {
+          return;
+        }
+        const current = viewportRef.current;
+        const visibleCount = Math.min(current.count, totalRef.current - current.start);
+        const index = hitTestBar(event.nativeEvent.locationX, 0, plotWidthRef.current, current.count);
+        setCrosshairIndex(prev => {
+          if (index === null || index >= visibleCount) {
+            return null;
+          }
+          const absolute = current.start + index;
+          return prev === absolute ? null : absolute;
+        });
+      },
+    })
+  ).current;
+
+  const layout = useMemo(() => {
+    const visible = candles.slice(viewport.start, viewport.start + viewport.count);
+    const pointsByStart = new Map(indicators.map(point => [point.start, point]));
+    const visiblePoints = visible.map(candle => pointsByStart.get(candle.start));
+    const overlayBounds = visiblePoints.flatMap(point =>
+      enabledOverlays.flatMap(key => overlayValues(point, key)).map(value => ({ high: value, low: value }))
+    );
+    const extent = priceExtent([...visible, ...overlayBounds]);
+    if (!extent || !plotWidth) {
+      return null;
+    }
+
+    const yScale = createLinearScale(extent.min, extent.max, plotHeight, 0);
+    const barWidth = plotWidth / viewport.count;
+    const xCenter = (index: number) => (index + 0.5) * barWidth;
+
+    const yTicks = priceTicks(extent.min, extent.max, 4);
+    const yStep = yTicks.length > 1 ? yTicks[1] - yTicks[0] : niceStep((extent.max - extent.min) / 4);
+
+    // Place time labels on the first bar at or after each nice tick so they line up with real bars across gaps.
+    const intervalMs = CANDLE_INTERVAL_MS[interval];
+    const firstStart = visible[0].start;
+    const lastEnd = visible[visible.length - 1].start + intervalMs;
+    const xStep = Math.max(timeTickStep(firstStart, lastEnd, 4), intervalMs);
+    const xTicks = timeTicks(firstStart, lastEnd, 4).reduce<Array<{ x: number; label: string }>>((acc, tick) => {
+      const index = visible.findIndex(candle => candle.start >= tick);
+      if (index >= 0 && !acc.some(existing => existing.x === xCenter(index))) {
+        acc.push({ x: xCenter(index), label: formatTimeTick(visible[index].start, xStep) });
+      }
+      return acc;
+    }, []);
+
+    // One polyline per overlay series; Bollinger contributes its upper and lower band.
+    const overlayLines = OVERLAYS.filter(overlay => enabledOverlays.includes(overlay.key)).flatMap(overlay => {
+      const bands = overlay.key === 'bollinger' ? [0, 1] : [0];
+      return bands.map(band => ({
+        key: `${overlay.key}-${band}`,
+        color: overlay.color,
+        dashed: overlay.key === 'bollinger',
+        points: visiblePoints
+          .map((point, index) => {
+            const value = overlayValues(point, overlay.key)[band];
+            return value === undefined ? null : `${xCenter(index).toFixed(2)},${yScale.map(value).toFixed(2)}`;
+          })
+          .filter((point): point is string => point !== null)
+          .join(' '),
+      }));
+    });
+
+    return { visible, yScale, barWidth, xCenter, yTicks, yStep, xTicks, overlayLines };
+  }, [candles, enabledOverlays, indicators, interval, plotHeight, plotWidth, viewport]);
+
+  const toggleOverlay = (key: OverlayKey) => {
+    setEnabledOverlays(prev => (prev.includes(key) ? prev.filter(item => item !== key) : [...prev, key]));
+  };
+
+  const selected = crosshairIndex !== null ? candles[crosshairIndex] ?? null : null;
+  const selectedVisibleIndex = crosshairIndex !== null ? crosshairIndex - viewport.start : null;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.toggleGroup}>
+          {intervals.map(option => (
+            <Pressable
+              key={option}
+              onPress={() => onIntervalChange(option)}
+              style={[styles.toggle, option === interval ? styles.toggleActive : null]}
+            >
+              <Text style={[styles.toggleText, option === interval ? styles.toggleTextActive : null]}>{option}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <Pressable onPress={() => setMode(prev => (prev === 'candles' ? 'line' : 'candles'))} style={styles.toggle}>
+          <Text style={styles.toggleText}>{mode === 'candles' ? 'Line' : 'Candles'}</Text>
+        </Pressable>
+      </View>
+      <View style={[styles.toggleGroup, styles.overlayRow]}>
+        {OVERLAYS.map(overlay => {
+          const isEnabled = enabledOverlays.includes(overlay.key);
+          return (
+            <Pressable
+              key={overlay.key}
+              onPress={() => toggleOverlay(overlay.key)}
+              style={[styles.toggle, isEnabled ? { borderColor: overlay.color } : null]}
+            >
+              <Text style={[styles.toggleText, isEnabled ? { color: overlay.color } : null]}>{overlay.label}</Text>
+            </Pressable>
+          );
+        })}
+      </View>
+      <Text style={styles.crosshairText} numberOfLines={1}>
+        {selected
+          ? `O ${selected.open.toFixed(2)}  H ${selected.high.toFixed(2)}  L ${selected.low.toFixed(2)}  C ${selected.close.toFixed(2)}  V ${selected.volume}  · ${formatTimestamp(selected.start)}`
+          : 'Tap a bar for details · drag to pan · pinch to zoom'}
+      </Text>
+      <View style={styles.chartArea} onLayout={handleLayout} {...panResponder.panHandlers}>
+        {layout ? (
+          <Svg width={width} height={CHART_HEIGHT}>
+            {layout.yTicks.map(tick => (
+              <Line
+                key={`grid-${tick}`}
+                x1={0}
+                x2={plotWidth}
+                y1={layout.yScale.map(tick)}
+                y2={layout.yScale.map(tick)}
+                stroke="#2d3748"
+                strokeWidth={0.5}
+              />
+            ))}
+            {layout.yTicks.map(tick => (
+              <SvgText
+                key={`price-${tick}`}
+                x={plotWidth + 6}
+                y={layout.yScale.map(tick) + 4}
+                fill="#9aa5b1"
+                fontSize={10}
+              >
+                {formatPriceTick(tick, layout.yStep)}
+              </SvgText>
+            ))}
+            {layout.xTicks.map(tick => (
+              <SvgText
+                key={`time-${tick.x}`}
+                x={tick.x}
+                y={CHART_HEIGHT - 4}
+                fill="#9aa5b1"
+                fontSize={10}
+                textAnchor="middle"
+              >
+                {tick.label}
+              </SvgText>
+            ))}
+            {mode === 'line' ? (
+              <Polyline
+                points={layout.visible
+                  .map((candle, index) => `${layout.xCenter(index).toFixed(2)},${layout.yScale.map(candle.close).toFixed(2)}`)
+                  .join(' ')}
+                fill="none"
+                stroke="#63b3ed"
+                strokeWidth={1.5}
+              />
+            ) : (
+              layout.visible.map((candle, index) => {
+                const x = layout.xCenter(index);
+                const color = candle.close >= candle.open ? '#48bb78' : '#f56565';
+                const bodyTop = layout.yScale.map(Math.max(candle.open, candle.close));
+                const bodyBottom = layout.yScale.map(Math.min(candle.open, candle.close));
+                const bodyWidth = Math.max(layout.barWidth * 0.6, 1);
+                return (
+                  <React.Fragment key={candle.start}>
+                    <Line
+                      x1={x}
+                      x2={x}
+                      y1={layout.yScale.map(candle.high)}
+                      y2={layout.yScale.map(candle.low)}
+                      stroke={color}
+                      strokeWidth={1}
+                    />
+                    <Rect
+                      x={x - bodyWidth / 2}
+                      y={bodyTop}
+                      width={bodyWidth}
+                      height={Math.max(bodyBottom - bodyTop, 1)}
+                      fill={color}
+                    />
+                  </React.Fragment>
+                );
+              })
+            )}
+            {layout.overlayLines.map(line =>
+              line.points ? (
+                <Polyline
+                  key={line.key}
+                  points={line.points}
+                  fill="none"
+                  stroke={line.color}
+                  strokeWidth={1}
+                  strokeDasharray={line.dashed ? '3 3' : undefined}
+                />
+              ) : null
+            )}
+            {selected && selectedVisibleIndex !== null ? (
+              <>
+                <Line
+                  x1={layout.xCenter(selectedVisibleIndex)}
+                  x2={layout.xCenter(selectedVisibleIndex)}
+                  y1={0}
+                  y2={plotHeight}
+                  stroke="#e2e8f0"
+                  strokeWidth={0.75}
+                  strokeDasharray="4 3"
+                />
+                <Line
+                  x1={0}
+                  x2={plotWidth}
+                  y1={layout.yScale.map(selected.close)}
+                  y2={layout.yScale.map(selected.close)}
+                  stroke="#e2e8f0"
+                  strokeWidth={0.75}
+                  strokeDasharray="4 3"
+                />
+              </>
+            ) : null}
+          </Svg>
+        ) : (
+          <View style={styles.empty}>
+            <Text style={styles.emptyText}>No {interval} bars yet.</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+export default memo(PriceChart);
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#151d2b',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  toggleGroup: {
+    flexDirection: 'row',
+  },
+  overlayRow: {
+    marginBottom: 6,
+  },
+  toggle: {
+    marginRight: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+  },
+  toggleActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  toggleText: {
+    color: '#e2e8f0',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  toggleTextActive: {
+    color: '#48bb78',
+  },
+  crosshairText: {
+    color: '#9aa5b1',
+    fontSize: 11,
+    marginBottom: 6,
+  },
+  chartArea: {
+    height: CHART_HEIGHT,
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyText: {
+    color: '#718096',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,439 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Modal, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from 'react-native';
+import DataTransfer from './DataTransfer';
+import MarketDataSettings from './MarketDataSettings';
+import { ProviderKind, ProviderSettings } from '../utils/marketData';
+import {
+  estimateStorageBytes,
+  formatBytes,
+  RetentionPolicy,
+  RetentionSettings,
+  SymbolStorage,
+  validateRetentionSettings,
+} from '../utils/retention';
+import { UI_REFRESH_OPTIONS, UiRefreshMs } from '../utils/tickBuffer';
+
+type SettingsScreenProps = {
+  visible: boolean;
+  settings: RetentionSettings;
+  storage: SymbolStorage[];
+  loading: boolean;
+  // Symbols that can get their own policy: the watchlist plus everything with stored data.
+  symbols: string[];
+  error: string | null;
+  uiRefreshMs: UiRefreshMs;
+  onUiRefreshChange: (refreshMs: UiRefreshMs) => void;
+  providerSettings: ProviderSettings;
+  // Environment variables each provider still needs.
+  missingCredentials: Record<ProviderKind, string[]>;
+  onApplyProvider: (settings: ProviderSettings) => void;
+  // Symbol trade files without one are imported under.
+  importSymbol: string;
+  transferBusy: boolean;
+  transferReport: string[];
+  onImportTrades: (source: string, symbol: string) => void;
+  onShareBackup: () => void;
+  onRestoreBackup: (source: string) => void;
+  onClose: () => void;
+  onSave: (settings: RetentionSettings) => void;
+  onPurgeSymbol: (symbol: string) => void;
+  onPurgeAll: () => void;
+};
+
+type PolicyDraft = Record<keyof RetentionPolicy, string>;
+
+const POLICY_FIELDS: Array<{ key: keyof RetentionPolicy; label: string }> = [
+  { key: 'rawTickHours', label: 'Raw ticks (hours)' },
+  { key: 'minuteBarDays', label: '1-minute bars (days)' },
+  { key: 'hourBarDays', label: 'Hourly bars (days)' },
+];
+
+const DEFAULT_SCOPE = '';
+
+const draftFromPolicy = (policy: RetentionPolicy): PolicyDraft => ({
+  rawTickHours: String(policy.rawTickHours),
+  minuteBarDays: String(policy.minuteBarDays),
+  hourBarDays: String(policy.hourBarDays),
+});
+
+const policyFromDraft = (draft: PolicyDraft): RetentionPolicy => ({
+  rawTickHours: Number(draft.rawTickHours),
+  minuteBarDays: Number(draft.minuteBarDays),
+  hourBarDays: Number(draft.hourBarDays),
+});
+
+export default function SettingsScreen({
+  visible,
+  settings,
+  storage,
+  loading,
+  symbols,
+  error,
+  uiRefreshMs,
+  onUiRefreshChange,
+  providerSettings,
+  missingCredentials,
+  onApplyProvider,
+  importSymbol,
+  transferBusy,
+  transferReport,
+  onImportTrades,
+  onShareBackup,
+  onRestoreBackup,
+  onClose,
+  onSave,
+  onPurgeSymbol,
+  onPurgeAll,
+}: SettingsScreenProps): React.JSX.Element {
+  const [scope, setScope] = useState(DEFAULT_SCOPE);
+  const [defaults, setDefaults] = useState<PolicyDraft>(() => draftFromPolicy(settings.defaults));
+  const [overrides, setOverrides] = useState<Record<string, PolicyDraft>>({});
+  const [budget, setBudget] = useState(String(settings.budgetMb));
+  const [draftError, setDraftError] = useState<string | null>(null);
+  // Purging everything takes a second tap so a stray touch cannot wipe the store.
+  const [confirmPurgeAll, setConfirmPurgeAll] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+    setScope(DEFAULT_SCOPE);
+    setDefaults(draftFromPolicy(settings.defaults));
+    const saved = Object.entries(settings.overrides).map(([symbol, policy]) => [symbol, draftFromPolicy(policy)]);
+    setOverrides(Object.fromEntries(saved));
+    setBudget(String(settings.budgetMb));
+    setDraftError(null);
+    setConfirmPurgeAll(false);
+  }, [visible, settings]);
+
+  const totalBytes = useMemo(() => storage.reduce((sum, item) => sum + estimateStorageBytes(item), 0), [storage]);
+  const scopes = useMemo(
+    () => Array.from(new Set([...symbols, ...Object.keys(overrides)])).sort((a, b) => a.localeCompare(b)),
+    [symbols, overrides]
+  );
+  const draft = scope === DEFAULT_SCOPE ? defaults : overrides[scope] ?? defaults;
+
+  const updateDraft = (key: keyof RetentionPolicy, value: string) => {
+    setDraftError(null);
+    if (scope === DEFAULT_SCOPE) {
+      setDefaults(prev => ({ ...prev, [key]: value }));
+      return;
+    }
+    setOverrides(prev => ({ ...prev, [scope]: { ...(prev[scope] ?? defaults), [key]: value } }));
+  };
+
+  const clearOverride = () => {
+    setOverrides(prev => Object.fromEntries(Object.entries(prev).filter(([symbol]) => symbol !== scope)));
+    setDraftError(null);
+  };
+
+  const handleSave = () => {
+    const next: RetentionSettings = {
+      defaults: policyFromDraft(defaults),
+      overrides: Object.fromEntries(
+        Object.entries(overrides).map(([symbol, policy]) => [symbol, policyFromDraft(policy)])
+      ),
+      budgetMb: Number(budget),
+    };
+    const validationError = validateRetentionSettings(next);
+    if (validationError) {
+      setDraftError(validationError);
+      return;
+    }
+    onSave(next);
+  };
+
+  const handlePurgeAll = () => {
+    if (!confirmPurgeAll) {
+      setConfirmPurgeAll(true);
+      return;
+    }
+    setConfirmPurgeAll(false);
+    onPurgeAll();
+  };
+
+  return (
+    <Modal animationType="slide" transparent visible={visible} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.sheet}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Settings</Text>
+            <Pressable onPress={onClose}>
+              <Text style={styles.closeText}>Close</Text>
+            </Pressable>
+          </View>
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionTitle}>Market data</Text>
+            <MarketDataSettings
+              settings={providerSettings}
+              missingCredentials={missingCredentials}
+              onApply={onApplyProvider}
+            />
+            <Text style={styles.sectionTitle}>UI refresh rate</Text>
+            <View style={styles.scopeRow}>
+              {UI_REFRESH_OPTIONS.map(option => (
+                <Pressable
+                  key={option.value}
+                  onPress={() => onUiRefreshChange(option.value)}
+                  style={[styles.scopeChip, uiRefreshMs === option.value ? styles.scopeChipActive : null]}
+                >
+                  <Text style={[styles.scopeText, uiRefreshMs === option.value ? styles.scopeTextActive : null]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            <Text style={styles.sectionTitle}>Retention</Text>
+            <View style={styles.scopeRow}>
+              {[DEFAULT_SCOPE, ...scopes].map(option => (
+                <Pressable
+                  key={option || 'default'}
+                  onPress={() => setScope(option)}
+                  style={[styles.scopeChip, scope === option ? styles.scopeChipActive : null]}
+                >
+                  <Text style={[styles.scopeText, scope === option ? styles.scopeTextActive : null]}>
+                    {option === DEFAULT_SCOPE ? 'Default' : `${option}${overrides[option] ? ' *' : ''}`}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+            {POLICY_FIELDS.map(field => (
+              <View key={field.key} style={styles.fieldRow}>
+                <Text style={styles.fieldLabel}>{field.label}</Text>
+                <TextInput
+                  value={draft[field.key]}
+                  onChangeText={value => updateDraft(field.key, value)}
+                  keyboardType="decimal-pad"
+                  style={styles.fieldInput}
+                />
+              </View>
+            ))}
+            {scope !== DEFAULT_SCOPE && overrides[scope] ? (
+              <Pressable onPress={clearOverride}>
+                <Text style={styles.linkText}>Use default policy for {scope}</Text>
+              </Pressable>
+            ) : null}
+            <View style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>Storage budget (MB)</Text>
+              <TextInput
+                value={budget}
+                onChangeText={value => {
+                  setBudget(value);
+                  setDraftError(null);
+                }}
+                keyboardType="number-pad"
+                style={styles.fieldInput}
+              />
+            </View>
+            {draftError ?? error ? <Text style={styles.error}>{draftError ?? error}</Text> : null}
+            <Pressable style={styles.saveButton} onPress={handleSave}>
+              <Text style={styles.saveText}>Save Retention</Text>
+            </Pressable>
+            <View style={styles.usageHeader}>
+              <Text style={styles.usageTitle}>
+                Estimated size {formatBytes(totalBytes)} of {settings.budgetMb} MB
+              </Text>
+              {storage.length ? (
+                <Pressable onPress={handlePurgeAll}>
+                  <Text style={styles.purgeText}>{confirmPurgeAll ? 'Tap again to purge all' : 'Purge all'}</Text>
+                </Pressable>
+              ) : null}
+            </View>
+            {loading ? (
+              <Text style={styles.status}>Loading…</Text>
+            ) : storage.length ? (
+              storage.map(item => (
+                <View key={item.symbol} style={styles.usageRow}>
+                  <View style={styles.usageInfo}>
+                    <Text style={styles.usageSymbol}>{item.symbol}</Text>
+                    <Text style={styles.usageDetail}>
+                      {item.rows.trades} ticks · {item.rows['1m']} 1m · {item.rows['1h']} 1h bars
+                    </Text>
+                  </View>
+                  <Text style={styles.usageSize}>{formatBytes(estimateStorageBytes(item))}</Text>
+                  <Pressable onPress={() => onPurgeSymbol(item.symbol)}>
+                    <Text style={styles.purgeText}>Purge</Text>
+                  </Pressable>
+                </View>
+              ))
+            ) : (
+              <Text style={styles.status}>No stored market data.</Text>
+            )}
+            <Text style={styles.sectionTitle}>Import and backup</Text>
+            <DataTransfer
+              visible={visible}
+              defaultSymbol={importSymbol}
+              busy={transferBusy}
+              report={transferReport}
+              onImport={onImportTrades}
+              onBackup={onShareBackup}
+              onRestore={onRestoreBackup}
+            />
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(15, 22, 36, 0.85)',
+    justifyContent: 'center',
+    paddingHorizontal: 18,
+  },
+  sheet: {
+    backgroundColor: '#0f1624',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    color: '#f7fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  closeText: {
+    color: '#63b3ed',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    color: '#f7fafc',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: 4,
+    marginBottom: 6,
+  },
+  scopeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 6,
+  },
+  scopeChip: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  scopeChipActive: {
+    borderColor: '#48bb78',
+    backgroundColor: '#1f2a3c',
+  },
+  scopeText: {
+    color: '#9aa5b1',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  scopeTextActive: {
+    color: '#48bb78',
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    color: '#9aa5b1',
+    fontSize: 13,
+  },
+  fieldInput: {
+    backgroundColor: '#151d2b',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    color: '#f7fafc',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    minWidth: 80,
+    textAlign: 'right',
+  },
+  linkText: {
+    color: '#63b3ed',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  error: {
+    color: '#f56565',
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  saveButton: {
+    alignSelf: 'flex-end',
+    backgroundColor: '#48bb78',
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  saveText: {
+    color: '#0f1624',
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  usageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#2d3748',
+    paddingTop: 12,
+    marginBottom: 6,
+  },
+  usageTitle: {
+    color: '#f7fafc',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  usageRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1f2a3c',
+  },
+  usageInfo: {
+    flex: 1,
+  },
+  usageSymbol: {
+    color: '#f7fafc',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  usageDetail: {
+    color: '#9aa5b1',
+    fontSize: 11,
+    marginTop: 2,
+  },
+  usageSize: {
+    color: '#cbd5e0',
+    fontSize: 13,
+    marginRight: 12,
+  },
+  purgeText: {
+    color: '#f56565',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  status: {
+    color: '#9aa5b1',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+});
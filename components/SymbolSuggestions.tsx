@@ -0,0 +1,69 @@
+import React, { memo } from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { SymbolInfo } from '../utils/symbols';
+
+type SymbolSuggestionsProps = {
+  suggestions: SymbolInfo[];
+  onSelect: (symbol: string) => void;
+};
+
+// Autocomplete rows under the symbol input; picking one subscribes straight away.
+function SymbolSuggestions({ suggestions, onSelect }: SymbolSuggestionsProps): React.JSX.Element | null {
+  if (!suggestions.length) {
+    return null;
+  }
+  return (
+    <View style={styles.list}>
+      {suggestions.map(info => (
+        <Pressable key={info.symbol} style={styles.row} onPress={() => onSelect(info.symbol)}>
+          <View style={styles.rowHeader}>
+            <Text style={styles.symbol}>{info.symbol}</Text>
+            <Text style={styles.meta}>
+              {info.exchange} · {info.type}
+            </Text>
+          </View>
+          <Text style={styles.description} numberOfLines={1}>
+            {info.description}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+export default memo(SymbolSuggestions);
+
+const styles = StyleSheet.create({
+  list: {
+    marginBottom: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2d3748',
+    backgroundColor: '#151d2b',
+  },
+  row: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1f2a3c',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  symbol: {
+    color: '#f7fafc',
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  meta: {
+    color: '#a0aec0',
+    fontSize: 11,
+  },
+  description: {
+    color: '#cbd5e0',
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
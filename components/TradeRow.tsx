@@ -0,0 +1,61 @@
+import React, { memo } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { formatTimestamp } from '../utils/market';
+
+type TradeRowProps = {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  fresh: boolean;
+};
+
+// Memoized on its primitive props, so a new batch only re-renders the rows whose content or highlight changed.
+function TradeRow({ symbol, price, timestamp, fresh }: TradeRowProps): React.JSX.Element {
+  return (
+    <View style={[styles.row, fresh ? styles.rowFresh : styles.rowStale]}>
+      <View style={styles.rowHeader}>
+        <Text style={styles.symbol}>{symbol}</Text>
+        <Text style={styles.price}>{price.toFixed(2)}</Text>
+      </View>
+      <Text style={styles.timestamp}>{formatTimestamp(timestamp)}</Text>
+    </View>
+  );
+}
+
+export default memo(TradeRow);
+
+const styles = StyleSheet.create({
+  row: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  rowFresh: {
+    backgroundColor: '#1f2a3c',
+    borderColor: '#48bb78',
+  },
+  rowStale: {
+    backgroundColor: '#151d2b',
+    borderColor: '#2d3748',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  symbol: {
+    color: '#f7fafc',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  price: {
+    color: '#f6ad55',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  timestamp: {
+    color: '#a0aec0',
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { FeedStatus, FeedTrade, initialFeedStatus } from '../utils/feedClient';
+import { MarketDataProvider } from '../utils/marketData';
+
+type UseFeedClientOptions = {
+  // A new factory (e.g. after the provider settings change) replaces the running provider.
+  createProvider: () => MarketDataProvider;
+  enabled: boolean;
+  symbols: string[];
+  onTrade: (trade: FeedTrade) => void;
+};
+
+// Own a market data provider for the lifetime of the component and mirror its status into React state.
+export const useFeedClient = ({ createProvider, enabled, symbols, onTrade }: UseFeedClientOptions) => {
+  const [status, setStatus] = useState<FeedStatus>(initialFeedStatus);
+  const clientRef = useRef<MarketDataProvider | null>(null);
+  const onTradeRef = useRef(onTrade);
+  const symbolsRef = useRef(symbols);
+
+  useEffect(() => {
+    onTradeRef.current = onTrade;
+  }, [onTrade]);
+
+  useEffect(() => {
+    symbolsRef.current = symbols;
+    clientRef.current?.setSymbols(symbols);
+  }, [symbols]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const client = createProvider();
+    clientRef.current = client;
+    const removeStatusListener = client.onStatus(setStatus);
+    const removeTradeListener = client.onTrade(trade => onTradeRef.current(trade));
+    client.setSymbols(symbolsRef.current);
+    client.connect();
+
+    return () => {
+      removeStatusListener();
+      removeTradeListener();
+      client.disconnect();
+      clientRef.current = null;
+    };
+  }, [createProvider, enabled]);
+
+  const retryNow = useCallback(() => {
+    clientRef.current?.retryNow();
+  }, []);
+
+  // Read on demand rather than mirrored into state, so frames do not each trigger a render.
+  const getLastMessageAt = useCallback(() => clientRef.current?.getLastMessageAt() ?? null, []);
+
+  return { status, retryNow, getLastMessageAt };
+};
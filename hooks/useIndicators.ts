@@ -0,0 +1,51 @@
+import { useMemo, useRef } from 'react';
+import { Candle } from '../utils/market';
+import { createIndicatorEngine, IndicatorEngine, IndicatorPoint } from '../utils/indicators';
+
+type EngineState = {
+  key: string;
+  engine: IndicatorEngine;
+  // The closed bars the engine was fed, in order, and the array they last came from.
+  seen: Candle[];
+  bars: Candle[];
+};
+
+const sameBar = (a: Candle, b: Candle) =>
+  a.start === b.start && a.open === b.open && a.high === b.high && a.low === b.low && a.close === b.close &&
+  a.volume === b.volume;
+
+// Whether `bars` is what the engine saw with new bars after it, rather than a history that changed underneath.
+const extendsSeen = (seen: Candle[], bars: Candle[]) =>
+  bars.length >= seen.length && seen.every((bar, index) => sameBar(bar, bars[index]));
+
+/*
+ * Keep one indicator engine per series and feed it only bars it has not seen, so a new trade costs a
+ * preview of the forming bar rather than a pass over the whole history. The engine starts over when the
+ * bars it saw change: history trimmed at the front, a gap filled inside, or a late trade merged into a bar.
+ */
+export const useIndicators = (seriesKey: string, closedBars: Candle[], formingBar: Candle | null): IndicatorPoint[] => {
+  const stateRef = useRef<EngineState | null>(null);
+
+  return useMemo(() => {
+    let state = stateRef.current;
+    // Only a new array of closed bars can differ from what was seen; a trade alone moves the forming bar.
+    if (!state || state.key !== seriesKey || (state.bars !== closedBars && !extendsSeen(state.seen, closedBars))) {
+      state = { key: seriesKey, engine: createIndicatorEngine(), seen: [], bars: closedBars };
+      stateRef.current = state;
+    }
+    state.bars = closedBars;
+
+    const { engine, seen } = state;
+    closedBars.slice(seen.length).forEach(bar => {
+      engine.push(bar);
+      seen.push(bar);
+    });
+
+    const lastStart = engine.lastStart();
+    const points = [...engine.points()];
+    if (formingBar && (lastStart === null || formingBar.start > lastStart)) {
+      points.push(engine.preview(formingBar));
+    }
+    return points;
+  }, [seriesKey, closedBars, formingBar]);
+};
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+// Re-render on a fixed interval so relative labels ("retrying in 12s") count down; idle when disabled.
+export const useNow = (intervalMs: number, enabled = true): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [enabled, intervalMs]);
+
+  return now;
+};
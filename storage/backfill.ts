@@ -0,0 +1,157 @@
+import { extendCoverage, planBackfill, TimeRange } from '../utils/backfill';
+import { FinnhubRestClient, FinnhubRestError, Quote, supportsBackfill } from '../utils/finnhubRest';
+import { bucketStart, CANDLE_INTERVAL_MS, CandleInterval, DEFAULT_ALLOWED_LATENESS_MS } from '../utils/market';
+import { BackfillRepository, TradeRepository } from './repositories';
+
+// 'offline' means Finnhub could not be reached; 'unavailable' that it answered with an error, e.g. a plan without
+// candle access. Either way the chart keeps showing what is stored.
+export type BackfillOutcome = 'filled' | 'fresh' | 'unsupported' | 'offline' | 'unavailable';
+
+export type BackfillerOptions = {
+  rest: FinnhubRestClient;
+  trades: TradeRepository;
+  store: BackfillRepository;
+  now?: () => number;
+  // How long the newest end of a series counts as fresh after it was fetched.
+  refreshAfterMs?: number;
+  quoteMaxAgeMs?: number;
+  // How long after a bucket ends the live aggregator may still be closing and storing its bar.
+  liveSettleMs?: number;
+};
+
+export type Backfiller = {
+  // Make sure the newest `bars` finished bars of a series are stored, fetching only what is missing or stale.
+  backfillRecent: (symbol: string, interval: CandleInterval, bars: number) => Promise<BackfillOutcome>;
+  // Fetch the finished bars of every backfillable interval that fall inside an outage.
+  fillGap: (symbols: string[], gap: TimeRange) => Promise<BackfillOutcome>;
+  // The latest quote, from the cache while it is young enough or when Finnhub cannot be reached.
+  quote: (symbol: string) => Promise<Quote | null>;
+};
+
+export const GAP_INTERVALS: CandleInterval[] = ['1m', '5m', '1h'];
+
+const DEFAULT_REFRESH_AFTER_MS = 5 * 60_000;
+const DEFAULT_QUOTE_MAX_AGE_MS = 60_000;
+// The aggregator's lateness plus a few sweeps of its timer.
+const DEFAULT_LIVE_SETTLE_MS = DEFAULT_ALLOWED_LATENESS_MS + 5_000;
+
+const worst = (outcomes: BackfillOutcome[]): BackfillOutcome =>
+  (['unavailable', 'offline', 'filled', 'fresh', 'unsupported'] as BackfillOutcome[]).find(outcome =>
+    outcomes.includes(outcome)
+  ) ?? 'fresh';
+
+/*
+ * Fill stored bars from Finnhub's REST API. Fetched bars only go into buckets with nothing stored, so bars the live
+ * aggregator built are never replaced, and neither the bucket still forming nor one the aggregator may still be
+ * closing is fetched. Requests for the same series share one fetch, and a plan without candle access stops asking
+ * for the rest of the session.
+ */
+export const createBackfiller = (options: BackfillerOptions): Backfiller => {
+  const { rest, trades, store } = options;
+  const now = options.now ?? Date.now;
+  const refreshAfterMs = options.refreshAfterMs ?? DEFAULT_REFRESH_AFTER_MS;
+  const quoteMaxAgeMs = options.quoteMaxAgeMs ?? DEFAULT_QUOTE_MAX_AGE_MS;
+  const liveSettleMs = options.liveSettleMs ?? DEFAULT_LIVE_SETTLE_MS;
+  const inFlight = new Map<string, Promise<BackfillOutcome>>();
+  let candlesDenied = false;
+
+  const failure = (err: unknown): BackfillOutcome => {
+    console.warn('Backfill error', err);
+    if (!(err instanceof FinnhubRestError) || err.status === null) {
+      return 'offline';
+    }
+    if (err.status === 401 || err.status === 403) {
+      candlesDenied = true;
+    }
+    return 'unavailable';
+  };
+
+  const fetchRanges = async (
+    symbol: string,
+    interval: CandleInterval,
+    ranges: TimeRange[]
+  ): Promise<BackfillOutcome> => {
+    for (const range of ranges) {
+      const candles = await rest.candles(symbol, interval, range.from, range.to);
+      await trades.insertMissingCandles(candles);
+      const coverage = extendCoverage(await store.getCoverage(symbol, interval), symbol, interval, range, now());
+      if (coverage) {
+        await store.saveCoverage(coverage);
+      }
+    }
+    return ranges.length ? 'filled' : 'fresh';
+  };
+
+  // One fetch per series at a time; a second caller waits for the first instead of asking again.
+  const once = (key: string, task: () => Promise<BackfillOutcome>): Promise<BackfillOutcome> => {
+    const running = inFlight.get(key);
+    if (running) {
+      return running;
+    }
+    const promise = task()
+      .catch(failure)
+      .finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+
+  const backfillRecent = (symbol: string, interval: CandleInterval, bars: number): Promise<BackfillOutcome> => {
+    if (!supportsBackfill(interval)) {
+      return Promise.resolve('unsupported');
+    }
+    if (candlesDenied) {
+      return Promise.resolve('unavailable');
+    }
+    return once(`${symbol}|${interval}`, async () => {
+      const size = CANDLE_INTERVAL_MS[interval];
+      const current = now();
+      // A bucket that only just ended may not be stored yet; a fetched bar would be added to the live one.
+      const ended = bucketStart(current, interval);
+      const to = current - ended < liveSettleMs ? ended - size : ended;
+      const window = { from: to - bars * size, to };
+      const ranges = planBackfill(window, await store.getCoverage(symbol, interval), current, size, refreshAfterMs);
+      return fetchRanges(symbol, interval, ranges);
+    });
+  };
+
+  const fillGap = async (symbols: string[], gap: TimeRange): Promise<BackfillOutcome> => {
+    if (candlesDenied) {
+      return 'unavailable';
+    }
+    const outcomes: BackfillOutcome[] = [];
+    for (const symbol of symbols) {
+      for (const interval of GAP_INTERVALS) {
+        // Only buckets wholly inside the outage: the ones at either edge may already hold locally built trades.
+        const size = CANDLE_INTERVAL_MS[interval];
+        const range = { from: bucketStart(gap.from, interval) + size, to: bucketStart(gap.to, interval) };
+        if (range.to <= range.from) {
+          continue;
+        }
+        outcomes.push(await once(`${symbol}|${interval}|gap`, () => fetchRanges(symbol, interval, [range])));
+        if (candlesDenied) {
+          return 'unavailable';
+        }
+      }
+    }
+    return worst(outcomes);
+  };
+
+  const quote = async (symbol: string): Promise<Quote | null> => {
+    const cached = await store.latestQuote(symbol);
+    if (cached && now() - cached.fetchedAt < quoteMaxAgeMs) {
+      return cached;
+    }
+    try {
+      const fresh = await rest.quote(symbol);
+      if (fresh) {
+        await store.saveQuote(fresh);
+      }
+      return fresh ?? cached;
+    } catch (err) {
+      console.warn('Quote error', err);
+      return cached;
+    }
+  };
+
+  return { backfillRecent, fillGap, quote };
+};
@@ -0,0 +1,87 @@
+import { AlertCondition, AlertRules } from '../utils/alerts';
+import { AppBackup } from '../utils/backup';
+import { AlertRepository, FavoritesRepository, SettingsRepository } from './repositories';
+
+// Far above what the per-symbol alert cap lets accumulate, so a backup always carries every alert.
+const ALERT_SCAN_LIMIT = 10000;
+
+export type BackupStores = {
+  alerts: AlertRepository;
+  favorites: FavoritesRepository;
+  settings: SettingsRepository;
+};
+
+export type RestoreSummary = {
+  alertsAdded: number;
+  // Alerts that match one already stored, left as they are.
+  alertsKept: number;
+  settings: number;
+};
+
+export const collectBackup = async (stores: BackupStores, now: number): Promise<AppBackup> => ({
+  createdAt: now,
+  watchlist: await stores.favorites.listWatchlist(),
+  favorites: await stores.favorites.listFavorites(),
+  alerts: (await stores.alerts.listAll(ALERT_SCAN_LIMIT)).map(alert => ({
+    symbol: alert.symbol,
+    condition: alert.condition,
+    rules: alert.rules,
+    status: alert.status,
+    paused: alert.paused,
+    createdAt: alert.createdAt,
+  })),
+  settings: await stores.settings.allSettings(),
+});
+
+// Key order differs between conditions built in the app and ones read back from JSON.
+const alertKey = (symbol: string, condition: AlertCondition, rules: AlertRules) =>
+  JSON.stringify([
+    symbol,
+    Object.entries(condition).sort(([a], [b]) => a.localeCompare(b)),
+    [rules.repeat, rules.hysteresisPercent, rules.cooldownMinutes, rules.expiresAt],
+  ]);
+
+/*
+ * Restore a parsed backup over the current state. The watchlist (unless the backup's is missing or empty), the
+ * favorites (unless missing) and every backed-up setting replace the stored ones; settings the backup does not
+ * name are left alone. Alerts are
+ * added next to the existing ones, skipping any already stored with the same symbol, condition and rules.
+ */
+export const restoreBackup = async (
+  stores: BackupStores,
+  backup: AppBackup,
+  keepAlertsPerSymbol: number
+): Promise<RestoreSummary> => {
+  if (backup.watchlist?.length) {
+    await stores.favorites.saveWatchlist(backup.watchlist);
+  }
+  if (backup.favorites) {
+    await stores.favorites.saveFavorites(backup.favorites);
+  }
+  const settings = Object.entries(backup.settings);
+  for (const [key, value] of settings) {
+    await stores.settings.setSetting(key, value);
+  }
+
+  const existing = new Set(
+    (await stores.alerts.listAll(ALERT_SCAN_LIMIT)).map(alert => alertKey(alert.symbol, alert.condition, alert.rules))
+  );
+  let alertsAdded = 0;
+  for (const alert of backup.alerts) {
+    const key = alertKey(alert.symbol, alert.condition, alert.rules);
+    if (existing.has(key)) {
+      continue;
+    }
+    existing.add(key);
+    const { symbol, condition, rules, createdAt } = alert;
+    const id = await stores.alerts.create({ symbol, condition, rules, createdAt }, keepAlertsPerSymbol);
+    if (alert.status !== 'armed') {
+      await stores.alerts.setStatus(id, alert.status);
+    }
+    if (alert.paused) {
+      await stores.alerts.setPaused(id, true);
+    }
+    alertsAdded += 1;
+  }
+  return { alertsAdded, alertsKept: backup.alerts.length - alertsAdded, settings: settings.length };
+};
@@ -0,0 +1,81 @@
+import { TimeRange } from '../utils/backfill';
+import {
+  ExportFormat,
+  exportFileName,
+  ExportKind,
+  ExportRecords,
+  serializeExport,
+} from '../utils/exportFormat';
+import { CandleInterval } from '../utils/market';
+import { AlertRepository, TradeRepository } from './repositories';
+
+// Rows per file; the share sheet hands the whole file over as one string, so a busy symbol is cut off here.
+export const EXPORT_MAX_ROWS = 20000;
+
+export type ExportRequest = {
+  kind: ExportKind;
+  format: ExportFormat;
+  symbol: string;
+  range: TimeRange;
+  // Bars of this interval only; ignored for trades and alert history.
+  interval: CandleInterval;
+};
+
+export type ExportResult = {
+  fileName: string;
+  content: string;
+  rows: number;
+  // More rows matched than were written; the file holds the oldest `rows` of them.
+  truncated: boolean;
+};
+
+type ExportStores = {
+  trades: TradeRepository;
+  alerts: AlertRepository;
+};
+
+const finish = <K extends ExportKind>(
+  request: ExportRequest & { kind: K },
+  records: Array<ExportRecords[K]>,
+  maxRows: number
+): ExportResult => {
+  const rows = records.slice(0, maxRows);
+  const { kind, format, symbol, range, interval } = request;
+  return {
+    fileName: exportFileName(kind, symbol, range.from, range.to, format, kind === 'bars' ? interval : undefined),
+    content: serializeExport(kind, rows, format),
+    rows: rows.length,
+    truncated: records.length > maxRows,
+  };
+};
+
+// Read one symbol's stored trades, bars of one interval or alert firings in `range`, oldest first, and serialize them.
+export const exportData = async (
+  stores: ExportStores,
+  request: ExportRequest,
+  maxRows: number = EXPORT_MAX_ROWS
+): Promise<ExportResult> => {
+  const { symbol, range } = request;
+  // One row past the cap tells a full file from a truncated one.
+  const limit = maxRows + 1;
+  switch (request.kind) {
+    case 'trades':
+      return finish(
+        { ...request, kind: 'trades' },
+        await stores.trades.tradesBetween(symbol, range.from, range.to, limit),
+        maxRows
+      );
+    case 'bars':
+      return finish(
+        { ...request, kind: 'bars' },
+        await stores.trades.candlesBetween(symbol, request.interval, range.from, range.to, limit),
+        maxRows
+      );
+    case 'alerts':
+      return finish(
+        { ...request, kind: 'alerts' },
+        await stores.alerts.firingsBetween(symbol, range.from, range.to, limit),
+        maxRows
+      );
+  }
+};
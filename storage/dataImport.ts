@@ -0,0 +1,95 @@
+import { ExportRowError } from '../utils/exportFormat';
+import { CANDLE_INTERVALS } from '../utils/market';
+import { downsampleTrades } from '../utils/retention';
+import { ImportedTrade, parseTradeFile, TRADE_FILE_SOURCE_LABELS, TradeFileSource } from '../utils/tradeImport';
+import { StoredTrade, TradeRepository } from './repositories';
+
+// Trades checked and written per transaction, so a large file does not hold the write lock for its whole length.
+const IMPORT_CHUNK = 500;
+
+export type ImportSummary = {
+  source: TradeFileSource;
+  // Rows that parsed into trades.
+  read: number;
+  // Trades written; the rest of `read` were already stored or repeated within the file.
+  imported: number;
+  symbols: string[];
+  errors: ExportRowError[];
+};
+
+const sameTrade = (a: StoredTrade, b: StoredTrade): boolean =>
+  a.symbol === b.symbol && a.timestamp === b.timestamp && a.price === b.price && a.volume === b.volume;
+
+/*
+ * A row repeated within the file is read once. Rows with a vendor trade id repeat only under the same id, since
+ * distinct fills often share the millisecond, price and size; rows without one repeat when every field matches.
+ */
+const uniqueTrades = (trades: ImportedTrade[]): ImportedTrade[] => {
+  const seen = new Set<string>();
+  return trades.filter(trade => {
+    const key =
+      trade.tradeId === undefined
+        ? `${trade.symbol}\n${trade.timestamp}\n${trade.price}\n${trade.volume}`
+        : `${trade.symbol}\n#${trade.tradeId}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+/*
+ * Parse a trade file and store the trades `price_updates` does not hold yet: fills that look alike are stored until
+ * the table holds as many as the file, so importing the same file twice adds nothing the second time. Bars are
+ * built from the new trades for buckets with nothing stored, so the chart shows imported history without touching
+ * bars the feed already built; the retention sweep then treats imported trades like live ones. Throws
+ * ExportFormatError for an unreadable file.
+ */
+export const importTrades = async (
+  repository: TradeRepository,
+  text: string,
+  fallbackSymbol: string | null
+): Promise<ImportSummary> => {
+  const parsed = parseTradeFile(text, fallbackSymbol);
+  // Trades that look alike sort next to each other, and a chunk is stretched so it never splits them.
+  const trades = uniqueTrades(parsed.trades).sort(
+    (a, b) =>
+      a.timestamp - b.timestamp || a.symbol.localeCompare(b.symbol) || a.price - b.price || a.volume - b.volume
+  );
+  const inserted: StoredTrade[] = [];
+  for (let offset = 0; offset < trades.length; ) {
+    let end = Math.min(offset + IMPORT_CHUNK, trades.length);
+    while (end < trades.length && sameTrade(trades[end - 1], trades[end])) {
+      end += 1;
+    }
+    inserted.push(...(await repository.insertMissingTrades(trades.slice(offset, end))));
+    offset = end;
+  }
+  // Built once all chunks are in, so a bucket split across two chunks is not stored half full.
+  for (const interval of CANDLE_INTERVALS) {
+    await repository.insertMissingCandles(downsampleTrades(inserted, interval));
+  }
+  return {
+    source: parsed.source,
+    read: parsed.trades.length,
+    imported: inserted.length,
+    symbols: Array.from(new Set(inserted.map(trade => trade.symbol))).sort(),
+    errors: parsed.errors,
+  };
+};
+
+// e.g. "Imported 1180 Binance trades for BINANCE:BTCUSDT; 20 already stored; 3 rows skipped."
+export const describeImport = (summary: ImportSummary): string => {
+  const parts = [`Imported ${summary.imported} ${TRADE_FILE_SOURCE_LABELS[summary.source]} trades`];
+  if (summary.symbols.length) {
+    parts[0] += ` for ${summary.symbols.join(', ')}`;
+  }
+  if (summary.read > summary.imported) {
+    parts.push(`${summary.read - summary.imported} already stored`);
+  }
+  if (summary.errors.length) {
+    parts.push(`${summary.errors.length} rows skipped`);
+  }
+  return `${parts.join('; ')}.`;
+};
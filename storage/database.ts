@@ -0,0 +1,30 @@
+export type SqlValue = string | number | null;
+
+export type SqlRunResult = {
+  changes: number;
+  lastInsertRowId: number;
+};
+
+/*
+ * The subset of expo-sqlite's SQLiteDatabase that storage code relies on. Keeping it structural lets the
+ * app pass its expo-sqlite handle straight through while tests run the same code on an in-memory engine.
+ */
+export interface SqlDatabase {
+  execAsync(source: string): Promise<void>;
+  runAsync(source: string, params: SqlValue[]): Promise<SqlRunResult>;
+  getAllAsync<T>(source: string, params: SqlValue[]): Promise<T[]>;
+  withTransactionAsync(task: () => Promise<void>): Promise<void>;
+}
+
+const transactionQueues = new WeakMap<SqlDatabase, Promise<void>>();
+
+/*
+ * Run `task` in a transaction once every earlier transaction on the same handle has finished. expo-sqlite
+ * cannot nest transactions, and batch flushes and candle upserts are started independently of each other.
+ */
+export const runTransaction = (db: SqlDatabase, task: () => Promise<void>): Promise<void> => {
+  const previous = transactionQueues.get(db) ?? Promise.resolve();
+  const next = previous.then(() => db.withTransactionAsync(task));
+  transactionQueues.set(db, next.catch(() => undefined));
+  return next;
+};
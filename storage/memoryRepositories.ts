@@ -0,0 +1,476 @@
+import { AlertStatus, AlertThreshold } from '../utils/alerts';
+import { Candle, mergeCandles } from '../utils/market';
+import { STORAGE_TIERS, StorageTier, SymbolStorage } from '../utils/retention';
+import { CandleCoverage } from '../utils/backfill';
+import { Quote } from '../utils/finnhubRest';
+import { historyFilterMatches, HistorySummary, HistoryTrade, isAfterHistoryCursor } from '../utils/history';
+import { SymbolInfo } from '../utils/symbols';
+import {
+  AlertHistoryEntry,
+  AlertRepository,
+  BackfillRepository,
+  FavoritesRepository,
+  SettingsRepository,
+  StoredTrade,
+  SymbolRepository,
+  TradeRepository,
+} from './repositories';
+
+// In-memory stand-ins for the SQLite repositories with the same ordering and capping rules, for tests and previews.
+
+const newestFirst = (a: StoredTrade, b: StoredTrade) => b.timestamp - a.timestamp;
+
+export const createMemoryTradeRepository = (): TradeRepository => {
+  const trades = new Map<string, StoredTrade[]>();
+  // Row ids as SQLite's AUTOINCREMENT would assign them, kept beside the stored copies.
+  const ids = new WeakMap<StoredTrade, number>();
+  let nextId = 1;
+  const store = (trade: StoredTrade) => {
+    const copy = { ...trade };
+    ids.set(copy, nextId);
+    nextId += 1;
+    return copy;
+  };
+  const withId = (trade: StoredTrade): HistoryTrade => ({ id: ids.get(trade) ?? 0, ...trade });
+  const candles = new Map<string, Candle>();
+  const candleKey = (candle: Pick<Candle, 'symbol' | 'interval' | 'start'>) =>
+    `${candle.symbol}|${candle.interval}|${candle.start}`;
+  const oldestFirst = (a: Candle, b: Candle) => a.start - b.start;
+  const series = (symbol: string, interval: string) =>
+    Array.from(candles.values())
+      .filter(candle => candle.symbol === symbol && candle.interval === interval)
+      .sort(oldestFirst);
+  const dropCandles = (keep: (candle: Candle) => boolean) => {
+    Array.from(candles.entries())
+      .filter(([, candle]) => !keep(candle))
+      .forEach(([key]) => candles.delete(key));
+  };
+
+  return {
+    recentTrades: async (symbol, limit) => (trades.get(symbol) ?? []).slice(0, limit).map(trade => ({ ...trade })),
+
+    appendTrades: async additions => {
+      additions.forEach(trade => {
+        trades.set(trade.symbol, [...(trades.get(trade.symbol) ?? []), store(trade)].sort(newestFirst));
+      });
+    },
+
+    insertMissingTrades: async additions => {
+      const inserted: StoredTrade[] = [];
+      const seen = new Map<string, number>();
+      additions.forEach(trade => {
+        const key = [trade.symbol, trade.timestamp, trade.price, trade.volume].join('\n');
+        const occurrence = (seen.get(key) ?? 0) + 1;
+        seen.set(key, occurrence);
+        const existing = trades.get(trade.symbol) ?? [];
+        const stored = existing.filter(
+          entry => entry.timestamp === trade.timestamp && entry.price === trade.price && entry.volume === trade.volume
+        );
+        if (stored.length < occurrence) {
+          trades.set(trade.symbol, [...existing, store(trade)].sort(newestFirst));
+          inserted.push(trade);
+        }
+      });
+      return inserted;
+    },
+
+    tradesBefore: async (symbol, cutoff, limit) =>
+      (trades.get(symbol) ?? [])
+        .filter(trade => trade.timestamp < cutoff)
+        .reverse()
+        .slice(0, limit)
+        .map(trade => ({ ...trade })),
+
+    tradesBetween: async (symbol, from, to, limit) =>
+      (trades.get(symbol) ?? [])
+        .filter(trade => trade.timestamp >= from && trade.timestamp < to)
+        .reverse()
+        .slice(0, limit)
+        .map(trade => ({ ...trade })),
+
+    deleteTradesBefore: async (symbol, cutoff) => {
+      const existing = trades.get(symbol);
+      if (existing) {
+        trades.set(symbol, existing.filter(trade => trade.timestamp >= cutoff));
+      }
+    },
+
+    browseTrades: async (filter, cursor, limit) =>
+      Array.from(trades.values())
+        .flat()
+        .map(withId)
+        .filter(trade => historyFilterMatches(filter, trade) && (!cursor || isAfterHistoryCursor(trade, cursor)))
+        .sort((a, b) =>
+          a.symbol === b.symbol ? b.timestamp - a.timestamp || b.id - a.id : a.symbol < b.symbol ? -1 : 1
+        )
+        .slice(0, limit),
+
+    historySummaries: async filter =>
+      Array.from(trades.keys())
+        .sort()
+        .flatMap(symbol => {
+          // Oldest first, ties in insertion order.
+          const matching = (trades.get(symbol) ?? [])
+            .map(withId)
+            .filter(trade => historyFilterMatches(filter, trade))
+            .sort((a, b) => a.timestamp - b.timestamp || a.id - b.id);
+          if (!matching.length) {
+            return [];
+          }
+          const prices = matching.map(trade => trade.price);
+          const first = matching[0];
+          const last = matching[matching.length - 1];
+          const summary: HistorySummary = {
+            symbol,
+            count: matching.length,
+            low: Math.min(...prices),
+            high: Math.max(...prices),
+            firstPrice: first.price,
+            firstAt: first.timestamp,
+            lastPrice: last.price,
+            lastAt: last.timestamp,
+          };
+          return [summary];
+        }),
+
+    deleteTradesById: async deleted => {
+      const dropped = new Set(deleted);
+      trades.forEach((items, symbol) => trades.set(symbol, items.filter(trade => !dropped.has(ids.get(trade) ?? 0))));
+    },
+
+    deleteFilteredTrades: async (symbol, filter) => {
+      const existing = trades.get(symbol);
+      if (existing) {
+        const bounds = { ...filter, symbolQuery: '' };
+        trades.set(symbol, existing.filter(trade => !historyFilterMatches(bounds, trade)));
+      }
+    },
+
+    recentCandles: async (symbol, interval, limit) =>
+      series(symbol, interval)
+        .slice(-limit)
+        .map(candle => ({ ...candle })),
+
+    saveCandles: async additions => {
+      additions.forEach(candle => {
+        const key = candleKey(candle);
+        const existing = candles.get(key);
+        candles.set(key, existing ? mergeCandles(existing, candle) : { ...candle });
+      });
+    },
+
+    candlesBefore: async (symbol, interval, cutoff, limit) =>
+      series(symbol, interval)
+        .filter(candle => candle.start < cutoff)
+        .slice(0, limit)
+        .map(candle => ({ ...candle })),
+
+    candlesBetween: async (symbol, interval, from, to, limit) =>
+      series(symbol, interval)
+        .filter(candle => candle.start >= from && candle.start < to)
+        .slice(0, limit)
+        .map(candle => ({ ...candle })),
+
+    priceRange: async (symbol, interval, from, to) => {
+      const inRange = series(symbol, interval).filter(candle => candle.start >= from && candle.start < to);
+      if (!inRange.length) {
+        return null;
+      }
+      return {
+        low: Math.min(...inRange.map(candle => candle.low)),
+        high: Math.max(...inRange.map(candle => candle.high)),
+        firstStart: inRange[0].start,
+      };
+    },
+
+    insertMissingCandles: async additions => {
+      additions.forEach(candle => {
+        const key = candleKey(candle);
+        if (!candles.has(key)) {
+          candles.set(key, { ...candle });
+        }
+      });
+    },
+
+    deleteCandlesBefore: async (symbol, interval, cutoff) =>
+      dropCandles(candle => candle.symbol !== symbol || candle.interval !== interval || candle.start >= cutoff),
+
+    storageUsage: async () => {
+      const bySymbol = new Map<string, SymbolStorage>();
+      const entry = (symbol: string) => {
+        const existing = bySymbol.get(symbol);
+        if (existing) {
+          return existing;
+        }
+        const created: SymbolStorage = {
+          symbol,
+          rows: Object.fromEntries(STORAGE_TIERS.map(tier => [tier, 0])) as Record<StorageTier, number>,
+        };
+        bySymbol.set(symbol, created);
+        return created;
+      };
+      trades.forEach((items, symbol) => {
+        if (items.length) {
+          entry(symbol).rows.trades += items.length;
+        }
+      });
+      candles.forEach(candle => {
+        entry(candle.symbol).rows[candle.interval] += 1;
+      });
+      return Array.from(bySymbol.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+    },
+
+    trimOldest: async (tier, rows) => {
+      if (tier === 'trades') {
+        const dropped = new Set(
+          Array.from(trades.values())
+            .flat()
+            .sort((a, b) => a.timestamp - b.timestamp)
+            .slice(0, rows)
+        );
+        trades.forEach((items, symbol) => trades.set(symbol, items.filter(trade => !dropped.has(trade))));
+        return;
+      }
+      const dropped = new Set(
+        Array.from(candles.values())
+          .filter(candle => candle.interval === tier)
+          .sort(oldestFirst)
+          .slice(0, rows)
+      );
+      dropCandles(candle => !dropped.has(candle));
+    },
+
+    purgeSymbol: async symbol => {
+      trades.delete(symbol);
+      dropCandles(candle => candle.symbol !== symbol);
+    },
+
+    purgeAll: async () => {
+      trades.clear();
+      candles.clear();
+    },
+  };
+};
+
+export const createMemorySettingsRepository = (): SettingsRepository => {
+  const values = new Map<string, string>();
+  return {
+    getSetting: async key => values.get(key) ?? null,
+    setSetting: async (key, value) => {
+      values.set(key, value);
+    },
+    allSettings: async () => Object.fromEntries(Array.from(values.entries()).sort(([a], [b]) => a.localeCompare(b))),
+  };
+};
+
+export const createMemoryBackfillRepository = (): BackfillRepository => {
+  const coverage = new Map<string, CandleCoverage>();
+  const quotes = new Map<string, Quote>();
+  const seriesKey = (symbol: string, interval: string) => `${symbol}|${interval}`;
+  return {
+    getCoverage: async (symbol, interval) => {
+      const entry = coverage.get(seriesKey(symbol, interval));
+      return entry ? { ...entry } : null;
+    },
+    saveCoverage: async entry => {
+      coverage.set(seriesKey(entry.symbol, entry.interval), { ...entry });
+    },
+    latestQuote: async symbol => {
+      const quote = quotes.get(symbol);
+      return quote ? { ...quote } : null;
+    },
+    saveQuote: async quote => {
+      quotes.set(quote.symbol, { ...quote });
+    },
+    forget: async symbols => {
+      Array.from(coverage.entries())
+        .filter(([, entry]) => !symbols || symbols.includes(entry.symbol))
+        .forEach(([key]) => coverage.delete(key));
+      Array.from(quotes.keys())
+        .filter(symbol => !symbols || symbols.includes(symbol))
+        .forEach(symbol => quotes.delete(symbol));
+    },
+  };
+};
+
+export const createMemoryFavoritesRepository = (favorites: string[] = []): FavoritesRepository => {
+  let stored = [...favorites];
+  let watchlist: string[] = [];
+  type RecentEntry = { symbol: string; usedAt: number };
+  let recent: RecentEntry[] = [];
+  const latestFirst = (a: RecentEntry, b: RecentEntry) => b.usedAt - a.usedAt || a.symbol.localeCompare(b.symbol);
+  return {
+    listFavorites: async () => [...stored],
+    saveFavorites: async symbols => {
+      stored = Array.from(new Set(symbols));
+    },
+    recentSymbols: async limit => recent.slice(0, limit).map(entry => entry.symbol),
+    touchRecent: async (symbol, usedAt, keep) => {
+      recent = [{ symbol, usedAt }, ...recent.filter(entry => entry.symbol !== symbol)]
+        .sort(latestFirst)
+        .slice(0, keep);
+    },
+    listWatchlist: async () => [...watchlist],
+    saveWatchlist: async symbols => {
+      watchlist = Array.from(new Set(symbols));
+    },
+    addToWatchlist: async symbol => {
+      watchlist = watchlist.includes(symbol) ? watchlist : [...watchlist, symbol];
+    },
+    removeFromWatchlist: async symbol => {
+      watchlist = watchlist.filter(item => item !== symbol);
+    },
+  };
+};
+
+export const createMemorySymbolRepository = (): SymbolRepository => {
+  const directory = new Map<string, SymbolInfo>();
+  const searches = new Map<string, number>();
+  return {
+    search: async (query, limit) => {
+      const needle = query.toUpperCase();
+      return Array.from(directory.values())
+        .filter(info => info.symbol.startsWith(needle) || info.description.toUpperCase().includes(needle))
+        .sort((a, b) => a.symbol.length - b.symbol.length || a.symbol.localeCompare(b.symbol))
+        .slice(0, limit)
+        .map(info => ({ ...info }));
+    },
+    find: async symbol => {
+      const info = directory.get(symbol);
+      return info ? { ...info } : null;
+    },
+    save: async symbols => {
+      symbols.forEach(info => directory.set(info.symbol, { ...info }));
+    },
+    searchedAt: async query => searches.get(query) ?? null,
+    markSearched: async (query, searchedAt) => {
+      searches.set(query, searchedAt);
+    },
+  };
+};
+
+const isFinished = (status: AlertStatus) => status === 'done' || status === 'expired';
+
+const finishedLast = (a: AlertThreshold, b: AlertThreshold) =>
+  Number(isFinished(a.status)) - Number(isFinished(b.status)) || Number(b.id) - Number(a.id);
+
+const isLive = (alert: AlertThreshold) => !alert.paused && (alert.status === 'armed' || alert.status === 'waiting');
+
+const copyAlert = (alert: AlertThreshold): AlertThreshold => ({
+  ...alert,
+  condition: { ...alert.condition },
+  rules: { ...alert.rules },
+});
+
+export const createMemoryAlertRepository = (): AlertRepository => {
+  const alerts = new Map<string, AlertThreshold>();
+  let history: AlertHistoryEntry[] = [];
+  let nextId = 1;
+
+  const update = (id: string, patch: (alert: AlertThreshold) => Partial<AlertThreshold>) => {
+    const alert = alerts.get(id);
+    if (alert) {
+      alerts.set(id, { ...alert, ...patch(alert) });
+    }
+  };
+
+  return {
+    listForSymbol: async (symbol, limit) =>
+      Array.from(alerts.values())
+        .filter(alert => alert.symbol === symbol)
+        .sort(finishedLast)
+        .slice(0, limit)
+        .map(copyAlert),
+
+    listAll: async limit =>
+      Array.from(alerts.values())
+        .sort((a, b) => a.symbol.localeCompare(b.symbol) || finishedLast(a, b))
+        .slice(0, limit)
+        .map(copyAlert),
+
+    listLive: async (symbol, kind) =>
+      Array.from(alerts.values())
+        .filter(alert => alert.symbol === symbol && isLive(alert) && (!kind || alert.condition.kind === kind))
+        .sort((a, b) => Number(a.id) - Number(b.id))
+        .map(copyAlert),
+
+    liveSymbols: async () =>
+      Array.from(new Set(Array.from(alerts.values()).filter(isLive).map(alert => alert.symbol))).sort(),
+
+    create: async (alert, keepPerSymbol) => {
+      const id = String(nextId++);
+      alerts.set(id, {
+        id,
+        symbol: alert.symbol,
+        condition: { ...alert.condition },
+        rules: { ...alert.rules },
+        status: 'armed',
+        paused: false,
+        createdAt: alert.createdAt,
+        lastFiredAt: null,
+        fireCount: 0,
+      });
+      Array.from(alerts.values())
+        .filter(existing => existing.symbol === alert.symbol)
+        .sort(finishedLast)
+        .slice(keepPerSymbol)
+        .forEach(dropped => alerts.delete(dropped.id));
+      history = history.filter(entry => alerts.has(entry.alertId));
+      return id;
+    },
+
+    remove: async id => {
+      alerts.delete(id);
+      history = history.filter(entry => entry.alertId !== id);
+    },
+
+    setPaused: async (id, paused) => update(id, () => ({ paused })),
+
+    setStatus: async (id, status) => update(id, () => ({ status })),
+
+    rearm: async (id, now) =>
+      update(id, alert => ({
+        status: 'armed',
+        paused: false,
+        rules: {
+          ...alert.rules,
+          expiresAt: alert.rules.expiresAt !== null && alert.rules.expiresAt <= now ? null : alert.rules.expiresAt,
+        },
+      })),
+
+    recordFiring: async (id, firing, keepHistory) => {
+      const alert = alerts.get(id);
+      if (!alert) {
+        return;
+      }
+      update(id, current => ({
+        status: firing.status,
+        lastFiredAt: firing.firedAt,
+        fireCount: current.fireCount + 1,
+      }));
+      const { firedAt, value, message } = firing;
+      history.push({ alertId: id, symbol: alert.symbol, firedAt, value, message });
+      const kept = new Set(
+        history
+          .filter(entry => entry.alertId === id)
+          .sort((a, b) => b.firedAt - a.firedAt)
+          .slice(0, keepHistory)
+      );
+      history = history.filter(entry => entry.alertId !== id || kept.has(entry));
+    },
+
+    listFirings: async id =>
+      history
+        .filter(entry => entry.alertId === id)
+        .reverse()
+        .sort((a, b) => b.firedAt - a.firedAt)
+        .map(entry => ({ ...entry })),
+
+    firingsBetween: async (symbol, from, to, limit) =>
+      history
+        .filter(entry => entry.symbol === symbol && entry.firedAt >= from && entry.firedAt < to)
+        .sort((a, b) => a.firedAt - b.firedAt)
+        .slice(0, limit)
+        .map(entry => ({ ...entry })),
+  };
+};
@@ -0,0 +1,278 @@
+import { SqlDatabase } from './database';
+
+export type Migration = {
+  version: number;
+  description: string;
+  up: (db: SqlDatabase) => Promise<void>;
+};
+
+export type MigrationResult = {
+  from: number;
+  to: number;
+};
+
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaVersionError';
+  }
+}
+
+/*
+ * Add columns a table gained after it was first created. Steps use this instead of a bare ALTER because
+ * development builds created some of these columns before migrations were versioned.
+ * Returns the names it added so a step can backfill them.
+ */
+export const addMissingColumns = async (
+  db: SqlDatabase,
+  table: string,
+  columns: Record<string, string>
+): Promise<string[]> => {
+  const existing = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table});`, []);
+  const added: string[] = [];
+  for (const [name, definition] of Object.entries(columns)) {
+    if (!existing.some(column => column.name === name)) {
+      await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${name} ${definition};`);
+      added.push(name);
+    }
+  }
+  return added;
+};
+
+// Append new steps to the end; never edit a step that has shipped.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Trade cache and price alerts',
+    up: async db => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS price_updates (
+           id INTEGER PRIMARY KEY AUTOINCREMENT,
+           symbol TEXT NOT NULL,
+           price REAL NOT NULL,
+           timestamp INTEGER NOT NULL
+         );
+         CREATE TABLE IF NOT EXISTS price_alerts (
+           id INTEGER PRIMARY KEY AUTOINCREMENT,
+           symbol TEXT NOT NULL,
+           direction TEXT NOT NULL,
+           price REAL NOT NULL,
+           triggered INTEGER NOT NULL DEFAULT 0
+         );`
+      );
+    },
+  },
+  {
+    version: 2,
+    description: 'Persisted watchlist',
+    up: async db => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS watchlist (
+           symbol TEXT PRIMARY KEY NOT NULL,
+           position INTEGER NOT NULL
+         );`
+      );
+    },
+  },
+  {
+    version: 3,
+    description: 'Trade volume and OHLCV candles',
+    up: async db => {
+      await addMissingColumns(db, 'price_updates', { volume: 'REAL NOT NULL DEFAULT 0' });
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS price_candles (
+           symbol TEXT NOT NULL,
+           interval TEXT NOT NULL,
+           start INTEGER NOT NULL,
+           open REAL NOT NULL,
+           high REAL NOT NULL,
+           low REAL NOT NULL,
+           close REAL NOT NULL,
+           volume REAL NOT NULL,
+           trade_count INTEGER NOT NULL,
+           open_time INTEGER NOT NULL,
+           close_time INTEGER NOT NULL,
+           PRIMARY KEY (symbol, interval, start)
+         );`
+      );
+    },
+  },
+  {
+    version: 4,
+    description: 'Alert condition kinds',
+    up: async db => {
+      // Existing alerts are plain price levels, which the column defaults describe.
+      await addMissingColumns(db, 'price_alerts', {
+        kind: `TEXT NOT NULL DEFAULT 'price'`,
+        params: 'TEXT',
+        created_at: 'INTEGER NOT NULL DEFAULT 0',
+      });
+    },
+  },
+  {
+    version: 5,
+    description: 'Alert repeat rules, status and history',
+    up: async db => {
+      const added = await addMissingColumns(db, 'price_alerts', {
+        repeat_mode: `TEXT NOT NULL DEFAULT 'once'`,
+        hysteresis_pct: 'REAL NOT NULL DEFAULT 0.5',
+        cooldown_minutes: 'INTEGER NOT NULL DEFAULT 0',
+        expires_at: 'INTEGER',
+        paused: 'INTEGER NOT NULL DEFAULT 0',
+        status: `TEXT NOT NULL DEFAULT 'armed'`,
+        last_fired_at: 'INTEGER',
+        fire_count: 'INTEGER NOT NULL DEFAULT 0',
+      });
+      // `status` supersedes the old `triggered` flag; carry over alerts that had already fired.
+      if (added.includes('status')) {
+        await db.execAsync(`UPDATE price_alerts SET status = 'done', fire_count = 1 WHERE triggered = 1;`);
+      }
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS alert_history (
+           id INTEGER PRIMARY KEY AUTOINCREMENT,
+           alert_id INTEGER NOT NULL,
+           symbol TEXT NOT NULL,
+           fired_at INTEGER NOT NULL,
+           value REAL NOT NULL,
+           message TEXT NOT NULL
+         );`
+      );
+    },
+  },
+  {
+    version: 6,
+    description: 'Indexes for per-symbol reads and prunes',
+    up: async db => {
+      await db.execAsync(
+        `CREATE INDEX IF NOT EXISTS price_updates_symbol_timestamp ON price_updates (symbol, timestamp);
+         CREATE INDEX IF NOT EXISTS price_alerts_symbol_status ON price_alerts (symbol, status);
+         CREATE INDEX IF NOT EXISTS alert_history_alert_fired ON alert_history (alert_id, fired_at);`
+      );
+    },
+  },
+  {
+    version: 7,
+    description: 'App settings and indexes for retention sweeps',
+    up: async db => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS app_settings (
+           key TEXT PRIMARY KEY NOT NULL,
+           value TEXT NOT NULL
+         );
+         CREATE INDEX IF NOT EXISTS price_updates_timestamp ON price_updates (timestamp);
+         CREATE INDEX IF NOT EXISTS price_candles_interval_start ON price_candles (interval, start);`
+      );
+    },
+  },
+  {
+    version: 8,
+    description: 'Backfill coverage and cached quotes',
+    up: async db => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS candle_coverage (
+           symbol TEXT NOT NULL,
+           interval TEXT NOT NULL,
+           covered_from INTEGER NOT NULL,
+           covered_to INTEGER NOT NULL,
+           fetched_at INTEGER NOT NULL,
+           PRIMARY KEY (symbol, interval)
+         );
+         CREATE TABLE IF NOT EXISTS quote_cache (
+           symbol TEXT PRIMARY KEY NOT NULL,
+           price REAL NOT NULL,
+           change REAL NOT NULL,
+           change_pct REAL NOT NULL,
+           high REAL NOT NULL,
+           low REAL NOT NULL,
+           open REAL NOT NULL,
+           previous_close REAL NOT NULL,
+           quoted_at INTEGER NOT NULL,
+           fetched_at INTEGER NOT NULL
+         );`
+      );
+    },
+  },
+  {
+    version: 9,
+    description: 'Symbol directory cache',
+    up: async db => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS symbol_directory (
+           symbol TEXT PRIMARY KEY NOT NULL,
+           description TEXT NOT NULL,
+           exchange TEXT NOT NULL,
+           type TEXT NOT NULL,
+           fetched_at INTEGER NOT NULL
+         );
+         CREATE TABLE IF NOT EXISTS symbol_searches (
+           query TEXT PRIMARY KEY NOT NULL,
+           searched_at INTEGER NOT NULL
+         );`
+      );
+    },
+  },
+  {
+    version: 10,
+    description: 'Favorite and recent symbols',
+    up: async db => {
+      // The chips earlier builds hard-coded; from here on the list is whatever the user makes of it.
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS favorite_symbols (
+           symbol TEXT PRIMARY KEY NOT NULL,
+           position INTEGER NOT NULL
+         );
+         CREATE TABLE IF NOT EXISTS recent_symbols (
+           symbol TEXT PRIMARY KEY NOT NULL,
+           used_at INTEGER NOT NULL
+         );
+         INSERT OR IGNORE INTO favorite_symbols (symbol, position)
+         VALUES ('AAPL', 0), ('TSLA', 1), ('BINANCE:BTCUSDT', 2);`
+      );
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (db: SqlDatabase): Promise<number> => {
+  const rows = await db.getAllAsync<{ user_version: number }>('PRAGMA user_version;', []);
+  return rows[0]?.user_version ?? 0;
+};
+
+const assertOrdered = (migrations: Migration[]) => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new SchemaVersionError(
+        `Migration ${index + 1} has version ${migration.version}; versions must run 1, 2, 3… without gaps.`
+      );
+    }
+  });
+};
+
+/*
+ * Bring the database up to the newest schema. Each step runs in its own transaction together with the
+ * `user_version` bump, so a failing step leaves the database at the last version that fully applied.
+ */
+export const migrateDatabase = async (
+  db: SqlDatabase,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationResult> => {
+  assertOrdered(migrations);
+  const latest = migrations.length ? migrations[migrations.length - 1].version : 0;
+  const from = await getSchemaVersion(db);
+  if (from > latest) {
+    throw new SchemaVersionError(`Database schema version ${from} is newer than this build supports (${latest}).`);
+  }
+
+  for (const migration of migrations) {
+    if (migration.version <= from) {
+      continue;
+    }
+    await db.withTransactionAsync(async () => {
+      await migration.up(db);
+      await db.execAsync(`PRAGMA user_version = ${migration.version};`);
+    });
+  }
+
+  return { from, to: Math.max(from, latest) };
+};
@@ -0,0 +1,139 @@
+import { AlertCondition, AlertConditionKind, AlertRules, AlertStatus, AlertThreshold } from '../utils/alerts';
+import { CandleCoverage } from '../utils/backfill';
+import { Quote } from '../utils/finnhubRest';
+import { HistoryCursor, HistoryFilter, HistorySummary, HistoryTrade } from '../utils/history';
+import { Candle, CandleInterval } from '../utils/market';
+import { StorageTier, SymbolStorage } from '../utils/retention';
+import { PriceRange } from '../utils/sessionMetrics';
+import { SymbolInfo } from '../utils/symbols';
+import { AlertHistoryEntry, StoredTrade } from './rows';
+
+export type { AlertHistoryEntry, StoredTrade } from './rows';
+
+export interface TradeRepository {
+  // Newest `limit` trades for a symbol, newest first.
+  recentTrades(symbol: string, limit: number): Promise<StoredTrade[]>;
+  // Store a batch of trades in one transaction.
+  appendTrades(trades: StoredTrade[]): Promise<void>;
+  /*
+   * Store the trades the table is missing, matching on symbol, timestamp, price and volume as a multiset: a batch that
+   * holds a match twice stores it until two are stored. Returns the ones stored. Batches must not split a run of
+   * matching trades, or the second part counts the first as already stored.
+   */
+  insertMissingTrades(trades: StoredTrade[]): Promise<StoredTrade[]>;
+  // Oldest `limit` trades of a symbol stamped before `cutoff`, oldest first.
+  tradesBefore(symbol: string, cutoff: number, limit: number): Promise<StoredTrade[]>;
+  // Oldest `limit` trades of a symbol stamped in [from, to), oldest first.
+  tradesBetween(symbol: string, from: number, to: number, limit: number): Promise<StoredTrade[]>;
+  deleteTradesBefore(symbol: string, cutoff: number): Promise<void>;
+  // Up to `limit` trades passing `filter`, by symbol and then newest first, starting after `cursor` when given.
+  browseTrades(filter: HistoryFilter, cursor: HistoryCursor | null, limit: number): Promise<HistoryTrade[]>;
+  // Count, price range and first and last trade of each symbol's trades passing `filter`, sorted by symbol.
+  historySummaries(filter: HistoryFilter): Promise<HistorySummary[]>;
+  deleteTradesById(ids: number[]): Promise<void>;
+  // Delete a symbol's trades passing the filter's time and price bounds; bars built from them are kept.
+  deleteFilteredTrades(symbol: string, filter: HistoryFilter): Promise<void>;
+  // Newest `limit` bars for a series, oldest first.
+  recentCandles(symbol: string, interval: CandleInterval, limit: number): Promise<Candle[]>;
+  // Upsert finished bars; a late fragment for an already stored bar is merged in rather than replacing it.
+  saveCandles(candles: Candle[]): Promise<void>;
+  // Oldest `limit` bars of a series starting before `cutoff`, oldest first.
+  candlesBefore(symbol: string, interval: CandleInterval, cutoff: number, limit: number): Promise<Candle[]>;
+  // Oldest `limit` bars of a series starting in [from, to), oldest first.
+  candlesBetween(symbol: string, interval: CandleInterval, from: number, to: number, limit: number): Promise<Candle[]>;
+  // Low and high of the bars starting in [from, to), or null when none are stored.
+  priceRange(symbol: string, interval: CandleInterval, from: number, to: number): Promise<PriceRange | null>;
+  // Store bars whose bucket is not stored yet; buckets that already exist are left untouched.
+  insertMissingCandles(candles: Candle[]): Promise<void>;
+  deleteCandlesBefore(symbol: string, interval: CandleInterval, cutoff: number): Promise<void>;
+  // Row counts per symbol and tier, sorted by symbol.
+  storageUsage(): Promise<SymbolStorage[]>;
+  // Drop the oldest `rows` rows of a tier across all symbols.
+  trimOldest(tier: StorageTier, rows: number): Promise<void>;
+  // Drop a symbol's trades and bars; alerts and the watchlist are kept.
+  purgeSymbol(symbol: string): Promise<void>;
+  purgeAll(): Promise<void>;
+}
+
+// Small string values that outlive a session, such as user preferences serialized as JSON.
+export interface SettingsRepository {
+  getSetting(key: string): Promise<string | null>;
+  setSetting(key: string, value: string): Promise<void>;
+  allSettings(): Promise<Record<string, string>>;
+}
+
+// Freshness metadata for bars fetched over REST, and the last quote seen per symbol.
+export interface BackfillRepository {
+  getCoverage(symbol: string, interval: CandleInterval): Promise<CandleCoverage | null>;
+  saveCoverage(coverage: CandleCoverage): Promise<void>;
+  latestQuote(symbol: string): Promise<Quote | null>;
+  saveQuote(quote: Quote): Promise<void>;
+  // Drop what is known about the symbols, or about every symbol when null, once their bars are purged.
+  forget(symbols: string[] | null): Promise<void>;
+}
+
+// Symbols learned from Finnhub's search, and when each query was last asked, so autocomplete works offline.
+export interface SymbolRepository {
+  // Cached symbols starting with `query` or whose name contains it, shortest symbols first.
+  search(query: string, limit: number): Promise<SymbolInfo[]>;
+  find(symbol: string): Promise<SymbolInfo | null>;
+  save(symbols: SymbolInfo[], fetchedAt: number): Promise<void>;
+  searchedAt(query: string): Promise<number | null>;
+  markSearched(query: string, searchedAt: number): Promise<void>;
+}
+
+// The user's quick-select chips and watchlist in their order, and the symbols most recently subscribed to.
+export interface FavoritesRepository {
+  listFavorites(): Promise<string[]>;
+  // Replace the stored favorites with `symbols`, in that order.
+  saveFavorites(symbols: string[]): Promise<void>;
+  // Newest first.
+  recentSymbols(limit: number): Promise<string[]>;
+  // Mark a symbol as just used and keep only the newest `keep`.
+  touchRecent(symbol: string, usedAt: number, keep: number): Promise<void>;
+  listWatchlist(): Promise<string[]>;
+  // Replace the stored watchlist with `symbols`, in that order.
+  saveWatchlist(symbols: string[]): Promise<void>;
+  // Append a symbol to the end of the watchlist unless it is already on it.
+  addToWatchlist(symbol: string): Promise<void>;
+  removeFromWatchlist(symbol: string): Promise<void>;
+}
+
+export type NewAlert = {
+  symbol: string;
+  condition: AlertCondition;
+  rules: AlertRules;
+  createdAt: number;
+};
+
+export type AlertFiring = {
+  firedAt: number;
+  // Status the alert moves to after firing.
+  status: AlertStatus;
+  value: number;
+  message: string;
+};
+
+// Alert lists put live alerts before finished ones, newest first within each group.
+export interface AlertRepository {
+  listForSymbol(symbol: string, limit: number): Promise<AlertThreshold[]>;
+  // Every alert ordered by symbol.
+  listAll(limit: number): Promise<AlertThreshold[]>;
+  // Unpaused armed or waiting alerts for a symbol, optionally of one kind only.
+  listLive(symbol: string, kind?: AlertConditionKind): Promise<AlertThreshold[]>;
+  // Symbols that have at least one unpaused armed or waiting alert, sorted.
+  liveSymbols(): Promise<string[]>;
+  // Insert an alert and cap the symbol at `keepPerSymbol` alerts, dropping finished ones first. Returns the new id.
+  create(alert: NewAlert, keepPerSymbol: number): Promise<string>;
+  remove(id: string): Promise<void>;
+  setPaused(id: string, paused: boolean): Promise<void>;
+  setStatus(id: string, status: AlertStatus): Promise<void>;
+  // Put an alert back to armed and unpaused; an expiry at or before `now` is cleared.
+  rearm(id: string, now: number): Promise<void>;
+  // Record a firing and keep only the newest `keepHistory` history entries for the alert.
+  recordFiring(id: string, firing: AlertFiring, keepHistory: number): Promise<void>;
+  // An alert's logged firings, newest first.
+  listFirings(id: string): Promise<AlertHistoryEntry[]>;
+  // Oldest `limit` firings of any alert on a symbol logged in [from, to), oldest first.
+  firingsBetween(symbol: string, from: number, to: number, limit: number): Promise<AlertHistoryEntry[]>;
+}
@@ -0,0 +1,120 @@
+import { bucketStart, CANDLE_INTERVAL_MS, CandleInterval } from '../utils/market';
+import {
+  downsampleTrades,
+  planBudgetTrim,
+  retentionCutoffs,
+  retentionPolicyFor,
+  RetentionSettings,
+  rollupCandles,
+} from '../utils/retention';
+import { TradeRepository } from './repositories';
+
+// Rows read per step while rolling expiring data up, so a long backlog never has to fit in memory at once.
+const ROLLUP_CHUNK = 1000;
+
+type Rollup<T> = {
+  read: (cutoff: number, limit: number) => Promise<T[]>;
+  // Oldest first, rows stamped in [from, to).
+  readBetween: (from: number, to: number, limit: number) => Promise<T[]>;
+  timestamp: (row: T) => number;
+  write: (rows: T[]) => Promise<void>;
+  remove: (cutoff: number) => Promise<void>;
+};
+
+/*
+ * Every row of one bucket, for a bucket too busy to fit in one chunk. Each chunk after the first resumes at the
+ * previous chunk's last timestamp, whose rows may run on into it, so those rows are only kept from the later read;
+ * a chunk holding nothing but one timestamp is read again at twice the size.
+ */
+const readBucket = async <T>(rollup: Rollup<T>, from: number, to: number): Promise<T[]> => {
+  const rows: T[] = [];
+  let limit = ROLLUP_CHUNK;
+  for (;;) {
+    const chunk = await rollup.readBetween(from, to, limit);
+    if (chunk.length < limit) {
+      return [...rows, ...chunk];
+    }
+    const last = rollup.timestamp(chunk[chunk.length - 1]);
+    const settled = chunk.filter(row => rollup.timestamp(row) < last);
+    if (settled.length) {
+      rows.push(...settled);
+      from = last;
+    } else {
+      limit *= 2;
+    }
+  }
+};
+
+/*
+ * Summarize and delete the rows of one tier stamped before `cutoff`, oldest first. `cutoff` is aligned to the
+ * target interval so every summarized bucket is complete. When a full chunk ends inside a bucket, that bucket is
+ * left for the next step; a single bucket too busy to fit in one chunk is read to its end before it is summarized.
+ */
+const rollUpBefore = async <T>(rollup: Rollup<T>, interval: CandleInterval, cutoff: number) => {
+  for (;;) {
+    let rows = await rollup.read(cutoff, ROLLUP_CHUNK);
+    if (!rows.length) {
+      return;
+    }
+    let boundary = cutoff;
+    if (rows.length === ROLLUP_CHUNK) {
+      const firstBucket = bucketStart(rollup.timestamp(rows[0]), interval);
+      const lastBucket = bucketStart(rollup.timestamp(rows[rows.length - 1]), interval);
+      boundary = lastBucket > firstBucket ? lastBucket : Math.min(cutoff, lastBucket + CANDLE_INTERVAL_MS[interval]);
+      if (lastBucket === firstBucket) {
+        rows = await readBucket(rollup, firstBucket, boundary);
+      }
+    }
+    await rollup.write(rows.filter(row => rollup.timestamp(row) < boundary));
+    await rollup.remove(boundary);
+    if (boundary === cutoff) {
+      return;
+    }
+  }
+};
+
+/*
+ * Apply the retention policy to `symbols`, then trim the whole store back under the budget. Expiring ticks become
+ * 1m bars and expiring 1m bars become hourly bars; bars the live aggregator already stored are kept as they are.
+ */
+export const applyRetention = async (
+  repository: TradeRepository,
+  settings: RetentionSettings,
+  symbols: string[],
+  now: number
+) => {
+  for (const symbol of symbols) {
+    const cutoffs = retentionCutoffs(retentionPolicyFor(settings, symbol), now);
+
+    await rollUpBefore(
+      {
+        read: (cutoff, limit) => repository.tradesBefore(symbol, cutoff, limit),
+        readBetween: (from, to, limit) => repository.tradesBetween(symbol, from, to, limit),
+        timestamp: trade => trade.timestamp,
+        write: trades => repository.insertMissingCandles(downsampleTrades(trades, '1m')),
+        remove: cutoff => repository.deleteTradesBefore(symbol, cutoff),
+      },
+      '1m',
+      bucketStart(cutoffs.raw, '1m')
+    );
+    await repository.deleteCandlesBefore(symbol, '1s', cutoffs.raw);
+
+    await rollUpBefore(
+      {
+        read: (cutoff, limit) => repository.candlesBefore(symbol, '1m', cutoff, limit),
+        readBetween: (from, to, limit) => repository.candlesBetween(symbol, '1m', from, to, limit),
+        timestamp: candle => candle.start,
+        write: candles => repository.insertMissingCandles(rollupCandles(candles, '1h')),
+        remove: cutoff => repository.deleteCandlesBefore(symbol, '1m', cutoff),
+      },
+      '1h',
+      bucketStart(cutoffs.minute, '1h')
+    );
+    await repository.deleteCandlesBefore(symbol, '5m', cutoffs.minute);
+    await repository.deleteCandlesBefore(symbol, '1h', cutoffs.hour);
+  }
+
+  for (const trim of planBudgetTrim(await repository.storageUsage(), settings.budgetMb)) {
+    await repository.trimOldest(trim.tier, trim.rows);
+  }
+};
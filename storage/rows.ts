@@ -0,0 +1,227 @@
+import {
+  ALERT_REPEAT_MODES,
+  AlertStatus,
+  AlertThreshold,
+  alertConditionFromRow,
+} from '../utils/alerts';
+import { CandleCoverage } from '../utils/backfill';
+import { Quote } from '../utils/finnhubRest';
+import { HistorySummary, HistoryTrade } from '../utils/history';
+import { Candle, CANDLE_INTERVALS, CandleInterval } from '../utils/market';
+import { PriceRange } from '../utils/sessionMetrics';
+import { SymbolInfo } from '../utils/symbols';
+
+export type StoredTrade = {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  volume: number;
+};
+
+export type AlertHistoryEntry = {
+  alertId: string;
+  symbol: string;
+  firedAt: number;
+  value: number;
+  message: string;
+};
+
+export type SqlRow = Record<string, unknown>;
+
+const ALERT_STATUSES: AlertStatus[] = ['armed', 'waiting', 'done', 'expired'];
+
+// Thrown for a stored row that cannot be read back faithfully; repositories skip such rows rather than guess.
+export class RowValidationError extends Error {
+  constructor(table: string, column: string, value: unknown) {
+    super(`Invalid ${table}.${column}: ${JSON.stringify(value) ?? String(value)}`);
+    this.name = 'RowValidationError';
+  }
+}
+
+const readText = (table: string, row: SqlRow, column: string): string => {
+  const value = row[column];
+  if (typeof value !== 'string' || !value) {
+    throw new RowValidationError(table, column, value);
+  }
+  return value;
+};
+
+const readNumber = (table: string, row: SqlRow, column: string, min = -Infinity): number => {
+  const value = row[column];
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+    throw new RowValidationError(table, column, value);
+  }
+  return value;
+};
+
+const readCount = (table: string, row: SqlRow, column: string): number => {
+  const value = readNumber(table, row, column, 0);
+  if (!Number.isInteger(value)) {
+    throw new RowValidationError(table, column, value);
+  }
+  return value;
+};
+
+const readOptionalNumber = (table: string, row: SqlRow, column: string): number | null =>
+  row[column] === null || row[column] === undefined ? null : readNumber(table, row, column);
+
+const readOneOf = <T extends string>(table: string, row: SqlRow, column: string, allowed: readonly T[]): T => {
+  const value = row[column];
+  if (!allowed.includes(value as T)) {
+    throw new RowValidationError(table, column, value);
+  }
+  return value as T;
+};
+
+export const readTradeRow = (row: SqlRow): StoredTrade => ({
+  symbol: readText('price_updates', row, 'symbol'),
+  price: readNumber('price_updates', row, 'price', Number.MIN_VALUE),
+  timestamp: readNumber('price_updates', row, 'timestamp', 0),
+  volume: readNumber('price_updates', row, 'volume', 0),
+});
+
+export const readHistoryTradeRow = (row: SqlRow): HistoryTrade => ({
+  id: readCount('price_updates', row, 'id'),
+  ...readTradeRow(row),
+});
+
+export const readHistorySummaryRow = (row: SqlRow): HistorySummary => ({
+  symbol: readText('price_updates', row, 'symbol'),
+  count: readCount('price_updates', row, 'total'),
+  low: readNumber('price_updates', row, 'low', Number.MIN_VALUE),
+  high: readNumber('price_updates', row, 'high', Number.MIN_VALUE),
+  firstPrice: readNumber('price_updates', row, 'first_price', Number.MIN_VALUE),
+  firstAt: readNumber('price_updates', row, 'first_at', 0),
+  lastPrice: readNumber('price_updates', row, 'last_price', Number.MIN_VALUE),
+  lastAt: readNumber('price_updates', row, 'last_at', 0),
+});
+
+export const readCandleRow = (row: SqlRow): Candle => {
+  const candle: Candle = {
+    symbol: readText('price_candles', row, 'symbol'),
+    interval: readOneOf<CandleInterval>('price_candles', row, 'interval', CANDLE_INTERVALS),
+    start: readNumber('price_candles', row, 'start', 0),
+    open: readNumber('price_candles', row, 'open'),
+    high: readNumber('price_candles', row, 'high'),
+    low: readNumber('price_candles', row, 'low'),
+    close: readNumber('price_candles', row, 'close'),
+    volume: readNumber('price_candles', row, 'volume', 0),
+    tradeCount: readCount('price_candles', row, 'trade_count'),
+    openTime: readNumber('price_candles', row, 'open_time', 0),
+    closeTime: readNumber('price_candles', row, 'close_time', 0),
+  };
+  if (candle.low > Math.min(candle.open, candle.close) || candle.high < Math.max(candle.open, candle.close)) {
+    throw new RowValidationError('price_candles', 'high/low', [candle.high, candle.low]);
+  }
+  return candle;
+};
+
+export const readCoverageRow = (row: SqlRow): CandleCoverage => {
+  const coverage: CandleCoverage = {
+    symbol: readText('candle_coverage', row, 'symbol'),
+    interval: readOneOf<CandleInterval>('candle_coverage', row, 'interval', CANDLE_INTERVALS),
+    from: readNumber('candle_coverage', row, 'covered_from', 0),
+    to: readNumber('candle_coverage', row, 'covered_to', 0),
+    fetchedAt: readNumber('candle_coverage', row, 'fetched_at', 0),
+  };
+  if (coverage.to < coverage.from) {
+    throw new RowValidationError('candle_coverage', 'covered_to', coverage.to);
+  }
+  return coverage;
+};
+
+export const readPriceRangeRow = (row: SqlRow): PriceRange => {
+  const range: PriceRange = {
+    low: readNumber('price_candles', row, 'low'),
+    high: readNumber('price_candles', row, 'high'),
+    firstStart: readNumber('price_candles', row, 'first_start', 0),
+  };
+  if (range.low > range.high) {
+    throw new RowValidationError('price_candles', 'high/low', [range.high, range.low]);
+  }
+  return range;
+};
+
+export const readQuoteRow = (row: SqlRow): Quote => ({
+  symbol: readText('quote_cache', row, 'symbol'),
+  price: readNumber('quote_cache', row, 'price', Number.MIN_VALUE),
+  change: readNumber('quote_cache', row, 'change'),
+  changePercent: readNumber('quote_cache', row, 'change_pct'),
+  high: readNumber('quote_cache', row, 'high', 0),
+  low: readNumber('quote_cache', row, 'low', 0),
+  open: readNumber('quote_cache', row, 'open', 0),
+  previousClose: readNumber('quote_cache', row, 'previous_close', 0),
+  quotedAt: readNumber('quote_cache', row, 'quoted_at', 0),
+  fetchedAt: readNumber('quote_cache', row, 'fetched_at', 0),
+});
+
+export const readSymbolRow = (row: SqlRow): SymbolInfo => ({
+  symbol: readText('symbol_directory', row, 'symbol'),
+  description: readText('symbol_directory', row, 'description'),
+  exchange: readText('symbol_directory', row, 'exchange'),
+  type: readText('symbol_directory', row, 'type'),
+});
+
+export const readAlertHistoryRow = (row: SqlRow): AlertHistoryEntry => ({
+  alertId: String(readCount('alert_history', row, 'alert_id')),
+  symbol: readText('alert_history', row, 'symbol'),
+  firedAt: readNumber('alert_history', row, 'fired_at', 0),
+  value: readNumber('alert_history', row, 'value'),
+  message: readText('alert_history', row, 'message'),
+});
+
+export const readAlertRow = (row: SqlRow): AlertThreshold => {
+  const kind = readText('price_alerts', row, 'kind');
+  const condition = alertConditionFromRow({
+    kind,
+    direction: readOneOf('price_alerts', row, 'direction', ['above', 'below'] as const),
+    price: readNumber('price_alerts', row, 'price'),
+    params: row.params === null || typeof row.params === 'string' ? row.params : null,
+  });
+  if (!condition) {
+    throw new RowValidationError('price_alerts', 'params', row.params ?? kind);
+  }
+  const paused = readCount('price_alerts', row, 'paused');
+  if (paused > 1) {
+    throw new RowValidationError('price_alerts', 'paused', paused);
+  }
+  return {
+    id: String(readCount('price_alerts', row, 'id')),
+    symbol: readText('price_alerts', row, 'symbol'),
+    condition,
+    rules: {
+      repeat: readOneOf('price_alerts', row, 'repeat_mode', ALERT_REPEAT_MODES),
+      hysteresisPercent: readNumber('price_alerts', row, 'hysteresis_pct', 0),
+      cooldownMinutes: readNumber('price_alerts', row, 'cooldown_minutes', 0),
+      expiresAt: readOptionalNumber('price_alerts', row, 'expires_at'),
+    },
+    status: readOneOf('price_alerts', row, 'status', ALERT_STATUSES),
+    paused: paused === 1,
+    createdAt: readNumber('price_alerts', row, 'created_at', 0),
+    lastFiredAt: readOptionalNumber('price_alerts', row, 'last_fired_at'),
+    fireCount: readCount('price_alerts', row, 'fire_count'),
+  };
+};
+
+/*
+ * Read every row with `reader`, dropping the ones that fail validation. Corrupt rows are reported once per
+ * query so a damaged table is visible in logs without one bad row hiding the rest.
+ */
+export const readRows = <T>(rows: SqlRow[], reader: (row: SqlRow) => T): T[] => {
+  const valid: T[] = [];
+  const errors: RowValidationError[] = [];
+  rows.forEach(row => {
+    try {
+      valid.push(reader(row));
+    } catch (err) {
+      if (!(err instanceof RowValidationError)) {
+        throw err;
+      }
+      errors.push(err);
+    }
+  });
+  if (errors.length) {
+    console.warn(`Skipped ${errors.length} corrupt row(s): ${errors[0].message}`);
+  }
+  return valid;
+};
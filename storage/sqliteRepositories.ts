@@ -0,0 +1,714 @@
+import { alertConditionToRow } from '../utils/alerts';
+import { HistoryFilter } from '../utils/history';
+import { Candle } from '../utils/market';
+import { STORAGE_TIERS, StorageTier, SymbolStorage } from '../utils/retention';
+import { runTransaction, SqlDatabase, SqlValue } from './database';
+import {
+  AlertRepository,
+  BackfillRepository,
+  FavoritesRepository,
+  SettingsRepository,
+  StoredTrade,
+  SymbolRepository,
+  TradeRepository,
+} from './repositories';
+import {
+  readAlertHistoryRow,
+  readAlertRow,
+  readCandleRow,
+  readCoverageRow,
+  readHistorySummaryRow,
+  readHistoryTradeRow,
+  readPriceRangeRow,
+  readQuoteRow,
+  readRows,
+  readSymbolRow,
+  readTradeRow,
+  SqlRow,
+} from './rows';
+
+const ALERT_COLUMNS = `id, symbol, kind, direction, price, params, created_at, repeat_mode, hysteresis_pct,
+  cooldown_minutes, expires_at, paused, status, last_fired_at, fire_count`;
+const LIVE_ALERT = `paused = 0 AND status IN ('armed', 'waiting')`;
+const FINISHED_LAST = `status IN ('done', 'expired') ASC, id DESC`;
+// Rows per multi-row INSERT; 4 parameters each stays well under SQLite's default limit of 999 bound parameters.
+const TRADE_INSERT_CHUNK = 200;
+const TRADE_COLUMNS = 'symbol, price, timestamp, volume';
+const CANDLE_COLUMNS = 'symbol, interval, start, open, high, low, close, volume, trade_count, open_time, close_time';
+
+const candleParams = (candle: Candle): SqlValue[] => [
+  candle.symbol,
+  candle.interval,
+  candle.start,
+  candle.open,
+  candle.high,
+  candle.low,
+  candle.close,
+  candle.volume,
+  candle.tradeCount,
+  candle.openTime,
+  candle.closeTime,
+];
+
+// `%` and `_` are wildcards to LIKE, and `_` is common in forex pairs such as OANDA:EUR_USD.
+const escapeLike = (text: string): string => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+// WHERE clauses and parameters selecting the trades that pass a history filter.
+const historyConditions = (filter: HistoryFilter): { clauses: string[]; params: SqlValue[] } => {
+  const clauses: string[] = [];
+  const params: SqlValue[] = [];
+  if (filter.symbolQuery) {
+    clauses.push(`symbol LIKE ? ESCAPE '\\'`);
+    params.push(`%${escapeLike(filter.symbolQuery)}%`);
+  }
+  const bounds: Array<[string, number | null]> = [
+    ['timestamp >= ?', filter.from],
+    ['timestamp < ?', filter.to],
+    ['price >= ?', filter.minPrice],
+    ['price <= ?', filter.maxPrice],
+  ];
+  bounds.forEach(([clause, value]) => {
+    if (value !== null) {
+      clauses.push(clause);
+      params.push(value);
+    }
+  });
+  return { clauses, params };
+};
+
+const emptyTiers = (): Record<StorageTier, number> =>
+  Object.fromEntries(STORAGE_TIERS.map(tier => [tier, 0])) as Record<StorageTier, number>;
+
+export const createSqliteTradeRepository = (db: SqlDatabase): TradeRepository => ({
+  recentTrades: async (symbol, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${TRADE_COLUMNS} FROM price_updates WHERE symbol = ? ORDER BY timestamp DESC LIMIT ?;`,
+        [symbol, limit]
+      ),
+      readTradeRow
+    ),
+
+  appendTrades: async trades => {
+    if (!trades.length) {
+      return;
+    }
+    await runTransaction(db, async () => {
+      for (let offset = 0; offset < trades.length; offset += TRADE_INSERT_CHUNK) {
+        const chunk = trades.slice(offset, offset + TRADE_INSERT_CHUNK);
+        const params: SqlValue[] = [];
+        chunk.forEach(trade => params.push(trade.symbol, trade.price, trade.timestamp, trade.volume));
+        const rows = chunk.map(() => '(?, ?, ?, ?)').join(', ');
+        await db.runAsync(`INSERT INTO price_updates (${TRADE_COLUMNS}) VALUES ${rows};`, params);
+      }
+    });
+  },
+
+  insertMissingTrades: async trades => {
+    const inserted: StoredTrade[] = [];
+    if (!trades.length) {
+      return inserted;
+    }
+    // How many times each trade has come up in the batch so far.
+    const seen = new Map<string, number>();
+    await runTransaction(db, async () => {
+      for (const trade of trades) {
+        const params = [trade.symbol, trade.timestamp, trade.price, trade.volume];
+        const key = params.join('\n');
+        const occurrence = (seen.get(key) ?? 0) + 1;
+        seen.set(key, occurrence);
+        const result = await db.runAsync(
+          `INSERT INTO price_updates (symbol, timestamp, price, volume)
+           SELECT ?, ?, ?, ?
+           WHERE (
+             SELECT COUNT(*) FROM price_updates WHERE symbol = ? AND timestamp = ? AND price = ? AND volume = ?
+           ) < ?;`,
+          [...params, ...params, occurrence]
+        );
+        if (result.changes > 0) {
+          inserted.push(trade);
+        }
+      }
+    });
+    return inserted;
+  },
+
+  tradesBefore: async (symbol, cutoff, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${TRADE_COLUMNS} FROM price_updates
+         WHERE symbol = ? AND timestamp < ?
+         ORDER BY timestamp ASC
+         LIMIT ?;`,
+        [symbol, cutoff, limit]
+      ),
+      readTradeRow
+    ),
+
+  tradesBetween: async (symbol, from, to, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${TRADE_COLUMNS} FROM price_updates
+         WHERE symbol = ? AND timestamp >= ? AND timestamp < ?
+         ORDER BY timestamp ASC
+         LIMIT ?;`,
+        [symbol, from, to, limit]
+      ),
+      readTradeRow
+    ),
+
+  deleteTradesBefore: async (symbol, cutoff) => {
+    await db.runAsync(`DELETE FROM price_updates WHERE symbol = ? AND timestamp < ?;`, [symbol, cutoff]);
+  },
+
+  browseTrades: async (filter, cursor, limit) => {
+    const { clauses, params } = historyConditions(filter);
+    if (cursor) {
+      clauses.push('(symbol > ? OR (symbol = ? AND (timestamp < ? OR (timestamp = ? AND id < ?))))');
+      params.push(cursor.symbol, cursor.symbol, cursor.timestamp, cursor.timestamp, cursor.id);
+    }
+    return readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT id, ${TRADE_COLUMNS} FROM price_updates
+         ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+         ORDER BY symbol ASC, timestamp DESC, id DESC
+         LIMIT ?;`,
+        [...params, limit]
+      ),
+      readHistoryTradeRow
+    );
+  },
+
+  historySummaries: async filter => {
+    const { clauses, params } = historyConditions(filter);
+    return readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT symbol, COUNT(*) AS total, MIN(price) AS low, MAX(price) AS high,
+           MIN(timestamp) AS first_at, MAX(timestamp) AS last_at,
+           MAX(CASE WHEN first_rank = 1 THEN price END) AS first_price,
+           MAX(CASE WHEN last_rank = 1 THEN price END) AS last_price
+         FROM (
+           SELECT symbol, price, timestamp,
+             ROW_NUMBER() OVER (PARTITION BY symbol ORDER BY timestamp ASC, id ASC) AS first_rank,
+             ROW_NUMBER() OVER (PARTITION BY symbol ORDER BY timestamp DESC, id DESC) AS last_rank
+           FROM price_updates
+           ${clauses.length ? `WHERE ${clauses.join(' AND ')}` : ''}
+         )
+         GROUP BY symbol
+         ORDER BY symbol ASC;`,
+        params
+      ),
+      readHistorySummaryRow
+    );
+  },
+
+  deleteTradesById: async ids => {
+    if (!ids.length) {
+      return;
+    }
+    await runTransaction(db, async () => {
+      for (let offset = 0; offset < ids.length; offset += TRADE_INSERT_CHUNK) {
+        const chunk = ids.slice(offset, offset + TRADE_INSERT_CHUNK);
+        await db.runAsync(`DELETE FROM price_updates WHERE id IN (${chunk.map(() => '?').join(', ')});`, chunk);
+      }
+    });
+  },
+
+  deleteFilteredTrades: async (symbol, filter) => {
+    const { clauses, params } = historyConditions({ ...filter, symbolQuery: '' });
+    await db.runAsync(`DELETE FROM price_updates WHERE ${['symbol = ?', ...clauses].join(' AND ')};`, [
+      symbol,
+      ...params,
+    ]);
+  },
+
+  recentCandles: async (symbol, interval, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${CANDLE_COLUMNS}
+         FROM price_candles
+         WHERE symbol = ? AND interval = ?
+         ORDER BY start DESC
+         LIMIT ?;`,
+        [symbol, interval, limit]
+      ),
+      readCandleRow
+    ).reverse(),
+
+  saveCandles: async candles => {
+    if (!candles.length) {
+      return;
+    }
+    await runTransaction(db, async () => {
+      for (const candle of candles) {
+        await db.runAsync(
+          `INSERT INTO price_candles (${CANDLE_COLUMNS})
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (symbol, interval, start) DO UPDATE SET
+             open = CASE WHEN excluded.open_time < open_time THEN excluded.open ELSE open END,
+             open_time = MIN(open_time, excluded.open_time),
+             close = CASE WHEN excluded.close_time >= close_time THEN excluded.close ELSE close END,
+             close_time = MAX(close_time, excluded.close_time),
+             high = MAX(high, excluded.high),
+             low = MIN(low, excluded.low),
+             volume = volume + excluded.volume,
+             trade_count = trade_count + excluded.trade_count;`,
+          candleParams(candle)
+        );
+      }
+    });
+  },
+
+  candlesBefore: async (symbol, interval, cutoff, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${CANDLE_COLUMNS}
+         FROM price_candles
+         WHERE symbol = ? AND interval = ? AND start < ?
+         ORDER BY start ASC
+         LIMIT ?;`,
+        [symbol, interval, cutoff, limit]
+      ),
+      readCandleRow
+    ),
+
+  candlesBetween: async (symbol, interval, from, to, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${CANDLE_COLUMNS}
+         FROM price_candles
+         WHERE symbol = ? AND interval = ? AND start >= ? AND start < ?
+         ORDER BY start ASC
+         LIMIT ?;`,
+        [symbol, interval, from, to, limit]
+      ),
+      readCandleRow
+    ),
+
+  priceRange: async (symbol, interval, from, to) => {
+    const rows = await db.getAllAsync<SqlRow>(
+      `SELECT MIN(low) AS low, MAX(high) AS high, MIN(start) AS first_start
+       FROM price_candles
+       WHERE symbol = ? AND interval = ? AND start >= ? AND start < ?;`,
+      [symbol, interval, from, to]
+    );
+    // The aggregate returns one row of nulls when no bars match.
+    return rows.length && rows[0].first_start !== null ? readPriceRangeRow(rows[0]) : null;
+  },
+
+  insertMissingCandles: async candles => {
+    if (!candles.length) {
+      return;
+    }
+    await runTransaction(db, async () => {
+      for (const candle of candles) {
+        await db.runAsync(
+          `INSERT INTO price_candles (${CANDLE_COLUMNS})
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (symbol, interval, start) DO NOTHING;`,
+          candleParams(candle)
+        );
+      }
+    });
+  },
+
+  deleteCandlesBefore: async (symbol, interval, cutoff) => {
+    await db.runAsync(`DELETE FROM price_candles WHERE symbol = ? AND interval = ? AND start < ?;`, [
+      symbol,
+      interval,
+      cutoff,
+    ]);
+  },
+
+  storageUsage: async () => {
+    const trades = await db.getAllAsync<{ symbol: unknown; total: unknown }>(
+      `SELECT symbol, COUNT(*) AS total FROM price_updates GROUP BY symbol;`,
+      []
+    );
+    const candles = await db.getAllAsync<{ symbol: unknown; interval: unknown; total: unknown }>(
+      `SELECT symbol, interval, COUNT(*) AS total FROM price_candles GROUP BY symbol, interval;`,
+      []
+    );
+    const bySymbol = new Map<string, SymbolStorage>();
+    const add = (symbol: unknown, tier: unknown, total: unknown) => {
+      if (typeof symbol !== 'string' || !STORAGE_TIERS.includes(tier as StorageTier) || typeof total !== 'number') {
+        return;
+      }
+      const entry = bySymbol.get(symbol) ?? { symbol, rows: emptyTiers() };
+      entry.rows[tier as StorageTier] += total;
+      bySymbol.set(symbol, entry);
+    };
+    trades.forEach(row => add(row.symbol, 'trades', row.total));
+    candles.forEach(row => add(row.symbol, row.interval, row.total));
+    return Array.from(bySymbol.values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+  },
+
+  trimOldest: async (tier, rows) => {
+    if (tier === 'trades') {
+      await db.runAsync(
+        `DELETE FROM price_updates WHERE id IN (SELECT id FROM price_updates ORDER BY timestamp ASC LIMIT ?);`,
+        [rows]
+      );
+      return;
+    }
+    await db.runAsync(
+      `DELETE FROM price_candles
+       WHERE rowid IN (SELECT rowid FROM price_candles WHERE interval = ? ORDER BY start ASC LIMIT ?);`,
+      [tier, rows]
+    );
+  },
+
+  purgeSymbol: async symbol => {
+    await runTransaction(db, async () => {
+      await db.runAsync(`DELETE FROM price_updates WHERE symbol = ?;`, [symbol]);
+      await db.runAsync(`DELETE FROM price_candles WHERE symbol = ?;`, [symbol]);
+    });
+  },
+
+  purgeAll: async () => {
+    await runTransaction(db, async () => {
+      await db.runAsync(`DELETE FROM price_updates;`, []);
+      await db.runAsync(`DELETE FROM price_candles;`, []);
+    });
+  },
+});
+
+export const createSqliteSettingsRepository = (db: SqlDatabase): SettingsRepository => ({
+  getSetting: async key => {
+    const rows = await db.getAllAsync<{ value: unknown }>(`SELECT value FROM app_settings WHERE key = ?;`, [key]);
+    return typeof rows[0]?.value === 'string' ? rows[0].value : null;
+  },
+
+  setSetting: async (key, value) => {
+    await db.runAsync(
+      `INSERT INTO app_settings (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value;`,
+      [key, value]
+    );
+  },
+
+  allSettings: async () => {
+    const rows = await db.getAllAsync<{ key: unknown; value: unknown }>(
+      `SELECT key, value FROM app_settings ORDER BY key ASC;`,
+      []
+    );
+    return Object.fromEntries(
+      rows
+        .filter(row => typeof row.key === 'string' && typeof row.value === 'string')
+        .map(row => [row.key as string, row.value as string])
+    );
+  },
+});
+
+const QUOTE_COLUMNS =
+  'symbol, price, change, change_pct, high, low, open, previous_close, quoted_at, fetched_at';
+
+export const createSqliteBackfillRepository = (db: SqlDatabase): BackfillRepository => ({
+  getCoverage: async (symbol, interval) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT symbol, interval, covered_from, covered_to, fetched_at
+         FROM candle_coverage WHERE symbol = ? AND interval = ?;`,
+        [symbol, interval]
+      ),
+      readCoverageRow
+    )[0] ?? null,
+
+  saveCoverage: async coverage => {
+    await db.runAsync(
+      `INSERT INTO candle_coverage (symbol, interval, covered_from, covered_to, fetched_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (symbol, interval) DO UPDATE SET
+         covered_from = excluded.covered_from, covered_to = excluded.covered_to, fetched_at = excluded.fetched_at;`,
+      [coverage.symbol, coverage.interval, coverage.from, coverage.to, coverage.fetchedAt]
+    );
+  },
+
+  latestQuote: async symbol =>
+    readRows(
+      await db.getAllAsync<SqlRow>(`SELECT ${QUOTE_COLUMNS} FROM quote_cache WHERE symbol = ?;`, [symbol]),
+      readQuoteRow
+    )[0] ?? null,
+
+  saveQuote: async quote => {
+    await db.runAsync(
+      `INSERT OR REPLACE INTO quote_cache (${QUOTE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+      [
+        quote.symbol,
+        quote.price,
+        quote.change,
+        quote.changePercent,
+        quote.high,
+        quote.low,
+        quote.open,
+        quote.previousClose,
+        quote.quotedAt,
+        quote.fetchedAt,
+      ]
+    );
+  },
+
+  forget: async symbols => {
+    await runTransaction(db, async () => {
+      if (!symbols) {
+        await db.runAsync(`DELETE FROM candle_coverage;`, []);
+        await db.runAsync(`DELETE FROM quote_cache;`, []);
+        return;
+      }
+      for (const symbol of symbols) {
+        await db.runAsync(`DELETE FROM candle_coverage WHERE symbol = ?;`, [symbol]);
+        await db.runAsync(`DELETE FROM quote_cache WHERE symbol = ?;`, [symbol]);
+      }
+    });
+  },
+});
+
+const readSymbols = (rows: Array<{ symbol: unknown }>): string[] =>
+  rows.map(row => row.symbol).filter((symbol): symbol is string => typeof symbol === 'string' && symbol.length > 0);
+
+export const createSqliteFavoritesRepository = (db: SqlDatabase): FavoritesRepository => ({
+  listFavorites: async () =>
+    readSymbols(
+      await db.getAllAsync<{ symbol: unknown }>(`SELECT symbol FROM favorite_symbols ORDER BY position ASC;`, [])
+    ),
+
+  saveFavorites: async symbols => {
+    await runTransaction(db, async () => {
+      await db.runAsync(`DELETE FROM favorite_symbols;`, []);
+      for (const [position, symbol] of symbols.entries()) {
+        await db.runAsync(`INSERT OR IGNORE INTO favorite_symbols (symbol, position) VALUES (?, ?);`, [
+          symbol,
+          position,
+        ]);
+      }
+    });
+  },
+
+  recentSymbols: async limit =>
+    readSymbols(
+      await db.getAllAsync<{ symbol: unknown }>(
+        `SELECT symbol FROM recent_symbols ORDER BY used_at DESC, symbol ASC LIMIT ?;`,
+        [limit]
+      )
+    ),
+
+  touchRecent: async (symbol, usedAt, keep) => {
+    await runTransaction(db, async () => {
+      await db.runAsync(`INSERT OR REPLACE INTO recent_symbols (symbol, used_at) VALUES (?, ?);`, [symbol, usedAt]);
+      await db.runAsync(
+        `DELETE FROM recent_symbols WHERE symbol NOT IN
+           (SELECT symbol FROM recent_symbols ORDER BY used_at DESC, symbol ASC LIMIT ?);`,
+        [keep]
+      );
+    });
+  },
+
+  listWatchlist: async () =>
+    readSymbols(await db.getAllAsync<{ symbol: unknown }>(`SELECT symbol FROM watchlist ORDER BY position ASC;`, [])),
+
+  saveWatchlist: async symbols => {
+    await runTransaction(db, async () => {
+      await db.runAsync(`DELETE FROM watchlist;`, []);
+      for (const [position, symbol] of symbols.entries()) {
+        await db.runAsync(`INSERT OR IGNORE INTO watchlist (symbol, position) VALUES (?, ?);`, [symbol, position]);
+      }
+    });
+  },
+
+  addToWatchlist: async symbol => {
+    await db.runAsync(
+      `INSERT OR IGNORE INTO watchlist (symbol, position)
+       VALUES (?, (SELECT COALESCE(MAX(position), -1) + 1 FROM watchlist));`,
+      [symbol]
+    );
+  },
+
+  removeFromWatchlist: async symbol => {
+    await db.runAsync(`DELETE FROM watchlist WHERE symbol = ?;`, [symbol]);
+  },
+});
+
+export const createSqliteSymbolRepository = (db: SqlDatabase): SymbolRepository => ({
+  search: async (query, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT symbol, description, exchange, type FROM symbol_directory
+         WHERE symbol LIKE ? ESCAPE '\\' OR description LIKE ? ESCAPE '\\'
+         ORDER BY LENGTH(symbol) ASC, symbol ASC LIMIT ?;`,
+        [`${escapeLike(query)}%`, `%${escapeLike(query)}%`, limit]
+      ),
+      readSymbolRow
+    ),
+
+  find: async symbol =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT symbol, description, exchange, type FROM symbol_directory WHERE symbol = ?;`,
+        [symbol]
+      ),
+      readSymbolRow
+    )[0] ?? null,
+
+  save: async (symbols, fetchedAt) => {
+    if (!symbols.length) {
+      return;
+    }
+    await runTransaction(db, async () => {
+      for (const info of symbols) {
+        await db.runAsync(
+          `INSERT OR REPLACE INTO symbol_directory (symbol, description, exchange, type, fetched_at)
+           VALUES (?, ?, ?, ?, ?);`,
+          [info.symbol, info.description, info.exchange, info.type, fetchedAt]
+        );
+      }
+    });
+  },
+
+  searchedAt: async query => {
+    const rows = await db.getAllAsync<{ searched_at: unknown }>(
+      `SELECT searched_at FROM symbol_searches WHERE query = ?;`,
+      [query]
+    );
+    return typeof rows[0]?.searched_at === 'number' ? rows[0].searched_at : null;
+  },
+
+  markSearched: async (query, searchedAt) => {
+    await db.runAsync(`INSERT OR REPLACE INTO symbol_searches (query, searched_at) VALUES (?, ?);`, [
+      query,
+      searchedAt,
+    ]);
+  },
+});
+
+export const createSqliteAlertRepository = (db: SqlDatabase): AlertRepository => ({
+  listForSymbol: async (symbol, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${ALERT_COLUMNS} FROM price_alerts WHERE symbol = ? ORDER BY ${FINISHED_LAST} LIMIT ?;`,
+        [symbol, limit]
+      ),
+      readAlertRow
+    ),
+
+  listAll: async limit =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${ALERT_COLUMNS} FROM price_alerts ORDER BY symbol ASC, ${FINISHED_LAST} LIMIT ?;`,
+        [limit]
+      ),
+      readAlertRow
+    ),
+
+  listLive: async (symbol, kind) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT ${ALERT_COLUMNS} FROM price_alerts
+         WHERE symbol = ? AND ${LIVE_ALERT} ${kind ? 'AND kind = ?' : ''}
+         ORDER BY id ASC;`,
+        kind ? [symbol, kind] : [symbol]
+      ),
+      readAlertRow
+    ),
+
+  liveSymbols: async () => {
+    const rows = await db.getAllAsync<{ symbol: unknown }>(
+      `SELECT DISTINCT symbol FROM price_alerts WHERE ${LIVE_ALERT} ORDER BY symbol ASC;`,
+      []
+    );
+    return rows.flatMap(row => (typeof row.symbol === 'string' && row.symbol ? [row.symbol] : []));
+  },
+
+  create: async (alert, keepPerSymbol) => {
+    const row = alertConditionToRow(alert.condition);
+    const result = await db.runAsync(
+      `INSERT INTO price_alerts
+         (symbol, kind, direction, price, params, created_at, repeat_mode, hysteresis_pct, cooldown_minutes, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+      [
+        alert.symbol,
+        row.kind,
+        row.direction,
+        row.price,
+        row.params,
+        alert.createdAt,
+        alert.rules.repeat,
+        alert.rules.hysteresisPercent,
+        alert.rules.cooldownMinutes,
+        alert.rules.expiresAt,
+      ]
+    );
+    await db.runAsync(
+      `DELETE FROM price_alerts
+       WHERE symbol = ?
+         AND id NOT IN (SELECT id FROM price_alerts WHERE symbol = ? ORDER BY ${FINISHED_LAST} LIMIT ?);`,
+      [alert.symbol, alert.symbol, keepPerSymbol]
+    );
+    await db.runAsync(`DELETE FROM alert_history WHERE alert_id NOT IN (SELECT id FROM price_alerts);`, []);
+    return String(result.lastInsertRowId);
+  },
+
+  remove: async id => {
+    await runTransaction(db, async () => {
+      await db.runAsync(`DELETE FROM alert_history WHERE alert_id = ?;`, [Number(id)]);
+      await db.runAsync(`DELETE FROM price_alerts WHERE id = ?;`, [Number(id)]);
+    });
+  },
+
+  setPaused: async (id, paused) => {
+    await db.runAsync(`UPDATE price_alerts SET paused = ? WHERE id = ?;`, [paused ? 1 : 0, Number(id)]);
+  },
+
+  setStatus: async (id, status) => {
+    await db.runAsync(`UPDATE price_alerts SET status = ? WHERE id = ?;`, [status, Number(id)]);
+  },
+
+  rearm: async (id, now) => {
+    await db.runAsync(
+      `UPDATE price_alerts
+       SET status = 'armed', paused = 0, expires_at = CASE WHEN expires_at <= ? THEN NULL ELSE expires_at END
+       WHERE id = ?;`,
+      [now, Number(id)]
+    );
+  },
+
+  recordFiring: async (id, firing, keepHistory) => {
+    await runTransaction(db, async () => {
+      await db.runAsync(
+        `UPDATE price_alerts SET status = ?, last_fired_at = ?, fire_count = fire_count + 1 WHERE id = ?;`,
+        [firing.status, firing.firedAt, Number(id)]
+      );
+      await db.runAsync(
+        `INSERT INTO alert_history (alert_id, symbol, fired_at, value, message)
+         SELECT id, symbol, ?, ?, ? FROM price_alerts WHERE id = ?;`,
+        [firing.firedAt, firing.value, firing.message, Number(id)]
+      );
+      await db.runAsync(
+        `DELETE FROM alert_history
+         WHERE alert_id = ?
+           AND id NOT IN (SELECT id FROM alert_history WHERE alert_id = ? ORDER BY fired_at DESC LIMIT ?);`,
+        [Number(id), Number(id), keepHistory]
+      );
+    });
+  },
+
+  listFirings: async id =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT alert_id, symbol, fired_at, value, message FROM alert_history
+         WHERE alert_id = ?
+         ORDER BY fired_at DESC, id DESC;`,
+        [Number(id)]
+      ),
+      readAlertHistoryRow
+    ),
+
+  firingsBetween: async (symbol, from, to, limit) =>
+    readRows(
+      await db.getAllAsync<SqlRow>(
+        `SELECT alert_id, symbol, fired_at, value, message FROM alert_history
+         WHERE symbol = ? AND fired_at >= ? AND fired_at < ?
+         ORDER BY fired_at ASC, id ASC
+         LIMIT ?;`,
+        [symbol, from, to, limit]
+      ),
+      readAlertHistoryRow
+    ),
+});
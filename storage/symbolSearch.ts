@@ -0,0 +1,98 @@
+import { FinnhubRestClient } from '../utils/finnhubRest';
+import { normalizeSymbol } from '../utils/market';
+import { closestSymbols, isWellFormedSymbol, matchSymbols, POPULAR_SYMBOLS, SymbolInfo } from '../utils/symbols';
+import { SymbolRepository } from './repositories';
+
+/*
+ * 'unknown' is a definite answer: Finnhub was asked and does not list the symbol. 'unverified' means nobody could
+ * say, because the symbol is an exchange pair the stock search does not cover or Finnhub could not be asked.
+ */
+export type SymbolCheck =
+  | { status: 'known'; info: SymbolInfo }
+  | { status: 'invalid' }
+  | { status: 'unknown'; suggestions: SymbolInfo[] }
+  | { status: 'unverified'; suggestions: SymbolInfo[] };
+
+export type SymbolSearchOptions = {
+  store: SymbolRepository;
+  // Without a client (no token) only the bundled list and earlier results are searched.
+  rest: Pick<FinnhubRestClient, 'search'> | null;
+  now?: () => number;
+  // How long a query's cached results stand in for asking Finnhub again.
+  maxAgeMs?: number;
+};
+
+export type SymbolSearch = {
+  suggest: (query: string, limit: number) => Promise<SymbolInfo[]>;
+  check: (symbol: string) => Promise<SymbolCheck>;
+};
+
+const DEFAULT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const SUGGESTION_LIMIT = 3;
+// Cached rows scanned per lookup; ranking happens on the combined list.
+const STORE_SCAN_LIMIT = 50;
+
+/*
+ * Autocomplete and validation over three sources: the bundled list, results cached in SQLite and Finnhub's /search.
+ * Each query is sent to Finnhub at most once per `maxAgeMs`; its results are cached so later lookups, including
+ * offline ones, find them locally.
+ */
+export const createSymbolSearch = (options: SymbolSearchOptions): SymbolSearch => {
+  const { store, rest } = options;
+  const now = options.now ?? Date.now;
+  const maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+
+  // Finnhub's results for a query, or null when it was not asked or could not be reached.
+  const searchRemote = async (query: string): Promise<SymbolInfo[] | null> => {
+    if (!rest) {
+      return null;
+    }
+    const searchedAt = await store.searchedAt(query);
+    if (searchedAt !== null && now() - searchedAt < maxAgeMs) {
+      return store.search(query, STORE_SCAN_LIMIT);
+    }
+    try {
+      const results = await rest.search(query);
+      await store.save(results, now());
+      await store.markSearched(query, now());
+      return results;
+    } catch (err) {
+      console.warn('Symbol search error', err);
+      return null;
+    }
+  };
+
+  const suggest = async (query: string, limit: number): Promise<SymbolInfo[]> => {
+    const normalized = normalizeSymbol(query);
+    if (!normalized) {
+      return [];
+    }
+    const cached = await store.search(normalized, STORE_SCAN_LIMIT);
+    const remote = (await searchRemote(normalized)) ?? [];
+    return matchSymbols(normalized, [...POPULAR_SYMBOLS, ...cached, ...remote], limit);
+  };
+
+  const check = async (symbol: string): Promise<SymbolCheck> => {
+    const normalized = normalizeSymbol(symbol);
+    if (!isWellFormedSymbol(normalized)) {
+      return { status: 'invalid' };
+    }
+    const local = POPULAR_SYMBOLS.find(info => info.symbol === normalized) ?? (await store.find(normalized));
+    if (local) {
+      return { status: 'known', info: local };
+    }
+    const remote = normalized.includes(':') ? null : await searchRemote(normalized);
+    const match = remote?.find(info => info.symbol === normalized);
+    if (match) {
+      return { status: 'known', info: match };
+    }
+    // Near spellings first, then whatever Finnhub found for the text, e.g. APPL finds Apple's listings.
+    const nearby = closestSymbols(normalized, [...POPULAR_SYMBOLS, ...(remote ?? [])], SUGGESTION_LIMIT);
+    const suggestions = Array.from(
+      new Map([...nearby, ...(remote ?? [])].map(info => [info.symbol, info] as const)).values()
+    ).slice(0, SUGGESTION_LIMIT);
+    return remote ? { status: 'unknown', suggestions } : { status: 'unverified', suggestions };
+  };
+
+  return { suggest, check };
+};
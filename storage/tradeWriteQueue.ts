@@ -0,0 +1,123 @@
+import { Clock, systemClock, TimerHandle } from '../utils/feedClient';
+import { StoredTrade, TradeRepository } from './repositories';
+
+export type TradeWriteQueueOptions = {
+  repository: TradeRepository;
+  // Trims stored data for the symbols written since the last prune, e.g. by applying the retention policy.
+  prune: (symbols: string[]) => Promise<void>;
+  // Longest a trade waits in memory before it is written.
+  flushIntervalMs?: number;
+  // A batch this large is written straight away instead of waiting for the interval.
+  maxBatchSize?: number;
+  // Minimum time between prunes of the symbols written since the last prune.
+  pruneIntervalMs?: number;
+  // While writes keep failing, the oldest buffered trades are dropped beyond this many.
+  maxPending?: number;
+  clock?: Clock;
+};
+
+export type TradeWriteQueue = {
+  enqueue: (trade: StoredTrade) => void;
+  // Write everything buffered so far; `prune` also trims the written symbols even if a prune is not yet due.
+  flush: (options?: { prune?: boolean }) => Promise<void>;
+  pendingCount: () => number;
+  // Stop the timer and write and prune whatever is left.
+  dispose: () => Promise<void>;
+};
+
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+const DEFAULT_MAX_BATCH_SIZE = 200;
+const DEFAULT_PRUNE_INTERVAL_MS = 30 * 1000;
+const DEFAULT_MAX_PENDING = 5000;
+
+/*
+ * Buffer trades in memory and write them in batches, so a busy symbol costs one transaction per interval
+ * instead of an insert and a prune per trade. Flushes run one at a time; a failed batch is put back and retried
+ * with the next flush.
+ */
+export const createTradeWriteQueue = (options: TradeWriteQueueOptions): TradeWriteQueue => {
+  const { repository, prune: pruneSymbols } = options;
+  const flushIntervalMs = options.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS;
+  const maxBatchSize = options.maxBatchSize ?? DEFAULT_MAX_BATCH_SIZE;
+  const pruneIntervalMs = options.pruneIntervalMs ?? DEFAULT_PRUNE_INTERVAL_MS;
+  const maxPending = options.maxPending ?? DEFAULT_MAX_PENDING;
+  const clock = options.clock ?? systemClock;
+
+  let pending: StoredTrade[] = [];
+  const unpruned = new Set<string>();
+  let lastPruneAt = clock.now();
+  let timer: TimerHandle | null = null;
+  let chain: Promise<void> = Promise.resolve();
+  let disposed = false;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clock.clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const writeBatch = async (prune: boolean) => {
+    const batch = pending;
+    pending = [];
+    if (batch.length) {
+      try {
+        await repository.appendTrades(batch);
+        batch.forEach(trade => unpruned.add(trade.symbol));
+      } catch (err) {
+        console.warn('Trade batch write error', err);
+        pending = [...batch, ...pending].slice(-maxPending);
+        scheduleFlush();
+        return;
+      }
+    }
+
+    if (!unpruned.size || (!prune && clock.now() - lastPruneAt < pruneIntervalMs)) {
+      return;
+    }
+    const symbols = Array.from(unpruned);
+    unpruned.clear();
+    lastPruneAt = clock.now();
+    try {
+      await pruneSymbols(symbols);
+    } catch (err) {
+      console.warn('Trade prune error', err);
+      symbols.forEach(symbol => unpruned.add(symbol));
+    }
+  };
+
+  const flush = (flushOptions: { prune?: boolean } = {}) => {
+    clearTimer();
+    chain = chain.then(() => writeBatch(flushOptions.prune ?? false));
+    return chain;
+  };
+
+  const scheduleFlush = () => {
+    if (timer === null && !disposed) {
+      timer = clock.setTimeout(() => {
+        timer = null;
+        void flush();
+      }, flushIntervalMs);
+    }
+  };
+
+  return {
+    enqueue: trade => {
+      pending.push(trade);
+      if (pending.length > maxPending) {
+        pending.splice(0, pending.length - maxPending);
+      }
+      if (pending.length >= maxBatchSize) {
+        void flush();
+        return;
+      }
+      scheduleFlush();
+    },
+    flush,
+    pendingCount: () => pending.length,
+    dispose: () => {
+      disposed = true;
+      return flush({ prune: true });
+    },
+  };
+};
@@ -0,0 +1,473 @@
+import { Candle } from './market';
+import { createEma, createSma } from './indicators';
+
+export type AlertDirection = 'above' | 'below';
+export type MoveDirection = 'up' | 'down' | 'either';
+export type MovingAverageKind = 'sma' | 'ema';
+
+/*
+ * What an alert waits for. `price` is the original "trades at or beyond a level" check; `cross` only fires on
+ * the trade that moves from one side of the level to the other. Bar-based conditions read 1-minute candles.
+ */
+export type AlertCondition =
+  | { kind: 'price'; direction: AlertDirection; price: number }
+  | { kind: 'cross'; direction: AlertDirection; price: number }
+  | { kind: 'percentMove'; direction: MoveDirection; percent: number; windowMinutes: number }
+  | { kind: 'maCross'; direction: AlertDirection; average: MovingAverageKind; period: number }
+  | { kind: 'volumeSpike'; multiple: number; lookback: number }
+  | { kind: 'noTrades'; minutes: number };
+
+export type AlertConditionKind = AlertCondition['kind'];
+
+export const ALERT_CONDITION_KINDS: AlertConditionKind[] = [
+  'price',
+  'cross',
+  'percentMove',
+  'maCross',
+  'volumeSpike',
+  'noTrades',
+];
+
+// Everything the evaluator may look at for one symbol at one instant.
+export type AlertMarketState = {
+  now: number;
+  // The trade being evaluated, or null when checking on a timer.
+  price: number | null;
+  // Price of the trade before it, needed to tell a crossing from simply being on one side.
+  previousPrice: number | null;
+  lastTradeAt: number | null;
+  // Finished 1-minute bars, oldest first, and the bar still forming.
+  bars: Candle[];
+  formingBar: Candle | null;
+};
+
+export type AlertMatch = {
+  value: number;
+  message: string;
+};
+
+// Shape stored in `price_alerts`; legacy rows only have direction/price and a NULL params column.
+export type AlertConditionRow = {
+  kind: string;
+  direction: AlertDirection;
+  price: number;
+  params: string | null;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+const formatPrice = (value: number) => value.toFixed(2);
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+
+export const movingAverage = (values: number[], average: MovingAverageKind, period: number): number | null => {
+  const indicator = average === 'sma' ? createSma(period) : createEma(period);
+  values.forEach(value => indicator.update(value));
+  return indicator.value();
+};
+
+const crossed = (direction: AlertDirection, previous: number, current: number, level: number) =>
+  direction === 'above' ? previous < level && current >= level : previous > level && current <= level;
+
+export const describeAlertCondition = (condition: AlertCondition): string => {
+  switch (condition.kind) {
+    case 'price':
+      return `${condition.direction === 'above' ? '≥' : '≤'} ${formatPrice(condition.price)}`;
+    case 'cross':
+      return `crosses ${condition.direction} ${formatPrice(condition.price)}`;
+    case 'percentMove': {
+      const sign = condition.direction === 'up' ? '+' : condition.direction === 'down' ? '−' : '±';
+      return `${sign}${condition.percent}% in ${formatMinutes(condition.windowMinutes)}`;
+    }
+    case 'maCross':
+      return `crosses ${condition.direction} ${condition.average.toUpperCase()}(${condition.period})`;
+    case 'volumeSpike':
+      return `1m volume ≥ ${condition.multiple}× avg of ${condition.lookback} bars`;
+    case 'noTrades':
+      return `no trades for ${formatMinutes(condition.minutes)}`;
+  }
+};
+
+// Returns a user-facing problem with the condition, or null when it can be saved.
+export const validateAlertCondition = (condition: AlertCondition): string | null => {
+  const isPositive = (value: number) => Number.isFinite(value) && value > 0;
+  const isSide = (value: string) => value === 'above' || value === 'below';
+  switch (condition.kind) {
+    case 'price':
+    case 'cross':
+      if (!isSide(condition.direction)) {
+        return 'Choose above or below.';
+      }
+      return isPositive(condition.price) ? null : 'Enter a valid price greater than zero.';
+    case 'percentMove':
+      if (!['up', 'down', 'either'].includes(condition.direction)) {
+        return 'Choose up, down or either.';
+      }
+      if (!isPositive(condition.percent)) {
+        return 'Enter a percentage greater than zero.';
+      }
+      return Number.isInteger(condition.windowMinutes) && condition.windowMinutes > 0 && condition.windowMinutes <= 240
+        ? null
+        : 'Window must be a whole number of minutes, up to 240.';
+    case 'maCross':
+      if (!isSide(condition.direction) || (condition.average !== 'sma' && condition.average !== 'ema')) {
+        return 'Choose a direction and SMA or EMA.';
+      }
+      return Number.isInteger(condition.period) && condition.period > 1 && condition.period <= 200
+        ? null
+        : 'Average period must be a whole number between 2 and 200.';
+    case 'volumeSpike':
+      if (!(Number.isFinite(condition.multiple) && condition.multiple > 1)) {
+        return 'Volume multiple must be greater than 1.';
+      }
+      return Number.isInteger(condition.lookback) && condition.lookback > 0 && condition.lookback <= 200
+        ? null
+        : 'Lookback must be a whole number between 1 and 200.';
+    case 'noTrades':
+      return Number.isInteger(condition.minutes) && condition.minutes > 0
+        ? null
+        : 'Enter the quiet period as a whole number of minutes.';
+  }
+};
+
+/*
+ * Check one condition against the market state. `armedAt` is when the alert started watching, so a quiet
+ * feed is measured from then if no trade has been seen since launch.
+ */
+export const evaluateAlertCondition = (
+  condition: AlertCondition,
+  state: AlertMarketState,
+  armedAt: number
+): AlertMatch | null => {
+  if (condition.kind === 'noTrades') {
+    const idleSince = Math.max(state.lastTradeAt ?? armedAt, armedAt);
+    const idleMinutes = (state.now - idleSince) / MINUTE_MS;
+    return idleMinutes >= condition.minutes
+      ? { value: idleMinutes, message: `No trades for ${Math.floor(idleMinutes)} min.` }
+      : null;
+  }
+
+  const { price } = state;
+  if (price === null) {
+    return null;
+  }
+
+  switch (condition.kind) {
+    case 'price': {
+      const hit = condition.direction === 'above' ? price >= condition.price : price <= condition.price;
+      if (!hit) {
+        return null;
+      }
+      return {
+        value: price,
+        message:
+          condition.direction === 'above'
+            ? `Price moved above ${formatPrice(condition.price)} (now ${formatPrice(price)}).`
+            : `Price fell below ${formatPrice(condition.price)} (now ${formatPrice(price)}).`,
+      };
+    }
+    case 'cross': {
+      if (state.previousPrice === null || !crossed(condition.direction, state.previousPrice, price, condition.price)) {
+        return null;
+      }
+      return {
+        value: price,
+        message: `Price crossed ${condition.direction} ${formatPrice(condition.price)} (now ${formatPrice(price)}).`,
+      };
+    }
+    case 'percentMove': {
+      const windowStart = state.now - condition.windowMinutes * MINUTE_MS;
+      const inWindow = [...state.bars, ...(state.formingBar ? [state.formingBar] : [])].filter(
+        bar => bar.start + MINUTE_MS > windowStart
+      );
+      if (!inWindow.length) {
+        return null;
+      }
+      // Measure from the window's extremes so a rise followed by a drop still counts as a drop.
+      const low = Math.min(...inWindow.map(bar => bar.low));
+      const high = Math.max(...inWindow.map(bar => bar.high));
+      const rise = low > 0 ? ((price - low) / low) * 100 : 0;
+      const fall = high > 0 ? ((high - price) / high) * 100 : 0;
+      const window = formatMinutes(condition.windowMinutes);
+      if (condition.direction !== 'down' && rise >= condition.percent) {
+        return { value: rise, message: `Up ${rise.toFixed(2)}% in ${window} (now ${formatPrice(price)}).` };
+      }
+      if (condition.direction !== 'up' && fall >= condition.percent) {
+        return { value: -fall, message: `Down ${fall.toFixed(2)}% in ${window} (now ${formatPrice(price)}).` };
+      }
+      return null;
+    }
+    case 'maCross': {
+      if (state.previousPrice === null) {
+        return null;
+      }
+      // The average is taken over finished bars only, so it holds still while the forming bar trades around it.
+      const average = movingAverage(
+        state.bars.map(bar => bar.close),
+        condition.average,
+        condition.period
+      );
+      if (average === null || !crossed(condition.direction, state.previousPrice, price, average)) {
+        return null;
+      }
+      const label = `${condition.average.toUpperCase()}(${condition.period})`;
+      return {
+        value: price,
+        message: `Price crossed ${condition.direction} ${label} ${formatPrice(average)} (now ${formatPrice(price)}).`,
+      };
+    }
+    case 'volumeSpike': {
+      const history = state.bars.slice(-condition.lookback);
+      if (!state.formingBar || history.length < condition.lookback) {
+        return null;
+      }
+      const averageVolume = history.reduce((sum, bar) => sum + bar.volume, 0) / history.length;
+      if (averageVolume <= 0) {
+        return null;
+      }
+      const ratio = state.formingBar.volume / averageVolume;
+      return ratio >= condition.multiple
+        ? { value: ratio, message: `Volume is ${ratio.toFixed(1)}× the ${condition.lookback}-bar average.` }
+        : null;
+    }
+  }
+};
+
+export type AlertRepeatMode = 'once' | 'rearm' | 'cooldown';
+
+/*
+ * `armed` alerts are evaluated; `waiting` ones have fired in re-arm mode and wait for the market to reset;
+ * `done` one-shot alerts and `expired` ones stay listed but are never evaluated again.
+ */
+export type AlertStatus = 'armed' | 'waiting' | 'done' | 'expired';
+
+// How an alert behaves after it fires. The cooldown applies to every mode that can fire more than once.
+export type AlertRules = {
+  repeat: AlertRepeatMode;
+  // For level and average conditions, how far (in percent of the level) price must retreat before re-arming.
+  hysteresisPercent: number;
+  cooldownMinutes: number;
+  expiresAt: number | null;
+};
+
+export type AlertRuntime = {
+  status: AlertStatus;
+  paused: boolean;
+  lastFiredAt: number | null;
+  armedAt: number;
+};
+
+export type AlertStep =
+  | { type: 'idle' }
+  | { type: 'expire' }
+  | { type: 'rearm' }
+  | { type: 'fire'; match: AlertMatch; status: AlertStatus };
+
+export const ALERT_REPEAT_MODES: AlertRepeatMode[] = ['once', 'rearm', 'cooldown'];
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  repeat: 'once',
+  hysteresisPercent: 0.5,
+  cooldownMinutes: 0,
+  expiresAt: null,
+};
+
+// An alert that stays armed after firing would otherwise notify on every trade while the condition holds.
+export const MIN_REPEAT_COOLDOWN_MINUTES = 1;
+// Filled in when the editor switches an alert to repeat with no cooldown set.
+export const DEFAULT_REPEAT_COOLDOWN_MINUTES = 5;
+
+export const validateAlertRules = (rules: AlertRules, now: number): string | null => {
+  if (!ALERT_REPEAT_MODES.includes(rules.repeat)) {
+    return 'Choose how the alert repeats.';
+  }
+  if (!(Number.isFinite(rules.hysteresisPercent) && rules.hysteresisPercent >= 0 && rules.hysteresisPercent <= 50)) {
+    return 'Re-arm band must be between 0 and 50%.';
+  }
+  if (!(Number.isInteger(rules.cooldownMinutes) && rules.cooldownMinutes >= 0)) {
+    return 'Cooldown must be a whole number of minutes.';
+  }
+  if (rules.repeat === 'cooldown' && rules.cooldownMinutes < MIN_REPEAT_COOLDOWN_MINUTES) {
+    return `Repeating alerts need a cooldown of at least ${MIN_REPEAT_COOLDOWN_MINUTES} minute.`;
+  }
+  if (rules.expiresAt !== null && !(rules.expiresAt > now)) {
+    return 'Expiry must be in the future.';
+  }
+  return null;
+};
+
+const priceLevel = (condition: AlertCondition, state: AlertMarketState): number | null => {
+  switch (condition.kind) {
+    case 'price':
+    case 'cross':
+      return condition.price;
+    case 'maCross':
+      return movingAverage(
+        state.bars.map(bar => bar.close),
+        condition.average,
+        condition.period
+      );
+    default:
+      return null;
+  }
+};
+
+/*
+ * Whether a fired alert may arm again. Level and average conditions need price back on the other side of the
+ * level by the hysteresis band; the rest reset once they stop matching, or for a quiet feed, on any new trade.
+ */
+export const isAlertReset = (
+  condition: AlertCondition,
+  state: AlertMarketState,
+  hysteresisPercent: number,
+  lastFiredAt: number | null
+): boolean => {
+  if (condition.kind === 'noTrades') {
+    return state.lastTradeAt !== null && (lastFiredAt === null || state.lastTradeAt > lastFiredAt);
+  }
+  if (state.price === null) {
+    return false;
+  }
+  if (condition.kind === 'percentMove' || condition.kind === 'volumeSpike') {
+    return evaluateAlertCondition(condition, state, 0) === null;
+  }
+  const level = priceLevel(condition, state);
+  if (level === null) {
+    return false;
+  }
+  const band = level * (hysteresisPercent / 100);
+  return condition.direction === 'above' ? state.price <= level - band : state.price >= level + band;
+};
+
+// Decide what one evaluation does to an alert; the caller persists the resulting status and history.
+export const stepAlert = (
+  condition: AlertCondition,
+  rules: AlertRules,
+  runtime: AlertRuntime,
+  state: AlertMarketState
+): AlertStep => {
+  if (runtime.paused || runtime.status === 'done' || runtime.status === 'expired') {
+    return { type: 'idle' };
+  }
+  if (rules.expiresAt !== null && state.now >= rules.expiresAt) {
+    return { type: 'expire' };
+  }
+  if (runtime.status === 'waiting') {
+    return isAlertReset(condition, state, rules.hysteresisPercent, runtime.lastFiredAt)
+      ? { type: 'rearm' }
+      : { type: 'idle' };
+  }
+
+  const match = evaluateAlertCondition(condition, state, runtime.armedAt);
+  if (!match) {
+    return { type: 'idle' };
+  }
+  // The floor also covers repeating alerts stored before the minimum was enforced.
+  const minimum = rules.repeat === 'cooldown' ? MIN_REPEAT_COOLDOWN_MINUTES : 0;
+  const cooldownMs = Math.max(rules.cooldownMinutes, minimum) * MINUTE_MS;
+  if (rules.repeat !== 'once' && runtime.lastFiredAt !== null && state.now - runtime.lastFiredAt < cooldownMs) {
+    return { type: 'idle' };
+  }
+  const status: AlertStatus = rules.repeat === 'once' ? 'done' : rules.repeat === 'rearm' ? 'waiting' : 'armed';
+  return { type: 'fire', match, status };
+};
+
+export const describeAlertRules = (rules: AlertRules): string => {
+  const parts = [rules.repeat === 'once' ? 'once' : rules.repeat === 'rearm' ? 're-arms' : 'repeats'];
+  if (rules.repeat === 'rearm') {
+    parts.push(`${rules.hysteresisPercent}% band`);
+  }
+  if (rules.repeat !== 'once' && rules.cooldownMinutes > 0) {
+    parts.push(`${formatMinutes(rules.cooldownMinutes)} cooldown`);
+  }
+  return parts.join(' · ');
+};
+
+// Parse "YYYY-MM-DD HH:MM" in local time, the format the expiry field accepts.
+export const parseLocalDateTime = (text: string): number | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day, hours, minutes);
+  // Reject rollovers such as 2024-02-30 that Date would silently normalize.
+  if (date.getMonth() !== month - 1 || date.getDate() !== day || date.getHours() !== hours) {
+    return null;
+  }
+  return date.getTime();
+};
+
+// An alert as listed in the UI: its condition and rules plus the state the evaluator keeps for it.
+export type AlertThreshold = {
+  id: string;
+  symbol: string;
+  condition: AlertCondition;
+  rules: AlertRules;
+  status: AlertStatus;
+  paused: boolean;
+  createdAt: number;
+  lastFiredAt: number | null;
+  fireCount: number;
+};
+
+export type AlertFilter = 'all' | 'active' | 'paused' | 'fired' | 'expired';
+
+export const ALERT_FILTERS: AlertFilter[] = ['all', 'active', 'paused', 'fired', 'expired'];
+
+// Whether the alert still needs live trades for its symbol.
+export const isAlertLive = (alert: AlertThreshold): boolean =>
+  !alert.paused && (alert.status === 'armed' || alert.status === 'waiting');
+
+// The single bucket an alert is listed under; finished alerts count as fired or expired even if paused.
+export const alertFilterBucket = (alert: AlertThreshold): Exclude<AlertFilter, 'all'> => {
+  if (alert.status === 'done') {
+    return 'fired';
+  }
+  if (alert.status === 'expired') {
+    return 'expired';
+  }
+  return alert.paused ? 'paused' : 'active';
+};
+
+export const filterAlerts = (alerts: AlertThreshold[], filter: AlertFilter): AlertThreshold[] =>
+  filter === 'all' ? alerts : alerts.filter(alert => alertFilterBucket(alert) === filter);
+
+export const countAlertsByFilter = (alerts: AlertThreshold[]): Record<AlertFilter, number> => {
+  const counts: Record<AlertFilter, number> = { all: alerts.length, active: 0, paused: 0, fired: 0, expired: 0 };
+  alerts.forEach(alert => {
+    counts[alertFilterBucket(alert)] += 1;
+  });
+  return counts;
+};
+
+export const alertConditionToRow = (condition: AlertCondition): AlertConditionRow => {
+  // direction/price stay populated for the original NOT NULL columns; only level conditions give them meaning.
+  const hasLevel = condition.kind === 'price' || condition.kind === 'cross';
+  const { kind, ...params } = condition;
+  return {
+    kind,
+    direction: hasLevel || condition.kind === 'maCross' ? condition.direction : 'above',
+    price: hasLevel ? condition.price : 0,
+    params: kind === 'price' ? null : JSON.stringify(params),
+  };
+};
+
+// Rebuild a condition from its stored columns; returns null for rows this build cannot interpret.
+export const alertConditionFromRow = (row: AlertConditionRow): AlertCondition | null => {
+  if (row.kind === 'price') {
+    const condition: AlertCondition = { kind: 'price', direction: row.direction, price: row.price };
+    return validateAlertCondition(condition) === null ? condition : null;
+  }
+  if (!row.params || !ALERT_CONDITION_KINDS.includes(row.kind as AlertConditionKind)) {
+    return null;
+  }
+  try {
+    const params = JSON.parse(row.params) as Record<string, unknown>;
+    const condition = { ...params, kind: row.kind } as AlertCondition;
+    return validateAlertCondition(condition) === null ? condition : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,96 @@
+import { FeedState } from './feedClient';
+import { CandleInterval } from './market';
+
+// Half-open: `from` is included, `to` is not.
+export type TimeRange = {
+  from: number;
+  to: number;
+};
+
+// The stretch of a series already fetched over REST and when its newest end was last refreshed.
+export type CandleCoverage = TimeRange & {
+  symbol: string;
+  interval: CandleInterval;
+  fetchedAt: number;
+};
+
+/*
+ * Ranges of `window` still worth fetching given what was fetched before: anything older than the coverage, and the
+ * newer end once it trails by at least a bar and the last refresh is older than `refreshAfterMs`.
+ */
+export const planBackfill = (
+  window: TimeRange,
+  coverage: CandleCoverage | null,
+  now: number,
+  intervalMs: number,
+  refreshAfterMs: number
+): TimeRange[] => {
+  if (window.to <= window.from) {
+    return [];
+  }
+  if (!coverage) {
+    return [window];
+  }
+  const ranges: TimeRange[] = [];
+  if (window.from < coverage.from) {
+    ranges.push({ from: window.from, to: Math.min(coverage.from, window.to) });
+  }
+  if (window.to - coverage.to >= intervalMs && now - coverage.fetchedAt >= refreshAfterMs) {
+    ranges.push({ from: Math.max(coverage.to, window.from), to: window.to });
+  }
+  return ranges.filter(range => range.to > range.from);
+};
+
+// Grow coverage by a fetched range when the two touch; a range past a hole is not counted, so the hole is retried.
+export const extendCoverage = (
+  coverage: CandleCoverage | null,
+  symbol: string,
+  interval: CandleInterval,
+  range: TimeRange,
+  fetchedAt: number
+): CandleCoverage | null => {
+  if (!coverage) {
+    return { symbol, interval, from: range.from, to: range.to, fetchedAt };
+  }
+  if (range.from > coverage.to || range.to < coverage.from) {
+    return null;
+  }
+  return {
+    ...coverage,
+    from: Math.min(coverage.from, range.from),
+    to: Math.max(coverage.to, range.to),
+    fetchedAt: range.to >= coverage.to ? fetchedAt : coverage.fetchedAt,
+  };
+};
+
+export type GapTracker = {
+  // Feed a status change; returns the outage once the feed is open again and it lasted at least the minimum.
+  update: (state: FeedState, now: number, lastMessageAt: number | null) => TimeRange | null;
+  reset: () => void;
+};
+
+// Trades stop with the last frame before a drop, which can be well before the client notices the socket is gone.
+export const createGapTracker = (minGapMs: number): GapTracker => {
+  let connected = false;
+  let lostAt: number | null = null;
+
+  return {
+    update: (state, now, lastMessageAt) => {
+      if (state === 'open') {
+        const gap = lostAt !== null && now - lostAt >= minGapMs ? { from: lostAt, to: now } : null;
+        connected = true;
+        lostAt = null;
+        return gap;
+      }
+      if (connected) {
+        connected = false;
+        lostAt = lastMessageAt ?? now;
+      }
+      return null;
+    },
+    reset: () => {
+      connected = false;
+      lostAt = null;
+    },
+  };
+};
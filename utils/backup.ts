@@ -0,0 +1,154 @@
+import {
+  ALERT_CONDITION_KINDS,
+  AlertCondition,
+  AlertRules,
+  AlertStatus,
+  validateAlertCondition,
+  validateAlertRules,
+} from './alerts';
+
+// An alert as carried between devices: what it watches and how it repeats, not its firing history.
+export type BackupAlert = {
+  symbol: string;
+  condition: AlertCondition;
+  rules: AlertRules;
+  status: AlertStatus;
+  paused: boolean;
+  createdAt: number;
+};
+
+export type AppBackup = {
+  createdAt: number;
+  // Null when the document has no such list, so a restore leaves the stored one alone rather than clearing it.
+  watchlist: string[] | null;
+  favorites: string[] | null;
+  alerts: BackupAlert[];
+  // Every row of `app_settings`, values as stored.
+  settings: Record<string, string>;
+};
+
+export type ParsedBackup = {
+  backup: AppBackup;
+  // Parts left out of the restore, e.g. "Alert 3 (AAPL): Enter a valid price greater than zero."
+  errors: string[];
+};
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupFormatError';
+  }
+}
+
+export const BACKUP_VERSION = 1;
+const BACKUP_FORMAT_NAME = 'price-updates-backup';
+
+const ALERT_STATUSES: AlertStatus[] = ['armed', 'waiting', 'done', 'expired'];
+
+// A single JSON document; `format` and `version` lead so the file identifies itself when opened.
+export const serializeBackup = (backup: AppBackup): string =>
+  JSON.stringify({ format: BACKUP_FORMAT_NAME, version: BACKUP_VERSION, ...backup }, null, 2);
+
+export const backupFileName = (createdAt: number): string =>
+  `price-updates-backup-${new Date(createdAt).toISOString().slice(0, 10)}.json`;
+
+const readSymbolList = (value: unknown, name: string, errors: string[]): string[] | null => {
+  if (!Array.isArray(value)) {
+    errors.push(`No ${name} in the backup.`);
+    return null;
+  }
+  const symbols = value.filter((symbol): symbol is string => typeof symbol === 'string' && symbol.trim() !== '');
+  if (symbols.length < value.length) {
+    errors.push(`Skipped ${value.length - symbols.length} unreadable ${name} entries.`);
+  }
+  return Array.from(new Set(symbols.map(symbol => symbol.trim())));
+};
+
+const readAlert = (value: unknown): BackupAlert | string => {
+  const alert = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  if (typeof alert.symbol !== 'string' || !alert.symbol.trim()) {
+    return 'missing symbol';
+  }
+  const condition = alert.condition as AlertCondition | undefined;
+  if (typeof condition !== 'object' || condition === null || !ALERT_CONDITION_KINDS.includes(condition.kind)) {
+    return 'unknown condition';
+  }
+  const rules = alert.rules as AlertRules | undefined;
+  if (typeof rules !== 'object' || rules === null) {
+    return 'missing repeat rules';
+  }
+  // An expiry is only checked for being a time: a restored alert may well have lapsed since the backup.
+  const problem = validateAlertCondition(condition) ?? validateAlertRules({ ...rules, expiresAt: null }, 0);
+  if (problem) {
+    return problem;
+  }
+  if (rules.expiresAt !== null && !(typeof rules.expiresAt === 'number' && Number.isFinite(rules.expiresAt))) {
+    return 'invalid expiry';
+  }
+  return {
+    symbol: alert.symbol.trim(),
+    condition,
+    rules: {
+      repeat: rules.repeat,
+      hysteresisPercent: rules.hysteresisPercent,
+      cooldownMinutes: rules.cooldownMinutes,
+      expiresAt: rules.expiresAt,
+    },
+    status: ALERT_STATUSES.includes(alert.status as AlertStatus) ? (alert.status as AlertStatus) : 'armed',
+    paused: alert.paused === true,
+    createdAt: typeof alert.createdAt === 'number' && Number.isFinite(alert.createdAt) ? alert.createdAt : 0,
+  };
+};
+
+/*
+ * Read a backup written by serializeBackup. Alerts, symbols and settings that do not validate are left out and
+ * listed in `errors`; a document that is not a backup, or comes from a newer build, throws BackupFormatError.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (err) {
+    throw new BackupFormatError(`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const body = (typeof document === 'object' && document !== null ? document : {}) as Record<string, unknown>;
+  if (body.format !== BACKUP_FORMAT_NAME) {
+    throw new BackupFormatError('Not an app backup.');
+  }
+  if (typeof body.version !== 'number' || body.version > BACKUP_VERSION) {
+    throw new BackupFormatError(`Unsupported backup version ${String(body.version)}.`);
+  }
+
+  const errors: string[] = [];
+  const alerts: BackupAlert[] = [];
+  (Array.isArray(body.alerts) ? body.alerts : []).forEach((value, index) => {
+    const result = readAlert(value);
+    if (typeof result === 'string') {
+      const symbol = (value as { symbol?: unknown } | null)?.symbol;
+      errors.push(`Alert ${index + 1}${typeof symbol === 'string' ? ` (${symbol})` : ''}: ${result}`);
+    } else {
+      alerts.push(result);
+    }
+  });
+
+  const settings: Record<string, string> = {};
+  const storedSettings = typeof body.settings === 'object' && body.settings !== null ? body.settings : {};
+  Object.entries(storedSettings).forEach(([key, value]) => {
+    if (typeof value === 'string') {
+      settings[key] = value;
+    } else {
+      errors.push(`Setting ${key}: not a stored value.`);
+    }
+  });
+
+  return {
+    backup: {
+      createdAt: typeof body.createdAt === 'number' ? body.createdAt : 0,
+      watchlist: readSymbolList(body.watchlist, 'watchlist', errors),
+      favorites: readSymbolList(body.favorites, 'favorites', errors),
+      alerts,
+      settings,
+    },
+    errors,
+  };
+};
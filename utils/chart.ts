@@ -0,0 +1,165 @@
+export type LinearScale = {
+  map: (value: number) => number;
+  invert: (pixel: number) => number;
+};
+
+export type Viewport = {
+  // Index of the first visible bar and how many bars fit in the plot.
+  start: number;
+  count: number;
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Candidate spacings for time-axis labels, smallest first.
+const TIME_STEPS_MS = [
+  1000,
+  5000,
+  15 * 1000,
+  30 * 1000,
+  MINUTE_MS,
+  5 * MINUTE_MS,
+  15 * MINUTE_MS,
+  30 * MINUTE_MS,
+  HOUR_MS,
+  3 * HOUR_MS,
+  6 * HOUR_MS,
+  12 * HOUR_MS,
+  DAY_MS,
+  7 * DAY_MS,
+];
+
+export const createLinearScale = (
+  domainMin: number,
+  domainMax: number,
+  rangeStart: number,
+  rangeEnd: number
+): LinearScale => {
+  const domainSpan = domainMax - domainMin || 1;
+  const rangeSpan = rangeEnd - rangeStart;
+  return {
+    map: value => rangeStart + ((value - domainMin) / domainSpan) * rangeSpan,
+    invert: pixel => domainMin + ((pixel - rangeStart) / (rangeSpan || 1)) * domainSpan,
+  };
+};
+
+// Round a raw step up to 1, 2 or 5 times a power of ten so axis labels read naturally.
+export const niceStep = (rawStep: number): number => {
+  if (!(rawStep > 0) || !Number.isFinite(rawStep)) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const normalized = rawStep / magnitude;
+  const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return nice * magnitude;
+};
+
+export const priceTicks = (min: number, max: number, maxTicks = 5): number[] => {
+  if (!Number.isFinite(min) || !Number.isFinite(max) || maxTicks < 1) {
+    return [];
+  }
+  if (min === max) {
+    return [min];
+  }
+  const step = niceStep((max - min) / maxTicks);
+  const first = Math.ceil(min / step) * step;
+  const ticks: number[] = [];
+  for (let value = first; value <= max + step * 1e-9; value += step) {
+    // Strip floating point noise such as 0.30000000000000004.
+    ticks.push(Number(value.toPrecision(12)));
+  }
+  return ticks;
+};
+
+export const timeTickStep = (start: number, end: number, maxTicks = 4): number => {
+  const span = Math.max(end - start, 0);
+  return TIME_STEPS_MS.find(step => span / step <= maxTicks) ?? TIME_STEPS_MS[TIME_STEPS_MS.length - 1];
+};
+
+export const timeTicks = (start: number, end: number, maxTicks = 4): number[] => {
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end < start) {
+    return [];
+  }
+  const step = timeTickStep(start, end, maxTicks);
+  const ticks: number[] = [];
+  for (let value = Math.ceil(start / step) * step; value <= end; value += step) {
+    ticks.push(value);
+  }
+  return ticks;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const formatTimeTick = (timestamp: number, step: number): string => {
+  const date = new Date(timestamp);
+  if (step >= DAY_MS) {
+    return `${pad(date.getMonth() + 1)}/${pad(date.getDate())}`;
+  }
+  const clock = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return step < MINUTE_MS ? `${clock}:${pad(date.getSeconds())}` : clock;
+};
+
+// Pick a label precision from the tick spacing so 0.005-step crypto axes and 5-step equity axes both read cleanly.
+export const formatPriceTick = (value: number, step: number): string => {
+  const decimals = step >= 1 ? 2 : Math.min(Math.ceil(-Math.log10(step)) + 1, 8);
+  return value.toFixed(decimals);
+};
+
+export const clampViewport = (viewport: Viewport, total: number, minCount = 10): Viewport => {
+  if (total <= 0) {
+    return { start: 0, count: Math.max(minCount, 1) };
+  }
+  const count = Math.round(Math.min(Math.max(viewport.count, Math.min(minCount, total)), total));
+  const start = Math.round(Math.min(Math.max(viewport.start, 0), total - count));
+  return { start, count };
+};
+
+// Show the newest `count` bars, the default view when a series loads.
+export const latestViewport = (total: number, count: number, minCount = 10): Viewport =>
+  clampViewport({ start: total - count, count }, total, minCount);
+
+export const panViewport = (viewport: Viewport, deltaBars: number, total: number, minCount = 10): Viewport =>
+  clampViewport({ start: viewport.start + deltaBars, count: viewport.count }, total, minCount);
+
+/*
+ * Scale the visible bar count by 1 / factor (factor > 1 zooms in) while keeping the bar under `anchor`
+ * (0 = left edge, 1 = right edge of the plot) in place, like a pinch centered on the fingers.
+ */
+export const zoomViewport = (
+  viewport: Viewport,
+  factor: number,
+  anchor: number,
+  total: number,
+  minCount = 10
+): Viewport => {
+  if (!(factor > 0)) {
+    return clampViewport(viewport, total, minCount);
+  }
+  const count = Math.min(Math.max(viewport.count / factor, Math.min(minCount, total)), total);
+  const anchorIndex = viewport.start + viewport.count * anchor;
+  return clampViewport({ start: anchorIndex - count * anchor, count }, total, minCount);
+};
+
+export const priceExtent = (
+  bars: Array<{ high: number; low: number }>,
+  paddingRatio = 0.05
+): { min: number; max: number } | null => {
+  if (!bars.length) {
+    return null;
+  }
+  const min = Math.min(...bars.map(bar => bar.low));
+  const max = Math.max(...bars.map(bar => bar.high));
+  const padding = (max - min || Math.abs(max) * 0.01 || 1) * paddingRatio;
+  return { min: min - padding, max: max + padding };
+};
+
+// Map an x position inside the plot to the index of the visible bar under it.
+export const hitTestBar = (x: number, plotLeft: number, plotWidth: number, count: number): number | null => {
+  if (count <= 0 || plotWidth <= 0 || x < plotLeft || x > plotLeft + plotWidth) {
+    return null;
+  }
+  const index = Math.floor(((x - plotLeft) / plotWidth) * count);
+  return Math.min(index, count - 1);
+};
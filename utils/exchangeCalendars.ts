@@ -0,0 +1,246 @@
+import { exchangeOf } from './symbols';
+
+// Trading hours in minutes after local midnight, in the exchange's own time zone.
+export type SessionHours = {
+  // Start of pre-market trading, or null for an exchange without an extended session.
+  preOpen: number | null;
+  open: number;
+  // A midday break such as Tokyo's lunch, or null.
+  lunch: { start: number; end: number } | null;
+  close: number;
+  // End of after-hours trading, or null.
+  postClose: number | null;
+};
+
+export type ExchangeId = 'US' | 'LSE' | 'TSE';
+
+export type ExchangeCalendar = {
+  id: ExchangeId;
+  name: string;
+  // IANA zone, so daylight saving time follows the exchange rather than the device.
+  timeZone: string;
+  hours: SessionHours;
+  // Full-day closures by local date (YYYY-MM-DD) with the name shown in the banner.
+  holidays: Record<string, string>;
+  // Half days by local date, with the early close in minutes after midnight.
+  earlyCloses: Record<string, number>;
+};
+
+const hm = (hours: number, minutes = 0) => hours * 60 + minutes;
+
+/*
+ * Holiday tables cover 2024-2027; past them only weekends close the market, so extend them along with the dates
+ * the exchanges publish. NYSE and NASDAQ share one calendar.
+ */
+export const US_CALENDAR: ExchangeCalendar = {
+  id: 'US',
+  name: 'US stocks',
+  timeZone: 'America/New_York',
+  hours: { preOpen: hm(4), open: hm(9, 30), lunch: null, close: hm(16), postClose: hm(20) },
+  holidays: {
+    '2024-01-01': "New Year's Day",
+    '2024-01-15': 'Martin Luther King Jr. Day',
+    '2024-02-19': "Washington's Birthday",
+    '2024-03-29': 'Good Friday',
+    '2024-05-27': 'Memorial Day',
+    '2024-06-19': 'Juneteenth',
+    '2024-07-04': 'Independence Day',
+    '2024-09-02': 'Labor Day',
+    '2024-11-28': 'Thanksgiving',
+    '2024-12-25': 'Christmas',
+    '2025-01-01': "New Year's Day",
+    '2025-01-09': 'the National Day of Mourning',
+    '2025-01-20': 'Martin Luther King Jr. Day',
+    '2025-02-17': "Washington's Birthday",
+    '2025-04-18': 'Good Friday',
+    '2025-05-26': 'Memorial Day',
+    '2025-06-19': 'Juneteenth',
+    '2025-07-04': 'Independence Day',
+    '2025-09-01': 'Labor Day',
+    '2025-11-27': 'Thanksgiving',
+    '2025-12-25': 'Christmas',
+    '2026-01-01': "New Year's Day",
+    '2026-01-19': 'Martin Luther King Jr. Day',
+    '2026-02-16': "Washington's Birthday",
+    '2026-04-03': 'Good Friday',
+    '2026-05-25': 'Memorial Day',
+    '2026-06-19': 'Juneteenth',
+    '2026-07-03': 'Independence Day',
+    '2026-09-07': 'Labor Day',
+    '2026-11-26': 'Thanksgiving',
+    '2026-12-25': 'Christmas',
+    '2027-01-01': "New Year's Day",
+    '2027-01-18': 'Martin Luther King Jr. Day',
+    '2027-02-15': "Washington's Birthday",
+    '2027-03-26': 'Good Friday',
+    '2027-05-31': 'Memorial Day',
+    '2027-06-18': 'Juneteenth',
+    '2027-07-05': 'Independence Day',
+    '2027-09-06': 'Labor Day',
+    '2027-11-25': 'Thanksgiving',
+    '2027-12-24': 'Christmas',
+  },
+  earlyCloses: {
+    '2024-07-03': hm(13),
+    '2024-11-29': hm(13),
+    '2024-12-24': hm(13),
+    '2025-07-03': hm(13),
+    '2025-11-28': hm(13),
+    '2025-12-24': hm(13),
+    '2026-11-27': hm(13),
+    '2026-12-24': hm(13),
+    '2027-11-26': hm(13),
+  },
+};
+
+// London Stock Exchange: England and Wales bank holidays, with half days on Christmas Eve and New Year's Eve.
+export const LSE_CALENDAR: ExchangeCalendar = {
+  id: 'LSE',
+  name: 'London',
+  timeZone: 'Europe/London',
+  hours: { preOpen: null, open: hm(8), lunch: null, close: hm(16, 30), postClose: null },
+  holidays: {
+    '2024-01-01': "New Year's Day",
+    '2024-03-29': 'Good Friday',
+    '2024-04-01': 'Easter Monday',
+    '2024-05-06': 'the Early May bank holiday',
+    '2024-05-27': 'the Spring bank holiday',
+    '2024-08-26': 'the Summer bank holiday',
+    '2024-12-25': 'Christmas',
+    '2024-12-26': 'Boxing Day',
+    '2025-01-01': "New Year's Day",
+    '2025-04-18': 'Good Friday',
+    '2025-04-21': 'Easter Monday',
+    '2025-05-05': 'the Early May bank holiday',
+    '2025-05-26': 'the Spring bank holiday',
+    '2025-08-25': 'the Summer bank holiday',
+    '2025-12-25': 'Christmas',
+    '2025-12-26': 'Boxing Day',
+    '2026-01-01': "New Year's Day",
+    '2026-04-03': 'Good Friday',
+    '2026-04-06': 'Easter Monday',
+    '2026-05-04': 'the Early May bank holiday',
+    '2026-05-25': 'the Spring bank holiday',
+    '2026-08-31': 'the Summer bank holiday',
+    '2026-12-25': 'Christmas',
+    '2026-12-28': 'Boxing Day',
+    '2027-01-01': "New Year's Day",
+    '2027-03-26': 'Good Friday',
+    '2027-03-29': 'Easter Monday',
+    '2027-05-03': 'the Early May bank holiday',
+    '2027-05-31': 'the Spring bank holiday',
+    '2027-08-30': 'the Summer bank holiday',
+    '2027-12-27': 'Christmas',
+    '2027-12-28': 'Boxing Day',
+  },
+  earlyCloses: {
+    '2024-12-24': hm(12, 30),
+    '2024-12-31': hm(12, 30),
+    '2025-12-24': hm(12, 30),
+    '2025-12-31': hm(12, 30),
+    '2026-12-24': hm(12, 30),
+    '2026-12-31': hm(12, 30),
+    '2027-12-24': hm(12, 30),
+    '2027-12-31': hm(12, 30),
+  },
+};
+
+// Tokyo Stock Exchange: Japanese national holidays plus the year-end break; the afternoon runs to 15:30 since 2024.
+export const TSE_CALENDAR: ExchangeCalendar = {
+  id: 'TSE',
+  name: 'Tokyo',
+  timeZone: 'Asia/Tokyo',
+  hours: {
+    preOpen: null,
+    open: hm(9),
+    lunch: { start: hm(11, 30), end: hm(12, 30) },
+    close: hm(15, 30),
+    postClose: null,
+  },
+  holidays: {
+    '2024-01-01': 'the New Year holidays',
+    '2024-01-02': 'the New Year holidays',
+    '2024-01-03': 'the New Year holidays',
+    '2024-01-08': 'Coming of Age Day',
+    '2024-02-12': 'National Foundation Day',
+    '2024-02-23': "the Emperor's Birthday",
+    '2024-03-20': 'Vernal Equinox Day',
+    '2024-04-29': 'Showa Day',
+    '2024-05-03': 'Constitution Day',
+    '2024-05-06': "Children's Day",
+    '2024-07-15': 'Marine Day',
+    '2024-08-12': 'Mountain Day',
+    '2024-09-16': 'Respect for the Aged Day',
+    '2024-09-23': 'Autumnal Equinox Day',
+    '2024-10-14': 'Sports Day',
+    '2024-11-04': 'Culture Day',
+    '2024-12-31': 'the year-end holidays',
+    '2025-01-01': 'the New Year holidays',
+    '2025-01-02': 'the New Year holidays',
+    '2025-01-03': 'the New Year holidays',
+    '2025-01-13': 'Coming of Age Day',
+    '2025-02-11': 'National Foundation Day',
+    '2025-02-24': "the Emperor's Birthday",
+    '2025-03-20': 'Vernal Equinox Day',
+    '2025-04-29': 'Showa Day',
+    '2025-05-05': "Children's Day",
+    '2025-05-06': 'Greenery Day',
+    '2025-07-21': 'Marine Day',
+    '2025-08-11': 'Mountain Day',
+    '2025-09-15': 'Respect for the Aged Day',
+    '2025-09-23': 'Autumnal Equinox Day',
+    '2025-10-13': 'Sports Day',
+    '2025-11-03': 'Culture Day',
+    '2025-11-24': 'Labor Thanksgiving Day',
+    '2025-12-31': 'the year-end holidays',
+    '2026-01-01': 'the New Year holidays',
+    '2026-01-02': 'the New Year holidays',
+    '2026-01-12': 'Coming of Age Day',
+    '2026-02-11': 'National Foundation Day',
+    '2026-02-23': "the Emperor's Birthday",
+    '2026-03-20': 'Vernal Equinox Day',
+    '2026-04-29': 'Showa Day',
+    '2026-05-04': 'Greenery Day',
+    '2026-05-05': "Children's Day",
+    '2026-05-06': 'Constitution Day',
+    '2026-07-20': 'Marine Day',
+    '2026-08-11': 'Mountain Day',
+    '2026-09-21': 'Respect for the Aged Day',
+    '2026-09-22': "the Citizens' Holiday",
+    '2026-09-23': 'Autumnal Equinox Day',
+    '2026-10-12': 'Sports Day',
+    '2026-11-03': 'Culture Day',
+    '2026-11-23': 'Labor Thanksgiving Day',
+    '2026-12-31': 'the year-end holidays',
+    '2027-01-01': 'the New Year holidays',
+    '2027-01-11': 'Coming of Age Day',
+    '2027-02-11': 'National Foundation Day',
+    '2027-02-23': "the Emperor's Birthday",
+    '2027-03-22': 'Vernal Equinox Day',
+    '2027-04-29': 'Showa Day',
+    '2027-05-03': 'Constitution Day',
+    '2027-05-04': 'Greenery Day',
+    '2027-05-05': "Children's Day",
+    '2027-07-19': 'Marine Day',
+    '2027-08-11': 'Mountain Day',
+    '2027-09-20': 'Respect for the Aged Day',
+    '2027-09-23': 'Autumnal Equinox Day',
+    '2027-10-11': 'Sports Day',
+    '2027-11-03': 'Culture Day',
+    '2027-11-23': 'Labor Thanksgiving Day',
+    '2027-12-31': 'the year-end holidays',
+  },
+  earlyCloses: {},
+};
+
+// Keyed by what `exchangeOf` reads from a symbol: a plain ticker is US, VOD.L is LSE, 7203.T is TSE.
+const CALENDARS: Record<string, ExchangeCalendar> = {
+  US: US_CALENDAR,
+  NYSE: US_CALENDAR,
+  NASDAQ: US_CALENDAR,
+  LSE: LSE_CALENDAR,
+  TSE: TSE_CALENDAR,
+};
+
+// Null for crypto, forex and exchanges without a bundled calendar, which the session banner then leaves alone.
+export const calendarForSymbol = (symbol: string): ExchangeCalendar | null => CALENDARS[exchangeOf(symbol)] ?? null;
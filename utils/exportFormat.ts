@@ -0,0 +1,306 @@
+import { TimeRange } from './backfill';
+import { FeedTrade } from './feedClient';
+import { Candle, CANDLE_INTERVALS, CandleInterval } from './market';
+
+export type ExportKind = 'trades' | 'bars' | 'alerts';
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_KINDS: ExportKind[] = ['trades', 'bars', 'alerts'];
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+// One logged alert firing, as kept in `alert_history`.
+export type ExportFiring = {
+  alertId: string;
+  symbol: string;
+  firedAt: number;
+  value: number;
+  message: string;
+};
+
+export type ExportRecords = {
+  trades: FeedTrade;
+  bars: Candle;
+  alerts: ExportFiring;
+};
+
+// A row that could not be read back; `row` counts data rows from 1, not counting the CSV header.
+export type ExportRowError = {
+  row: number;
+  message: string;
+};
+
+export type ParsedExport<K extends ExportKind> = {
+  records: Array<ExportRecords[K]>;
+  errors: ExportRowError[];
+};
+
+// The file as a whole is not an export of the expected kind: wrong header, unknown version or not JSON at all.
+export class ExportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportFormatError';
+  }
+}
+
+export type ExportRangePreset = 'day' | 'week' | 'month' | 'all';
+
+export const EXPORT_RANGE_OPTIONS: Array<{ value: ExportRangePreset; label: string }> = [
+  { value: 'day', label: '24h' },
+  { value: 'week', label: '7 days' },
+  { value: 'month', label: '30 days' },
+  { value: 'all', label: 'All' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PRESET_DAYS: Record<ExportRangePreset, number | null> = { day: 1, week: 7, month: 30, all: null };
+
+// The half-open range a preset covers at `now`, including rows stamped at `now` itself.
+export const exportRange = (preset: ExportRangePreset, now: number): TimeRange => {
+  const days = PRESET_DAYS[preset];
+  return { from: days === null ? 0 : now - days * DAY_MS, to: now + 1 };
+};
+
+export const EXPORT_VERSION = 1;
+const JSON_FORMAT_NAME = 'price-updates-export';
+
+/*
+ * A column either holds a record field or, for `time`, the ISO 8601 UTC rendering of a millisecond timestamp that
+ * is only there for people reading the file; it is ignored on import.
+ */
+type Column<T> =
+  | { name: string; field: keyof T & string; type: 'text' | 'number' }
+  | { name: string; isoOf: keyof T & string };
+
+type Layout<T> = {
+  columns: Array<Column<T>>;
+  // Cross-field checks once every column parsed; null when the record is sound.
+  validate: (record: T) => string | null;
+};
+
+const positive = (value: number, name: string) => (value > 0 ? null : `${name} must be positive`);
+const notNegative = (value: number, name: string) => (value >= 0 ? null : `${name} must not be negative`);
+
+/*
+ * The stable column order of each export. Timestamps are milliseconds since the Unix epoch (UTC). Columns are only
+ * ever appended, and readers match them by name, so files from older builds keep loading.
+ */
+const LAYOUTS: { [K in ExportKind]: Layout<ExportRecords[K]> } = {
+  trades: {
+    columns: [
+      { name: 'symbol', field: 'symbol', type: 'text' },
+      { name: 'timestamp', field: 'timestamp', type: 'number' },
+      { name: 'time', isoOf: 'timestamp' },
+      { name: 'price', field: 'price', type: 'number' },
+      { name: 'volume', field: 'volume', type: 'number' },
+    ],
+    validate: trade =>
+      positive(trade.price, 'price') ??
+      notNegative(trade.timestamp, 'timestamp') ??
+      notNegative(trade.volume, 'volume'),
+  },
+  bars: {
+    columns: [
+      { name: 'symbol', field: 'symbol', type: 'text' },
+      { name: 'interval', field: 'interval', type: 'text' },
+      { name: 'start', field: 'start', type: 'number' },
+      { name: 'time', isoOf: 'start' },
+      { name: 'open', field: 'open', type: 'number' },
+      { name: 'high', field: 'high', type: 'number' },
+      { name: 'low', field: 'low', type: 'number' },
+      { name: 'close', field: 'close', type: 'number' },
+      { name: 'volume', field: 'volume', type: 'number' },
+      { name: 'trade_count', field: 'tradeCount', type: 'number' },
+      { name: 'open_time', field: 'openTime', type: 'number' },
+      { name: 'close_time', field: 'closeTime', type: 'number' },
+    ],
+    validate: bar => {
+      if (!CANDLE_INTERVALS.includes(bar.interval as CandleInterval)) {
+        return `unknown interval ${bar.interval}`;
+      }
+      if (bar.low > Math.min(bar.open, bar.close) || bar.high < Math.max(bar.open, bar.close)) {
+        return 'high/low do not contain open and close';
+      }
+      return notNegative(bar.volume, 'volume') ?? notNegative(bar.tradeCount, 'trade_count');
+    },
+  },
+  alerts: {
+    columns: [
+      { name: 'alert_id', field: 'alertId', type: 'text' },
+      { name: 'symbol', field: 'symbol', type: 'text' },
+      { name: 'fired_at', field: 'firedAt', type: 'number' },
+      { name: 'time', isoOf: 'firedAt' },
+      { name: 'value', field: 'value', type: 'number' },
+      { name: 'message', field: 'message', type: 'text' },
+    ],
+    validate: firing => notNegative(firing.firedAt, 'fired_at'),
+  },
+};
+
+export const exportColumns = (kind: ExportKind): string[] => LAYOUTS[kind].columns.map(column => column.name);
+
+const isoTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? '' : date.toISOString();
+};
+
+const cellsOf = <K extends ExportKind>(kind: K, record: ExportRecords[K]): Array<string | number> => {
+  const layout = LAYOUTS[kind] as Layout<ExportRecords[K]>;
+  return layout.columns.map(column =>
+    'isoOf' in column ? isoTime(record[column.isoOf] as number) : (record[column.field] as string | number)
+  );
+};
+
+// RFC 4180: a cell with a comma, quote or line break is quoted, and quotes inside it are doubled.
+const csvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const serializeExport = <K extends ExportKind>(
+  kind: K,
+  records: Array<ExportRecords[K]>,
+  format: ExportFormat
+): string => {
+  const columns = exportColumns(kind);
+  if (format === 'json') {
+    const rows = records.map(record => {
+      const cells = cellsOf(kind, record);
+      return Object.fromEntries(columns.map((column, index) => [column, cells[index]]));
+    });
+    return JSON.stringify({ format: JSON_FORMAT_NAME, version: EXPORT_VERSION, kind, columns, rows });
+  }
+  const lines = [columns.join(','), ...records.map(record => cellsOf(kind, record).map(csvCell).join(','))];
+  return `${lines.join('\n')}\n`;
+};
+
+// Split CSV text into rows of cells, honouring quoted cells that hold commas, quotes or line breaks.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Blank lines carry no data.
+  return rows.filter(cells => cells.length > 1 || cells[0].trim() !== '');
+};
+
+const readRecord = <K extends ExportKind>(kind: K, source: Record<string, unknown>): ExportRecords[K] | string => {
+  const layout = LAYOUTS[kind] as Layout<ExportRecords[K]>;
+  const record: Record<string, unknown> = {};
+  for (const column of layout.columns) {
+    if ('isoOf' in column) {
+      continue;
+    }
+    const value = source[column.name];
+    if (column.type === 'text') {
+      if (typeof value !== 'string' || !value.trim()) {
+        return `missing ${column.name}`;
+      }
+      record[column.field] = value;
+    } else {
+      const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return `invalid ${column.name}: ${JSON.stringify(value) ?? 'missing'}`;
+      }
+      record[column.field] = number;
+    }
+  }
+  return layout.validate(record as ExportRecords[K]) ?? (record as ExportRecords[K]);
+};
+
+const jsonRows = (kind: ExportKind, text: string): Array<Record<string, unknown>> => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (err) {
+    throw new ExportFormatError(`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const body = (document ?? {}) as Record<string, unknown>;
+  if (body.format !== JSON_FORMAT_NAME || !Array.isArray(body.rows)) {
+    throw new ExportFormatError('Not a price-updates export.');
+  }
+  if (typeof body.version !== 'number' || body.version > EXPORT_VERSION) {
+    throw new ExportFormatError(`Unsupported export version ${String(body.version)}.`);
+  }
+  if (body.kind !== kind) {
+    throw new ExportFormatError(`Expected a ${kind} export, got ${String(body.kind)}.`);
+  }
+  return body.rows.map(row => (typeof row === 'object' && row !== null ? (row as Record<string, unknown>) : {}));
+};
+
+const csvRows = (kind: ExportKind, text: string): Array<Record<string, unknown>> => {
+  const [header, ...lines] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const names = (header ?? []).map(name => name.trim().toLowerCase());
+  const missing = LAYOUTS[kind].columns.filter(column => !('isoOf' in column) && !names.includes(column.name));
+  if (missing.length) {
+    throw new ExportFormatError(`Missing ${kind} columns: ${missing.map(column => column.name).join(', ')}.`);
+  }
+  return lines.map(cells => Object.fromEntries(names.map((name, index) => [name, cells[index] ?? ''])));
+};
+
+/*
+ * Read an export back, picking JSON or CSV from the first character. Rows that fail validation are reported with
+ * their position instead of failing the whole file; a file that is not an export of `kind` throws ExportFormatError.
+ */
+export const parseExport = <K extends ExportKind>(kind: K, text: string): ParsedExport<K> => {
+  const trimmed = text.trim();
+  const rows = trimmed.startsWith('{') ? jsonRows(kind, trimmed) : trimmed ? csvRows(kind, trimmed) : [];
+  const parsed: ParsedExport<K> = { records: [], errors: [] };
+  rows.forEach((row, index) => {
+    const result = readRecord(kind, row);
+    if (typeof result === 'string') {
+      parsed.errors.push({ row: index + 1, message: result });
+    } else {
+      parsed.records.push(result);
+    }
+  });
+  return parsed;
+};
+
+const fileDate = (timestamp: number) => isoTime(timestamp).slice(0, 10);
+
+// e.g. "BINANCE_BTCUSDT-trades-2025-03-01-to-2025-03-07.csv" or "AAPL-bars-1m-…"; `to` is exclusive, so the last
+// day is the one before.
+export const exportFileName = (
+  kind: ExportKind,
+  symbol: string,
+  from: number,
+  to: number,
+  format: ExportFormat,
+  interval?: CandleInterval
+): string => {
+  const safeSymbol = symbol.replace(/[^A-Za-z0-9._-]/g, '_');
+  const range = from > 0 ? `${fileDate(from)}-to-${fileDate(Math.max(from, to - 1))}` : `to-${fileDate(to - 1)}`;
+  return `${safeSymbol}-${kind}${interval ? `-${interval}` : ''}-${range}.${format}`;
+};
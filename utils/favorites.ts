@@ -0,0 +1,58 @@
+// Where a chip sits inside the favorites row, as reported by its layout.
+export type ChipLayout = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Shown until the stored favorites load; the favorites migration seeds the same list on first launch.
+export const DEFAULT_FAVORITES = ['AAPL', 'TSLA', 'BINANCE:BTCUSDT'];
+
+// Append a symbol once; null when the list is already full.
+export const addFavorite = (favorites: string[], symbol: string, max: number): string[] | null => {
+  if (favorites.includes(symbol)) {
+    return favorites;
+  }
+  return favorites.length >= max ? null : [...favorites, symbol];
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.min(Math.max(to, 0), next.length), 0, moved);
+  return next;
+};
+
+// Most recent first, without duplicates, capped at `max`.
+export const rememberRecent = (recent: string[], symbol: string, max: number): string[] =>
+  [symbol, ...recent.filter(item => item !== symbol)].slice(0, max);
+
+/*
+ * The slot a dragged chip lands in: the chip whose centre is nearest to where the dragged chip's centre ended up.
+ * Works across wrapped rows because it compares both axes. Without layouts the chip stays where it was.
+ */
+export const dropIndex = (layouts: Array<ChipLayout | undefined>, from: number, dx: number, dy: number): number => {
+  const origin = layouts[from];
+  if (!origin) {
+    return from;
+  }
+  const x = origin.x + origin.width / 2 + dx;
+  const y = origin.y + origin.height / 2 + dy;
+  let best = from;
+  let bestDistance = Infinity;
+  layouts.forEach((layout, index) => {
+    if (!layout) {
+      return;
+    }
+    const distance = Math.hypot(layout.x + layout.width / 2 - x, layout.y + layout.height / 2 - y);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
@@ -0,0 +1,464 @@
+import { diffSubscriptions } from './market';
+
+export type FeedState = 'connecting' | 'open' | 'stale' | 'closed' | 'error' | 'failed';
+
+// `attempt` counts consecutive reconnects since the last healthy connection; `nextRetryAt` is set while a retry is pending.
+export type FeedStatus = {
+  state: FeedState;
+  attempt: number;
+  nextRetryAt: number | null;
+  lastCloseCode: number | null;
+  lastCloseReason: string | null;
+};
+
+export type CloseKind = 'retryable' | 'rateLimited' | 'fatal';
+
+export type BackoffOptions = {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Fraction of each delay that is randomized away, so many clients do not retry in lockstep.
+  jitter: number;
+  maxAttempts: number;
+};
+
+export type FeedTrade = {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  volume: number;
+};
+
+// The subset of the WebSocket API the client relies on, so tests can hand in a fake socket.
+export type FeedSocket = {
+  readyState: number;
+  send: (data: string) => void;
+  close: () => void;
+  onopen: ((event: unknown) => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onclose: ((event: { code?: number; reason?: string }) => void) | null;
+};
+
+export type FeedSocketConstructor = new (url: string) => FeedSocket;
+
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+export type Clock = {
+  now: () => number;
+  setTimeout: (callback: () => void, delayMs: number) => TimerHandle;
+  clearTimeout: (handle: TimerHandle) => void;
+};
+
+// What one incoming frame means: trades, the end of a login handshake, or a reason to give up on the socket.
+export type FeedMessage = {
+  trades: FeedTrade[];
+  ready?: boolean;
+  error?: string;
+};
+
+/*
+ * How a vendor's socket talks. Symbols in and out are the app's own (`AAPL`, `BINANCE:BTCUSDT`); the protocol turns
+ * them into the vendor's format and drops the ones the vendor cannot stream.
+ */
+export type FeedProtocol = {
+  // Sent as soon as the socket opens, typically authentication.
+  openFrames: () => string[];
+  // Hold subscriptions back until a frame parses as `ready`.
+  waitForReady: boolean;
+  subscribeFrames: (symbols: string[]) => string[];
+  unsubscribeFrames: (symbols: string[]) => string[];
+  parseMessage: (data: string) => FeedMessage;
+};
+
+export type FeedClientOptions = {
+  url: string;
+  // Defaults to Finnhub's protocol.
+  protocol?: FeedProtocol;
+  WebSocketImpl?: FeedSocketConstructor;
+  clock?: Clock;
+  backoff?: Partial<BackoffOptions>;
+  random?: () => number;
+  // An open socket that delivers no frame (trade or ping) for this long is treated as half-open and replaced.
+  staleAfterMs?: number;
+};
+
+export type TradeListener = (trade: FeedTrade) => void;
+export type StatusListener = (status: FeedStatus) => void;
+
+export type FeedClient = {
+  connect: () => void;
+  disconnect: () => void;
+  subscribe: (symbol: string) => void;
+  unsubscribe: (symbol: string) => void;
+  retryNow: () => void;
+  setSymbols: (symbols: string[]) => void;
+  getSymbols: () => string[];
+  getStatus: () => FeedStatus;
+  getLastMessageAt: () => number | null;
+  onTrade: (listener: TradeListener) => () => void;
+  onStatus: (listener: StatusListener) => () => void;
+};
+
+const SOCKET_OPEN = 1;
+const DEFAULT_STALE_AFTER_MS = 60_000;
+const STALE_CLOSE_REASON = 'stale feed';
+
+export const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 60_000,
+  multiplier: 2,
+  jitter: 0.3,
+  maxAttempts: 10,
+};
+
+export const initialFeedStatus: FeedStatus = {
+  state: 'connecting',
+  attempt: 0,
+  nextRetryAt: null,
+  lastCloseCode: null,
+  lastCloseReason: null,
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: handle => clearTimeout(handle),
+};
+
+const resolveGlobalWebSocket = (): FeedSocketConstructor | undefined =>
+  (globalThis as { WebSocket?: FeedSocketConstructor }).WebSocket;
+
+// Delay before reconnect `attempt` (1-based): exponential growth capped at maxDelayMs, minus up to `jitter` of it.
+export const computeBackoffDelay = (
+  attempt: number,
+  backoff: BackoffOptions,
+  random: () => number = Math.random
+): number => {
+  const exponent = Math.max(attempt - 1, 0);
+  const base = Math.min(backoff.maxDelayMs, backoff.initialDelayMs * backoff.multiplier ** exponent);
+  return Math.round(base * (1 - backoff.jitter * random()));
+};
+
+// Auth failures will not fix themselves, so they stop the client; rate limits wait out the full cap.
+export const classifyClose = (code: number | null, reason: string | null): CloseKind => {
+  const text = reason ?? '';
+  const isAuthCode = code === 1008 || code === 4001 || code === 4003;
+  if (
+    isAuthCode ||
+    /\b40[13]\b|unauthori[sz]ed|forbidden|invalid (api )?(key|token)|auth(entication)? failed/i.test(text)
+  ) {
+    return 'fatal';
+  }
+  if (code === 4029 || /\b429\b|too many|rate.?limit/i.test(text)) {
+    return 'rateLimited';
+  }
+  return 'retryable';
+};
+
+const formatSeconds = (ms: number): string => `${Math.max(Math.ceil(ms / 1000), 0)}s`;
+
+// Human-readable status line, e.g. "retrying in 12s (attempt 4)".
+export const describeFeedStatus = (status: FeedStatus, now: number): string => {
+  const closeDetail = status.lastCloseReason || (status.lastCloseCode !== null ? `code ${status.lastCloseCode}` : null);
+  switch (status.state) {
+    case 'connecting':
+      return status.attempt > 0 ? `connecting (attempt ${status.attempt})` : 'connecting';
+    case 'closed':
+      if (status.nextRetryAt !== null) {
+        return `retrying in ${formatSeconds(status.nextRetryAt - now)} (attempt ${status.attempt})`;
+      }
+      return 'closed';
+    case 'stale':
+      return 'stale (reconnecting)';
+    case 'failed':
+      return closeDetail ? `disconnected (${closeDetail})` : 'disconnected';
+    default:
+      return status.state;
+  }
+};
+
+export const describeLastMessage = (lastMessageAt: number | null, now: number): string =>
+  lastMessageAt === null ? 'no messages yet' : `last message ${formatSeconds(now - lastMessageAt)} ago`;
+
+export const buildFinnhubUrl = (token: string): string => `wss://ws.finnhub.io?token=${token}`;
+
+// Pull well-formed trades out of a Finnhub frame; pings and other non-trade frames yield an empty list.
+export const parseFinnhubMessage = (data: string): FeedTrade[] => {
+  const payload = JSON.parse(data);
+  const trades: Array<Record<string, unknown>> = Array.isArray(payload?.data) ? payload.data : [];
+
+  return trades.reduce<FeedTrade[]>((acc, trade) => {
+    const symbol = typeof trade.s === 'string' ? trade.s : null;
+    const price = typeof trade.p === 'number' ? trade.p : Number(trade.p);
+    const timestamp = typeof trade.t === 'number' ? trade.t : Number(trade.t);
+    const volume = typeof trade.v === 'number' ? trade.v : Number(trade.v ?? 0);
+    if (!symbol || Number.isNaN(price) || Number.isNaN(timestamp)) {
+      return acc;
+    }
+    // Volume is informational; a missing or garbled `v` should not cost us the price tick.
+    acc.push({ symbol, price, timestamp, volume: Number.isNaN(volume) ? 0 : volume });
+    return acc;
+  }, []);
+};
+
+export const finnhubProtocol: FeedProtocol = {
+  openFrames: () => [],
+  waitForReady: false,
+  subscribeFrames: symbols => symbols.map(symbol => JSON.stringify({ type: 'subscribe', symbol })),
+  unsubscribeFrames: symbols => symbols.map(symbol => JSON.stringify({ type: 'unsubscribe', symbol })),
+  parseMessage: data => ({ trades: parseFinnhubMessage(data) }),
+};
+
+export const createFeedClient = (options: FeedClientOptions): FeedClient => {
+  const clock = options.clock ?? systemClock;
+  const protocol = options.protocol ?? finnhubProtocol;
+  const backoff: BackoffOptions = { ...DEFAULT_BACKOFF, ...options.backoff };
+  const random = options.random ?? Math.random;
+  const staleAfterMs = options.staleAfterMs ?? DEFAULT_STALE_AFTER_MS;
+  const tradeListeners = new Set<TradeListener>();
+  const statusListeners = new Set<StatusListener>();
+
+  let symbols: string[] = [];
+  let subscribed = new Set<string>();
+  let socket: FeedSocket | null = null;
+  let reconnectTimer: TimerHandle | null = null;
+  let watchdogTimer: TimerHandle | null = null;
+  let lastMessageAt: number | null = null;
+  let lastActivityAt = 0;
+  let openedAt = 0;
+  let active = false;
+  // False between opening a socket and the vendor accepting our login.
+  let ready = false;
+  let status: FeedStatus = { ...initialFeedStatus, state: 'closed' };
+
+  const setStatus = (patch: Partial<FeedStatus>) => {
+    status = { ...status, ...patch };
+    statusListeners.forEach(listener => listener(status));
+  };
+
+  // Send only the subscribe/unsubscribe frames needed to match the requested symbol list.
+  const syncSubscriptions = () => {
+    if (!socket || socket.readyState !== SOCKET_OPEN || !ready) {
+      return;
+    }
+    const { subscribe, unsubscribe } = diffSubscriptions(subscribed, symbols);
+    if (unsubscribe.length) {
+      protocol.unsubscribeFrames(unsubscribe).forEach(frame => socket?.send(frame));
+      unsubscribe.forEach(symbol => subscribed.delete(symbol));
+    }
+    if (subscribe.length) {
+      protocol.subscribeFrames(subscribe).forEach(frame => socket?.send(frame));
+      subscribe.forEach(symbol => subscribed.add(symbol));
+    }
+  };
+
+  const handleMessage = (data: string) => {
+    lastMessageAt = clock.now();
+    lastActivityAt = lastMessageAt;
+
+    let message: FeedMessage;
+    try {
+      message = protocol.parseMessage(data);
+    } catch (err) {
+      console.warn('WebSocket parse error', err);
+      return;
+    }
+    if (message.error) {
+      dropSocket('closed', message.error);
+      return;
+    }
+    // An accepted login, a trade or a full watchdog window without a drop proves the connection works, so the next
+    // drop starts the backoff from scratch. A welcome or error frame before a close does not.
+    const healthy = message.ready || message.trades.length > 0 || lastMessageAt - openedAt >= staleAfterMs;
+    if (healthy && status.attempt > 0) {
+      setStatus({ attempt: 0 });
+    }
+    if (message.ready && !ready) {
+      ready = true;
+      syncSubscriptions();
+    }
+    // Trades can still trickle in for a symbol right after it was unsubscribed.
+    message.trades
+      .filter(trade => symbols.includes(trade.symbol))
+      .forEach(trade => tradeListeners.forEach(listener => listener(trade)));
+  };
+
+  const clearReconnectTimer = () => {
+    if (reconnectTimer) {
+      clock.clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+  };
+
+  const clearWatchdog = () => {
+    if (watchdogTimer) {
+      clock.clearTimeout(watchdogTimer);
+      watchdogTimer = null;
+    }
+  };
+
+  // Check liveness once per window instead of re-arming a timer for every frame.
+  const armWatchdog = (delayMs: number) => {
+    clearWatchdog();
+    watchdogTimer = clock.setTimeout(() => {
+      watchdogTimer = null;
+      const idleMs = clock.now() - lastActivityAt;
+      if (idleMs < staleAfterMs) {
+        armWatchdog(staleAfterMs - idleMs);
+        return;
+      }
+      handleStale();
+    }, delayMs);
+  };
+
+  const stop = (state: FeedState) => {
+    active = false;
+    clearWatchdog();
+    clearReconnectTimer();
+    setStatus({ state, nextRetryAt: null });
+  };
+
+  const scheduleReconnect = () => {
+    if (!active || reconnectTimer) {
+      return;
+    }
+
+    const kind = classifyClose(status.lastCloseCode, status.lastCloseReason);
+    const attempt = status.attempt + 1;
+    if (kind === 'fatal' || attempt > backoff.maxAttempts) {
+      stop('failed');
+      return;
+    }
+
+    const delayMs = kind === 'rateLimited' ? backoff.maxDelayMs : computeBackoffDelay(attempt, backoff, random);
+    setStatus({ state: 'closed', attempt, nextRetryAt: clock.now() + delayMs });
+    reconnectTimer = clock.setTimeout(() => {
+      reconnectTimer = null;
+      open();
+    }, delayMs);
+  };
+
+  // Drop the socket and go through the normal reconnect path, which resubscribes every symbol on open.
+  const dropSocket = (state: FeedState, reason: string) => {
+    const ws = socket;
+    socket = null;
+    subscribed = new Set();
+    clearWatchdog();
+    setStatus({ state, lastCloseCode: null, lastCloseReason: reason });
+    ws?.close();
+    scheduleReconnect();
+  };
+
+  const handleStale = () => dropSocket('stale', STALE_CLOSE_REASON);
+
+  const open = () => {
+    const WebSocketImpl = options.WebSocketImpl ?? resolveGlobalWebSocket();
+    if (!WebSocketImpl) {
+      stop('failed');
+      return;
+    }
+
+    setStatus({ state: 'connecting', nextRetryAt: null });
+    const ws = new WebSocketImpl(options.url);
+    socket = ws;
+
+    ws.onopen = () => {
+      subscribed = new Set();
+      ready = !protocol.waitForReady;
+      lastActivityAt = clock.now();
+      openedAt = lastActivityAt;
+      armWatchdog(staleAfterMs);
+      setStatus({ state: 'open' });
+      protocol.openFrames().forEach(frame => ws.send(frame));
+      syncSubscriptions();
+    };
+
+    ws.onmessage = event => {
+      if (typeof event.data === 'string') {
+        handleMessage(event.data);
+      }
+    };
+
+    ws.onerror = event => {
+      console.warn('WebSocket error', (event as { message?: string })?.message ?? 'unknown error');
+      setStatus({ state: 'error' });
+    };
+
+    ws.onclose = event => {
+      // Ignore late events from a socket we already replaced or shut down on purpose.
+      if (!active || socket !== ws) {
+        return;
+      }
+      socket = null;
+      clearWatchdog();
+      setStatus({
+        state: 'closed',
+        lastCloseCode: typeof event?.code === 'number' ? event.code : null,
+        lastCloseReason: event?.reason ? event.reason : null,
+      });
+      scheduleReconnect();
+    };
+  };
+
+  return {
+    connect: () => {
+      if (active) {
+        return;
+      }
+      active = true;
+      // open() publishes the fresh status right away.
+      status = { ...status, attempt: 0 };
+      open();
+    },
+    disconnect: () => {
+      const ws = socket;
+      socket = null;
+      subscribed = new Set();
+      ws?.close();
+      stop('closed');
+    },
+    // Skip the remaining backoff wait, or restart a client that gave up.
+    retryNow: () => {
+      if (socket) {
+        return;
+      }
+      clearReconnectTimer();
+      if (status.state === 'failed') {
+        setStatus({ attempt: 0 });
+      }
+      active = true;
+      open();
+    },
+    subscribe: symbol => {
+      if (symbols.includes(symbol)) {
+        return;
+      }
+      symbols = [...symbols, symbol];
+      syncSubscriptions();
+    },
+    unsubscribe: symbol => {
+      symbols = symbols.filter(item => item !== symbol);
+      syncSubscriptions();
+    },
+    setSymbols: next => {
+      symbols = Array.from(new Set(next));
+      syncSubscriptions();
+    },
+    getSymbols: () => [...symbols],
+    getStatus: () => status,
+    getLastMessageAt: () => lastMessageAt,
+    onTrade: listener => {
+      tradeListeners.add(listener);
+      return () => {
+        tradeListeners.delete(listener);
+      };
+    },
+    onStatus: listener => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,139 @@
+import { FeedMessage, FeedProtocol, FeedTrade } from './feedClient';
+
+const BINANCE_PREFIX = 'BINANCE:';
+
+export const BINANCE_URL = 'wss://stream.binance.com:9443/ws';
+// IEX is the feed free Alpaca accounts can stream; paid plans can switch to /v2/sip.
+export const ALPACA_URL = 'wss://stream.data.alpaca.markets/v2/iex';
+export const POLYGON_URL = 'wss://socket.polygon.io/stocks';
+
+const toNumber = (value: unknown): number => (typeof value === 'number' ? value : Number(value));
+
+// Vendors send volume as a number or a decimal string; a missing one should not cost us the price.
+const toVolume = (value: unknown): number => {
+  const volume = toNumber(value ?? 0);
+  return Number.isNaN(volume) ? 0 : volume;
+};
+
+const toTrade = (symbol: unknown, price: unknown, timestamp: unknown, volume: unknown): FeedTrade | null => {
+  const parsedPrice = toNumber(price);
+  const parsedTimestamp = toNumber(timestamp);
+  if (typeof symbol !== 'string' || !symbol || Number.isNaN(parsedPrice) || Number.isNaN(parsedTimestamp)) {
+    return null;
+  }
+  return { symbol, price: parsedPrice, timestamp: parsedTimestamp, volume: toVolume(volume) };
+};
+
+const isTrade = (trade: FeedTrade | null): trade is FeedTrade => trade !== null;
+
+// Frames that are batches arrive as arrays; everything else is treated as a batch of one.
+const asRecords = (payload: unknown): Array<Record<string, unknown>> =>
+  (Array.isArray(payload) ? payload : [payload]).filter(
+    (item): item is Record<string, unknown> => typeof item === 'object' && item !== null
+  );
+
+// US stock vendors only know plain tickers; exchange-prefixed symbols belong to other feeds.
+const isPlainTicker = (symbol: string): boolean => symbol.indexOf(':') === -1;
+
+// `BINANCE:BTCUSDT` -> `btcusdt@trade`; symbols from other exchanges have no Binance stream.
+export const toBinanceStream = (symbol: string): string | null =>
+  symbol.startsWith(BINANCE_PREFIX) ? `${symbol.slice(BINANCE_PREFIX.length).toLowerCase()}@trade` : null;
+
+export const fromBinanceSymbol = (symbol: string): string => `${BINANCE_PREFIX}${symbol.toUpperCase()}`;
+
+// Alpaca timestamps are RFC 3339 with up to nanosecond precision, which not every engine's Date.parse accepts.
+export const parseRfc3339 = (text: unknown): number =>
+  typeof text === 'string' ? Date.parse(text.replace(/(\.\d{3})\d+/, '$1')) : Number.NaN;
+
+// Raw trade events, either bare or wrapped as {stream, data} by the combined-stream endpoint.
+export const parseBinanceMessage = (data: string): FeedMessage => {
+  const payload = JSON.parse(data);
+  const event = payload && typeof payload === 'object' && 'stream' in payload ? payload.data : payload;
+  const trades = asRecords(event)
+    .filter(item => item.e === 'trade' && typeof item.s === 'string')
+    .map(item => toTrade(fromBinanceSymbol(item.s as string), item.p, item.T, item.q))
+    .filter(isTrade);
+  return { trades };
+};
+
+export const parseAlpacaMessage = (data: string): FeedMessage => {
+  const message: FeedMessage = { trades: [] };
+  asRecords(JSON.parse(data)).forEach(item => {
+    if (item.T === 't') {
+      const trade = toTrade(item.S, item.p, parseRfc3339(item.t), item.s);
+      if (trade) {
+        message.trades.push(trade);
+      }
+    } else if (item.T === 'success' && item.msg === 'authenticated') {
+      message.ready = true;
+    } else if (item.T === 'error') {
+      message.error = typeof item.msg === 'string' ? item.msg : `error ${String(item.code)}`;
+    }
+  });
+  return message;
+};
+
+export const parsePolygonMessage = (data: string): FeedMessage => {
+  const message: FeedMessage = { trades: [] };
+  asRecords(JSON.parse(data)).forEach(item => {
+    if (item.ev === 'T') {
+      const trade = toTrade(item.sym, item.p, item.t, item.s);
+      if (trade) {
+        message.trades.push(trade);
+      }
+    } else if (item.ev === 'status' && item.status === 'auth_success') {
+      message.ready = true;
+    } else if (item.ev === 'status' && item.status === 'auth_failed') {
+      message.error = typeof item.message === 'string' ? item.message : 'authentication failed';
+    }
+  });
+  return message;
+};
+
+const mapSymbols = (symbols: string[], toVendor: (symbol: string) => string | null): string[] =>
+  symbols.map(toVendor).filter((symbol): symbol is string => symbol !== null);
+
+// Binance streams are public; each (un)subscribe request carries an id the server echoes back.
+export const createBinanceProtocol = (): FeedProtocol => {
+  let requestId = 0;
+  const request = (method: string, symbols: string[]): string[] => {
+    const params = mapSymbols(symbols, toBinanceStream);
+    return params.length ? [JSON.stringify({ method, params, id: ++requestId })] : [];
+  };
+  return {
+    openFrames: () => [],
+    waitForReady: false,
+    subscribeFrames: symbols => request('SUBSCRIBE', symbols),
+    unsubscribeFrames: symbols => request('UNSUBSCRIBE', symbols),
+    parseMessage: parseBinanceMessage,
+  };
+};
+
+export const createAlpacaProtocol = (keyId: string, secret: string): FeedProtocol => {
+  const request = (action: string, symbols: string[]): string[] => {
+    const trades = mapSymbols(symbols, symbol => (isPlainTicker(symbol) ? symbol : null));
+    return trades.length ? [JSON.stringify({ action, trades })] : [];
+  };
+  return {
+    openFrames: () => [JSON.stringify({ action: 'auth', key: keyId, secret })],
+    waitForReady: true,
+    subscribeFrames: symbols => request('subscribe', symbols),
+    unsubscribeFrames: symbols => request('unsubscribe', symbols),
+    parseMessage: parseAlpacaMessage,
+  };
+};
+
+// Polygon channels are `T.<ticker>`, several joined with commas in one request.
+export const createPolygonProtocol = (apiKey: string): FeedProtocol => {
+  const request = (action: string, symbols: string[]): string[] => {
+    const channels = mapSymbols(symbols, symbol => (isPlainTicker(symbol) ? `T.${symbol}` : null));
+    return channels.length ? [JSON.stringify({ action, params: channels.join(',') })] : [];
+  };
+  return {
+    openFrames: () => [JSON.stringify({ action: 'auth', params: apiKey })],
+    waitForReady: true,
+    subscribeFrames: symbols => request('subscribe', symbols),
+    unsubscribeFrames: symbols => request('unsubscribe', symbols),
+    parseMessage: parsePolygonMessage,
+  };
+};
@@ -0,0 +1,198 @@
+import { Candle, CANDLE_INTERVAL_MS, CandleInterval } from './market';
+import { exchangeOf, SymbolInfo } from './symbols';
+
+export const FINNHUB_REST_URL = 'https://finnhub.io/api/v1';
+
+// Finnhub's snapshot for a symbol; `quotedAt` is when the exchange last traded, `fetchedAt` when we asked.
+export type Quote = {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  high: number;
+  low: number;
+  open: number;
+  previousClose: number;
+  quotedAt: number;
+  fetchedAt: number;
+};
+
+export type FinnhubRestClient = {
+  // Bars whose bucket starts in [from, to), oldest first; an empty list when Finnhub has nothing for the range.
+  candles: (symbol: string, interval: CandleInterval, from: number, to: number) => Promise<Candle[]>;
+  quote: (symbol: string) => Promise<Quote | null>;
+  search: (query: string) => Promise<SymbolInfo[]>;
+};
+
+export type FinnhubRestOptions = {
+  token: string;
+  baseUrl?: string;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+  now?: () => number;
+};
+
+// `status` is the HTTP status, or null when the request never got an answer (offline, DNS, timeout).
+export class FinnhubRestError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null) {
+    super(message);
+    this.name = 'FinnhubRestError';
+    this.status = status;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+// Finnhub has no second bars; the rest map onto its resolutions.
+const RESOLUTIONS: Partial<Record<CandleInterval, string>> = { '1m': '1', '5m': '5', '1h': '60' };
+
+const FOREX_EXCHANGES = ['OANDA', 'FXCM', 'FOREX.COM', 'IC MARKETS', 'FXPRO'];
+
+export const supportsBackfill = (interval: CandleInterval): boolean => RESOLUTIONS[interval] !== undefined;
+
+// Plain tickers are stocks; `EXCHANGE:PAIR` symbols are forex or crypto depending on the exchange.
+export const candleEndpoint = (symbol: string): string => {
+  const separator = symbol.indexOf(':');
+  if (separator === -1) {
+    return 'stock/candle';
+  }
+  return FOREX_EXCHANGES.includes(symbol.slice(0, separator).toUpperCase()) ? 'forex/candle' : 'crypto/candle';
+};
+
+const numberAt = (values: unknown, index: number): number => {
+  const value = Array.isArray(values) ? values[index] : undefined;
+  return typeof value === 'number' ? value : Number.NaN;
+};
+
+// Turn a candle response's parallel arrays into bars, skipping any that are incomplete or inconsistent.
+export const parseCandleResponse = (symbol: string, interval: CandleInterval, payload: unknown): Candle[] => {
+  const body = (payload ?? {}) as Record<string, unknown>;
+  if (body.s !== 'ok' || !Array.isArray(body.t)) {
+    return [];
+  }
+  const size = CANDLE_INTERVAL_MS[interval];
+  const candles: Candle[] = [];
+  body.t.forEach((_, index) => {
+    const start = numberAt(body.t, index) * 1000;
+    const open = numberAt(body.o, index);
+    const high = numberAt(body.h, index);
+    const low = numberAt(body.l, index);
+    const close = numberAt(body.c, index);
+    const volume = numberAt(body.v, index);
+    const values = [start, open, high, low, close];
+    if (values.some(value => !Number.isFinite(value)) || low > Math.min(open, close) || high < Math.max(open, close)) {
+      return;
+    }
+    // No trades were aggregated locally, so the bar spans its whole bucket.
+    candles.push({
+      symbol,
+      interval,
+      start,
+      open,
+      high,
+      low,
+      close,
+      volume: Number.isFinite(volume) && volume >= 0 ? volume : 0,
+      tradeCount: 0,
+      openTime: start,
+      closeTime: start + size - 1,
+    });
+  });
+  return candles.sort((a, b) => a.start - b.start);
+};
+
+// Finnhub answers unknown symbols with an all-zero quote rather than an error.
+export const parseQuoteResponse = (symbol: string, payload: unknown, fetchedAt: number): Quote | null => {
+  const body = (payload ?? {}) as Record<string, unknown>;
+  const read = (key: string) => (typeof body[key] === 'number' ? (body[key] as number) : Number.NaN);
+  const price = read('c');
+  if (!Number.isFinite(price) || price <= 0) {
+    return null;
+  }
+  const orZero = (value: number) => (Number.isFinite(value) ? value : 0);
+  return {
+    symbol,
+    price,
+    change: orZero(read('d')),
+    changePercent: orZero(read('dp')),
+    high: orZero(read('h')),
+    low: orZero(read('l')),
+    open: orZero(read('o')),
+    previousClose: orZero(read('pc')),
+    quotedAt: orZero(read('t')) * 1000,
+    fetchedAt,
+  };
+};
+
+// Search hits in Finnhub's order; entries without a symbol are dropped and a missing name falls back to the symbol.
+export const parseSearchResponse = (payload: unknown): SymbolInfo[] => {
+  const body = (payload ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(body.result)) {
+    return [];
+  }
+  return body.result.flatMap(item => {
+    const entry = (item ?? {}) as Record<string, unknown>;
+    const text = (key: string) => (typeof entry[key] === 'string' ? (entry[key] as string).trim() : '');
+    const symbol = text('symbol').toUpperCase();
+    if (!symbol) {
+      return [];
+    }
+    return [
+      {
+        symbol,
+        description: text('description') || symbol,
+        exchange: exchangeOf(symbol),
+        type: text('type') || 'Other',
+      },
+    ];
+  });
+};
+
+export const createFinnhubRestClient = (options: FinnhubRestOptions): FinnhubRestClient => {
+  const baseUrl = options.baseUrl ?? FINNHUB_REST_URL;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const now = options.now ?? Date.now;
+
+  const get = async (path: string, params: Record<string, string>): Promise<unknown> => {
+    const fetchImpl = options.fetchImpl ?? fetch;
+    const query = Object.entries({ ...params, token: options.token })
+      .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+      .join('&');
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}/${path}?${query}`, { signal: controller.signal });
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new FinnhubRestError(`Request to ${path} failed: ${reason}`, null);
+    } finally {
+      clearTimeout(timer);
+    }
+    if (!response.ok) {
+      throw new FinnhubRestError(`Request to ${path} returned ${response.status}`, response.status);
+    }
+    return response.json();
+  };
+
+  return {
+    candles: async (symbol, interval, from, to) => {
+      const resolution = RESOLUTIONS[interval];
+      if (!resolution || to <= from) {
+        return [];
+      }
+      // Finnhub's range is in seconds and includes both ends; our `to` is exclusive.
+      const payload = await get(candleEndpoint(symbol), {
+        symbol,
+        resolution,
+        from: String(Math.floor(from / 1000)),
+        to: String(Math.ceil(to / 1000) - 1),
+      });
+      return parseCandleResponse(symbol, interval, payload).filter(candle => candle.start >= from && candle.start < to);
+    },
+    quote: async symbol => parseQuoteResponse(symbol, await get('quote', { symbol }), now()),
+    search: async query => parseSearchResponse(await get('search', { q: query })),
+  };
+};
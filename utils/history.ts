@@ -0,0 +1,168 @@
+import { parseLocalDateTime } from './alerts';
+
+// Which stored trades the history screen lists. Null bounds are open; times are [from, to).
+export type HistoryFilter = {
+  // Matched anywhere in the symbol, ignoring case; empty matches every symbol.
+  symbolQuery: string;
+  from: number | null;
+  to: number | null;
+  minPrice: number | null;
+  maxPrice: number | null;
+};
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = {
+  symbolQuery: '',
+  from: null,
+  to: null,
+  minPrice: null,
+  maxPrice: null,
+};
+
+// The filter fields as typed; dates are "YYYY-MM-DD" or "YYYY-MM-DD HH:MM" in local time.
+export type HistoryFilterDraft = {
+  symbol: string;
+  from: string;
+  to: string;
+  minPrice: string;
+  maxPrice: string;
+};
+
+export const EMPTY_HISTORY_DRAFT: HistoryFilterDraft = { symbol: '', from: '', to: '', minPrice: '', maxPrice: '' };
+
+// A stored trade with its row id, so it can be deleted and paged past.
+export type HistoryTrade = {
+  id: number;
+  symbol: string;
+  price: number;
+  timestamp: number;
+  volume: number;
+};
+
+// The last trade of a page; the next page starts right after it in (symbol, newest first) order.
+export type HistoryCursor = Pick<HistoryTrade, 'symbol' | 'timestamp' | 'id'>;
+
+// Totals over every trade of a symbol that passes the filter, not only the pages loaded so far.
+export type HistorySummary = {
+  symbol: string;
+  count: number;
+  low: number;
+  high: number;
+  firstPrice: number;
+  firstAt: number;
+  lastPrice: number;
+  lastAt: number;
+};
+
+export type HistorySection = {
+  key: string;
+  summary: HistorySummary;
+  data: HistoryTrade[];
+};
+
+export const historyFilterMatches = (
+  filter: HistoryFilter,
+  trade: Pick<HistoryTrade, 'symbol' | 'price' | 'timestamp'>
+): boolean =>
+  trade.symbol.toUpperCase().includes(filter.symbolQuery.toUpperCase()) &&
+  (filter.from === null || trade.timestamp >= filter.from) &&
+  (filter.to === null || trade.timestamp < filter.to) &&
+  (filter.minPrice === null || trade.price >= filter.minPrice) &&
+  (filter.maxPrice === null || trade.price <= filter.maxPrice);
+
+// Whether `trade` sorts after `cursor`: symbols ascending, then newest first, then by id for equal timestamps.
+export const isAfterHistoryCursor = (trade: HistoryCursor, cursor: HistoryCursor): boolean =>
+  trade.symbol > cursor.symbol ||
+  (trade.symbol === cursor.symbol &&
+    (trade.timestamp < cursor.timestamp || (trade.timestamp === cursor.timestamp && trade.id < cursor.id)));
+
+// A date alone means the start of that day, or for the end of a range the start of the next so the day is included.
+const parseHistoryDate = (text: string, endOfRange: boolean): number | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return parseLocalDateTime(text);
+  }
+  const start = parseLocalDateTime(`${text} 00:00`);
+  if (start === null || !endOfRange) {
+    return start;
+  }
+  const next = new Date(start);
+  next.setDate(next.getDate() + 1);
+  return next.getTime();
+};
+
+const parsePrice = (text: string): number | null | undefined => {
+  if (!text) {
+    return null;
+  }
+  const value = Number(text);
+  return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+// Returns the filter, or a message naming the first field that does not parse.
+export const parseHistoryFilter = (draft: HistoryFilterDraft): HistoryFilter | string => {
+  const fromText = draft.from.trim();
+  const toText = draft.to.trim();
+  const from = fromText ? parseHistoryDate(fromText, false) : null;
+  const to = toText ? parseHistoryDate(toText, true) : null;
+  if (from === null && fromText) {
+    return 'Enter the start as YYYY-MM-DD or YYYY-MM-DD HH:MM.';
+  }
+  if (to === null && toText) {
+    return 'Enter the end as YYYY-MM-DD or YYYY-MM-DD HH:MM.';
+  }
+  if (from !== null && to !== null && from >= to) {
+    return 'The start must be before the end.';
+  }
+  const minPrice = parsePrice(draft.minPrice.trim());
+  const maxPrice = parsePrice(draft.maxPrice.trim());
+  if (minPrice === undefined || maxPrice === undefined) {
+    return 'Enter prices as plain numbers.';
+  }
+  if (minPrice !== null && maxPrice !== null && minPrice > maxPrice) {
+    return 'The minimum price must not exceed the maximum.';
+  }
+  return { symbolQuery: draft.symbol.trim(), from, to, minPrice, maxPrice };
+};
+
+/*
+ * Add a page from TradeRepository.browseTrades to the loaded sections. Pages arrive in section order, so a page
+ * continues the last section and then opens new ones; a section only appears once its first trade has loaded.
+ */
+export const appendHistoryPage = (
+  sections: HistorySection[],
+  page: HistoryTrade[],
+  summaries: HistorySummary[]
+): HistorySection[] => {
+  const next = sections.slice();
+  page.forEach(trade => {
+    const last = next[next.length - 1];
+    if (last?.key === trade.symbol) {
+      next[next.length - 1] = { ...last, data: [...last.data, trade] };
+      return;
+    }
+    const summary = summaries.find(entry => entry.symbol === trade.symbol);
+    // A symbol written since the summaries were read has none yet; it is left out until the next reload.
+    if (summary) {
+      next.push({ key: trade.symbol, summary, data: [trade] });
+    }
+  });
+  return next;
+};
+
+// Drop deleted trades and put in fresh summaries; sections with nothing left to match the filter are removed.
+export const pruneHistorySections = (
+  sections: HistorySection[],
+  deletedIds: number[],
+  summaries: HistorySummary[]
+): HistorySection[] => {
+  const deleted = new Set(deletedIds);
+  return sections.flatMap(section => {
+    const summary = summaries.find(entry => entry.symbol === section.key);
+    return summary ? [{ ...section, summary, data: section.data.filter(trade => !deleted.has(trade.id)) }] : [];
+  });
+};
+
+export const describeHistorySummary = (summary: HistorySummary): string => {
+  const trades = `${summary.count.toLocaleString()} ${summary.count === 1 ? 'trade' : 'trades'}`;
+  const range = `low ${summary.low.toFixed(2)} · high ${summary.high.toFixed(2)}`;
+  return `${trades} · ${range} · ${summary.firstPrice.toFixed(2)} → ${summary.lastPrice.toFixed(2)}`;
+};
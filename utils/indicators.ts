@@ -0,0 +1,301 @@
+import { Candle } from './market';
+
+/*
+ * Streaming indicators: each one keeps O(1) or O(period) state and is fed one value at a time, so a new
+ * trade or bar costs a constant amount of work instead of a pass over the whole history.
+ * `update` commits a value; `peek` answers "what if this value were committed" for a bar that is still forming.
+ */
+export type StreamingIndicator<TInput, TOutput> = {
+  update: (input: TInput) => TOutput | null;
+  peek: (input: TInput) => TOutput | null;
+  value: () => TOutput | null;
+};
+
+export type BollingerValue = {
+  middle: number;
+  upper: number;
+  lower: number;
+};
+
+export type MacdValue = {
+  macd: number;
+  signal: number;
+  histogram: number;
+};
+
+export type VolumeWeightedInput = {
+  price: number;
+  volume: number;
+};
+
+const assertPeriod = (period: number) => {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new RangeError(`Indicator period must be a positive integer, got ${period}`);
+  }
+};
+
+// Fixed-size window with running sums, shared by SMA and Bollinger Bands.
+const createWindow = (period: number) => {
+  const values: number[] = [];
+  let sum = 0;
+  let sumOfSquares = 0;
+
+  return {
+    push: (value: number) => {
+      values.push(value);
+      sum += value;
+      sumOfSquares += value * value;
+      if (values.length > period) {
+        const removed = values.shift() as number;
+        sum -= removed;
+        sumOfSquares -= removed * removed;
+      }
+    },
+    // Sums as they would be after pushing `value`, without changing the window.
+    projected: (value: number) => {
+      const full = values.length >= period;
+      const removed = full ? values[0] : 0;
+      return {
+        count: Math.min(values.length + 1, period),
+        sum: sum - removed + value,
+        sumOfSquares: sumOfSquares - removed * removed + value * value,
+      };
+    },
+    current: () => ({ count: values.length, sum, sumOfSquares }),
+  };
+};
+
+export const createSma = (period: number): StreamingIndicator<number, number> => {
+  assertPeriod(period);
+  const window = createWindow(period);
+  let current: number | null = null;
+
+  const compute = ({ count, sum }: { count: number; sum: number }) => (count >= period ? sum / period : null);
+
+  return {
+    update: value => {
+      window.push(value);
+      current = compute(window.current());
+      return current;
+    },
+    peek: value => compute(window.projected(value)),
+    value: () => current,
+  };
+};
+
+// Seeded with the SMA of the first `period` values, the usual convention for charting packages.
+export const createEma = (period: number): StreamingIndicator<number, number> => {
+  assertPeriod(period);
+  const alpha = 2 / (period + 1);
+  const seed = createSma(period);
+  let current: number | null = null;
+
+  const next = (value: number): number | null =>
+    current === null ? seed.peek(value) : current + alpha * (value - current);
+
+  return {
+    update: value => {
+      if (current === null) {
+        current = seed.update(value);
+      } else {
+        current = current + alpha * (value - current);
+      }
+      return current;
+    },
+    peek: next,
+    value: () => current,
+  };
+};
+
+export const createBollinger = (period = 20, stdDevs = 2): StreamingIndicator<number, BollingerValue> => {
+  assertPeriod(period);
+  const window = createWindow(period);
+  let current: BollingerValue | null = null;
+
+  const compute = ({ count, sum, sumOfSquares }: { count: number; sum: number; sumOfSquares: number }) => {
+    if (count < period) {
+      return null;
+    }
+    const middle = sum / period;
+    // Population variance; clamp tiny negatives from floating point cancellation.
+    const deviation = Math.sqrt(Math.max(sumOfSquares / period - middle * middle, 0));
+    return { middle, upper: middle + stdDevs * deviation, lower: middle - stdDevs * deviation };
+  };
+
+  return {
+    update: value => {
+      window.push(value);
+      current = compute(window.current());
+      return current;
+    },
+    peek: value => compute(window.projected(value)),
+    value: () => current,
+  };
+};
+
+// Cumulative VWAP; callers start a new instance for each session they want anchored.
+export const createVwap = (): StreamingIndicator<VolumeWeightedInput, number> => {
+  let priceVolume = 0;
+  let volume = 0;
+
+  const compute = (pv: number, v: number) => (v > 0 ? pv / v : null);
+
+  return {
+    update: input => {
+      priceVolume += input.price * input.volume;
+      volume += input.volume;
+      return compute(priceVolume, volume);
+    },
+    peek: input => compute(priceVolume + input.price * input.volume, volume + input.volume),
+    value: () => compute(priceVolume, volume),
+  };
+};
+
+// Wilder's RSI: simple average of the first `period` moves, then exponential smoothing with alpha = 1 / period.
+export const createRsi = (period = 14): StreamingIndicator<number, number> => {
+  assertPeriod(period);
+  let previous: number | null = null;
+  let moves = 0;
+  let averageGain = 0;
+  let averageLoss = 0;
+  let current: number | null = null;
+
+  const step = (value: number) => {
+    if (previous === null) {
+      return { moves, averageGain, averageLoss, rsi: null as number | null };
+    }
+    const change = value - previous;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    const nextMoves = moves + 1;
+    const nextGain =
+      nextMoves <= period ? averageGain + (gain - averageGain) / nextMoves : (averageGain * (period - 1) + gain) / period;
+    const nextLoss =
+      nextMoves <= period ? averageLoss + (loss - averageLoss) / nextMoves : (averageLoss * (period - 1) + loss) / period;
+    let rsi: number | null = null;
+    if (nextMoves >= period) {
+      rsi = nextLoss === 0 ? (nextGain === 0 ? 50 : 100) : 100 - 100 / (1 + nextGain / nextLoss);
+    }
+    return { moves: nextMoves, averageGain: nextGain, averageLoss: nextLoss, rsi };
+  };
+
+  return {
+    update: value => {
+      const next = step(value);
+      moves = next.moves;
+      averageGain = next.averageGain;
+      averageLoss = next.averageLoss;
+      previous = value;
+      current = next.rsi;
+      return current;
+    },
+    peek: value => step(value).rsi,
+    value: () => current,
+  };
+};
+
+export const createMacd = (fast = 12, slow = 26, signalPeriod = 9): StreamingIndicator<number, MacdValue> => {
+  const fastEma = createEma(fast);
+  const slowEma = createEma(slow);
+  const signalEma = createEma(signalPeriod);
+  let current: MacdValue | null = null;
+
+  const toValue = (macd: number, signal: number | null): MacdValue | null =>
+    signal === null ? null : { macd, signal, histogram: macd - signal };
+
+  return {
+    update: value => {
+      const fastValue = fastEma.update(value);
+      const slowValue = slowEma.update(value);
+      if (fastValue === null || slowValue === null) {
+        return null;
+      }
+      const macd = fastValue - slowValue;
+      current = toValue(macd, signalEma.update(macd));
+      return current;
+    },
+    peek: value => {
+      const fastValue = fastEma.peek(value);
+      const slowValue = slowEma.peek(value);
+      if (fastValue === null || slowValue === null) {
+        return null;
+      }
+      const macd = fastValue - slowValue;
+      return toValue(macd, signalEma.peek(macd));
+    },
+    value: () => current,
+  };
+};
+
+export type IndicatorSettings = {
+  smaPeriod: number;
+  emaPeriod: number;
+  bollingerPeriod: number;
+  bollingerStdDevs: number;
+  rsiPeriod: number;
+  macdFast: number;
+  macdSlow: number;
+  macdSignal: number;
+};
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  smaPeriod: 20,
+  emaPeriod: 9,
+  bollingerPeriod: 20,
+  bollingerStdDevs: 2,
+  rsiPeriod: 14,
+  macdFast: 12,
+  macdSlow: 26,
+  macdSignal: 9,
+};
+
+export type IndicatorPoint = {
+  start: number;
+  sma: number | null;
+  ema: number | null;
+  bollinger: BollingerValue | null;
+  vwap: number | null;
+  rsi: number | null;
+  macd: MacdValue | null;
+};
+
+export type IndicatorEngine = {
+  push: (candle: Candle) => IndicatorPoint;
+  preview: (candle: Candle) => IndicatorPoint;
+  points: () => IndicatorPoint[];
+  lastStart: () => number | null;
+};
+
+export const typicalPrice = (candle: Candle) => (candle.high + candle.low + candle.close) / 3;
+
+// Runs every indicator over a bar series: `push` closed bars in order, `preview` the bar that is still forming.
+export const createIndicatorEngine = (settings: IndicatorSettings = DEFAULT_INDICATOR_SETTINGS): IndicatorEngine => {
+  const sma = createSma(settings.smaPeriod);
+  const ema = createEma(settings.emaPeriod);
+  const bollinger = createBollinger(settings.bollingerPeriod, settings.bollingerStdDevs);
+  const vwap = createVwap();
+  const rsi = createRsi(settings.rsiPeriod);
+  const macd = createMacd(settings.macdFast, settings.macdSlow, settings.macdSignal);
+  const committed: IndicatorPoint[] = [];
+
+  const evaluate = (candle: Candle, method: 'update' | 'peek'): IndicatorPoint => ({
+    start: candle.start,
+    sma: sma[method](candle.close),
+    ema: ema[method](candle.close),
+    bollinger: bollinger[method](candle.close),
+    vwap: vwap[method]({ price: typicalPrice(candle), volume: candle.volume }),
+    rsi: rsi[method](candle.close),
+    macd: macd[method](candle.close),
+  });
+
+  return {
+    push: candle => {
+      const point = evaluate(candle, 'update');
+      committed.push(point);
+      return point;
+    },
+    preview: candle => evaluate(candle, 'peek'),
+    points: () => committed,
+    lastStart: () => (committed.length ? committed[committed.length - 1].start : null),
+  };
+};
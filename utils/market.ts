@@ -4,6 +4,68 @@ export type PriceSample = {
   timestamp: number;
 };
 
+export type SubscriptionDiff = {
+  subscribe: string[];
+  unsubscribe: string[];
+};
+
+export const normalizeSymbol = (rawSymbol: string): string => rawSymbol.trim().toUpperCase();
+
+// Work out which subscribe/unsubscribe frames move a socket from its current symbol set to the next watchlist.
+export const diffSubscriptions = (current: Iterable<string>, next: string[]): SubscriptionDiff => {
+  const currentSet = new Set(current);
+  const nextSet = new Set(next);
+  return {
+    subscribe: Array.from(nextSet).filter(symbol => !currentSet.has(symbol)),
+    unsubscribe: Array.from(currentSet).filter(symbol => !nextSet.has(symbol)),
+  };
+};
+
+/*
+ * Combine symbol lists for one socket in priority order, keeping the first `limit` distinct symbols.
+ * `dropped` lists the lower-priority symbols that did not fit.
+ */
+export const capSymbols = (
+  primary: string[],
+  secondary: string[],
+  limit: number
+): { symbols: string[]; dropped: string[] } => {
+  const distinct = Array.from(new Set([...primary, ...secondary]));
+  return { symbols: distinct.slice(0, limit), dropped: distinct.slice(limit) };
+};
+
+// Merge trades into a newest-first buffer, dropping duplicates by key and capping the length.
+export const mergeUpdates = <T extends PriceSample & { key: string }>(
+  existing: T[],
+  incoming: T[],
+  limit: number
+): T[] => {
+  const byKey = new Map<string, T>();
+  [...incoming, ...existing].forEach(item => {
+    if (!byKey.has(item.key)) {
+      byKey.set(item.key, item);
+    }
+  });
+  return Array.from(byKey.values())
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit);
+};
+
+// Fold a batch of trades into per-symbol buffers; symbols without new trades keep their existing arrays.
+export const mergeUpdatesBySymbol = <T extends PriceSample & { key: string; symbol: string }>(
+  buffers: Record<string, T[]>,
+  incoming: T[],
+  limit: number
+): Record<string, T[]> => {
+  const bySymbol = new Map<string, T[]>();
+  incoming.forEach(item => bySymbol.set(item.symbol, [...(bySymbol.get(item.symbol) ?? []), item]));
+  const next = { ...buffers };
+  bySymbol.forEach((items, symbol) => {
+    next[symbol] = mergeUpdates(buffers[symbol] ?? [], items, limit);
+  });
+  return next;
+};
+
 export const formatTimestamp = (timestamp: number): string => {
   const date = new Date(timestamp);
   if (Number.isNaN(date.getTime())) {
@@ -12,59 +74,153 @@ export const formatTimestamp = (timestamp: number): string => {
   return `${date.toLocaleDateString()} ${date.toLocaleTimeString()}`;
 };
 
-export const computeMetrics = (entries: PriceSample[]) => {
-  if (!entries.length) {
-    return { change: 0, percentage: 0, basis: null as number | null, latest: null as number | null };
-  }
-  const latest = entries[0].price;
-  const oldest = entries[entries.length - 1].price;
-  const change = latest - oldest;
-  const percentage = oldest !== 0 ? (change / oldest) * 100 : 0;
+export type CandleInterval = '1s' | '1m' | '5m' | '1h';
 
-  return {
-    change,
-    percentage,
-    basis: oldest,
-    latest,
-  };
+export const CANDLE_INTERVALS: CandleInterval[] = ['1s', '1m', '5m', '1h'];
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  '1s': 1000,
+  '1m': 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
 };
 
-export const computeSparklinePoints = (entries: PriceSample[]) => {
-  if (entries.length < 2) {
-    return {
-      points: [] as Array<{ key: number; price: number; normalized: number }>,
-      min: null as number | null,
-      max: null as number | null,
-    };
-  }
+export type TradeSample = {
+  symbol: string;
+  price: number;
+  timestamp: number;
+  volume?: number;
+};
+
+// `openTime`/`closeTime` are the timestamps of the trades that set open/close, so out-of-order trades merge correctly.
+export type Candle = {
+  symbol: string;
+  interval: CandleInterval;
+  start: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  tradeCount: number;
+  openTime: number;
+  closeTime: number;
+};
+
+export const bucketStart = (timestamp: number, interval: CandleInterval): number => {
+  const size = CANDLE_INTERVAL_MS[interval];
+  return Math.floor(timestamp / size) * size;
+};
 
-  const chronological = [...entries].reverse();
-  const prices = chronological.map(item => item.price);
-  const max = Math.max(...prices);
-  const min = Math.min(...prices);
-  const range = max - min || 1;
+export const candleFromTrade = (trade: TradeSample, interval: CandleInterval): Candle => ({
+  symbol: trade.symbol,
+  interval,
+  start: bucketStart(trade.timestamp, interval),
+  open: trade.price,
+  high: trade.price,
+  low: trade.price,
+  close: trade.price,
+  volume: trade.volume ?? 0,
+  tradeCount: 1,
+  openTime: trade.timestamp,
+  closeTime: trade.timestamp,
+});
 
+// Combine two partial candles for the same bucket; order of arguments does not matter.
+export const mergeCandles = (a: Candle, b: Candle): Candle => {
+  const first = b.openTime < a.openTime ? b : a;
+  const last = b.closeTime >= a.closeTime ? b : a;
   return {
-    points: chronological.map(item => ({
-      key: item.timestamp,
-      price: item.price,
-      normalized: (item.price - min) / range,
-    })),
-    min,
-    max,
+    ...a,
+    open: first.open,
+    openTime: first.openTime,
+    close: last.close,
+    closeTime: last.closeTime,
+    high: Math.max(a.high, b.high),
+    low: Math.min(a.low, b.low),
+    volume: a.volume + b.volume,
+    tradeCount: a.tradeCount + b.tradeCount,
   };
 };
 
-export const isUsMarketOpen = (date: Date): boolean => {
-  const day = date.getUTCDay();
-  const hour = date.getUTCHours();
-  const minute = date.getUTCMinutes();
+// Fold additional bars into a chronological series; bars sharing a bucket hold disjoint trades, so they merge.
+export const mergeCandleSeries = (series: Candle[], additions: Candle[]): Candle[] => {
+  const byStart = new Map<number, Candle>();
+  [...series, ...additions].forEach(candle => {
+    const existing = byStart.get(candle.start);
+    byStart.set(candle.start, existing ? mergeCandles(existing, candle) : candle);
+  });
+  return Array.from(byStart.values()).sort((a, b) => a.start - b.start);
+};
 
-  // US regular market hours: 9:30 AM - 4:00 PM ET => 14:30 - 21:00 UTC (approx, ignoring DST).
-  const minutesOfDay = hour * 60 + minute;
-  const openMinutes = 14 * 60 + 30;
-  const closeMinutes = 21 * 60;
+export type CandleAggregatorOptions = {
+  intervals?: CandleInterval[];
+  // How long after a bucket ends we still wait for stragglers before emitting it as finished.
+  allowedLatenessMs?: number;
+};
+
+export type CandleAggregator = {
+  addTrade: (trade: TradeSample) => Candle[];
+  advanceTime: (now: number) => Candle[];
+  flush: () => Candle[];
+  getOpenCandles: (symbol: string, interval: CandleInterval) => Candle[];
+};
 
-  const weekday = day >= 1 && day <= 5;
-  return weekday && minutesOfDay >= openMinutes && minutesOfDay <= closeMinutes;
+export const DEFAULT_ALLOWED_LATENESS_MS = 2000;
+
+/*
+ * Roll trades into OHLCV bars per symbol and interval. Bars are emitted once the symbol's newest trade
+ * (or the wall clock passed to advanceTime) moves past bucket end + allowed lateness. A trade that arrives
+ * after its bar was emitted comes back as a single-trade fragment for the caller to merge into the stored bar.
+ */
+export const createCandleAggregator = (options: CandleAggregatorOptions = {}): CandleAggregator => {
+  const intervals = options.intervals ?? CANDLE_INTERVALS;
+  const allowedLatenessMs = options.allowedLatenessMs ?? DEFAULT_ALLOWED_LATENESS_MS;
+  const open = new Map<string, Candle>();
+  const watermarks = new Map<string, number>();
+
+  const keyFor = (symbol: string, interval: CandleInterval, start: number) => `${symbol}|${interval}|${start}`;
+  const isClosed = (candle: Candle, watermark: number) =>
+    candle.start + CANDLE_INTERVAL_MS[candle.interval] + allowedLatenessMs <= watermark;
+
+  const emitWhere = (predicate: (candle: Candle) => boolean): Candle[] => {
+    const finished: Candle[] = [];
+    open.forEach((candle, key) => {
+      if (predicate(candle)) {
+        finished.push(candle);
+        open.delete(key);
+      }
+    });
+    return finished.sort((a, b) => a.start - b.start);
+  };
+
+  return {
+    addTrade: trade => {
+      const previousWatermark = watermarks.get(trade.symbol) ?? -Infinity;
+      const watermark = Math.max(previousWatermark, trade.timestamp);
+      watermarks.set(trade.symbol, watermark);
+
+      const late: Candle[] = [];
+      intervals.forEach(interval => {
+        const fragment = candleFromTrade(trade, interval);
+        const key = keyFor(trade.symbol, interval, fragment.start);
+        const existing = open.get(key);
+        if (existing) {
+          open.set(key, mergeCandles(existing, fragment));
+        } else if (isClosed(fragment, previousWatermark)) {
+          late.push(fragment);
+        } else {
+          open.set(key, fragment);
+        }
+      });
+
+      return [...late, ...emitWhere(candle => candle.symbol === trade.symbol && isClosed(candle, watermark))];
+    },
+    advanceTime: now => emitWhere(candle => isClosed(candle, now)),
+    flush: () => emitWhere(() => true),
+    getOpenCandles: (symbol, interval) =>
+      Array.from(open.values())
+        .filter(candle => candle.symbol === symbol && candle.interval === interval)
+        .sort((a, b) => a.start - b.start),
+  };
 };
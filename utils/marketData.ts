@@ -0,0 +1,190 @@
+import {
+  buildFinnhubUrl,
+  createFeedClient,
+  FeedClient,
+  FeedStatus,
+  FeedTrade,
+  initialFeedStatus,
+  StatusListener,
+  TradeListener,
+} from './feedClient';
+import {
+  ALPACA_URL,
+  BINANCE_URL,
+  createAlpacaProtocol,
+  createBinanceProtocol,
+  createPolygonProtocol,
+  POLYGON_URL,
+} from './feedProtocols';
+
+// What the app needs from a source of trades; the WebSocket feed client is one implementation.
+export type MarketDataProvider = Pick<
+  FeedClient,
+  'connect' | 'disconnect' | 'retryNow' | 'setSymbols' | 'getStatus' | 'getLastMessageAt' | 'onTrade' | 'onStatus'
+>;
+
+export type ProviderKind = 'finnhub' | 'binance' | 'alpaca' | 'polygon' | 'synthetic' | 'replay';
+
+// Vendors that stream over a WebSocket; the others generate or replay trades in-process.
+export type StreamingProviderKind = Exclude<ProviderKind, 'synthetic' | 'replay'>;
+
+// Read from EXPO_PUBLIC_* variables at build time; empty when not set.
+export type ProviderCredentials = {
+  finnhubToken: string;
+  alpacaKeyId: string;
+  alpacaSecret: string;
+  polygonApiKey: string;
+};
+
+// Percentages are per hour of wall-clock time, so a demo moves visibly within minutes.
+export type SyntheticSettings = {
+  driftPctPerHour: number;
+  volatilityPctPerHour: number;
+  ticksPerSecond: number;
+};
+
+export type ReplaySource = 'database' | 'url';
+
+export type ReplaySettings = {
+  source: ReplaySource;
+  // A CSV or JSON recording, used when `source` is 'url'; file:// URLs work where the platform's fetch allows.
+  url: string;
+  speed: number;
+};
+
+export type ProviderSettings = {
+  kind: ProviderKind;
+  synthetic: SyntheticSettings;
+  replay: ReplaySettings;
+};
+
+export const PROVIDER_OPTIONS: Array<{ value: ProviderKind; label: string }> = [
+  { value: 'finnhub', label: 'Finnhub' },
+  { value: 'binance', label: 'Binance' },
+  { value: 'alpaca', label: 'Alpaca' },
+  { value: 'polygon', label: 'Polygon' },
+  { value: 'synthetic', label: 'Synthetic' },
+  { value: 'replay', label: 'Replay' },
+];
+
+export const REPLAY_SPEEDS = [1, 10];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  kind: 'finnhub',
+  synthetic: { driftPctPerHour: 0, volatilityPctPerHour: 2, ticksPerSecond: 5 },
+  replay: { source: 'database', url: '', speed: 1 },
+};
+
+const MAX_TICKS_PER_SECOND = 50;
+
+const REQUIRED_CREDENTIALS: Record<ProviderKind, Array<{ key: keyof ProviderCredentials; env: string }>> = {
+  finnhub: [{ key: 'finnhubToken', env: 'EXPO_PUBLIC_FINNHUB_TOKEN' }],
+  binance: [],
+  alpaca: [
+    { key: 'alpacaKeyId', env: 'EXPO_PUBLIC_ALPACA_KEY_ID' },
+    { key: 'alpacaSecret', env: 'EXPO_PUBLIC_ALPACA_SECRET' },
+  ],
+  polygon: [{ key: 'polygonApiKey', env: 'EXPO_PUBLIC_POLYGON_API_KEY' }],
+  synthetic: [],
+  replay: [],
+};
+
+export const isStreamingProvider = (kind: ProviderKind): kind is StreamingProviderKind =>
+  kind !== 'synthetic' && kind !== 'replay';
+
+// Environment variables the provider needs that are not set, e.g. ['EXPO_PUBLIC_POLYGON_API_KEY'].
+export const missingCredentials = (kind: ProviderKind, credentials: ProviderCredentials): string[] =>
+  REQUIRED_CREDENTIALS[kind].filter(({ key }) => !credentials[key]).map(({ env }) => env);
+
+export const credentialNames = (kind: ProviderKind): string[] => REQUIRED_CREDENTIALS[kind].map(({ env }) => env);
+
+export const validateProviderSettings = (settings: ProviderSettings): string | null => {
+  const { synthetic, replay } = settings;
+  if (!Number.isFinite(synthetic.driftPctPerHour) || Math.abs(synthetic.driftPctPerHour) > 100) {
+    return 'Drift must be between -100% and 100% per hour.';
+  }
+  if (!Number.isFinite(synthetic.volatilityPctPerHour) || synthetic.volatilityPctPerHour < 0) {
+    return 'Volatility cannot be negative.';
+  }
+  if (
+    !Number.isFinite(synthetic.ticksPerSecond) ||
+    synthetic.ticksPerSecond <= 0 ||
+    synthetic.ticksPerSecond > MAX_TICKS_PER_SECOND
+  ) {
+    return `Tick rate must be between 0 and ${MAX_TICKS_PER_SECOND} per second.`;
+  }
+  if (!REPLAY_SPEEDS.includes(replay.speed)) {
+    return `Replay speed must be one of ${REPLAY_SPEEDS.map(speed => `${speed}x`).join(', ')}.`;
+  }
+  if (settings.kind === 'replay' && replay.source === 'url' && !/^(https?|file):\/\//i.test(replay.url.trim())) {
+    return 'Enter an http(s) or file:// URL for the recording.';
+  }
+  return null;
+};
+
+// Read settings saved as JSON; anything missing or invalid falls back to the defaults with `fallbackKind`.
+export const parseProviderSettings = (text: string | null, fallbackKind: ProviderKind): ProviderSettings => {
+  const fallback = { ...DEFAULT_PROVIDER_SETTINGS, kind: fallbackKind };
+  if (!text) {
+    return fallback;
+  }
+  try {
+    const parsed = JSON.parse(text) as Partial<ProviderSettings>;
+    const known = PROVIDER_OPTIONS.find(option => option.value === parsed.kind);
+    const settings: ProviderSettings = {
+      kind: known ? known.value : fallbackKind,
+      synthetic: { ...DEFAULT_PROVIDER_SETTINGS.synthetic, ...parsed.synthetic },
+      replay: { ...DEFAULT_PROVIDER_SETTINGS.replay, ...parsed.replay },
+    };
+    return validateProviderSettings(settings) === null ? settings : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const createStreamingProvider = (
+  kind: StreamingProviderKind,
+  credentials: ProviderCredentials
+): MarketDataProvider => {
+  switch (kind) {
+    case 'binance':
+      return createFeedClient({ url: BINANCE_URL, protocol: createBinanceProtocol() });
+    case 'alpaca':
+      return createFeedClient({
+        url: ALPACA_URL,
+        protocol: createAlpacaProtocol(credentials.alpacaKeyId, credentials.alpacaSecret),
+      });
+    case 'polygon':
+      return createFeedClient({ url: POLYGON_URL, protocol: createPolygonProtocol(credentials.polygonApiKey) });
+    default:
+      return createFeedClient({ url: buildFinnhubUrl(credentials.finnhubToken) });
+  }
+};
+
+// Listener bookkeeping shared by the in-process providers.
+export const createProviderEvents = () => {
+  const tradeListeners = new Set<TradeListener>();
+  const statusListeners = new Set<StatusListener>();
+  let status: FeedStatus = { ...initialFeedStatus, state: 'closed' };
+
+  return {
+    getStatus: () => status,
+    setStatus: (patch: Partial<FeedStatus>) => {
+      status = { ...status, ...patch };
+      statusListeners.forEach(listener => listener(status));
+    },
+    emitTrade: (trade: FeedTrade) => tradeListeners.forEach(listener => listener(trade)),
+    onTrade: (listener: TradeListener) => {
+      tradeListeners.add(listener);
+      return () => {
+        tradeListeners.delete(listener);
+      };
+    },
+    onStatus: (listener: StatusListener) => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+  };
+};
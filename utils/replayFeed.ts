@@ -0,0 +1,149 @@
+import { Clock, FeedTrade, systemClock, TimerHandle } from './feedClient';
+import { createProviderEvents, MarketDataProvider } from './marketData';
+
+export type ReplayProviderOptions = {
+  // Recorded trades for the requested symbols, in any order.
+  load: (symbols: string[]) => Promise<FeedTrade[]>;
+  // 1 plays in real time, 10 ten times faster.
+  speed: number;
+  // Quiet stretches in the recording (nights, weekends) are cut down to this many milliseconds.
+  maxGapMs?: number;
+  clock?: Clock;
+};
+
+const DEFAULT_MAX_GAP_MS = 5000;
+// Pause before the recording starts over.
+const LOOP_PAUSE_MS = 1000;
+const NOTHING_TO_REPLAY = 'nothing recorded for these symbols';
+
+const toNumber = (value: unknown): number => (typeof value === 'number' ? value : Number(value));
+
+const toTrade = (row: Record<string, unknown>): FeedTrade | null => {
+  const symbol = typeof row.symbol === 'string' ? row.symbol.trim() : '';
+  const price = toNumber(row.price);
+  const timestamp = toNumber(row.timestamp);
+  const volume = row.volume === undefined || row.volume === '' ? 0 : toNumber(row.volume);
+  if (!symbol || !Number.isFinite(price) || price <= 0 || !Number.isFinite(timestamp)) {
+    return null;
+  }
+  return { symbol, price, timestamp, volume: Number.isFinite(volume) ? volume : 0 };
+};
+
+/*
+ * Read a trade recording: a JSON array of {symbol, price, timestamp, volume} objects, or CSV with a header row
+ * naming those columns. Rows that do not describe a trade are skipped.
+ */
+export const parseTradeRecording = (text: string): FeedTrade[] => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+  let rows: Array<Record<string, unknown>>;
+  if (trimmed.startsWith('[')) {
+    const parsed: unknown = JSON.parse(trimmed);
+    rows = Array.isArray(parsed) ? parsed.filter(row => typeof row === 'object' && row !== null) : [];
+  } else {
+    const [header, ...lines] = trimmed.split(/\r?\n/);
+    const columns = header.split(',').map(column => column.trim().toLowerCase());
+    rows = lines.map(line => {
+      const cells = line.split(',');
+      return Object.fromEntries(columns.map((column, index) => [column, cells[index]?.trim() ?? '']));
+    });
+  }
+  return rows.map(toTrade).filter((trade): trade is FeedTrade => trade !== null);
+};
+
+/*
+ * Play recorded trades back in timestamp order, looping at the end. Trades are re-stamped with the current time
+ * so candles and alerts treat them as live; the gaps between them are kept, divided by `speed`.
+ */
+export const createReplayProvider = (options: ReplayProviderOptions): MarketDataProvider => {
+  const clock = options.clock ?? systemClock;
+  const maxGapMs = options.maxGapMs ?? DEFAULT_MAX_GAP_MS;
+  const events = createProviderEvents();
+
+  let symbols: string[] = [];
+  let recording: FeedTrade[] = [];
+  let position = 0;
+  let timer: TimerHandle | null = null;
+  let active = false;
+  // Bumped on every (re)start so a load that finishes late is ignored.
+  let generation = 0;
+  let lastMessageAt: number | null = null;
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clock.clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const playNext = () => {
+    timer = null;
+    const trade = recording[position];
+    lastMessageAt = clock.now();
+    events.emitTrade({ ...trade, timestamp: lastMessageAt });
+    position = (position + 1) % recording.length;
+    const next = recording[position];
+    const gap = position === 0 ? LOOP_PAUSE_MS : Math.min(Math.max(next.timestamp - trade.timestamp, 0), maxGapMs);
+    timer = clock.setTimeout(playNext, gap / options.speed);
+  };
+
+  const start = async () => {
+    clearTimer();
+    const current = ++generation;
+    active = true;
+    events.setStatus({ state: 'connecting', nextRetryAt: null });
+    let loaded: FeedTrade[];
+    try {
+      loaded = await options.load(symbols);
+    } catch (err) {
+      if (current === generation) {
+        console.warn('Replay load error', err);
+        events.setStatus({ state: 'failed', lastCloseCode: null, lastCloseReason: 'recording could not be loaded' });
+      }
+      return;
+    }
+    if (current !== generation || !active) {
+      return;
+    }
+    recording = loaded.filter(trade => symbols.includes(trade.symbol)).sort((a, b) => a.timestamp - b.timestamp);
+    position = 0;
+    if (!recording.length) {
+      events.setStatus({ state: 'failed', lastCloseCode: null, lastCloseReason: NOTHING_TO_REPLAY });
+      return;
+    }
+    events.setStatus({ state: 'open', attempt: 0, lastCloseReason: null });
+    timer = clock.setTimeout(playNext, 0);
+  };
+
+  return {
+    connect: () => {
+      if (!active) {
+        void start();
+      }
+    },
+    retryNow: () => {
+      void start();
+    },
+    disconnect: () => {
+      active = false;
+      generation += 1;
+      clearTimer();
+      events.setStatus({ state: 'closed' });
+    },
+    // A different symbol set needs a different recording, so playback restarts.
+    setSymbols: next => {
+      const unique = Array.from(new Set(next));
+      const changed = unique.length !== symbols.length || unique.some(symbol => !symbols.includes(symbol));
+      symbols = unique;
+      if (active && changed) {
+        void start();
+      }
+    },
+    getStatus: events.getStatus,
+    getLastMessageAt: () => lastMessageAt,
+    onTrade: events.onTrade,
+    onStatus: events.onStatus,
+  };
+};
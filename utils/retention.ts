@@ -0,0 +1,181 @@
+import { bucketStart, Candle, CandleInterval, candleFromTrade, mergeCandles, TradeSample } from './market';
+
+// How long each tier of a symbol's data is kept. Expiring ticks roll up into 1m bars, and 1m bars into hourly bars.
+export type RetentionPolicy = {
+  rawTickHours: number;
+  minuteBarDays: number;
+  hourBarDays: number;
+};
+
+// `overrides` replace the default policy for individual symbols; the budget covers all stored market data.
+export type RetentionSettings = {
+  defaults: RetentionPolicy;
+  overrides: Record<string, RetentionPolicy>;
+  budgetMb: number;
+};
+
+export type RetentionCutoffs = {
+  // Ticks and 1s bars older than this are dropped.
+  raw: number;
+  // 1m and 5m bars older than this are dropped.
+  minute: number;
+  // Hourly bars older than this are dropped.
+  hour: number;
+};
+
+export type StorageTier = 'trades' | CandleInterval;
+
+// Row counts for one symbol's stored market data.
+export type SymbolStorage = {
+  symbol: string;
+  rows: Record<StorageTier, number>;
+};
+
+export type BudgetTrim = {
+  tier: StorageTier;
+  rows: number;
+};
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  rawTickHours: 6,
+  minuteBarDays: 30,
+  hourBarDays: 365,
+};
+
+export const DEFAULT_RETENTION_SETTINGS: RetentionSettings = {
+  defaults: DEFAULT_RETENTION_POLICY,
+  overrides: {},
+  budgetMb: 50,
+};
+
+export const STORAGE_TIERS: StorageTier[] = ['trades', '1s', '1m', '5m', '1h'];
+
+// Approximate on-disk bytes per row including index entries; SQLite does not report sizes per symbol.
+export const ROW_BYTES: Record<StorageTier, number> = {
+  trades: 80,
+  '1s': 120,
+  '1m': 120,
+  '5m': 120,
+  '1h': 120,
+};
+
+// When over budget, the finest data goes first: it is the bulkiest and is already summarized by coarser bars.
+const TRIM_ORDER: StorageTier[] = ['trades', '1s', '5m', '1m', '1h'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const MAX_RAW_TICK_HOURS = 24 * 7;
+const MAX_BAR_DAYS = 365 * 10;
+
+export const validateRetentionPolicy = (policy: RetentionPolicy): string | null => {
+  if (!Number.isFinite(policy.rawTickHours) || policy.rawTickHours <= 0 || policy.rawTickHours > MAX_RAW_TICK_HOURS) {
+    return `Keep raw ticks for up to ${MAX_RAW_TICK_HOURS} hours.`;
+  }
+  if (!Number.isFinite(policy.minuteBarDays) || policy.minuteBarDays * 24 < policy.rawTickHours) {
+    return 'Keep 1-minute bars at least as long as raw ticks.';
+  }
+  if (!Number.isFinite(policy.hourBarDays) || policy.hourBarDays < policy.minuteBarDays) {
+    return 'Keep hourly bars at least as long as 1-minute bars.';
+  }
+  if (policy.hourBarDays > MAX_BAR_DAYS) {
+    return `Keep bars for at most ${MAX_BAR_DAYS} days.`;
+  }
+  return null;
+};
+
+export const validateRetentionSettings = (settings: RetentionSettings): string | null => {
+  if (!Number.isFinite(settings.budgetMb) || settings.budgetMb < 1) {
+    return 'The storage budget must be at least 1 MB.';
+  }
+  const defaultsError = validateRetentionPolicy(settings.defaults);
+  if (defaultsError) {
+    return defaultsError;
+  }
+  for (const [symbol, policy] of Object.entries(settings.overrides)) {
+    const error = validateRetentionPolicy(policy);
+    if (error) {
+      return `${symbol}: ${error}`;
+    }
+  }
+  return null;
+};
+
+// Read settings saved as JSON, falling back to the defaults for anything missing or invalid.
+export const parseRetentionSettings = (text: string | null): RetentionSettings => {
+  if (!text) {
+    return DEFAULT_RETENTION_SETTINGS;
+  }
+  try {
+    const parsed = JSON.parse(text) as RetentionSettings;
+    const settings: RetentionSettings = {
+      defaults: { ...DEFAULT_RETENTION_POLICY, ...parsed.defaults },
+      overrides: parsed.overrides && typeof parsed.overrides === 'object' ? parsed.overrides : {},
+      budgetMb: Number(parsed.budgetMb),
+    };
+    return validateRetentionSettings(settings) === null ? settings : DEFAULT_RETENTION_SETTINGS;
+  } catch {
+    return DEFAULT_RETENTION_SETTINGS;
+  }
+};
+
+export const retentionPolicyFor = (settings: RetentionSettings, symbol: string): RetentionPolicy =>
+  settings.overrides[symbol] ?? settings.defaults;
+
+export const retentionCutoffs = (policy: RetentionPolicy, now: number): RetentionCutoffs => ({
+  raw: now - policy.rawTickHours * HOUR_MS,
+  minute: now - policy.minuteBarDays * DAY_MS,
+  hour: now - policy.hourBarDays * DAY_MS,
+});
+
+// Roll trades into bars of one interval, oldest first; trades may span several symbols.
+export const downsampleTrades = (trades: TradeSample[], interval: CandleInterval): Candle[] =>
+  rollupCandles(trades.map(trade => candleFromTrade(trade, interval)), interval);
+
+// Fold bars into coarser bars of `interval`, oldest first.
+export const rollupCandles = (candles: Candle[], interval: CandleInterval): Candle[] => {
+  const buckets = new Map<string, Candle>();
+  candles.forEach(candle => {
+    const bar: Candle = { ...candle, interval, start: bucketStart(candle.start, interval) };
+    const key = `${candle.symbol}|${bar.start}`;
+    const existing = buckets.get(key);
+    buckets.set(key, existing ? mergeCandles(existing, bar) : bar);
+  });
+  return Array.from(buckets.values()).sort((a, b) => a.start - b.start || a.symbol.localeCompare(b.symbol));
+};
+
+export const estimateStorageBytes = (storage: SymbolStorage): number =>
+  STORAGE_TIERS.reduce((total, tier) => total + storage.rows[tier] * ROW_BYTES[tier], 0);
+
+/*
+ * Work out how many of the oldest rows to drop from each tier, across all symbols, to bring the estimated
+ * size back under the budget. Tiers are drained in TRIM_ORDER.
+ */
+export const planBudgetTrim = (storage: SymbolStorage[], budgetMb: number): BudgetTrim[] => {
+  const totals = Object.fromEntries(
+    STORAGE_TIERS.map(tier => [tier, storage.reduce((sum, item) => sum + item.rows[tier], 0)])
+  ) as Record<StorageTier, number>;
+  let excess = STORAGE_TIERS.reduce((sum, tier) => sum + totals[tier] * ROW_BYTES[tier], 0) - budgetMb * 1024 * 1024;
+
+  const plan: BudgetTrim[] = [];
+  for (const tier of TRIM_ORDER) {
+    if (excess <= 0) {
+      break;
+    }
+    const rows = Math.min(totals[tier], Math.ceil(excess / ROW_BYTES[tier]));
+    if (rows > 0) {
+      plan.push({ tier, rows });
+      excess -= rows * ROW_BYTES[tier];
+    }
+  }
+  return plan;
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
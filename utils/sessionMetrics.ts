@@ -0,0 +1,163 @@
+import { TimeRange } from './backfill';
+import { ExchangeCalendar } from './exchangeCalendars';
+import { typicalPrice } from './indicators';
+import { bucketStart, Candle } from './market';
+import { recentSessions } from './sessions';
+
+// 0 anchors the metrics to the trading session; any other value is a rolling window in minutes.
+export type MetricsBaseline = 0 | 15 | 60 | 240;
+
+export const METRICS_BASELINE_OPTIONS: Array<{ value: MetricsBaseline; label: string }> = [
+  { value: 0, label: 'Session' },
+  { value: 15, label: '15m' },
+  { value: 60, label: '1h' },
+  { value: 240, label: '4h' },
+];
+
+export const DEFAULT_METRICS_BASELINE: MetricsBaseline = 0;
+
+export const parseMetricsBaseline = (text: string | null): MetricsBaseline =>
+  METRICS_BASELINE_OPTIONS.find(option => String(option.value) === text)?.value ?? DEFAULT_METRICS_BASELINE;
+
+export type MetricsWindow = {
+  // 1-minute bars starting in this range give the open, high, low, volume and VWAP.
+  range: TimeRange;
+  // The previous session, whose last close is the baseline; null for a rolling window, which starts from its open.
+  previous: TimeRange | null;
+};
+
+// Low and high of a stored series over a range, and where the stored bars start.
+export type PriceRange = {
+  low: number;
+  high: number;
+  firstStart: number;
+};
+
+export type SessionMetrics = {
+  latest: number | null;
+  // Previous close in session mode, the window's first open otherwise.
+  baseline: number | null;
+  change: number | null;
+  percentage: number | null;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  volume: number;
+  vwap: number | null;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const YEAR_RANGE_MS = 52 * 7 * DAY_MS;
+// Holidays, and retention trimming the oldest hour, can leave the first stored bar a few days short of a year.
+const YEAR_RANGE_SLACK_MS = 7 * DAY_MS;
+
+/*
+ * What the metrics cover at `now`. A session runs over the regular hours of the exchange's latest session; symbols
+ * without a calendar (crypto, forex) trade around the clock and use the UTC day instead.
+ */
+export const metricsWindow = (
+  baseline: MetricsBaseline,
+  calendar: ExchangeCalendar | null,
+  now: number
+): MetricsWindow => {
+  if (baseline !== 0) {
+    return {
+      range: { from: bucketStart(now - baseline * MINUTE_MS, '1m'), to: bucketStart(now, '1m') + MINUTE_MS },
+      previous: null,
+    };
+  }
+  if (!calendar) {
+    const from = Math.floor(now / DAY_MS) * DAY_MS;
+    return { range: { from, to: from + DAY_MS }, previous: { from: from - DAY_MS, to: from } };
+  }
+  const { current, previous } = recentSessions(calendar, now);
+  if (!current) {
+    return { range: { from: now, to: now }, previous: null };
+  }
+  return {
+    range: { from: current.open, to: current.close },
+    previous: previous ? { from: previous.open, to: previous.close } : null,
+  };
+};
+
+const within = (bar: Candle, range: TimeRange) => bar.start >= range.from && bar.start < range.to;
+
+/*
+ * Metrics over chronological 1-minute bars. `fallbackClose` stands in for the previous close when that session's
+ * bars are not stored, e.g. the previous close of a REST quote.
+ */
+export const computeSessionMetrics = (
+  bars: Candle[],
+  window: MetricsWindow,
+  fallbackClose: number | null = null
+): SessionMetrics => {
+  const session = bars.filter(bar => within(bar, window.range));
+  const previous = window.previous;
+  const earlier = previous ? bars.filter(bar => within(bar, previous)) : [];
+  let baseline = session.length ? session[0].open : null;
+  if (previous) {
+    baseline = earlier.length ? earlier[earlier.length - 1].close : fallbackClose;
+  }
+  const latest = session.length ? session[session.length - 1].close : null;
+  const change = latest !== null && baseline !== null ? latest - baseline : null;
+
+  let volume = 0;
+  let weighted = 0;
+  session.forEach(bar => {
+    volume += bar.volume;
+    weighted += typicalPrice(bar) * bar.volume;
+  });
+
+  return {
+    latest,
+    baseline,
+    change,
+    percentage: change !== null && baseline ? (change / baseline) * 100 : null,
+    open: session.length ? session[0].open : null,
+    high: session.length ? Math.max(...session.map(bar => bar.high)) : null,
+    low: session.length ? Math.min(...session.map(bar => bar.low)) : null,
+    volume,
+    vwap: volume > 0 ? weighted / volume : null,
+  };
+};
+
+// Only a range whose stored bars reach back a year (after a backfill, or a year of use) counts as the 52-week range.
+export const fiftyTwoWeekRange = (range: PriceRange | null, now: number): { low: number; high: number } | null =>
+  range && range.firstStart <= now - YEAR_RANGE_MS + YEAR_RANGE_SLACK_MS ? { low: range.low, high: range.high } : null;
+
+// Compact volume: "950", "0.52", "12.4K", "3.1M".
+export const formatVolume = (volume: number): string => {
+  const units: Array<[number, string]> = [
+    [1e9, 'B'],
+    [1e6, 'M'],
+    [1e3, 'K'],
+  ];
+  const unit = units.find(([size]) => volume >= size);
+  if (unit) {
+    return `${Number((volume / unit[0]).toFixed(volume / unit[0] >= 100 ? 0 : 1))}${unit[1]}`;
+  }
+  return String(Number(volume.toFixed(2)));
+};
+
+// The line under the analytics row, e.g. "Open 101.20 · Range 99.80–102.40 · Vol 1.2M · VWAP 101.02".
+export const describeSessionMetrics = (
+  metrics: SessionMetrics,
+  yearRange: { low: number; high: number } | null
+): string | null => {
+  const parts: string[] = [];
+  if (metrics.open !== null && metrics.low !== null && metrics.high !== null) {
+    parts.push(`Open ${metrics.open.toFixed(2)}`, `Range ${metrics.low.toFixed(2)}–${metrics.high.toFixed(2)}`);
+  }
+  if (metrics.volume > 0) {
+    parts.push(`Vol ${formatVolume(metrics.volume)}`);
+  }
+  if (metrics.vwap !== null) {
+    parts.push(`VWAP ${metrics.vwap.toFixed(2)}`);
+  }
+  if (yearRange) {
+    parts.push(`52w ${yearRange.low.toFixed(2)}–${yearRange.high.toFixed(2)}`);
+  }
+  return parts.length ? parts.join(' · ') : null;
+};
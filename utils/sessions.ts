@@ -0,0 +1,245 @@
+import { ExchangeCalendar } from './exchangeCalendars';
+
+export type SessionPhase = 'closed' | 'pre' | 'regular' | 'lunch' | 'post';
+
+// One trading day's boundaries as epoch milliseconds; pre, lunch and post are null where the exchange has none.
+export type TradingDay = {
+  date: string;
+  preOpen: number | null;
+  open: number;
+  lunch: { start: number; end: number } | null;
+  close: number;
+  postClose: number | null;
+  earlyClose: boolean;
+};
+
+export type MarketSession = {
+  phase: SessionPhase;
+  // Why the exchange is shut all day (a holiday name or "the weekend"); null on trading days.
+  closedFor: string | null;
+  // When the current phase ends; null only if no trading day was found ahead.
+  phaseEndsAt: number | null;
+  // The next regular-session open after `now`.
+  nextOpen: number | null;
+  // Set while a half day is trading, so the banner can warn before the early close.
+  earlyClose: boolean;
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Longer than any run of closed days in the bundled tables (Golden Week plus a weekend).
+const MAX_CLOSED_DAYS = 10;
+
+type LocalTime = { date: string; minutes: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// Wall-clock fields in `timeZone`, read back as if they were UTC so the offset is a plain subtraction.
+const wallClockUtc = (timestamp: number, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone)
+    .formatToParts(new Date(timestamp))
+    .forEach(part => {
+      if (part.type !== 'literal') {
+        parts[part.type] = Number(part.value);
+      }
+    });
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const dateKey = (utcMidnight: number): string => {
+  const date = new Date(utcMidnight);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+const parseDateKey = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export const addDays = (date: string, days: number): string => dateKey(parseDateKey(date) + days * DAY_MS);
+
+export const localTime = (timestamp: number, timeZone: string): LocalTime => {
+  const wallClock = wallClockUtc(timestamp, timeZone);
+  const midnight = Math.floor(wallClock / DAY_MS) * DAY_MS;
+  return {
+    date: dateKey(midnight),
+    minutes: Math.round((wallClock - midnight) / MINUTE_MS),
+  };
+};
+
+/*
+ * The instant a local wall-clock time happens in `timeZone`. The offset is taken at a first guess and again at the
+ * result, which settles on the right side of a daylight saving change. A time skipped by the spring-forward gap lands
+ * an hour early and a repeated fall-back time resolves to its first occurrence; no session boundary falls in either.
+ */
+export const zonedTime = (date: string, minutes: number, timeZone: string): number => {
+  const wallClock = parseDateKey(date) + minutes * MINUTE_MS;
+  const firstGuess = wallClock - (wallClockUtc(wallClock, timeZone) - wallClock);
+  const offset = wallClockUtc(firstGuess, timeZone) - firstGuess;
+  return wallClock - offset;
+};
+
+const isWeekend = (date: string) => {
+  const weekday = new Date(parseDateKey(date)).getUTCDay();
+  return weekday === 0 || weekday === 6;
+};
+
+// Holiday name or "the weekend" when the exchange does not trade on `date`; null on trading days.
+export const closureReason = (calendar: ExchangeCalendar, date: string): string | null =>
+  calendar.holidays[date] ?? (isWeekend(date) ? 'the weekend' : null);
+
+/*
+ * Session boundaries for a local date, or null when the exchange is closed. On a half day the after-hours session
+ * keeps its usual length after the early close (NYSE's ends at 17:00 instead of 20:00).
+ */
+export const tradingDay = (calendar: ExchangeCalendar, date: string): TradingDay | null => {
+  if (closureReason(calendar, date) !== null) {
+    return null;
+  }
+  const { hours, timeZone } = calendar;
+  const close = calendar.earlyCloses[date] ?? hours.close;
+  const at = (minutes: number) => zonedTime(date, minutes, timeZone);
+  return {
+    date,
+    preOpen: hours.preOpen === null ? null : at(hours.preOpen),
+    open: at(hours.open),
+    lunch:
+      hours.lunch && hours.lunch.start < close ? { start: at(hours.lunch.start), end: at(hours.lunch.end) } : null,
+    close: at(close),
+    postClose: hours.postClose === null ? null : at(hours.postClose - (hours.close - close)),
+    earlyClose: close !== hours.close,
+  };
+};
+
+const phasesOf = (day: TradingDay): Array<{ phase: SessionPhase; start: number; end: number }> => {
+  const phases: Array<{ phase: SessionPhase; start: number; end: number }> = [];
+  if (day.preOpen !== null) {
+    phases.push({ phase: 'pre', start: day.preOpen, end: day.open });
+  }
+  if (day.lunch) {
+    phases.push({ phase: 'regular', start: day.open, end: day.lunch.start });
+    phases.push({ phase: 'lunch', start: day.lunch.start, end: day.lunch.end });
+    phases.push({ phase: 'regular', start: day.lunch.end, end: day.close });
+  } else {
+    phases.push({ phase: 'regular', start: day.open, end: day.close });
+  }
+  if (day.postClose !== null) {
+    phases.push({ phase: 'post', start: day.close, end: day.postClose });
+  }
+  return phases;
+};
+
+// Trading days from `date` onwards, stopping after a run of closed days longer than any in the tables.
+const upcomingDays = (calendar: ExchangeCalendar, date: string): TradingDay[] => {
+  const days: TradingDay[] = [];
+  for (let offset = 0; offset <= MAX_CLOSED_DAYS && days.length < 2; offset += 1) {
+    const day = tradingDay(calendar, addDays(date, offset));
+    if (day) {
+      days.push(day);
+    }
+  }
+  return days;
+};
+
+/*
+ * The latest trading day whose regular session has opened by `now`, and the trading day before it. Before the open
+ * and on closed days `current` is the last session that traded.
+ */
+export const recentSessions = (
+  calendar: ExchangeCalendar,
+  now: number
+): { current: TradingDay | null; previous: TradingDay | null } => {
+  const today = localTime(now, calendar.timeZone).date;
+  const days: TradingDay[] = [];
+  for (let offset = 0; offset <= 2 * MAX_CLOSED_DAYS && days.length < 2; offset += 1) {
+    const day = tradingDay(calendar, addDays(today, -offset));
+    if (day && day.open <= now) {
+      days.push(day);
+    }
+  }
+  return { current: days[0] ?? null, previous: days[1] ?? null };
+};
+
+// Where `calendar` stands at `now`, in the exchange's own time zone whatever the device is set to.
+export const marketSession = (calendar: ExchangeCalendar, now: number): MarketSession => {
+  const today = localTime(now, calendar.timeZone).date;
+  const days = upcomingDays(calendar, today);
+  const nextOpen = days.map(day => day.open).find(open => open > now) ?? null;
+  const current = days[0]?.date === today ? days[0] : null;
+  const phase = current ? phasesOf(current).find(item => now >= item.start && now < item.end) : undefined;
+  if (current && phase) {
+    return {
+      phase: phase.phase,
+      closedFor: null,
+      phaseEndsAt: phase.end,
+      nextOpen,
+      earlyClose: current.earlyClose,
+    };
+  }
+  // Closed: the next phase is the first one to start after now, pre-market included.
+  const nextStart = days.flatMap(phasesOf).find(item => item.start > now)?.start ?? null;
+  return {
+    phase: 'closed',
+    closedFor: closureReason(calendar, today),
+    phaseEndsAt: nextStart,
+    nextOpen,
+    earlyClose: false,
+  };
+};
+
+// Countdown text: "45m", "2h 14m", "1d 3h". Rounds up, so the last minute reads "1m" rather than "0m".
+export const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.max(Math.ceil(ms / MINUTE_MS), 0);
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  }
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+  return `${minutes}m`;
+};
+
+// Banner text such as "Opens in 2h 14m" or "Closed for Thanksgiving · opens in 1d 17h".
+export const describeSession = (session: MarketSession, now: number): string => {
+  const until = (timestamp: number | null) => (timestamp === null ? '' : ` in ${formatDuration(timestamp - now)}`);
+  switch (session.phase) {
+    case 'pre':
+      return `Pre-market · opens${until(session.phaseEndsAt)}`;
+    case 'regular':
+      return `${session.earlyClose ? 'Early close' : 'Open'} · closes${until(session.phaseEndsAt)}`;
+    case 'lunch':
+      return `Lunch break · reopens${until(session.phaseEndsAt)}`;
+    case 'post':
+      return `After hours · ends${until(session.phaseEndsAt)}`;
+    case 'closed':
+      if (session.closedFor) {
+        return session.nextOpen === null
+          ? `Closed for ${session.closedFor}`
+          : `Closed for ${session.closedFor} · opens${until(session.nextOpen)}`;
+      }
+      return session.nextOpen === null ? 'Closed' : `Opens${until(session.nextOpen)}`;
+  }
+};
@@ -0,0 +1,229 @@
+import { normalizeSymbol } from './market';
+
+// One entry of the symbol directory: Finnhub's search results, or the list bundled for offline use.
+export type SymbolInfo = {
+  symbol: string;
+  description: string;
+  exchange: string;
+  type: string;
+};
+
+const stock = (symbol: string, description: string, exchange: string, type = 'Common Stock'): SymbolInfo => ({
+  symbol,
+  description,
+  exchange,
+  type,
+});
+
+const pair = (symbol: string, description: string, type: string): SymbolInfo => ({
+  symbol,
+  description,
+  exchange: symbol.slice(0, symbol.indexOf(':')),
+  type,
+});
+
+// Popular tickers and pairs so autocomplete and validation work without a token or a network.
+export const POPULAR_SYMBOLS: SymbolInfo[] = [
+  stock('AAPL', 'Apple Inc', 'NASDAQ'),
+  stock('MSFT', 'Microsoft Corp', 'NASDAQ'),
+  stock('NVDA', 'NVIDIA Corp', 'NASDAQ'),
+  stock('AMZN', 'Amazon.com Inc', 'NASDAQ'),
+  stock('GOOGL', 'Alphabet Inc Class A', 'NASDAQ'),
+  stock('GOOG', 'Alphabet Inc Class C', 'NASDAQ'),
+  stock('META', 'Meta Platforms Inc', 'NASDAQ'),
+  stock('TSLA', 'Tesla Inc', 'NASDAQ'),
+  stock('AMD', 'Advanced Micro Devices Inc', 'NASDAQ'),
+  stock('INTC', 'Intel Corp', 'NASDAQ'),
+  stock('NFLX', 'Netflix Inc', 'NASDAQ'),
+  stock('ADBE', 'Adobe Inc', 'NASDAQ'),
+  stock('AVGO', 'Broadcom Inc', 'NASDAQ'),
+  stock('COST', 'Costco Wholesale Corp', 'NASDAQ'),
+  stock('PEP', 'PepsiCo Inc', 'NASDAQ'),
+  stock('CSCO', 'Cisco Systems Inc', 'NASDAQ'),
+  stock('QCOM', 'Qualcomm Inc', 'NASDAQ'),
+  stock('PYPL', 'PayPal Holdings Inc', 'NASDAQ'),
+  stock('BRK.B', 'Berkshire Hathaway Inc Class B', 'NYSE'),
+  stock('JPM', 'JPMorgan Chase & Co', 'NYSE'),
+  stock('BAC', 'Bank of America Corp', 'NYSE'),
+  stock('V', 'Visa Inc', 'NYSE'),
+  stock('MA', 'Mastercard Inc', 'NYSE'),
+  stock('WMT', 'Walmart Inc', 'NYSE'),
+  stock('JNJ', 'Johnson & Johnson', 'NYSE'),
+  stock('PG', 'Procter & Gamble Co', 'NYSE'),
+  stock('KO', 'Coca-Cola Co', 'NYSE'),
+  stock('XOM', 'Exxon Mobil Corp', 'NYSE'),
+  stock('DIS', 'Walt Disney Co', 'NYSE'),
+  stock('NKE', 'Nike Inc', 'NYSE'),
+  stock('BA', 'Boeing Co', 'NYSE'),
+  stock('UBER', 'Uber Technologies Inc', 'NYSE'),
+  stock('ORCL', 'Oracle Corp', 'NYSE'),
+  stock('CRM', 'Salesforce Inc', 'NYSE'),
+  stock('SPY', 'SPDR S&P 500 ETF Trust', 'NYSE ARCA', 'ETP'),
+  stock('QQQ', 'Invesco QQQ Trust', 'NASDAQ', 'ETP'),
+  stock('IWM', 'iShares Russell 2000 ETF', 'NYSE ARCA', 'ETP'),
+  stock('DIA', 'SPDR Dow Jones Industrial Average ETF', 'NYSE ARCA', 'ETP'),
+  stock('GLD', 'SPDR Gold Shares', 'NYSE ARCA', 'ETP'),
+  pair('BINANCE:BTCUSDT', 'Bitcoin / Tether', 'Crypto'),
+  pair('BINANCE:ETHUSDT', 'Ethereum / Tether', 'Crypto'),
+  pair('BINANCE:SOLUSDT', 'Solana / Tether', 'Crypto'),
+  pair('BINANCE:BNBUSDT', 'BNB / Tether', 'Crypto'),
+  pair('BINANCE:XRPUSDT', 'XRP / Tether', 'Crypto'),
+  pair('BINANCE:ADAUSDT', 'Cardano / Tether', 'Crypto'),
+  pair('BINANCE:DOGEUSDT', 'Dogecoin / Tether', 'Crypto'),
+  pair('BINANCE:LTCUSDT', 'Litecoin / Tether', 'Crypto'),
+  pair('BINANCE:ETHBTC', 'Ethereum / Bitcoin', 'Crypto'),
+  pair('COINBASE:BTC-USD', 'Bitcoin / US Dollar', 'Crypto'),
+  pair('COINBASE:ETH-USD', 'Ethereum / US Dollar', 'Crypto'),
+  pair('OANDA:EUR_USD', 'Euro / US Dollar', 'Forex'),
+  pair('OANDA:GBP_USD', 'British Pound / US Dollar', 'Forex'),
+  pair('OANDA:USD_JPY', 'US Dollar / Japanese Yen', 'Forex'),
+  pair('OANDA:AUD_USD', 'Australian Dollar / US Dollar', 'Forex'),
+  pair('OANDA:USD_CAD', 'US Dollar / Canadian Dollar', 'Forex'),
+];
+
+// A ticker, optionally behind an `EXCHANGE:` prefix; the characters cover share classes (BRK.B), pairs and indices.
+const SYMBOL_PATTERN = /^([A-Z0-9]+:)?[A-Z0-9^][A-Z0-9._\-=/]*$/;
+const MAX_SYMBOL_LENGTH = 30;
+
+export const isWellFormedSymbol = (symbol: string): boolean =>
+  symbol.length <= MAX_SYMBOL_LENGTH && SYMBOL_PATTERN.test(symbol);
+
+// Finnhub's suffixes for the non-US markets it lists, e.g. VOD.L or 7203.T.
+const MARKET_SUFFIXES: Record<string, string> = {
+  L: 'LSE',
+  DE: 'XETRA',
+  PA: 'EURONEXT',
+  AS: 'EURONEXT',
+  SW: 'SIX',
+  TO: 'TSX',
+  T: 'TSE',
+  HK: 'HKEX',
+  AX: 'ASX',
+};
+
+// Finnhub search results carry no exchange; it is read from the `EXCHANGE:` prefix or the market suffix.
+export const exchangeOf = (symbol: string): string => {
+  const separator = symbol.indexOf(':');
+  if (separator > 0) {
+    return symbol.slice(0, separator);
+  }
+  const suffix = symbol.lastIndexOf('.');
+  return (suffix > 0 && MARKET_SUFFIXES[symbol.slice(suffix + 1)]) || 'US';
+};
+
+const tickerOf = (symbol: string): string => symbol.slice(symbol.indexOf(':') + 1);
+
+// Lower is better; null when the entry does not match at all.
+const matchScore = (query: string, info: SymbolInfo): number | null => {
+  if (info.symbol === query) {
+    return 0;
+  }
+  if (info.symbol.startsWith(query)) {
+    return 1;
+  }
+  if (tickerOf(info.symbol).startsWith(tickerOf(query))) {
+    return 2;
+  }
+  const description = info.description.toUpperCase();
+  if (description.startsWith(query) || description.includes(` ${query}`)) {
+    return 3;
+  }
+  return info.symbol.includes(query) ? 4 : null;
+};
+
+/*
+ * Directory entries matching what is typed, best first: the exact symbol, symbols and tickers starting with the
+ * query, then names with a word starting with it. The first entry for a symbol wins, so callers list their most
+ * trusted source first.
+ */
+export const matchSymbols = (query: string, candidates: SymbolInfo[], limit: number): SymbolInfo[] => {
+  const normalized = normalizeSymbol(query);
+  if (!normalized) {
+    return [];
+  }
+  const unique = new Map<string, SymbolInfo>();
+  candidates.forEach(info => {
+    if (!unique.has(info.symbol)) {
+      unique.set(info.symbol, info);
+    }
+  });
+  return Array.from(unique.values())
+    .map(info => ({ info, score: matchScore(normalized, info) }))
+    .filter((entry): entry is { info: SymbolInfo; score: number } => entry.score !== null)
+    .sort(
+      (a, b) =>
+        a.score - b.score || a.info.symbol.length - b.info.symbol.length || a.info.symbol.localeCompare(b.info.symbol)
+    )
+    .slice(0, limit)
+    .map(entry => entry.info);
+};
+
+// Optimal string alignment distance: edits plus swaps of neighbouring characters, which covers most ticker typos.
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (__, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// "Did you mean" candidates for a symbol nothing knows: one edit away, or two for tickers of eight characters or more.
+export const closestSymbols = (symbol: string, candidates: SymbolInfo[], limit: number): SymbolInfo[] => {
+  const ticker = tickerOf(normalizeSymbol(symbol));
+  const allowed = ticker.length >= 8 ? 2 : 1;
+  return candidates
+    .map(info => ({ info, distance: editDistance(ticker, tickerOf(info.symbol)) }))
+    .filter(entry => entry.distance > 0 && entry.distance <= allowed)
+    .sort((a, b) => a.distance - b.distance || a.info.symbol.localeCompare(b.info.symbol))
+    .slice(0, limit)
+    .map(entry => entry.info);
+};
+
+export type SilenceMonitor = {
+  // Track the subscribed symbols; new ones start their clock at `now`, dropped ones are forgotten.
+  watch: (symbols: string[], now: number) => void;
+  trade: (symbol: string) => void;
+  // Restart every clock, e.g. when the feed comes back: nothing can arrive while it is down.
+  restart: (now: number) => void;
+  // Subscribed symbols that have not had a single trade within `timeoutMs` of their clock starting.
+  silent: (now: number) => string[];
+};
+
+// A subscription that never delivers usually means a symbol the vendor does not stream, or a closed market.
+export const createSilenceMonitor = (timeoutMs: number): SilenceMonitor => {
+  const watched = new Map<string, { since: number; heard: boolean }>();
+
+  return {
+    watch: (symbols, now) => {
+      Array.from(watched.keys())
+        .filter(symbol => !symbols.includes(symbol))
+        .forEach(symbol => watched.delete(symbol));
+      symbols
+        .filter(symbol => !watched.has(symbol))
+        .forEach(symbol => watched.set(symbol, { since: now, heard: false }));
+    },
+    trade: symbol => {
+      const entry = watched.get(symbol);
+      if (entry) {
+        entry.heard = true;
+      }
+    },
+    restart: now => {
+      watched.forEach(entry => {
+        entry.since = now;
+      });
+    },
+    silent: now =>
+      Array.from(watched.entries())
+        .filter(([, entry]) => !entry.heard && now - entry.since >= timeoutMs)
+        .map(([symbol]) => symbol),
+  };
+};
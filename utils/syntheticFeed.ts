@@ -0,0 +1,97 @@
+import { Clock, systemClock, TimerHandle } from './feedClient';
+import { createProviderEvents, MarketDataProvider, SyntheticSettings } from './marketData';
+
+export type SyntheticProviderOptions = SyntheticSettings & {
+  // Starting prices; other symbols start from a price derived from their name.
+  initialPrices?: Record<string, number>;
+  clock?: Clock;
+  random?: () => number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A stable starting price between 20 and 500 so every symbol looks different but repeatable.
+export const seedPrice = (symbol: string): number => {
+  const hash = Array.from(symbol).reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) % 100_003, 7);
+  return 20 + (hash % 48_000) / 100;
+};
+
+// Standard normal sample via Box-Muller.
+export const normalSample = (random: () => number): number => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/*
+ * One geometric Brownian motion step: price * exp((mu - sigma^2 / 2) dt + sigma sqrt(dt) z), with drift and
+ * volatility given per hour and `dtMs` the step length.
+ */
+export const gbmStep = (
+  price: number,
+  dtMs: number,
+  settings: Pick<SyntheticSettings, 'driftPctPerHour' | 'volatilityPctPerHour'>,
+  z: number
+): number => {
+  const dt = dtMs / HOUR_MS;
+  const mu = settings.driftPctPerHour / 100;
+  const sigma = settings.volatilityPctPerHour / 100;
+  return price * Math.exp((mu - (sigma * sigma) / 2) * dt + sigma * Math.sqrt(dt) * z);
+};
+
+// Generates a random-walk trade for every subscribed symbol on each tick, entirely offline.
+export const createSyntheticProvider = (options: SyntheticProviderOptions): MarketDataProvider => {
+  const clock = options.clock ?? systemClock;
+  const random = options.random ?? Math.random;
+  const intervalMs = 1000 / options.ticksPerSecond;
+  const events = createProviderEvents();
+  const prices = new Map<string, number>(Object.entries(options.initialPrices ?? {}));
+
+  let symbols: string[] = [];
+  let timer: TimerHandle | null = null;
+  let lastMessageAt: number | null = null;
+
+  const tick = () => {
+    timer = clock.setTimeout(tick, intervalMs);
+    const timestamp = clock.now();
+    lastMessageAt = timestamp;
+    symbols.forEach(symbol => {
+      const previous = prices.get(symbol) ?? seedPrice(symbol);
+      const price = gbmStep(previous, intervalMs, options, normalSample(random));
+      prices.set(symbol, price);
+      events.emitTrade({
+        symbol,
+        price: Math.round(price * 100) / 100,
+        timestamp,
+        volume: Math.max(1, Math.round(random() * 100)),
+      });
+    });
+  };
+
+  const start = () => {
+    if (timer !== null) {
+      return;
+    }
+    events.setStatus({ state: 'open', attempt: 0, nextRetryAt: null });
+    timer = clock.setTimeout(tick, intervalMs);
+  };
+
+  return {
+    connect: start,
+    retryNow: start,
+    disconnect: () => {
+      if (timer !== null) {
+        clock.clearTimeout(timer);
+        timer = null;
+      }
+      events.setStatus({ state: 'closed' });
+    },
+    setSymbols: next => {
+      symbols = Array.from(new Set(next));
+    },
+    getStatus: events.getStatus,
+    getLastMessageAt: () => lastMessageAt,
+    onTrade: events.onTrade,
+    onStatus: events.onStatus,
+  };
+};
@@ -0,0 +1,104 @@
+import { Clock, systemClock } from './feedClient';
+
+// 0 means "once per animation frame"; any other value is a fixed interval in milliseconds.
+export type UiRefreshMs = 0 | 100 | 250 | 500 | 1000;
+
+export const UI_REFRESH_OPTIONS: Array<{ value: UiRefreshMs; label: string }> = [
+  { value: 0, label: 'Every frame' },
+  { value: 100, label: '100 ms' },
+  { value: 250, label: '250 ms' },
+  { value: 500, label: '500 ms' },
+  { value: 1000, label: '1 s' },
+];
+
+export const DEFAULT_UI_REFRESH_MS: UiRefreshMs = 250;
+
+export const parseUiRefreshMs = (text: string | null): UiRefreshMs =>
+  UI_REFRESH_OPTIONS.find(option => String(option.value) === text)?.value ?? DEFAULT_UI_REFRESH_MS;
+
+export type FrameScheduler = {
+  request: (callback: () => void) => number;
+  cancel: (handle: number) => void;
+};
+
+const animationFrames: FrameScheduler = {
+  request: callback => requestAnimationFrame(callback),
+  cancel: handle => cancelAnimationFrame(handle),
+};
+
+export type TickBufferOptions<T> = {
+  refreshMs: UiRefreshMs;
+  // Receives everything pushed since the previous flush, oldest first.
+  onFlush: (items: T[]) => void;
+  clock?: Clock;
+  frames?: FrameScheduler;
+};
+
+export type TickBuffer<T> = {
+  push: (item: T) => void;
+  setRefreshMs: (refreshMs: UiRefreshMs) => void;
+  // Drop anything pending and stop the timer.
+  dispose: () => void;
+};
+
+/*
+ * Collect items arriving at feed speed and hand them over in one batch per frame or interval, so the UI commits
+ * state at its refresh rate rather than once per trade. A timer only runs while something is pending.
+ */
+export const createTickBuffer = <T>(options: TickBufferOptions<T>): TickBuffer<T> => {
+  const { onFlush } = options;
+  const clock = options.clock ?? systemClock;
+  const frames = options.frames ?? animationFrames;
+
+  let refreshMs = options.refreshMs;
+  let pending: T[] = [];
+  let cancel: (() => void) | null = null;
+
+  const flush = () => {
+    cancel = null;
+    const batch = pending;
+    pending = [];
+    if (batch.length) {
+      onFlush(batch);
+    }
+  };
+
+  const schedule = () => {
+    if (cancel) {
+      return;
+    }
+    if (refreshMs === 0) {
+      const handle = frames.request(flush);
+      cancel = () => frames.cancel(handle);
+      return;
+    }
+    const handle = clock.setTimeout(flush, refreshMs);
+    cancel = () => clock.clearTimeout(handle);
+  };
+
+  const stop = () => {
+    cancel?.();
+    cancel = null;
+  };
+
+  return {
+    push: item => {
+      pending.push(item);
+      schedule();
+    },
+    setRefreshMs: next => {
+      if (next === refreshMs) {
+        return;
+      }
+      refreshMs = next;
+      if (cancel) {
+        stop();
+        schedule();
+      }
+    },
+    dispose: () => {
+      stop();
+      pending = [];
+    },
+  };
+};
@@ -0,0 +1,230 @@
+import { ExportFormatError, ExportRowError, parseCsv, parseExport } from './exportFormat';
+import { FeedTrade } from './feedClient';
+
+// Where a trade file came from, as told by its shape.
+export type TradeFileSource = 'export' | 'binance' | 'polygon' | 'alpaca' | 'generic';
+
+export const TRADE_FILE_SOURCE_LABELS: Record<TradeFileSource, string> = {
+  export: 'exported',
+  binance: 'Binance',
+  polygon: 'Polygon',
+  alpaca: 'Alpaca',
+  generic: 'CSV/JSON',
+};
+
+// `tradeId` is the vendor's id for the fill, when the file carries one.
+export type ImportedTrade = FeedTrade & { tradeId?: string };
+
+export type ParsedTradeFile = {
+  source: TradeFileSource;
+  trades: ImportedTrade[];
+  errors: ExportRowError[];
+};
+
+type Row = Record<string, unknown>;
+
+// Header names each field goes by across vendors, tried in order; headers are compared in lower case.
+const FIELD_NAMES = {
+  symbol: ['symbol', 'ticker', 'sym', 'instrument'],
+  price: ['price', 'p', 'trade_price'],
+  volume: ['volume', 'size', 'qty', 'quantity', 'amount'],
+  timestamp: ['timestamp', 'sip_timestamp', 'participant_timestamp', 'transact_time', 'time', 't', 'datetime', 'date'],
+  tradeId: ['id', 'agg_trade_id', 'trade_id'],
+};
+
+// data.binance.vision dumps ship without a header row in older files.
+const BINANCE_TRADE_COLUMNS = ['id', 'price', 'qty', 'quote_qty', 'time', 'is_buyer_maker', 'is_best_match'];
+const BINANCE_AGG_TRADE_COLUMNS = [
+  'agg_trade_id',
+  'price',
+  'quantity',
+  'first_trade_id',
+  'last_trade_id',
+  'transact_time',
+  'is_buyer_maker',
+  'is_best_match',
+];
+
+const pick = (row: Row, names: string[]): unknown => {
+  const name = names.find(candidate => row[candidate] !== undefined && row[candidate] !== '');
+  return name === undefined ? undefined : row[name];
+};
+
+const ISO_WITHOUT_ZONE = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/*
+ * Epoch numbers in seconds, milliseconds, microseconds or nanoseconds, told apart by size (every cut-off is
+ * centuries away in the other unit), or ISO 8601 text, read as UTC when it carries no offset.
+ */
+export const readTimestamp = (value: unknown): number | null => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  const number = typeof value === 'number' ? value : /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : NaN;
+  if (Number.isFinite(number)) {
+    const magnitude = Math.abs(number);
+    if (magnitude < 1e11) {
+      return Math.round(number * 1000);
+    }
+    return Math.round(number / (magnitude < 1e14 ? 1 : magnitude < 1e17 ? 1e3 : 1e6));
+  }
+  if (!text) {
+    return null;
+  }
+  const parsed = Date.parse(ISO_WITHOUT_ZONE.test(text) ? `${text.replace(' ', 'T')}Z` : text);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const readNumber = (value: unknown): number => {
+  if (typeof value === 'number') {
+    return value;
+  }
+  return typeof value === 'string' && value.trim() ? Number(value) : NaN;
+};
+
+const readTrade = (row: Row, fallbackSymbol: string | null): ImportedTrade | string => {
+  const named = pick(row, FIELD_NAMES.symbol);
+  const symbol = typeof named === 'string' && named.trim() ? named.trim() : fallbackSymbol;
+  if (!symbol) {
+    return 'missing symbol';
+  }
+  const rawPrice = pick(row, FIELD_NAMES.price);
+  const price = readNumber(rawPrice);
+  if (!Number.isFinite(price)) {
+    return `invalid price: ${JSON.stringify(rawPrice) ?? 'missing'}`;
+  }
+  if (price <= 0) {
+    return 'price must be positive';
+  }
+  const rawTime = pick(row, FIELD_NAMES.timestamp);
+  const timestamp = readTimestamp(rawTime);
+  if (timestamp === null || timestamp < 0) {
+    return `invalid timestamp: ${JSON.stringify(rawTime) ?? 'missing'}`;
+  }
+  const rawVolume = pick(row, FIELD_NAMES.volume);
+  const volume = rawVolume === undefined ? 0 : readNumber(rawVolume);
+  if (!Number.isFinite(volume) || volume < 0) {
+    return `invalid volume: ${JSON.stringify(rawVolume)}`;
+  }
+  const rawId = pick(row, FIELD_NAMES.tradeId);
+  const trade: ImportedTrade = { symbol, price, timestamp, volume };
+  if (typeof rawId === 'number' || (typeof rawId === 'string' && rawId.trim())) {
+    trade.tradeId = String(rawId).trim();
+  }
+  return trade;
+};
+
+const lowerKeys = (row: unknown): Row =>
+  typeof row === 'object' && row !== null
+    ? Object.fromEntries(Object.entries(row).map(([key, value]) => [key.toLowerCase(), value]))
+    : {};
+
+const withSymbol = (rows: unknown[], symbol: unknown): Row[] =>
+  rows.map(row => {
+    const lowered = lowerKeys(row);
+    return typeof symbol === 'string' && lowered.symbol === undefined ? { ...lowered, symbol } : lowered;
+  });
+
+// Alpaca's historical trade responses: {symbol, trades: [...]} for one symbol, {trades: {AAPL: [...]}} for several.
+const alpacaRows = (body: Row): Row[] => {
+  const trades = body.trades;
+  const entries: Array<[unknown, unknown]> = Array.isArray(trades)
+    ? [[body.symbol, trades]]
+    : Object.entries(trades as Row);
+  return entries.flatMap(([symbol, items]) =>
+    (Array.isArray(items) ? items : []).map(item => {
+      const trade = (typeof item === 'object' && item !== null ? item : {}) as Row;
+      return { symbol, price: trade.p, volume: trade.s, timestamp: trade.t, id: trade.i };
+    })
+  );
+};
+
+const jsonSource = (text: string): { source: TradeFileSource; rows: Row[] } => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (err) {
+    throw new ExportFormatError(`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  if (Array.isArray(document)) {
+    return { source: 'generic', rows: document.map(lowerKeys) };
+  }
+  const body = (document ?? {}) as Row;
+  // Polygon's /v3/trades pages; the ticker is only in the request, so it usually has to be supplied.
+  if (Array.isArray(body.results)) {
+    return { source: 'polygon', rows: withSymbol(body.results, body.ticker) };
+  }
+  if (typeof body.trades === 'object' && body.trades !== null) {
+    return { source: 'alpaca', rows: alpacaRows(body) };
+  }
+  throw new ExportFormatError('Not a recognized trade file.');
+};
+
+const csvSource = (text: string): { source: TradeFileSource; rows: Row[] } => {
+  const lines = parseCsv(text);
+  const first = lines[0] ?? [];
+  if (first.length && /^\d+$/.test(first[0].trim())) {
+    // A trade dump has the buyer-maker flag in the sixth column, an aggregate-trade dump its time.
+    const tradeDump = /^(true|false)$/i.test(first[5]?.trim() ?? '');
+    const columns = tradeDump ? BINANCE_TRADE_COLUMNS : BINANCE_AGG_TRADE_COLUMNS;
+    return {
+      source: 'binance',
+      rows: lines.map(cells => Object.fromEntries(columns.map((name, index) => [name, cells[index]]))),
+    };
+  }
+  const names = first.map(name => name.trim().toLowerCase());
+  if (!FIELD_NAMES.price.some(name => names.includes(name))) {
+    throw new ExportFormatError(`No price column in the header: ${first.join(', ')}.`);
+  }
+  if (!FIELD_NAMES.timestamp.some(name => names.includes(name))) {
+    throw new ExportFormatError(`No time column in the header: ${first.join(', ')}.`);
+  }
+  let source: TradeFileSource = 'generic';
+  if (names.includes('is_buyer_maker')) {
+    source = 'binance';
+  } else if (names.includes('sip_timestamp')) {
+    source = 'polygon';
+  }
+  return {
+    source,
+    rows: lines.slice(1).map(cells => Object.fromEntries(names.map((name, index) => [name, cells[index] ?? '']))),
+  };
+};
+
+const isOwnExport = (text: string): boolean => {
+  if (text.startsWith('{')) {
+    return /^\{\s*"format"\s*:\s*"price-updates-export"/.test(text);
+  }
+  const header = (parseCsv(text.split('\n', 1)[0])[0] ?? []).map(name => name.trim().toLowerCase());
+  return ['symbol', 'timestamp', 'price', 'volume'].every(name => header.includes(name));
+};
+
+/*
+ * Read trades from our own export or a vendor file: Binance trade and aggregate-trade CSV dumps, Polygon trade JSON
+ * and flat files, Alpaca trade JSON, or any CSV or JSON array with price and time columns under a common name.
+ * `fallbackSymbol` stands in for files that do not name the symbol. Bad rows are reported with their position;
+ * a file that is not a trade file at all throws ExportFormatError.
+ */
+export const parseTradeFile = (text: string, fallbackSymbol: string | null): ParsedTradeFile => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (!trimmed) {
+    return { source: 'generic', trades: [], errors: [] };
+  }
+  if (isOwnExport(trimmed)) {
+    const parsed = parseExport('trades', trimmed);
+    return { source: 'export', trades: parsed.records, errors: parsed.errors };
+  }
+  const isJson = trimmed.startsWith('{') || trimmed.startsWith('[');
+  const { source, rows } = isJson ? jsonSource(trimmed) : csvSource(trimmed);
+  if (!fallbackSymbol && rows.length && rows.every(row => pick(row, FIELD_NAMES.symbol) === undefined)) {
+    throw new ExportFormatError('The file does not name its symbol; choose one to import it under.');
+  }
+  const parsed: ParsedTradeFile = { source, trades: [], errors: [] };
+  rows.forEach((row, index) => {
+    const result = readTrade(row, fallbackSymbol);
+    if (typeof result === 'string') {
+      parsed.errors.push({ row: index + 1, message: result });
+    } else {
+      parsed.trades.push(result);
+    }
+  });
+  return parsed;
+};